@@ -63,4 +63,17 @@ export default defineConfig([
             }],
         },
     },
+    {
+        // Matcher type augmentations merge the interfaces of the test frameworks with `HappyRustyMatchers`,
+        // including those of the global `jest` namespace
+        files: ['src/testing/*.ts'],
+        rules: {
+            '@typescript-eslint/no-empty-object-type': ['error', {
+                allowInterfaces: 'with-single-extends',
+            }],
+            '@typescript-eslint/no-namespace': ['error', {
+                allowDeclarations: true,
+            }],
+        },
+    },
 ]);
@@ -3,12 +3,20 @@ import { dts } from 'rollup-plugin-dts';
 
 const config: RollupOptions[] = [
     {
-        input: 'src/mod.ts',
+        input: {
+            types: 'src/mod.ts',
+            testing: 'src/testing/mod.ts',
+            vitest: 'src/testing/vitest.ts',
+            jest: 'src/testing/jest.ts',
+        },
+        external: ['vitest'],
         plugins: [
             dts(),
         ],
         output: {
-            file: 'dist/types.d.ts',
+            dir: 'dist',
+            entryFileNames: '[name].d.ts',
+            chunkFileNames: 'chunks/[name]-[hash].d.ts',
             format: 'esm',
             sourcemap: false,
         },
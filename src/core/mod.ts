@@ -1,8 +1,10 @@
 /**
  * @module
  * Main entry point for the core module.
- * Re-exports all public APIs from Option and Result submodules.
+ * Re-exports all public APIs from Option, Result, Validation and panic submodules.
  */
 export * from './option/mod.ts';
+export * from './panic/mod.ts';
 export * from './prelude.ts';
 export * from './result/mod.ts';
+export * from './validation/mod.ts';
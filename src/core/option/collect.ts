@@ -0,0 +1,96 @@
+/**
+ * @module
+ * Collection combinators for `Option`, the JavaScript counterpart of Rust's `collect::<Option<_>>()`.
+ *
+ * The functions here are exposed publicly as `Option.all`, `Option.any` and their async versions.
+ * Note: This module is not re-exported from the Option module entry point.
+ */
+import { assertOption } from '../../internal/assert.ts';
+import { assertConcurrency, runTasks, shapeLike, valuesOf, type Task } from '../../internal/collection.ts';
+import { None, Some } from '../prelude.ts';
+import type { ConcurrencyOptions } from '../result/result.ts';
+import type { AsyncOption, AsyncOptionCollection, AsyncOptionTask, Option, OptionCollection, SomeValues } from './option.ts';
+
+/**
+ * Collects the contained values of a collection of `Option`s.
+ *
+ * @see OptionStatic.all
+ */
+export function all<const R extends OptionCollection>(options: R): Option<SomeValues<R>> {
+    const values: unknown[] = [];
+
+    for (const option of valuesOf<unknown>(options)) {
+        assertOption(option);
+        if (option.isNone()) {
+            return None;
+        }
+        values.push(option.unwrap());
+    }
+
+    return Some(shapeLike(options, values) as SomeValues<R>);
+}
+
+/**
+ * Collects the contained values of a collection of `AsyncOptionTask`s concurrently.
+ *
+ * @see OptionStatic.allAsync
+ */
+export async function allAsync<const R extends AsyncOptionCollection>(options: R, config?: ConcurrencyOptions): AsyncOption<SomeValues<R>> {
+    const { concurrency = Infinity } = config ?? {};
+    assertConcurrency(concurrency);
+
+    const tasks = valuesOf<Task<unknown>>(options);
+    const values: unknown[] = new Array(tasks.length);
+    let missing = false;
+
+    await runTasks(tasks, concurrency, (option, index) => {
+        assertOption(option);
+        if (option.isNone()) {
+            missing = true;
+            return true;
+        }
+        values[index] = option.unwrap();
+        return false;
+    });
+
+    return missing ? None : Some(shapeLike(options, values) as SomeValues<R>);
+}
+
+/**
+ * Returns the first `Some` of an array of `Option`s.
+ *
+ * @see OptionStatic.any
+ */
+export function any<const R extends readonly Option<unknown>[]>(options: R): Option<SomeValues<R>[number]> {
+    for (const option of options) {
+        assertOption<SomeValues<R>[number]>(option);
+        if (option.isSome()) {
+            return option;
+        }
+    }
+
+    return None;
+}
+
+/**
+ * Returns the first `Some` of an array of `AsyncOptionTask`s to settle.
+ *
+ * @see OptionStatic.anyAsync
+ */
+export async function anyAsync<const R extends readonly AsyncOptionTask<unknown>[]>(options: R, config?: ConcurrencyOptions): AsyncOption<SomeValues<R>[number]> {
+    const { concurrency = Infinity } = config ?? {};
+    assertConcurrency(concurrency);
+
+    let found: Option<SomeValues<R>[number]> = None;
+
+    await runTasks<unknown>(options, concurrency, option => {
+        assertOption<SomeValues<R>[number]>(option);
+        if (option.isSome()) {
+            found = option;
+            return true;
+        }
+        return false;
+    });
+
+    return found;
+}
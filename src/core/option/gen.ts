@@ -0,0 +1,47 @@
+/**
+ * @module
+ * Generator-based do-notation for `Option`, the JavaScript counterpart of Rust's `?` operator.
+ *
+ * The functions here are exposed publicly as `Option.gen` and `Option.genAsync`.
+ * Note: This module is not re-exported from the Option module entry point.
+ */
+import { None, Some } from '../prelude.ts';
+import type { AsyncOption, Option } from './option.ts';
+
+/**
+ * Drives an `Option.gen` body.
+ *
+ * `yield* option` in the body yields nothing for a `Some`, and yields `None`, which is returned.
+ *
+ * @see OptionStatic.gen
+ */
+export function gen<T>(body: () => Generator<None, T, unknown>): Option<T> {
+    const iterator = body();
+    const step = iterator.next();
+
+    if (step.done) {
+        return Some(step.value);
+    }
+
+    // Run pending `finally` blocks of the body before short-circuiting
+    iterator.return(undefined as T);
+    return None;
+}
+
+/**
+ * Drives an `Option.genAsync` body.
+ *
+ * @see OptionStatic.genAsync
+ */
+export async function genAsync<T>(body: () => AsyncGenerator<None, T, unknown>): AsyncOption<T> {
+    const iterator = body();
+    const step = await iterator.next();
+
+    if (step.done) {
+        return Some(step.value);
+    }
+
+    // Run pending `finally` blocks of the body before short-circuiting
+    await iterator.return(undefined as T);
+    return None;
+}
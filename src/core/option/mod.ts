@@ -6,3 +6,4 @@
 export * from './extensions.ts';
 export * from './guards.ts';
 export * from './option.ts';
+export * from './option_async.ts';
@@ -3,7 +3,13 @@
  * A Rust-inspired [Option](https://doc.rust-lang.org/std/option/index.html) enum type, used as an alternative to the use of null and undefined.
  */
 
-import type { Result } from '../result/result.ts';
+import type { InspectFunction, InspectOptions, InspectSymbol } from '../../internal/inspect.ts';
+import type { Ordering } from '../../std/cmp/ordering.ts';
+import type { None, Some } from '../prelude.ts';
+import type { ContextError } from '../result/context.ts';
+import type { ConcurrencyOptions, Result } from '../result/result.ts';
+import { all, allAsync, any, anyAsync } from './collect.ts';
+import { gen, genAsync } from './gen.ts';
 import type { OptionKindSymbol } from './symbols.ts';
 
 /**
@@ -17,11 +23,32 @@ pub enum Option<T> {
     Some(T),
 }
 ```
+ * `Option` is a discriminated union of the `Some` and `None` types, so `isSome()` and `isNone()` narrow it
+ * and give access to the `value` field of `Some`.
+ *
  * @typeParam T - The type of the value contained in the `Some` variant.
  * @since 1.0.0
  * @see https://doc.rust-lang.org/std/option/enum.Option.html
+ * @example
+ * ```ts
+ * const user: Option<User> = findUser(id);
+ * if (user.isSome()) {
+ *     console.log(user.value.name);
+ * }
+ * ```
+ */
+export type Option<T> = Some<T> | None;
+
+/**
+ * The methods shared by the `Some` and `None` variants of `Option`.
+ *
+ * Use `Option<T>` in signatures, which also narrows on `isSome()` and `isNone()`.
+ *
+ * @typeParam T - The type of the value contained in the `Some` variant.
+ * @since 1.11.0
+ * @see Option
  */
-export interface Option<T> {
+export interface OptionBase<T> {
     // #region Internal properties
 
     /**
@@ -55,34 +82,24 @@ export interface Option<T> {
     // #region JavaScript protocols
 
     /**
-     * Implements the Iterator protocol, allowing `Option` to be used with `for...of` loops and spread syntax.
-     * - For `Some(value)`, yields the contained value once.
-     * - For `None`, yields nothing (empty iterator).
+     * Implements the Iterator protocol for the `yield*` do-notation of `Option.gen` and `Option.genAsync`.
+     * - For `Some(value)`, yields nothing and returns the contained value, so `yield* option` evaluates to it.
+     * - For `None`, yields `None`, which `Option.gen` returns to short-circuit the block.
      *
-     * This is similar to Rust's `Option::iter()` method.
+     * This is the JavaScript counterpart of Rust's `?` operator applied to `Option`.
+     * `for...of` and spread syntax therefore see `None` and never the `Some` value; read `value` after `isSome()` instead.
      *
-     * @returns An iterator that yields zero or one value.
+     * @returns An iterator that yields `None` or nothing, and returns the `Some` value.
+     * @see OptionStatic.gen
      * @example
      * ```ts
-     * // Using with for...of
-     * for (const value of Some(5)) {
-     *     console.log(value); // 5
-     * }
-     *
-     * for (const value of None) {
-     *     console.log(value); // never executed
-     * }
-     *
-     * // Using with spread operator
-     * const arr1 = [...Some(5)]; // [5]
-     * const arr2 = [...None];    // []
-     *
-     * // Using with Array.from
-     * Array.from(Some('hello')); // ['hello']
-     * Array.from(None);          // []
+     * const city = Option.gen(function* () {
+     *     const user = yield* findUser(id); // User, or returns None
+     *     return user.city;
+     * });
      * ```
      */
-    [Symbol.iterator](): Iterator<T>;
+    [Symbol.iterator](): Iterator<None, T, unknown>;
 
     /**
      * Custom `toString` implementation that uses the `Option`'s contained value.
@@ -94,6 +111,37 @@ export interface Option<T> {
      */
     toString(): string;
 
+    /**
+     * Custom inspection used by `util.inspect` and `console.log` in Node.js, Deno and Bun.
+     * The contained value is inspected with the options of the surrounding output,
+     * so an `Option` prints as `Some({ a: 1 })` instead of `Some([object Object])`.
+     *
+     * @param depth - The remaining depth.
+     * @param options - The options of the surrounding `util.inspect` call.
+     * @param inspect - The `util.inspect` function.
+     * @returns The inspected representation.
+     * @example
+     * ```ts
+     * console.log(Some({ a: 1 })); // Some({ a: 1 })
+     * console.log(Some([None])); // Some([ None ])
+     * ```
+     */
+    [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string;
+
+    /**
+     * Returns the tagged JSON shape of the `Option`, called by `JSON.stringify`.
+     * Contained `Option`s, `Result`s and `ControlFlow`s are serialized the same way.
+     *
+     * Use `reviver` or `optionFromJSON` to turn the JSON back into an `Option`.
+     * @see OptionJSON
+     * @example
+     * ```ts
+     * console.log(JSON.stringify(Some(5))); // '{"$kind":"Some","value":5}'
+     * console.log(JSON.stringify(None)); // '{"$kind":"None"}'
+     * ```
+     */
+    toJSON(): OptionJSON<T>;
+
     // #endregion
 
     // #region Querying the variant
@@ -103,7 +151,7 @@ export interface Option<T> {
      */
 
     /**
-     * Returns `true` if the Option is a `Some` value.
+     * Returns `true` if the Option is a `Some` value, narrowing it to the `Some` type.
      * @example
      * ```ts
      * const x = Some(2);
@@ -111,9 +159,13 @@ export interface Option<T> {
      *
      * const y = None;
      * console.log(y.isSome()); // false
+     *
+     * if (x.isSome()) {
+     *     console.log(x.value); // 2
+     * }
      * ```
      */
-    isSome(): boolean;
+    isSome(): this is Some<T>;
 
     /**
      * Returns `true` if the Option is a `None` value.
@@ -126,7 +178,7 @@ export interface Option<T> {
      * console.log(y.isNone()); // true
      * ```
      */
-    isNone(): boolean;
+    isNone(): this is None;
 
     /**
      * Returns `true` if the Option is a `Some` value and the predicate returns `true` for the contained value.
@@ -196,7 +248,7 @@ export interface Option<T> {
     /**
      * Returns the contained `Some` value, with a provided error message if the value is a `None`.
      * @param msg - The error message to provide if the value is a `None`.
-     * @throws {TypeError} Throws an error with the provided message if the Option is a `None`.
+     * @throws {Panic} Throws an error with the provided message if the Option is a `None`.
      * @see unwrap
      * @example
      * ```ts
@@ -211,7 +263,7 @@ export interface Option<T> {
 
     /**
      * Returns the contained `Some` value.
-     * @throws {TypeError} Throws an error if the value is a `None`.
+     * @throws {Panic} Throws an error if the value is a `None`.
      * @see expect
      * @see unwrapOr
      * @example
@@ -511,6 +563,77 @@ export interface Option<T> {
 
     // #endregion
 
+    // #region Adding context
+
+    /**
+     * Transforms the `Option<T>` into a `Result<T, ContextError>`, mapping `Some(v)` to `Ok(v)`
+     * and `None` to an `Err` of a `ContextError` with the given message. Similar to anyhow's `Context::context` on `Option`.
+     * @param message - The context message.
+     * @see withContext
+     * @see okOr
+     * @example
+     * ```ts
+     * const x = None.context('Missing user id');
+     * console.log(x.unwrapErr().message); // 'Missing user id'
+     * ```
+     */
+    context(message: string): Result<T, ContextError>;
+
+    /**
+     * Like `context`, but the message is computed by `fn` only if the Option is `None`.
+     * @param fn - A function that returns the context message.
+     * @see context
+     * @see okOrElse
+     * @example
+     * ```ts
+     * const x = params.get('id').withContext(() => `Missing id in ${url}`);
+     * ```
+     */
+    withContext(fn: () => string): Result<T, ContextError>;
+
+    // #endregion
+
+    // #region Pattern matching
+
+    /**
+     * Calls the `Some` arm with the contained value or the `None` arm, and returns what it returns.
+     * This is the counterpart of Rust's `match` expression, checked for exhaustiveness by the type of `matcher`.
+     *
+     * @typeParam U - The return type of the `Some` arm.
+     * @typeParam V - The return type of the `None` arm.
+     * @param matcher - An object with a `Some` and a `None` arm.
+     * @returns The value returned by the arm that was called.
+     * @see matchAsync
+     * @example
+     * ```ts
+     * const greeting = findUser(id).match({
+     *     Some: user => `Hello, ${user.name}`,
+     *     None: () => 'Hello, guest',
+     * });
+     * ```
+     */
+    match<U, V>(matcher: OptionMatcher<T, U, V>): U | V;
+
+    /**
+     * Asynchronous version of `match`. The arms may return a `PromiseLike`, which is awaited.
+     *
+     * @typeParam U - The return type of the `Some` arm.
+     * @typeParam V - The return type of the `None` arm.
+     * @param matcher - An object with a `Some` and a `None` arm.
+     * @returns A promise that resolves to the awaited value returned by the arm that was called.
+     * @see match
+     * @example
+     * ```ts
+     * const profile = await cache.get(id).matchAsync({
+     *     Some: profile => profile,
+     *     None: () => fetchProfile(id),
+     * });
+     * ```
+     */
+    matchAsync<U, V>(matcher: OptionMatcher<T, U, V>): Promise<Awaited<U | V>>;
+
+    // #endregion
+
     // #region Boolean operators
 
     /**
@@ -671,7 +794,11 @@ export interface Option<T> {
     /**
      * Tests whether `this` and `other` are both `Some` containing equal values, or both are `None`.
      * This method can be used for comparing `Option` instances in a value-sensitive manner.
+     *
+     * By default the contained values are compared structurally: arrays, plain objects, `Map`s, `Set`s,
+     * `Date`s and nested `Option`s or `Result`s are equal if their contents are equal.
      * @param other - The other `Option` to compare with.
+     * @param equals - A function comparing the contained values, such as `(a, b) => a === b` or `(a, b) => a.id === b.id`.
      * @returns `true` if `this` and `other` are both `Some` with equal values, or both are `None`, otherwise `false`.
      * @example
      * ```ts
@@ -682,9 +809,35 @@ export interface Option<T> {
      * console.log(a.eq(c)); // false
      * console.log(None.eq(None)); // true
      * console.log(a.eq(None)); // false
+     * console.log(Some([1, 2]).eq(Some([1, 2]))); // true
+     * console.log(Some({ id: 1, name: 'a' }).eq(Some({ id: 1, name: 'b' }), (x, y) => x.id === y.id)); // true
      * ```
      */
-    eq(other: Option<T>): boolean;
+    eq(other: Option<T>, equals?: (a: T, b: T) => boolean): boolean;
+
+    // #endregion
+
+    // #region Ordering comparison
+
+    /**
+     * Compares `this` with `other`, following Rust's `Ord` for `Option`: `None` is less than any `Some`,
+     * and two `Some`s are ordered by their contained values.
+     *
+     * By default numbers, bigints, strings, booleans, `Date`s, arrays (lexicographically)
+     * and nested `Option`s or `Result`s can be ordered.
+     * @param other - The other `Option` to compare with.
+     * @param compare - A function ordering the contained values.
+     * @returns `Less`, `Equal` or `Greater`.
+     * @throws {Panic} If the contained values cannot be ordered by default, such as plain objects or `NaN`.
+     * @see Option.compare
+     * @example
+     * ```ts
+     * console.log(None.cmp(Some(0)) === Less); // true
+     * console.log(Some(2).cmp(Some(1)) === Greater); // true
+     * console.log(Some('a').cmp(Some('A'), (a, b) => Some(a.toLowerCase()).cmp(Some(b.toLowerCase()))) === Equal); // true
+     * ```
+     */
+    cmp(other: Option<T>, compare?: (a: T, b: T) => Ordering): Ordering;
 
     // #endregion
 }
@@ -725,3 +878,255 @@ export type AsyncOption<T> = Promise<Option<T>>;
  * ```
  */
 export type AsyncLikeOption<T> = PromiseLike<Option<T>>;
+
+/**
+ * The arms passed to `Option.match`, one for each variant.
+ *
+ * @typeParam T - The type of the contained value.
+ * @typeParam U - The return type of the `Some` arm.
+ * @typeParam V - The return type of the `None` arm.
+ * @since 1.11.0
+ * @see Option.match
+ * @example
+ * ```ts
+ * const toLabel: OptionMatcher<string, string, string> = {
+ *     Some: name => name,
+ *     None: () => 'anonymous',
+ * };
+ * ```
+ */
+export interface OptionMatcher<T, U, V> {
+    /**
+     * Called with the contained value if the `Option` is `Some`.
+     */
+    readonly Some: (value: T) => U;
+
+    /**
+     * Called if the `Option` is `None`.
+     */
+    readonly None: () => V;
+}
+
+/**
+ * The JSON shape of an `Option`, returned by `Option.toJSON`.
+ *
+ * @typeParam T - The type of the contained value.
+ * @since 1.11.0
+ * @see Option.toJSON
+ */
+export type OptionJSON<T> =
+    | { readonly $kind: 'Some'; readonly value: T; }
+    | { readonly $kind: 'None'; };
+
+/**
+ * A collection of `Option`s accepted by `Option.all`: an array, a tuple, or an object record.
+ *
+ * @since 1.11.0
+ * @see OptionStatic.all
+ */
+export type OptionCollection = readonly Option<unknown>[] | Readonly<Record<string, Option<unknown>>>;
+
+/**
+ * An `Option` awaited by `Option.allAsync` and `Option.anyAsync`: an `Option`, a `PromiseLike` of an `Option`,
+ * or a function returning either. Functions are only called once a concurrency slot is free.
+ *
+ * @typeParam T - The type of the contained value.
+ * @since 1.11.0
+ * @see OptionStatic.allAsync
+ */
+export type AsyncOptionTask<T> = Option<T> | AsyncLikeOption<T> | (() => Option<T> | AsyncLikeOption<T>);
+
+/**
+ * A collection of `AsyncOptionTask`s accepted by `Option.allAsync`: an array, a tuple, or an object record.
+ *
+ * @since 1.11.0
+ * @see OptionStatic.allAsync
+ */
+export type AsyncOptionCollection = readonly AsyncOptionTask<unknown>[] | Readonly<Record<string, AsyncOptionTask<unknown>>>;
+
+/**
+ * Maps each `Option` (or `AsyncOptionTask`) of a collection to its contained type.
+ * Tuples stay tuples and records keep their keys.
+ *
+ * @typeParam R - The collection type.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * type Values = SomeValues<[Option<number>, Option<string>]>; // [number, string]
+ * ```
+ */
+export type SomeValues<R> = { -readonly [K in keyof R]: Awaited<R[K] extends () => infer P ? P : R[K]> extends infer X extends Option<unknown> ? ReturnType<X['unwrap']> : never };
+
+/**
+ * **Non-standard extension**: Static helpers for working with `Option` values, exposed as the `Option` object.
+ *
+ * @since 1.11.0
+ */
+export interface OptionStatic {
+    /**
+     * Runs a generator-based block where `yield* option` unwraps a `Some` value
+     * or short-circuits the whole block with `None`, like Rust's `?` operator.
+     *
+     * The returned value of the block is wrapped in `Some`.
+     * When the block short-circuits, pending `finally` blocks of the generator are still run.
+     *
+     * @typeParam T - The type of the value returned by the block.
+     * @param body - A generator function unwrapping Options with `yield*`.
+     * @returns `Some` with the returned value, or `None` if any unwrapped `Option` was `None`.
+     * @see genAsync
+     * @example
+     * ```ts
+     * // Option<string>
+     * const street = Option.gen(function* () {
+     *     const user = yield* findUser(id);
+     *     const address = yield* user.address;
+     *     return address.street;
+     * });
+     * ```
+     */
+    gen<T>(body: () => Generator<None, T, unknown>): Option<T>;
+
+    /**
+     * Asynchronous version of `gen`.
+     * The block is an async generator function, so an `AsyncOption` is awaited before `yield*`.
+     *
+     * @typeParam T - The type of the value returned by the block.
+     * @param body - An async generator function unwrapping Options with `yield*`.
+     * @returns A promise that resolves to `Some` with the returned value, or `None` if any unwrapped `Option` was `None`.
+     * @see gen
+     * @example
+     * ```ts
+     * // AsyncOption<Profile>
+     * const profile = Option.genAsync(async function* () {
+     *     const session = yield* cache.get(sessionId);
+     *     return yield* await db.findProfile(session.userId);
+     * });
+     * ```
+     */
+    genAsync<T>(body: () => AsyncGenerator<None, T, unknown>): AsyncOption<T>;
+
+    /**
+     * Transforms a collection of `Option`s into an `Option` of a collection,
+     * like Rust's `iter.collect::<Option<Vec<_>>>()`.
+     *
+     * Arrays, tuples (with precise element types) and object records are supported.
+     * Returns `None` as soon as a `None` is encountered, without looking at the rest.
+     *
+     * @typeParam R - The collection type, inferred automatically.
+     * @param options - An array, a tuple, or an object record of `Option`s.
+     * @returns `Some` with the collection of contained values, or `None` if any element is `None`.
+     * @throws {TypeError} If an element is not an `Option`.
+     * @see allAsync
+     * @see any
+     * @example
+     * ```ts
+     * const tuple = Option.all([Some(1), Some('a')] as const); // Option<[number, string]>
+     * console.log(tuple.unwrap()); // [1, 'a']
+     *
+     * const record = Option.all({ a: Some(1), b: None });
+     * console.log(record.isNone()); // true
+     * ```
+     */
+    all<const R extends OptionCollection>(options: R): Option<SomeValues<R>>;
+
+    /**
+     * Asynchronous version of `all`.
+     * The tasks are awaited concurrently, with at most `concurrency` of them pending at a time.
+     *
+     * Resolves with `None` as soon as a task settles to `None`, and starts no further task.
+     * The contained values keep the order of the collection, not the order of completion.
+     *
+     * @typeParam R - The collection type, inferred automatically.
+     * @param options - An array, a tuple, or an object record of `AsyncOptionTask`s.
+     * @param config - Optional concurrency limit.
+     * @returns A promise that resolves to `Some` with the collection of contained values, or `None`.
+     * It rejects if a task rejects, if an element is not an `Option` (`TypeError`),
+     * or if the concurrency limit is invalid (`RangeError`).
+     * @see all
+     * @example
+     * ```ts
+     * const profiles = await Option.allAsync(ids.map(id => () => cache.get(id)), { concurrency: 4 });
+     * ```
+     */
+    allAsync<const R extends AsyncOptionCollection>(options: R, config?: ConcurrencyOptions): AsyncOption<SomeValues<R>>;
+
+    /**
+     * Returns the first `Some` of an array or a tuple of `Option`s, or `None` if there is none.
+     *
+     * @typeParam R - The array or tuple type, inferred automatically.
+     * @param options - An array or a tuple of `Option`s.
+     * @returns The first `Some` encountered, or `None`.
+     * @throws {TypeError} If an element is not an `Option`.
+     * @see anyAsync
+     * @see all
+     * @example
+     * ```ts
+     * const port = Option.any([fromArgs('port'), fromEnv('PORT'), Some(8080)]);
+     * ```
+     */
+    any<const R extends readonly Option<unknown>[]>(options: R): Option<SomeValues<R>[number]>;
+
+    /**
+     * Asynchronous version of `any`.
+     * The tasks are awaited concurrently, with at most `concurrency` of them pending at a time.
+     *
+     * Resolves with the first `Some` to settle as soon as it does, and starts no further task.
+     *
+     * @typeParam R - The array or tuple type, inferred automatically.
+     * @param options - An array or a tuple of `AsyncOptionTask`s.
+     * @param config - Optional concurrency limit.
+     * @returns A promise that resolves to the first `Some` to settle, or `None`.
+     * It rejects if a task rejects, if an element is not an `Option` (`TypeError`),
+     * or if the concurrency limit is invalid (`RangeError`).
+     * @see any
+     * @example
+     * ```ts
+     * const avatar = await Option.anyAsync([() => memoryCache.get(key), () => diskCache.get(key)], { concurrency: 1 });
+     * ```
+     */
+    anyAsync<const R extends readonly AsyncOptionTask<unknown>[]>(options: R, config?: ConcurrencyOptions): AsyncOption<SomeValues<R>[number]>;
+
+    /**
+     * Compares two `Option`s with their `cmp()`, returning a number as expected by `Array.prototype.sort`.
+     *
+     * @typeParam T - The type of the contained values.
+     * @param a - The first `Option`.
+     * @param b - The second `Option`.
+     * @returns A negative number if `a` is less than `b`, a positive number if it is greater, or `0`.
+     * @throws {Panic} If the contained values cannot be ordered.
+     * @see cmp
+     * @example
+     * ```ts
+     * const sorted = [Some(3), None, Some(1)].sort(Option.compare);
+     * // [None, Some(1), Some(3)]
+     * ```
+     */
+    compare<T>(a: Option<T>, b: Option<T>): number;
+}
+
+/**
+ * **Non-standard extension**: Static helpers for working with `Option` values.
+ *
+ * Shares its name with the `Option` type, so `Option` can be used both as a type and as a namespace of helpers.
+ *
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const area: Option<number> = Option.gen(function* () {
+ *     const width = yield* parseWidth(input);
+ *     const height = yield* parseHeight(input);
+ *     return width * height;
+ * });
+ * ```
+ */
+export const Option: OptionStatic = /*#__PURE__*/ Object.freeze<OptionStatic>({
+    gen,
+    genAsync,
+    all,
+    allAsync,
+    any,
+    anyAsync,
+    compare<T>(a: Option<T>, b: Option<T>): number {
+        return a.cmp(b).valueOf();
+    },
+});
@@ -0,0 +1,640 @@
+/**
+ * @module
+ * A fluent, awaitable wrapper around `AsyncOption` that keeps the `Option` method surface chainable without intermediate `await`s.
+ *
+ * **When to use `AsyncOption<T>` vs `OptionAsync<T>`:**
+ * - Use `AsyncOption<T>` (a plain `Promise<Option<T>>`) as the return type of async functions
+ * - Use `OptionAsync<T>` to build pipelines of several sync or async steps over such values
+ */
+
+import { Err, None, Ok, Some } from '../prelude.ts';
+import { handledOperand } from '../../internal/promise.ts';
+import type { ContextError } from '../result/context.ts';
+import type { Result } from '../result/result.ts';
+import { ResultAsync } from '../result/result_async.ts';
+import type { AsyncLikeOption, AsyncOption, Option, OptionMatcher } from './option.ts';
+import type { Ordering } from '../../std/cmp/ordering.ts';
+
+/**
+ * **Non-standard extension**: An awaitable `Option` whose methods accept both sync and async callbacks.
+ *
+ * Every transforming method returns a new `OptionAsync`, so lookups across several async sources
+ * can be chained and awaited once at the end. Awaiting an `OptionAsync` yields the underlying `Option<T>`.
+ *
+ * Methods that extract a value (e.g. `unwrap`, `unwrapOr`, `isSome`) return a `Promise` instead,
+ * and conversions to `Result` (`okOr`, `okOrElse`, `transpose`) return a `ResultAsync`.
+ * If the wrapped promise rejects, the rejection propagates through the whole chain.
+ *
+ * @typeParam T - The type of the value contained in the `Some` variant.
+ * @since 1.11.0
+ * @see {@link Option}
+ * @example
+ * ```ts
+ * const avatar = await OptionAsync(cache.get(userId))
+ *     .orElse(() => db.findUser(userId))
+ *     .filter(user => user.active)
+ *     .map(user => user.avatarUrl)
+ *     .unwrapOr(DEFAULT_AVATAR);
+ * ```
+ */
+export interface OptionAsync<T> extends PromiseLike<Option<T>> {
+    // #region Internal properties
+
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'OptionAsync'` so that `Object.prototype.toString.call(option)` produces `'[object OptionAsync]'`.
+     */
+    readonly [Symbol.toStringTag]: 'OptionAsync';
+
+    // #endregion
+
+    // #region JavaScript protocols
+
+    /**
+     * Implements the `PromiseLike` protocol, so an `OptionAsync` can be awaited to obtain the underlying `Option`.
+     *
+     * @example
+     * ```ts
+     * const option: Option<number> = await OptionAsync(Some(5));
+     * ```
+     */
+    then<TResult1 = Option<T>, TResult2 = never>(onfulfilled?: ((value: Option<T>) => TResult1 | PromiseLike<TResult1>) | null, onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null): Promise<TResult1 | TResult2>;
+
+    /**
+     * Implements the async iterator protocol like `Option`'s `[Symbol.iterator]`, so `yield*` in an `Option.genAsync` block
+     * evaluates to the `Some` value, or short-circuits the block with `None`, without awaiting the `OptionAsync` first.
+     *
+     * @see OptionStatic.genAsync
+     * @example
+     * ```ts
+     * const avatar = await Option.genAsync(async function* () {
+     *     const user = yield* OptionAsync(findUser(id)); // User
+     *     return yield* user.avatar;
+     * });
+     * ```
+     */
+    [Symbol.asyncIterator](): AsyncIterator<None, T, unknown>;
+
+    /**
+     * Custom `toString` implementation.
+     * @example
+     * ```ts
+     * console.log(OptionAsync(Some(5)).toString()); // 'OptionAsync'
+     * ```
+     */
+    toString(): string;
+
+    // #endregion
+
+    // #region Querying the variant
+
+    /**
+     * Resolves to `true` if the Option is a `Some` value.
+     * @see Option.isSome
+     * @example
+     * ```ts
+     * await OptionAsync(Some(2)).isSome(); // true
+     * ```
+     */
+    isSome(): Promise<boolean>;
+
+    /**
+     * Resolves to `true` if the Option is a `None` value.
+     * @see Option.isNone
+     * @example
+     * ```ts
+     * await OptionAsync(None).isNone(); // true
+     * ```
+     */
+    isNone(): Promise<boolean>;
+
+    /**
+     * Resolves to `true` if the Option is `Some` and the predicate returns `true` for the contained value.
+     * @param predicate - A function that takes the contained value and returns a `PromiseLike<boolean>` or `boolean`.
+     * @see Option.isSomeAnd
+     * @example
+     * ```ts
+     * await OptionAsync(Some(2)).isSomeAnd(async v => v > 1); // true
+     * ```
+     */
+    isSomeAnd(predicate: (value: T) => PromiseLike<boolean> | boolean): Promise<boolean>;
+
+    /**
+     * Resolves to `true` if the Option is `None`, or the predicate returns `true` for the contained value.
+     * @param predicate - A function that takes the contained value and returns a `PromiseLike<boolean>` or `boolean`.
+     * @see Option.isNoneOr
+     * @example
+     * ```ts
+     * await OptionAsync(None).isNoneOr(v => v > 1); // true
+     * ```
+     */
+    isNoneOr(predicate: (value: T) => PromiseLike<boolean> | boolean): Promise<boolean>;
+
+    // #endregion
+
+    // #region Extracting the contained value
+
+    /**
+     * Resolves to the contained `Some` value, or rejects with a `Panic` carrying the provided message if the Option is `None`.
+     * @param msg - The error message to provide if the Option is `None`.
+     * @see Option.expect
+     * @example
+     * ```ts
+     * await OptionAsync(Some(5)).expect('value should exist'); // 5
+     * ```
+     */
+    expect(msg: string): Promise<T>;
+
+    /**
+     * Resolves to the contained `Some` value, or rejects with a `Panic` if the Option is `None`.
+     * @see Option.unwrap
+     * @example
+     * ```ts
+     * await OptionAsync(Some(5)).unwrap(); // 5
+     * ```
+     */
+    unwrap(): Promise<T>;
+
+    /**
+     * Resolves to the contained `Some` value or the provided default.
+     * @param defaultValue - The value to resolve to if the Option is `None`.
+     * @see Option.unwrapOr
+     * @example
+     * ```ts
+     * await OptionAsync(None).unwrapOr(10); // 10
+     * ```
+     */
+    unwrapOr(defaultValue: T): Promise<T>;
+
+    /**
+     * Resolves to the contained `Some` value or computes it from a closure.
+     * @param fn - A function that returns `PromiseLike<T>` or `T`.
+     * @see Option.unwrapOrElseAsync
+     * @example
+     * ```ts
+     * await OptionAsync(None).unwrapOrElse(async () => 10); // 10
+     * ```
+     */
+    unwrapOrElse(fn: () => PromiseLike<T> | T): Promise<Awaited<T>>;
+
+    // #endregion
+
+    // #region Transforming contained values
+
+    /**
+     * Transforms into a `ResultAsync<T, E>`, mapping `Some(v)` to `Ok(v)` and `None` to `Err(error)`.
+     * @typeParam E - The type of the error.
+     * @param error - The error to use if the Option is `None`.
+     * @see Option.okOr
+     * @example
+     * ```ts
+     * await OptionAsync(None).okOr('missing').unwrapErr(); // 'missing'
+     * ```
+     */
+    okOr<E>(error: E): ResultAsync<T, E>;
+
+    /**
+     * Transforms into a `ResultAsync<T, E>`, mapping `Some(v)` to `Ok(v)` and `None` to `Err(err())`.
+     * @typeParam E - The type of the error.
+     * @param err - A function that returns `PromiseLike<E>` or `E`.
+     * @see Option.okOrElse
+     * @example
+     * ```ts
+     * await OptionAsync(None).okOrElse(async () => 'missing').unwrapErr(); // 'missing'
+     * ```
+     */
+    okOrElse<E>(err: () => PromiseLike<E> | E): ResultAsync<T, Awaited<E>>;
+
+    /**
+     * Transposes an `OptionAsync` of a `Result` into a `ResultAsync` of an `Option`.
+     * @typeParam U - The type of the success value in the `Ok` variant.
+     * @typeParam E - The type of the error value in the `Err` variant.
+     * @see Option.transpose
+     * @example
+     * ```ts
+     * await OptionAsync(Some(Ok(5))).transpose().unwrap(); // Some(5)
+     * ```
+     */
+    transpose<U, E>(this: OptionAsync<Result<U, E>>): ResultAsync<Option<U>, E>;
+
+    /**
+     * Keeps the `Some` value only if the predicate returns `true` for it.
+     * @param predicate - A function that takes the contained value and returns a `PromiseLike<boolean>` or `boolean`.
+     * @see Option.filter
+     * @example
+     * ```ts
+     * await OptionAsync(Some(4)).filter(async v => v % 2 === 0).unwrap(); // 4
+     * ```
+     */
+    filter(predicate: (value: T) => PromiseLike<boolean> | boolean): OptionAsync<T>;
+
+    /**
+     * Converts from `OptionAsync<Option<U>>` to `OptionAsync<U>`.
+     * @typeParam U - The type of the value contained in the inner `Option`.
+     * @see Option.flatten
+     * @example
+     * ```ts
+     * await OptionAsync(Some(Some(5))).flatten().unwrap(); // 5
+     * ```
+     */
+    flatten<U>(this: OptionAsync<Option<U>>): OptionAsync<U>;
+
+    /**
+     * Maps the contained `Some` value with a sync or async function.
+     * @typeParam U - The type of the value returned by the map function.
+     * @param fn - A function that takes the contained value and returns `PromiseLike<U>` or `U`.
+     * @see Option.map
+     * @example
+     * ```ts
+     * await OptionAsync(Some(5)).map(async v => v * 2).unwrap(); // 10
+     * ```
+     */
+    map<U>(fn: (value: T) => PromiseLike<U> | U): OptionAsync<Awaited<U>>;
+
+    /**
+     * Resolves to the result of applying `fn` to the contained value, or the provided default if `None`.
+     * @typeParam U - The type of the resolved value.
+     * @param defaultValue - The value to resolve to if the Option is `None`.
+     * @param fn - A function that takes the contained value and returns `PromiseLike<U>` or `U`.
+     * @see Option.mapOr
+     * @example
+     * ```ts
+     * await OptionAsync(None).mapOr(0, v => v * 2); // 0
+     * ```
+     */
+    mapOr<U>(defaultValue: U, fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>>;
+
+    /**
+     * Resolves to the result of applying `fn` to the contained value, or of calling `defaultFn` if `None`.
+     * @typeParam U - The type of the resolved value.
+     * @param defaultFn - A function that returns `PromiseLike<U>` or `U`.
+     * @param fn - A function that takes the contained value and returns `PromiseLike<U>` or `U`.
+     * @see Option.mapOrElse
+     * @example
+     * ```ts
+     * await OptionAsync(None).mapOrElse(async () => 0, v => v * 2); // 0
+     * ```
+     */
+    mapOrElse<U>(defaultFn: () => PromiseLike<U> | U, fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>>;
+
+    /**
+     * Combines with another `Option` into a tuple if both are `Some`.
+     * @typeParam U - The type of the value in the other `Option`.
+     * @param other - An `Option` or `PromiseLike` of an `Option`.
+     * @see Option.zip
+     * @example
+     * ```ts
+     * await OptionAsync(Some(1)).zip(Promise.resolve(Some('a'))).unwrap(); // [1, 'a']
+     * ```
+     */
+    zip<U>(other: AsyncLikeOption<U> | Option<U>): OptionAsync<[T, U]>;
+
+    /**
+     * Combines with another `Option` using a sync or async function if both are `Some`.
+     * @typeParam U - The type of the value in the other `Option`.
+     * @typeParam R - The type of the value returned by the function.
+     * @param other - An `Option` or `PromiseLike` of an `Option`.
+     * @param fn - A function that takes both contained values and returns `PromiseLike<R>` or `R`.
+     * @see Option.zipWith
+     * @example
+     * ```ts
+     * await OptionAsync(Some(2)).zipWith(Some(3), (a, b) => a * b).unwrap(); // 6
+     * ```
+     */
+    zipWith<U, R>(other: AsyncLikeOption<U> | Option<U>, fn: (value: T, otherValue: U) => PromiseLike<R> | R): OptionAsync<Awaited<R>>;
+
+    /**
+     * Converts from `OptionAsync<[U, R]>` to `[OptionAsync<U>, OptionAsync<R>]`.
+     * @typeParam U - The type of the first value in the tuple.
+     * @typeParam R - The type of the second value in the tuple.
+     * @see Option.unzip
+     * @example
+     * ```ts
+     * const [a, b] = OptionAsync(Some([1, 'a'] as [number, string])).unzip();
+     * await a.unwrap(); // 1
+     * ```
+     */
+    unzip<U, R>(this: OptionAsync<[U, R]>): [OptionAsync<U>, OptionAsync<R>];
+
+    /**
+     * Reduces two `Option`s into one using a sync or async function if both are `Some`,
+     * otherwise keeps whichever one is `Some`.
+     * @typeParam U - The type of the value in the other `Option`.
+     * @typeParam R - The type of the value returned by the function.
+     * @param other - An `Option` or `PromiseLike` of an `Option`.
+     * @param fn - A function that takes both contained values and returns `PromiseLike<R>` or `R`.
+     * @see Option.reduce
+     * @example
+     * ```ts
+     * await OptionAsync(Some(2)).reduce(Some(3), (a, b) => a + b).unwrap(); // 5
+     * ```
+     */
+    reduce<U, R = T | U>(other: AsyncLikeOption<U> | Option<U>, fn: (value: T, otherValue: U) => PromiseLike<R> | R): OptionAsync<T | U | Awaited<R>>;
+
+    // #endregion
+
+    // #region Adding context
+
+    /**
+     * Transforms into a `ResultAsync<T, ContextError>`, mapping `None` to an `Err` of a `ContextError` with the given message.
+     * @param message - The context message.
+     * @see Option.context
+     * @example
+     * ```ts
+     * await OptionAsync(None).context('Missing user').unwrapErr(); // ContextError: Missing user
+     * ```
+     */
+    context(message: string): ResultAsync<T, ContextError>;
+
+    /**
+     * Like `context`, but the message is computed by `fn` only if the Option is `None`.
+     * @param fn - A function that returns the context message.
+     * @see Option.withContext
+     * @example
+     * ```ts
+     * await OptionAsync(cache.get(id)).withContext(() => `User ${id} is not cached`);
+     * ```
+     */
+    withContext(fn: () => string): ResultAsync<T, ContextError>;
+
+    // #endregion
+
+    // #region Pattern matching
+
+    /**
+     * Resolves to the awaited value returned by the `Some` arm or the `None` arm.
+     * @typeParam U - The return type of the `Some` arm.
+     * @typeParam V - The return type of the `None` arm.
+     * @param matcher - An object with a `Some` and a `None` arm, which may return a `PromiseLike`.
+     * @see Option.matchAsync
+     * @example
+     * ```ts
+     * const name = await OptionAsync(findUser(id)).match({
+     *     Some: user => user.name,
+     *     None: () => 'guest',
+     * });
+     * ```
+     */
+    match<U, V>(matcher: OptionMatcher<T, U, V>): Promise<Awaited<U | V>>;
+
+    // #endregion
+
+    // #region Boolean operators
+
+    /**
+     * Returns `other` if the Option is `Some`, otherwise `None`.
+     * @typeParam U - The type of the value in the other `Option`.
+     * @param other - An `Option` or `PromiseLike` of an `Option`.
+     * @see Option.and
+     * @example
+     * ```ts
+     * await OptionAsync(Some(1)).and(Some('next')).unwrap(); // 'next'
+     * ```
+     */
+    and<U>(other: AsyncLikeOption<U> | Option<U>): OptionAsync<U>;
+
+    /**
+     * Calls `fn` with the contained value and continues with the `Option` it returns, otherwise keeps `None`.
+     * @typeParam U - The type of the value in the returned `Option`.
+     * @param fn - A function that takes the contained value and returns `PromiseLike<Option<U>>` or `Option<U>`.
+     * @see Option.andThenAsync
+     * @example
+     * ```ts
+     * await OptionAsync(Some(2)).andThen(async v => Some(v * 2)).unwrap(); // 4
+     * ```
+     */
+    andThen<U>(fn: (value: T) => AsyncLikeOption<U> | Option<U>): OptionAsync<U>;
+
+    /**
+     * Keeps the `Some`, otherwise returns `other`.
+     * @param other - An `Option` or `PromiseLike` of an `Option`.
+     * @see Option.or
+     * @example
+     * ```ts
+     * await OptionAsync(None).or(Some(5)).unwrap(); // 5
+     * ```
+     */
+    or(other: AsyncLikeOption<T> | Option<T>): OptionAsync<T>;
+
+    /**
+     * Keeps the `Some`, otherwise continues with the `Option` returned by `fn`.
+     * @param fn - A function that returns `PromiseLike<Option<T>>` or `Option<T>`.
+     * @see Option.orElseAsync
+     * @example
+     * ```ts
+     * await OptionAsync(cache.get(key)).orElse(() => db.get(key));
+     * ```
+     */
+    orElse(fn: () => AsyncLikeOption<T> | Option<T>): OptionAsync<T>;
+
+    /**
+     * Returns `Some` if exactly one of the two Options is `Some`, otherwise `None`.
+     * @param other - An `Option` or `PromiseLike` of an `Option`.
+     * @see Option.xor
+     * @example
+     * ```ts
+     * await OptionAsync(Some(1)).xor(None).unwrap(); // 1
+     * ```
+     */
+    xor(other: AsyncLikeOption<T> | Option<T>): OptionAsync<T>;
+
+    // #endregion
+
+    /**
+     * Calls `fn` with the contained value for side effects only. An async `fn` is awaited before the chain continues.
+     * @param fn - A function to call with the contained value.
+     * @see Option.inspect
+     * @example
+     * ```ts
+     * await OptionAsync(Some(5)).inspect(v => console.log(v)); // prints 5
+     * ```
+     */
+    inspect(fn: (value: T) => PromiseLike<void> | void): OptionAsync<T>;
+
+    // #region Equals comparison
+
+    /**
+     * Resolves to `true` if both Options are `Some` with equal values, or both are `None`.
+     * @param other - An `Option` or `PromiseLike` of an `Option` to compare with.
+     * @param equals - A function comparing the contained values, structural equality by default.
+     * @see Option.eq
+     * @example
+     * ```ts
+     * await OptionAsync(Some(5)).eq(Some(5)); // true
+     * ```
+     */
+    eq(other: AsyncLikeOption<T> | Option<T>, equals?: (a: T, b: T) => boolean): Promise<boolean>;
+
+    // #endregion
+
+    // #region Ordering comparison
+
+    /**
+     * Resolves to the `Ordering` of this `Option` relative to `other`, where `None` is less than any `Some`.
+     * @param other - An `Option` or `PromiseLike` of an `Option` to compare with.
+     * @param compare - A function ordering the contained values.
+     * @see Option.cmp
+     * @example
+     * ```ts
+     * await OptionAsync(Some(5)).cmp(None); // Greater
+     * ```
+     */
+    cmp(other: AsyncLikeOption<T> | Option<T>, compare?: (a: T, b: T) => Ordering): Promise<Ordering>;
+
+    // #endregion
+}
+
+/**
+ * Wraps an `Option`, an `AsyncOption` or any `PromiseLike` of an `Option` in a fluent `OptionAsync`.
+ *
+ * The values returned by `tryAsyncOption`, `andThenAsync` or `orElseAsync` can be wrapped directly.
+ * Conversely, an `OptionAsync` is `PromiseLike`, so it can be returned wherever an `AsyncLikeOption` is expected.
+ *
+ * @typeParam T - The type of the value contained in the `Some` variant.
+ * @param option - The `Option` or promise of an `Option` to wrap.
+ * @returns A new `OptionAsync` instance.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * function findSession(id: string): OptionAsync<Session> {
+ *     return OptionAsync(memoryCache.get(id))  // Option<Session>
+ *         .orElse(() => redis.get(id))         // AsyncOption<Session>
+ *         .orElse(() => db.findSession(id))    // AsyncOption<Session>
+ *         .filter(session => !session.expired);
+ * }
+ * ```
+ */
+export function OptionAsync<T>(option: AsyncLikeOption<T> | Option<T>): OptionAsync<T> {
+    const promise: AsyncOption<T> = Promise.resolve(option);
+
+    return Object.freeze<OptionAsync<T>>({
+        [Symbol.toStringTag]: 'OptionAsync',
+
+        then<TResult1 = Option<T>, TResult2 = never>(onfulfilled?: ((value: Option<T>) => TResult1 | PromiseLike<TResult1>) | null, onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null): Promise<TResult1 | TResult2> {
+            return promise.then(onfulfilled, onrejected);
+        },
+        async *[Symbol.asyncIterator](): AsyncIterator<None, T, unknown> {
+            return yield* await promise;
+        },
+        toString(): string {
+            return 'OptionAsync';
+        },
+
+        isSome(): Promise<boolean> {
+            return promise.then(o => o.isSome());
+        },
+        isNone(): Promise<boolean> {
+            return promise.then(o => o.isNone());
+        },
+        isSomeAnd(predicate: (value: T) => PromiseLike<boolean> | boolean): Promise<boolean> {
+            return promise.then(o => o.isSomeAndAsync(predicate));
+        },
+        isNoneOr(predicate: (value: T) => PromiseLike<boolean> | boolean): Promise<boolean> {
+            return promise.then(o => o.isNoneOrAsync(predicate));
+        },
+
+        expect(msg: string): Promise<T> {
+            return promise.then(o => o.expect(msg));
+        },
+        unwrap(): Promise<T> {
+            return promise.then(o => o.unwrap());
+        },
+        unwrapOr(defaultValue: T): Promise<T> {
+            return promise.then((o): T => o.unwrapOr(defaultValue));
+        },
+        unwrapOrElse(fn: () => PromiseLike<T> | T): Promise<Awaited<T>> {
+            return promise.then(o => o.unwrapOrElseAsync(fn));
+        },
+
+        okOr<E>(error: E): ResultAsync<T, E> {
+            return ResultAsync(promise.then(o => o.okOr(error)));
+        },
+        okOrElse<E>(err: () => PromiseLike<E> | E): ResultAsync<T, Awaited<E>> {
+            return ResultAsync(promise.then(async o => o.isSome() ? Ok<T, Awaited<E>>(o.unwrap()) : Err<T, Awaited<E>>(await err())));
+        },
+        transpose<U, E>(): ResultAsync<Option<U>, E> {
+            return ResultAsync(promise.then(o => (o as unknown as Option<Result<U, E>>).transpose()));
+        },
+
+        filter(predicate: (value: T) => PromiseLike<boolean> | boolean): OptionAsync<T> {
+            return OptionAsync(promise.then(async o => o.isSome() && await predicate(o.unwrap()) ? o : None));
+        },
+        flatten<U>(): OptionAsync<U> {
+            return OptionAsync(promise.then(o => (o as unknown as Option<Option<U>>).flatten()));
+        },
+        map<U>(fn: (value: T) => PromiseLike<U> | U): OptionAsync<Awaited<U>> {
+            return OptionAsync(promise.then(async o => o.isSome() ? Some(await fn(o.unwrap())) : None));
+        },
+        mapOr<U>(defaultValue: U, fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>> {
+            return promise.then(o => o.isSome() ? fn(o.unwrap()) : defaultValue) as Promise<Awaited<U>>;
+        },
+        mapOrElse<U>(defaultFn: () => PromiseLike<U> | U, fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>> {
+            return promise.then(o => o.isSome() ? fn(o.unwrap()) : defaultFn()) as Promise<Awaited<U>>;
+        },
+
+        zip<U>(other: AsyncLikeOption<U> | Option<U>): OptionAsync<[T, U]> {
+            return OptionAsync(Promise.all([promise, other]).then(([a, b]) => a.zip(b)));
+        },
+        zipWith<U, R>(other: AsyncLikeOption<U> | Option<U>, fn: (value: T, otherValue: U) => PromiseLike<R> | R): OptionAsync<Awaited<R>> {
+            return OptionAsync(Promise.all([promise, other]).then(async ([a, b]) => a.isSome() && b.isSome() ? Some(await fn(a.unwrap(), b.unwrap())) : None));
+        },
+        unzip<U, R>(): [OptionAsync<U>, OptionAsync<R>] {
+            const pair = promise.then(o => (o as unknown as Option<[U, R]>).unzip());
+            return [OptionAsync(pair.then(([a]) => a)), OptionAsync(pair.then(([, b]) => b))];
+        },
+        reduce<U, R = T | U>(other: AsyncLikeOption<U> | Option<U>, fn: (value: T, otherValue: U) => PromiseLike<R> | R): OptionAsync<T | U | Awaited<R>> {
+            return OptionAsync(Promise.all([promise, other]).then(async ([a, b]): Promise<Option<T | U | Awaited<R>>> => {
+                if (a.isSome() && b.isSome()) {
+                    return Some(await fn(a.unwrap(), b.unwrap()));
+                }
+                return a.isSome() ? a : b;
+            }));
+        },
+
+        context(message: string): ResultAsync<T, ContextError> {
+            return ResultAsync(promise.then(o => o.context(message)));
+        },
+        withContext(fn: () => string): ResultAsync<T, ContextError> {
+            return ResultAsync(promise.then(o => o.withContext(fn)));
+        },
+
+        match<U, V>(matcher: OptionMatcher<T, U, V>): Promise<Awaited<U | V>> {
+            return promise.then(o => o.matchAsync(matcher));
+        },
+
+        and<U>(other: AsyncLikeOption<U> | Option<U>): OptionAsync<U> {
+            const operand = handledOperand(other);
+            return OptionAsync(promise.then(o => o.isSome() ? operand : None));
+        },
+        andThen<U>(fn: (value: T) => AsyncLikeOption<U> | Option<U>): OptionAsync<U> {
+            return OptionAsync(promise.then(o => o.andThenAsync(fn)));
+        },
+        or(other: AsyncLikeOption<T> | Option<T>): OptionAsync<T> {
+            const operand = handledOperand(other);
+            return OptionAsync(promise.then(o => o.isSome() ? o : operand));
+        },
+        orElse(fn: () => AsyncLikeOption<T> | Option<T>): OptionAsync<T> {
+            return OptionAsync(promise.then(o => o.orElseAsync(fn)));
+        },
+        xor(other: AsyncLikeOption<T> | Option<T>): OptionAsync<T> {
+            return OptionAsync(Promise.all([promise, other]).then(([a, b]) => a.xor(b)));
+        },
+
+        inspect(fn: (value: T) => PromiseLike<void> | void): OptionAsync<T> {
+            return OptionAsync(promise.then(async (o) => {
+                if (o.isSome()) {
+                    await fn(o.unwrap());
+                }
+                return o;
+            }));
+        },
+
+        eq(other: AsyncLikeOption<T> | Option<T>, equals?: (a: T, b: T) => boolean): Promise<boolean> {
+            return Promise.all([promise, other]).then(([a, b]) => a.eq(b, equals));
+        },
+
+        cmp(other: AsyncLikeOption<T> | Option<T>, compare?: (a: T, b: T) => Ordering): Promise<Ordering> {
+            return Promise.all([promise, other]).then(([a, b]) => a.cmp(b, compare));
+        },
+    } as const);
+}
@@ -0,0 +1,6 @@
+/**
+ * @module
+ * Main entry point for the panic module.
+ * Re-exports all public APIs from the panic submodules.
+ */
+export * from './panic.ts';
@@ -0,0 +1,190 @@
+/**
+ * @module
+ * Rust-style [panics](https://doc.rust-lang.org/std/panic/index.html) for unrecoverable errors.
+ *
+ * `unwrap()`, `expect()` and the other extractors throw a `Panic` when called on the wrong variant,
+ * so error boundaries can tell them apart from other exceptions. A global panic hook observes every panic
+ * before it is thrown, and `catchUnwind` / `catchUnwindAsync` turn panics back into `Result`s.
+ */
+
+import { Err, None, Ok, Some } from '../prelude.ts';
+import type { Option } from '../option/option.ts';
+import type { AsyncResult, Result } from '../result/result.ts';
+
+/**
+ * The error thrown by `panic`, and by `unwrap()`, `expect()` and similar methods called on the wrong variant.
+ *
+ * When a panic is caused by an `Err` or an `Invalid` value, the error (or the list of errors) is stored in `cause`.
+ *
+ * `Panic` extends `TypeError` so that code catching the `TypeError` thrown by these methods before 1.11.0 keeps working.
+ *
+ * @since 1.11.0
+ * @see panic
+ * @see catchUnwind
+ * @example
+ * ```ts
+ * try {
+ *     Err(new Error('disk full')).unwrap();
+ * } catch (e) {
+ *     if (e instanceof Panic) {
+ *         console.error(e.message, e.cause); // 'Result::unwrap() called on an `Err` value' Error: disk full
+ *     }
+ * }
+ * ```
+ */
+export class Panic extends TypeError {
+    override readonly name = 'Panic';
+}
+
+/**
+ * A function called with every `Panic` before it is thrown.
+ *
+ * @since 1.11.0
+ * @see setPanicHook
+ */
+export type PanicHook = (panic: Panic) => void;
+
+/**
+ * The hook registered with `setPanicHook`, if any.
+ */
+let panicHook: PanicHook | undefined;
+
+/**
+ * Registers a hook that is called with every `Panic` before it is thrown, replacing any previous hook.
+ * Similar to Rust's `std::panic::set_hook`, this is the place for logging or telemetry.
+ *
+ * Errors thrown by the hook are ignored, so the panic itself is always thrown.
+ *
+ * @param hook - The function to call with each panic.
+ * @since 1.11.0
+ * @see takePanicHook
+ * @example
+ * ```ts
+ * setPanicHook(panic => {
+ *     telemetry.report('panic', { message: panic.message, cause: panic.cause });
+ * });
+ * ```
+ */
+export function setPanicHook(hook: PanicHook): void {
+    panicHook = hook;
+}
+
+/**
+ * Unregisters the panic hook and returns it.
+ * Similar to Rust's `std::panic::take_hook`.
+ *
+ * @returns `Some` with the hook registered with `setPanicHook`, or `None` if there is none.
+ * @since 1.11.0
+ * @see setPanicHook
+ * @example
+ * ```ts
+ * const previous = takePanicHook();
+ * setPanicHook(panic => {
+ *     console.error('panicked:', panic.message);
+ *     previous.inspect(hook => hook(panic));
+ * });
+ * ```
+ */
+export function takePanicHook(): Option<PanicHook> {
+    const hook = panicHook;
+    panicHook = undefined;
+    return hook === undefined ? None : Some(hook);
+}
+
+/**
+ * Throws a `Panic` with the given message after calling the panic hook.
+ * Similar to Rust's `panic!` macro.
+ *
+ * @param message - The panic message.
+ * @param options - Pass `{ cause }` to attach the error that caused the panic.
+ * @throws {Panic} Always.
+ * @since 1.11.0
+ * @see catchUnwind
+ * @example
+ * ```ts
+ * function assertPositive(n: number): number {
+ *     return n > 0 ? n : panic(`expected a positive number, got ${n}`);
+ * }
+ * ```
+ */
+export function panic(message: string, options?: ErrorOptions): never {
+    const error = new Panic(message, options);
+
+    try {
+        panicHook?.(error);
+    } catch {
+        // A failing hook must not replace the panic
+    }
+
+    throw error;
+}
+
+/**
+ * Calls a function and captures a `Panic` it throws as an `Err`.
+ * Similar to Rust's `std::panic::catch_unwind`.
+ *
+ * Other exceptions are rethrown; use `tryResult` to capture every exception.
+ *
+ * @typeParam T - The type of the value returned by the function.
+ * @param fn - A function that may panic.
+ * @returns `Ok` with the returned value, or `Err` with the `Panic`.
+ * @since 1.11.0
+ * @see catchUnwindAsync
+ * @see tryResult
+ * @example
+ * ```ts
+ * const result = catchUnwind(() => config.get('port').unwrap());
+ * if (result.isErr()) {
+ *     console.error('missing port:', result.error.message);
+ * }
+ * ```
+ */
+export function catchUnwind<T>(fn: () => T): Result<T, Panic> {
+    try {
+        return Ok(fn());
+    } catch (e) {
+        return unwound(e);
+    }
+}
+
+/**
+ * Asynchronous version of `catchUnwind`. Captures a `Panic` thrown by `fn` or rejected by the promise it returns.
+ *
+ * Other exceptions and rejections are rethrown as a rejection of the returned promise.
+ *
+ * @typeParam T - The type of the value returned by the function.
+ * @param fn - A function that may panic, returning a `PromiseLike` or a value.
+ * @returns A promise that resolves to `Ok` with the awaited value, or `Err` with the `Panic`.
+ * @since 1.11.0
+ * @see catchUnwind
+ * @see tryAsyncResult
+ * @example
+ * ```ts
+ * const result = await catchUnwindAsync(async () => {
+ *     const user = await fetchUser(id);
+ *     return user.unwrap();
+ * });
+ * ```
+ */
+export async function catchUnwindAsync<T>(fn: () => PromiseLike<T> | T): AsyncResult<Awaited<T>, Panic> {
+    try {
+        return Ok(await fn());
+    } catch (e) {
+        return unwound(e);
+    }
+}
+
+/**
+ * Converts a caught `Panic` into an `Err`, rethrowing any other exception.
+ *
+ * @param error - The caught exception.
+ * @returns `Err` with the `Panic`.
+ * @throws The exception itself if it is not a `Panic`.
+ */
+function unwound(error: unknown): Result<never, Panic> {
+    if (error instanceof Panic) {
+        return Err(error);
+    }
+
+    throw error;
+}
@@ -7,29 +7,58 @@
  * - `None` - Constant representing absence of value
  * - `Ok<T, E>(value)` - Creates a successful Result
  * - `Err<T, E>(error)` - Creates a failed Result
- * - `None` interface - Type overrides for better type inference
+ * - `Some`, `None`, `Ok` and `Err` interfaces - The variant types of the `Option` and `Result` unions
  */
-import { isOption } from './option/guards.ts';
-import type { AsyncLikeOption, AsyncOption, Option } from './option/option.ts';
+import type { AsyncLikeOption, AsyncOption, Option, OptionBase, OptionJSON, OptionMatcher } from './option/option.ts';
 import { OptionKindSymbol } from './option/symbols.ts';
-import { isResult } from './result/guards.ts';
-import type { AsyncLikeResult, AsyncResult, Result } from './result/result.ts';
+import { panic } from './panic/panic.ts';
+import { ContextError } from './result/context.ts';
+import type { AsyncLikeResult, AsyncResult, Result, ResultBase, ResultJSON, ResultMatcher } from './result/result.ts';
 import { ResultKindSymbol } from './result/symbols.ts';
+import type { ErrorTag } from './result/tagged_error.ts';
+import { assertOption, assertResult } from '../internal/assert.ts';
+import { compareValues, deepEqual } from '../internal/compare.ts';
+import { hasErrorTag } from '../internal/error_tag.ts';
 import { ASYNC_FALSE, ASYNC_TRUE } from '../internal/constants.ts';
+import { inspectVariant, InspectSymbol, type InspectFunction, type InspectOptions } from '../internal/inspect.ts';
+import { Equal, Greater, Less, type Ordering } from '../std/cmp/ordering.ts';
+
+/**
+ * The `Some` variant of `Option`, which contains a value.
+ *
+ * `Option<T>` narrows to this type after `isSome()` returns `true`.
+ *
+ * @typeParam T - The type of the contained value.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const x: Option<number> = Some(2);
+ * if (x.isSome()) {
+ *     console.log(x.value); // 2
+ * }
+ * ```
+ */
+export interface Some<T> extends OptionBase<T> {
+    readonly [OptionKindSymbol]: 'Some';
+
+    /**
+     * The contained value.
+     */
+    readonly value: T;
+}
 
 /**
  * Represents the absence of a value, as a specialized `Option` type.
  * The type parameter is set to `never` because `None` does not hold a value.
  */
-export interface None extends Option<never> {
+export interface None extends OptionBase<never> {
     /**
      * When using `None` alone, the following overrides can make type inference more accurate.
      */
 
     readonly [OptionKindSymbol]: 'None';
 
-    isSome(): false;
-    isNone(): true;
+    isSome(): this is never;
     isSomeAnd(predicate: (value: never) => boolean): false;
     isSomeAndAsync(predicate: (value: never) => PromiseLike<boolean> | boolean): Promise<false>;
     isNoneOr(predicate: (value: never) => boolean): true;
@@ -44,6 +73,8 @@ export interface None extends Option<never> {
     okOr<E>(error: E): Result<never, E>;
     okOrElse<E>(err: () => E): Result<never, E>;
     transpose(): Result<this, never>;
+    context(message: string): Result<never, ContextError>;
+    withContext(fn: () => string): Result<never, ContextError>;
 
     filter(predicate: (value: never) => boolean): this;
     flatten(): this;
@@ -55,6 +86,9 @@ export interface None extends Option<never> {
     zipWith<U, R>(other: Option<U>, fn: (value: never, otherValue: U) => R): this;
     unzip(): [this, this];
 
+    match<U, V>(matcher: OptionMatcher<never, U, V>): V;
+    matchAsync<U, V>(matcher: OptionMatcher<never, U, V>): Promise<Awaited<V>>;
+
     and<U>(other: Option<U>): this;
     andThen<U>(fn: (value: never) => Option<U>): this;
     andThenAsync<U>(fn: (value: never) => AsyncLikeOption<U> | Option<U>): Promise<this>;
@@ -65,7 +99,8 @@ export interface None extends Option<never> {
 
     inspect(fn: (value: never) => void): this;
 
-    eq<T>(other: Option<T>): boolean;
+    eq<T>(other: Option<T>, equals?: (a: T, b: T) => boolean): boolean;
+    cmp<T>(other: Option<T>, compare?: (a: T, b: T) => Ordering): Ordering;
 }
 
 /**
@@ -85,21 +120,29 @@ export interface None extends Option<never> {
  * ```
  */
 export function Some<T>(value: T): Option<T> {
-    const some: Option<T> = Object.freeze<Option<T>>({
+    const some: Some<T> = Object.freeze<Some<T>>({
         [Symbol.toStringTag]: 'Option',
         [OptionKindSymbol]: 'Some',
+        value,
 
-        *[Symbol.iterator](): Iterator<T> {
-            yield value;
+        [Symbol.iterator](): Iterator<None, T, unknown> {
+            // `yield*` evaluates to the value without yielding
+            return { next: () => ({ done: true, value }) };
         },
         toString(): string {
             return `Some(${value})`;
         },
+        [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string {
+            return inspectVariant('Some', [value], depth, options, inspect);
+        },
+        toJSON(): OptionJSON<T> {
+            return { $kind: 'Some', value };
+        },
 
-        isSome(): true {
+        isSome(): this is Some<T> {
             return true;
         },
-        isNone(): false {
+        isNone(): this is None {
             return false;
         },
         isSomeAnd(predicate: (value: T) => boolean): boolean {
@@ -185,6 +228,20 @@ export function Some<T>(value: T): Option<T> {
             return other.isSome() ? Some(fn(value, other.unwrap())) : some as Option<T | U | R>;
         },
 
+        context(_message: string): Result<T, ContextError> {
+            return Ok(value);
+        },
+        withContext(_fn: () => string): Result<T, ContextError> {
+            return Ok(value);
+        },
+
+        match<U, V>(matcher: OptionMatcher<T, U, V>): U {
+            return matcher.Some(value);
+        },
+        matchAsync<U, V>(matcher: OptionMatcher<T, U, V>): Promise<Awaited<U>> {
+            return Promise.resolve(matcher.Some(value));
+        },
+
         and<U>(other: Option<U>): Option<U> {
             assertOption<U>(other);
             return other;
@@ -209,14 +266,19 @@ export function Some<T>(value: T): Option<T> {
             return other.isSome() ? None : some;
         },
 
-        inspect(fn: (value: T) => void): Option<T> {
+        inspect(fn: (value: T) => void): Some<T> {
             fn(value);
             return some;
         },
 
-        eq(other: Option<T>): boolean {
+        eq(other: Option<T>, equals: (a: T, b: T) => boolean = deepEqual): boolean {
+            assertOption<T>(other);
+            return other.isSome() && equals(value, other.value);
+        },
+
+        cmp(other: Option<T>, compare: (a: T, b: T) => Ordering = compareValues): Ordering {
             assertOption<T>(other);
-            return other.isSome() && other.unwrap() === value;
+            return other.isSome() ? compare(value, other.value) : Greater;
         },
     } as const);
 
@@ -250,17 +312,26 @@ export const None: None = /*#__PURE__*/ Object.freeze<None>({
     [Symbol.toStringTag]: 'Option',
     [OptionKindSymbol]: 'None',
 
-    *[Symbol.iterator](): Iterator<never> {
-        // Empty iterator - yields nothing
+    *[Symbol.iterator](): Generator<None, never, unknown> {
+        // `Option.gen` returns the yielded `None` and never resumes the block
+        yield None;
+        // Only reached by `for...of` and spread syntax, which ignore the returned value
+        return undefined as never;
     },
     toString(): string {
         return 'None';
     },
+    [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string {
+        return inspectVariant('None', [], depth, options, inspect);
+    },
+    toJSON(): OptionJSON<never> {
+        return { $kind: 'None' };
+    },
 
-    isSome(): false {
+    isSome(): this is never {
         return false;
     },
-    isNone(): true {
+    isNone(): this is None {
         return true;
     },
     isSomeAnd(_predicate: (value: never) => boolean): false {
@@ -277,10 +348,10 @@ export const None: None = /*#__PURE__*/ Object.freeze<None>({
     },
 
     expect(msg: string): never {
-        throw new TypeError(msg);
+        return panic(msg);
     },
     unwrap(): never {
-        throw new TypeError('Option::unwrap() called on a `None` value');
+        return panic('Option::unwrap() called on a `None` value');
     },
     unwrapOr<T>(defaultValue: T): T {
         return defaultValue;
@@ -333,6 +404,20 @@ export const None: None = /*#__PURE__*/ Object.freeze<None>({
         return other as Option<U | R>;
     },
 
+    context(message: string): Result<never, ContextError> {
+        return Err(new ContextError(message));
+    },
+    withContext(fn: () => string): Result<never, ContextError> {
+        return Err(new ContextError(fn()));
+    },
+
+    match<U, V>(matcher: OptionMatcher<never, U, V>): V {
+        return matcher.None();
+    },
+    matchAsync<U, V>(matcher: OptionMatcher<never, U, V>): Promise<Awaited<V>> {
+        return Promise.resolve(matcher.None());
+    },
+
     and<U>(_other: Option<U>): None {
         return None;
     },
@@ -361,10 +446,15 @@ export const None: None = /*#__PURE__*/ Object.freeze<None>({
         return None;
     },
 
-    eq<T>(other: Option<T>): boolean {
+    eq<T>(other: Option<T>, _equals?: (a: T, b: T) => boolean): boolean {
         assertOption<T>(other);
         return other === None;
     },
+
+    cmp<T>(other: Option<T>, _compare?: (a: T, b: T) => Ordering): Ordering {
+        assertOption<T>(other);
+        return other === None ? Equal : Less;
+    },
 } as const);
 
 /**
@@ -372,7 +462,7 @@ export const None: None = /*#__PURE__*/ Object.freeze<None>({
  * A pre-resolved `Promise<None>` that can be reused to avoid creating
  * new Promise instances when returning `None` from async functions.
  *
- * Since `None extends Option<never>`, this constant can be assigned to any
+ * Since `None` is a member of every `Option<T>` union, this constant can be assigned to any
  * `AsyncOption<T>` (i.e., `Promise<Option<T>>`) due to TypeScript's covariance.
  *
  * @since 1.8.0
@@ -400,6 +490,57 @@ export const None: None = /*#__PURE__*/ Object.freeze<None>({
  */
 export const ASYNC_NONE: Promise<None> = /*#__PURE__*/ Promise.resolve(None);
 
+/**
+ * The `Ok` variant of `Result`, which contains a success value.
+ *
+ * `Result<T, E>` narrows to this type after `isOk()` returns `true`.
+ *
+ * @typeParam T - The type of the success value.
+ * @typeParam E - The type of the error the `Result` could contain.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const x: Result<number, string> = Ok(2);
+ * if (x.isOk()) {
+ *     console.log(x.value); // 2
+ * }
+ * ```
+ */
+export interface Ok<T, E = never> extends ResultBase<T, E> {
+    readonly [ResultKindSymbol]: 'Ok';
+
+    /**
+     * The success value.
+     */
+    readonly value: T;
+}
+
+/**
+ * The `Err` variant of `Result`, which contains an error value.
+ *
+ * `Result<T, E>` narrows to this type after `isErr()` returns `true`,
+ * or after `isOk()` returns `false`.
+ *
+ * @typeParam T - The type of the success value the `Result` could contain.
+ * @typeParam E - The type of the error value.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const x: Result<number, string> = Err('bad');
+ * if (!x.isOk()) {
+ *     console.log(x.error); // 'bad'
+ * }
+ * ```
+ */
+export interface Err<T = never, E = unknown> extends ResultBase<T, E> {
+    readonly [ResultKindSymbol]: 'Err';
+
+    /**
+     * The error value.
+     */
+    readonly error: E;
+}
+
 /**
  * Creates a `Result<T, E>` representing a successful outcome containing a value.
  * This function is used to construct a `Result` that signifies the operation was successful by containing the value `T`.
@@ -447,21 +588,29 @@ export function Ok<T, E = never>(value: T): Result<T, E>;
  */
 export function Ok<E = never>(): Result<void, E>;
 export function Ok<T, E>(value?: T): Result<T, E> {
-    const ok: Result<T, E> = Object.freeze<Result<T, E>>({
+    const ok: Ok<T, E> = Object.freeze<Ok<T, E>>({
         [Symbol.toStringTag]: 'Result',
         [ResultKindSymbol]: 'Ok',
+        value: value as T,
 
-        *[Symbol.iterator](): Iterator<T> {
-            yield value as T;
+        [Symbol.iterator](): Iterator<Result<never, E>, T, unknown> {
+            // `yield*` evaluates to the value without yielding
+            return { next: () => ({ done: true, value: value as T }) };
         },
         toString(): string {
             return `Ok(${value})`;
         },
+        [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string {
+            return inspectVariant('Ok', [value], depth, options, inspect);
+        },
+        toJSON(): ResultJSON<T, E> {
+            return { $kind: 'Ok', value: value as T };
+        },
 
-        isOk(): true {
+        isOk(): this is Ok<T, E> {
             return true;
         },
-        isErr(): false {
+        isErr(): this is Err<T, E> {
             return false;
         },
         isOkAnd(predicate: (value: T) => boolean): boolean {
@@ -495,17 +644,17 @@ export function Ok<T, E>(value?: T): Result<T, E> {
         },
 
         expectErr(msg: string): never {
-            throw new TypeError(`${msg}: ${value}`);
+            return panic(`${msg}: ${value}`);
         },
         unwrapErr(): never {
-            throw new TypeError('Result::unwrapErr() called on an `Ok` value');
+            return panic('Result::unwrapErr() called on an `Ok` value');
         },
 
         intoOk(): T {
             return value as T;
         },
         intoErr(): never {
-            throw new TypeError('Result::intoErr() called on an `Ok` value');
+            return panic('Result::intoErr() called on an `Ok` value');
         },
 
         ok(): Option<T> {
@@ -536,6 +685,27 @@ export function Ok<T, E>(value?: T): Result<T, E> {
             return value;
         },
 
+        context(_message: string): Result<T, ContextError> {
+            return ok as unknown as Result<T, ContextError>;
+        },
+        withContext(_fn: (error: E) => string): Result<T, ContextError> {
+            return ok as unknown as Result<T, ContextError>;
+        },
+
+        catchTag<Tag extends ErrorTag<E>, F>(_tag: Tag, _fn: (error: Extract<E, { readonly _tag: Tag; }>) => Result<T, F>): Result<T, Exclude<E, { readonly _tag: Tag; }> | F> {
+            return ok as unknown as Result<T, Exclude<E, { readonly _tag: Tag; }> | F>;
+        },
+        mapErrTag<Tag extends ErrorTag<E>, F>(_tag: Tag, _fn: (error: Extract<E, { readonly _tag: Tag; }>) => F): Result<T, Exclude<E, { readonly _tag: Tag; }> | F> {
+            return ok as unknown as Result<T, Exclude<E, { readonly _tag: Tag; }> | F>;
+        },
+
+        match<U, V>(matcher: ResultMatcher<T, E, U, V>): U {
+            return matcher.Ok(value as T);
+        },
+        matchAsync<U, V>(matcher: ResultMatcher<T, E, U, V>): Promise<Awaited<U>> {
+            return Promise.resolve(matcher.Ok(value as T));
+        },
+
         and<U>(other: Result<U, E>): Result<U, E> {
             assertResult<T, E>(other);
             return other;
@@ -556,24 +726,29 @@ export function Ok<T, E>(value?: T): Result<T, E> {
             return Promise.resolve(ok as unknown as Result<T, F>);
         },
 
-        inspect(fn: (value: T) => void): Result<T, E> {
+        inspect(fn: (value: T) => void): Ok<T, E> {
             fn(value as T);
             return ok;
         },
-        inspectErr(_fn: (error: E) => void): Result<T, E> {
+        inspectErr(_fn: (error: E) => void): Ok<T, E> {
             return ok;
         },
 
-        eq(other: Result<T, E>): boolean {
+        eq(other: Result<T, E>, equals: (a: T, b: T) => boolean = deepEqual): boolean {
             assertResult<T, E>(other);
-            return other.isOk() && other.unwrap() === value;
+            return other.isOk() && equals(value as T, other.value);
+        },
+
+        cmp(other: Result<T, E>, compare: (a: T, b: T) => Ordering = compareValues): Ordering {
+            assertResult<T, E>(other);
+            return other.isOk() ? compare(value as T, other.value) : Less;
         },
 
         asOk<F>(): Result<T, F> {
             return ok as unknown as Result<T, F>;
         },
         asErr(): never {
-            throw new TypeError('Result::asErr() called on an `Ok` value');
+            return panic('Result::asErr() called on an `Ok` value');
         },
 
         andTryAsync<U>(fn: (value: T) => PromiseLike<U> | U): AsyncResult<Awaited<U>, E> {
@@ -613,21 +788,31 @@ export function Ok<T, E>(value?: T): Result<T, E> {
  * ```
  */
 export function Err<T = never, E = unknown>(error: E): Result<T, E> {
-    const err: Result<T, E> = Object.freeze<Result<T, E>>({
+    const err: Err<T, E> = Object.freeze<Err<T, E>>({
         [Symbol.toStringTag]: 'Result',
         [ResultKindSymbol]: 'Err',
+        error,
 
-        *[Symbol.iterator](): Iterator<T> {
-            // Empty iterator - yields nothing for Err
+        *[Symbol.iterator](): Generator<Result<never, E>, never, unknown> {
+            // `Result.gen` returns the yielded `Err` and never resumes the block
+            yield err.asErr<never>();
+            // Only reached by `for...of` and spread syntax, which ignore the returned value
+            return undefined as never;
         },
         toString(): string {
             return `Err(${error})`;
         },
+        [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string {
+            return inspectVariant('Err', [error], depth, options, inspect);
+        },
+        toJSON(): ResultJSON<T, E> {
+            return { $kind: 'Err', error };
+        },
 
-        isOk(): false {
+        isOk(): this is Ok<T, E> {
             return false;
         },
-        isErr(): true {
+        isErr(): this is Err<T, E> {
             return true;
         },
         isOkAnd(_predicate: (value: T) => boolean): false {
@@ -645,10 +830,10 @@ export function Err<T = never, E = unknown>(error: E): Result<T, E> {
         },
 
         expect(msg: string): never {
-            throw new TypeError(`${msg}: ${error}`);
+            return panic(`${msg}: ${error}`, { cause: error });
         },
         unwrap(): never {
-            throw new TypeError('Result::unwrap() called on an `Err` value');
+            return panic('Result::unwrap() called on an `Err` value', { cause: error });
         },
         unwrapOr(defaultValue: T): T {
             return defaultValue;
@@ -668,7 +853,7 @@ export function Err<T = never, E = unknown>(error: E): Result<T, E> {
         },
 
         intoOk(): never {
-            throw new TypeError('Result::intoOk() called on an `Err` value');
+            return panic('Result::intoOk() called on an `Err` value', { cause: error });
         },
         intoErr(): E {
             return error;
@@ -700,6 +885,31 @@ export function Err<T = never, E = unknown>(error: E): Result<T, E> {
             return err as unknown as Result<U, E>;
         },
 
+        context(message: string): Result<T, ContextError> {
+            return Err(new ContextError(message, { cause: error }));
+        },
+        withContext(fn: (error: E) => string): Result<T, ContextError> {
+            return Err(new ContextError(fn(error), { cause: error }));
+        },
+
+        catchTag<Tag extends ErrorTag<E>, F>(tag: Tag, fn: (error: Extract<E, { readonly _tag: Tag; }>) => Result<T, F>): Result<T, Exclude<E, { readonly _tag: Tag; }> | F> {
+            return hasErrorTag(error, tag)
+                ? fn(error as Extract<E, { readonly _tag: Tag; }>)
+                : err as unknown as Result<T, Exclude<E, { readonly _tag: Tag; }>>;
+        },
+        mapErrTag<Tag extends ErrorTag<E>, F>(tag: Tag, fn: (error: Extract<E, { readonly _tag: Tag; }>) => F): Result<T, Exclude<E, { readonly _tag: Tag; }> | F> {
+            return hasErrorTag(error, tag)
+                ? Err(fn(error as Extract<E, { readonly _tag: Tag; }>))
+                : err as unknown as Result<T, Exclude<E, { readonly _tag: Tag; }>>;
+        },
+
+        match<U, V>(matcher: ResultMatcher<T, E, U, V>): V {
+            return matcher.Err(error);
+        },
+        matchAsync<U, V>(matcher: ResultMatcher<T, E, U, V>): Promise<Awaited<V>> {
+            return Promise.resolve(matcher.Err(error));
+        },
+
         and<U>(_other: Result<U, E>): Result<U, E> {
             return err as unknown as Result<U, E>;
         },
@@ -720,21 +930,26 @@ export function Err<T = never, E = unknown>(error: E): Result<T, E> {
             return Promise.resolve(fn(error));
         },
 
-        inspect(_fn: (value: T) => void): Result<T, E> {
+        inspect(_fn: (value: T) => void): Err<T, E> {
             return err;
         },
-        inspectErr(fn: (error: E) => void): Result<T, E> {
+        inspectErr(fn: (error: E) => void): Err<T, E> {
             fn(error);
             return err;
         },
 
-        eq(other: Result<T, E>): boolean {
+        eq(other: Result<T, E>, _equals?: (a: T, b: T) => boolean, equalsErr: (a: E, b: E) => boolean = deepEqual): boolean {
+            assertResult<T, E>(other);
+            return other.isErr() && equalsErr(error, other.error);
+        },
+
+        cmp(other: Result<T, E>, _compare?: (a: T, b: T) => Ordering, compareErr: (a: E, b: E) => Ordering = compareValues): Ordering {
             assertResult<T, E>(other);
-            return other.isErr() && other.unwrapErr() === error;
+            return other.isErr() ? compareErr(error, other.error) : Greater;
         },
 
         asOk(): never {
-            throw new TypeError('Result::asOk() called on an `Err` value');
+            return panic('Result::asOk() called on an `Err` value', { cause: error });
         },
         asErr<U>(): Result<U, E> {
             return err as unknown as Result<U, E>;
@@ -758,56 +973,3 @@ export function Err<T = never, E = unknown>(error: E): Result<T, E> {
 
     return err;
 }
-
-/**
- * Safely converts a value to a string representation for error messages.
- * Handles cases where `toString()` might throw or values are null/undefined.
- *
- * @param value - The value to stringify.
- * @returns A safe string representation of the value.
- */
-function safeStringify(value: unknown): string {
-    try {
-        if (value === null) {
-            return 'null';
-        }
-        if (value === undefined) {
-            return 'undefined';
-        }
-        if (typeof value === 'object') {
-            return Object.prototype.toString.call(value);
-        }
-        return String(value);
-    } catch {
-        return '[unable to stringify]';
-    }
-}
-
-/**
- * Asserts that a given value is an `Option`.
- *
- * @typeParam T - The expected type of the value contained within the `Option`.
- * @param o - The value to be checked as an `Option`.
- * @throws {TypeError} If the value is not an `Option`.
- * @see isOption
- */
-function assertOption<T>(o: unknown): asserts o is Option<T> {
-    if (!isOption(o)) {
-        throw new TypeError(`Expected an Option, but received: ${safeStringify(o)}`);
-    }
-}
-
-/**
- * Asserts that a given value is a `Result`.
- *
- * @typeParam T - The expected type of the success value contained within the `Result`.
- * @typeParam E - The expected type of the error value contained within the `Result`.
- * @param r - The value to be checked as a `Result`.
- * @throws {TypeError} If the value is not a `Result`.
- * @see isResult
- */
-function assertResult<T, E>(r: unknown): asserts r is Result<T, E> {
-    if (!isResult(r)) {
-        throw new TypeError(`Expected a Result, but received: ${safeStringify(r)}`);
-    }
-}
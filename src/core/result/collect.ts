@@ -0,0 +1,121 @@
+/**
+ * @module
+ * Collection combinators for `Result`, the JavaScript counterpart of Rust's `collect::<Result<_, _>>()`.
+ *
+ * The functions here are exposed publicly as `Result.all`, `Result.any`, `Result.partition` and their async versions.
+ * Note: This module is not re-exported from the Result module entry point.
+ */
+import { assertResult } from '../../internal/assert.ts';
+import { assertConcurrency, runTasks, shapeLike, valuesOf, type Task } from '../../internal/collection.ts';
+import { Err, Ok } from '../prelude.ts';
+import type { AsyncResult, AsyncResultCollection, AsyncResultTask, ConcurrencyOptions, ErrUnion, ErrValues, OkValues, Result, ResultCollection } from './result.ts';
+
+/**
+ * Collects the success values of a collection of `Result`s.
+ *
+ * @see ResultStatic.all
+ */
+export function all<const R extends ResultCollection>(results: R): Result<OkValues<R>, ErrUnion<R>> {
+    const values: unknown[] = [];
+
+    for (const result of valuesOf<unknown>(results)) {
+        assertResult<unknown, ErrUnion<R>>(result);
+        if (result.isErr()) {
+            return result.asErr();
+        }
+        values.push(result.unwrap());
+    }
+
+    return Ok(shapeLike(results, values) as OkValues<R>);
+}
+
+/**
+ * Collects the success values of a collection of `AsyncResultTask`s concurrently.
+ *
+ * @see ResultStatic.allAsync
+ */
+export async function allAsync<const R extends AsyncResultCollection>(results: R, options?: ConcurrencyOptions): AsyncResult<OkValues<R>, ErrUnion<R>> {
+    const { concurrency = Infinity } = options ?? {};
+    assertConcurrency(concurrency);
+
+    const tasks = valuesOf<Task<unknown>>(results);
+    const values: unknown[] = new Array(tasks.length);
+    let error: Result<never, ErrUnion<R>> | undefined;
+
+    await runTasks(tasks, concurrency, (result, index) => {
+        assertResult<unknown, ErrUnion<R>>(result);
+        if (result.isErr()) {
+            error = result.asErr();
+            return true;
+        }
+        values[index] = result.unwrap();
+        return false;
+    });
+
+    return error ?? Ok(shapeLike(results, values) as OkValues<R>);
+}
+
+/**
+ * Returns the first `Ok` of an array of `Result`s, or all the errors.
+ *
+ * @see ResultStatic.any
+ */
+export function any<const R extends readonly Result<unknown, unknown>[]>(results: R): Result<OkValues<R>[number], ErrValues<R>> {
+    const errors: unknown[] = [];
+
+    for (const result of results) {
+        assertResult<OkValues<R>[number], unknown>(result);
+        if (result.isOk()) {
+            return result.asOk();
+        }
+        errors.push(result.unwrapErr());
+    }
+
+    return Err(errors as ErrValues<R>);
+}
+
+/**
+ * Returns the first `Ok` of an array of `AsyncResultTask`s to settle, or all the errors.
+ *
+ * @see ResultStatic.anyAsync
+ */
+export async function anyAsync<const R extends readonly AsyncResultTask<unknown, unknown>[]>(results: R, options?: ConcurrencyOptions): AsyncResult<OkValues<R>[number], ErrValues<R>> {
+    const { concurrency = Infinity } = options ?? {};
+    assertConcurrency(concurrency);
+
+    const errors: unknown[] = new Array(results.length);
+    let value: Result<OkValues<R>[number], never> | undefined;
+
+    await runTasks<unknown>(results, concurrency, (result, index) => {
+        assertResult<OkValues<R>[number], unknown>(result);
+        if (result.isOk()) {
+            value = result.asOk();
+            return true;
+        }
+        errors[index] = result.unwrapErr();
+        return false;
+    });
+
+    return value ?? Err(errors as ErrValues<R>);
+}
+
+/**
+ * Splits `Result`s into the success values and the error values.
+ *
+ * @see ResultStatic.partition
+ */
+export function partition<T, E>(results: Iterable<Result<T, E>>): [oks: T[], errs: E[]] {
+    const oks: T[] = [];
+    const errs: E[] = [];
+
+    for (const result of results) {
+        assertResult<T, E>(result);
+        if (result.isOk()) {
+            oks.push(result.unwrap());
+        } else {
+            errs.push(result.unwrapErr());
+        }
+    }
+
+    return [oks, errs];
+}
@@ -0,0 +1,150 @@
+/**
+ * @module
+ * Error context chaining, similar to Rust's [anyhow](https://docs.rs/anyhow) `context` / `with_context`.
+ *
+ * `Result.context` and `Option.context` wrap the original error into a `ContextError` whose `cause` is that error,
+ * so an error that bubbles through several layers keeps the whole story of where it came from.
+ * The helpers in this module walk, format and downcast such chains.
+ */
+
+import { safeStringify } from '../../internal/assert.ts';
+import type { Option } from '../option/option.ts';
+import { None, Some } from '../prelude.ts';
+
+/**
+ * An error that adds a context message to an underlying error, stored in the standard `cause` property.
+ *
+ * Created by `Result.context` / `Result.withContext` (with the original error as `cause`)
+ * and by `Option.context` / `Option.withContext` (without a `cause`).
+ * Since it extends `Error`, a `Result<T, ContextError>` is an `IOResult<T>`.
+ * It can also be created directly with `new ContextError(message, { cause })`.
+ *
+ * @since 1.11.0
+ * @see errorChain
+ * @see formatErrorChain
+ * @see downcastError
+ * @example
+ * ```ts
+ * function readConfig(path: string): IOResult<string> {
+ *     return tryResult(() => fs.readFileSync(path, 'utf-8'))
+ *         .context(`Failed to read config from ${path}`);
+ * }
+ *
+ * const err = readConfig('/etc/app.json').unwrapErr();
+ * console.log(err.message); // 'Failed to read config from /etc/app.json'
+ * console.log(err.cause);   // the original ENOENT error
+ * ```
+ */
+export class ContextError extends Error {
+    override readonly name = 'ContextError';
+}
+
+/**
+ * Iterates over an error and its chain of causes, starting with the error itself.
+ *
+ * The chain follows the standard `cause` property of `Error` instances and stops at the first
+ * value that is not an `Error` or has no `cause`. A cause that was already visited ends the chain,
+ * so cyclic chains terminate.
+ *
+ * @param error - The outermost error.
+ * @returns An iterator over the error and each of its causes, outermost first.
+ * @since 1.11.0
+ * @see formatErrorChain
+ * @example
+ * ```ts
+ * const err = new ContextError('Failed to load user', { cause: new Error('timeout') });
+ * for (const cause of errorChain(err)) {
+ *     console.log(String(cause)); // 'ContextError: Failed to load user', then 'Error: timeout'
+ * }
+ * ```
+ */
+export function* errorChain(error: unknown): Generator<unknown, void, undefined> {
+    const seen = new Set<unknown>();
+    let current = error;
+
+    while (!seen.has(current)) {
+        seen.add(current);
+        yield current;
+        if (!(current instanceof Error) || !('cause' in current)) {
+            return;
+        }
+        current = current.cause;
+    }
+}
+
+/**
+ * Formats an error and its chain of causes, one message per line, like anyhow's `{:?}` output.
+ *
+ * `Error` instances are described by their `message` (or their `name` if the message is empty),
+ * and any other value is converted to a string.
+ *
+ * @param error - The outermost error.
+ * @returns The outermost message, followed by a numbered `Caused by:` list if the error has causes.
+ * @since 1.11.0
+ * @see errorChain
+ * @example
+ * ```ts
+ * const result = loadUser(id).context('Failed to render profile');
+ * if (result.isErr()) {
+ *     console.error(formatErrorChain(result.error));
+ *     // Failed to render profile
+ *     //
+ *     // Caused by:
+ *     //     0: Failed to load user 42
+ *     //     1: connect ECONNREFUSED 127.0.0.1:5432
+ * }
+ * ```
+ */
+export function formatErrorChain(error: unknown): string {
+    const [head, ...causes] = Array.from(errorChain(error), describe);
+
+    if (causes.length === 0) {
+        return head;
+    }
+
+    const lines = causes.map((cause, index) => `    ${index}: ${cause}`);
+    return `${head}\n\nCaused by:\n${lines.join('\n')}`;
+}
+
+/**
+ * Finds the first error in the chain of `error` (including `error` itself) that is an instance of `ctor`,
+ * like anyhow's `downcast_ref`.
+ *
+ * @typeParam C - The type of the error class.
+ * @param error - The outermost error.
+ * @param ctor - The error class to look for.
+ * @returns `Some` with the first matching error, or `None` if no error in the chain is an instance of `ctor`.
+ * @since 1.11.0
+ * @see errorChain
+ * @example
+ * ```ts
+ * const result = fetchUser(id).context('Failed to load profile');
+ * const status = result
+ *     .err()
+ *     .andThen(err => downcastError(err, HttpError))
+ *     .map(httpError => httpError.status);
+ * ```
+ */
+export function downcastError<C extends abstract new (...args: never[]) => unknown>(error: unknown, ctor: C): Option<InstanceType<C>> {
+    for (const cause of errorChain(error)) {
+        if (cause instanceof ctor) {
+            return Some(cause as InstanceType<C>);
+        }
+    }
+
+    return None;
+}
+
+/**
+ * Describes one link of an error chain.
+ *
+ * @param error - The error or cause to describe.
+ * @returns A one-line description.
+ */
+function describe(error: unknown): string {
+    if (error instanceof Error) {
+        return error.message || error.name;
+    }
+
+    return safeStringify(error);
+}
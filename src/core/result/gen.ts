@@ -0,0 +1,47 @@
+/**
+ * @module
+ * Generator-based do-notation for `Result`, the JavaScript counterpart of Rust's `?` operator.
+ *
+ * The functions here are exposed publicly as `Result.gen` and `Result.genAsync`.
+ * Note: This module is not re-exported from the Result module entry point.
+ */
+import { Ok } from '../prelude.ts';
+import type { AsyncResult, Result } from './result.ts';
+
+/**
+ * Drives a `Result.gen` body.
+ *
+ * `yield* result` in the body yields nothing for an `Ok`, and yields the `Err` itself, which is returned.
+ *
+ * @see ResultStatic.gen
+ */
+export function gen<T, Y extends Result<never, unknown> = never>(body: () => Generator<Y, T, unknown>): Result<T, Y extends Result<never, infer E> ? E : never> {
+    const iterator = body();
+    const step = iterator.next();
+
+    if (step.done) {
+        return Ok(step.value);
+    }
+
+    // Run pending `finally` blocks of the body before short-circuiting
+    iterator.return(undefined as T);
+    return step.value as Result<never, Y extends Result<never, infer E> ? E : never>;
+}
+
+/**
+ * Drives a `Result.genAsync` body.
+ *
+ * @see ResultStatic.genAsync
+ */
+export async function genAsync<T, Y extends Result<never, unknown> = never>(body: () => AsyncGenerator<Y, T, unknown>): AsyncResult<T, Y extends Result<never, infer E> ? E : never> {
+    const iterator = body();
+    const step = await iterator.next();
+
+    if (step.done) {
+        return Ok(step.value);
+    }
+
+    // Run pending `finally` blocks of the body before short-circuiting
+    await iterator.return(undefined as T);
+    return step.value as Result<never, Y extends Result<never, infer E> ? E : never>;
+}
@@ -5,6 +5,9 @@
  */
 export * from './aliases.ts';
 export * from './constants.ts';
+export * from './context.ts';
 export * from './extensions.ts';
 export * from './guards.ts';
 export * from './result.ts';
+export * from './result_async.ts';
+export * from './tagged_error.ts';
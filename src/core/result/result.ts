@@ -3,8 +3,15 @@
  * A Rust-inspired [Result](https://doc.rust-lang.org/std/result/index.html) enum type, used for better error handling.
  */
 
+import type { InspectFunction, InspectOptions, InspectSymbol } from '../../internal/inspect.ts';
+import type { Ordering } from '../../std/cmp/ordering.ts';
 import type { Option } from '../option/option.ts';
+import type { Err, Ok } from '../prelude.ts';
+import { all, allAsync, any, anyAsync, partition } from './collect.ts';
+import type { ContextError } from './context.ts';
+import { gen, genAsync } from './gen.ts';
 import type { ResultKindSymbol } from './symbols.ts';
+import type { ErrorTag } from './tagged_error.ts';
 
 /**
  * The `Result` type is used for returning and propagating errors.
@@ -18,12 +25,36 @@ pub enum Result<T, E> {
     Err(E),
 }
 ```
+ * `Result` is a discriminated union of the `Ok` and `Err` types, so `isOk()` and `isErr()` narrow it
+ * and give access to the `value` or `error` field of the variant.
+ *
  * @typeParam T - The type of the value contained in a successful `Result`.
  * @typeParam E - The type of the error contained in an unsuccessful `Result`.
  * @since 1.0.0
  * @see https://doc.rust-lang.org/std/result/enum.Result.html
+ * @example
+ * ```ts
+ * const result: Result<number, Error> = parse(input);
+ * if (result.isOk()) {
+ *     console.log(result.value); // number
+ * } else {
+ *     console.log(result.error); // Error
+ * }
+ * ```
  */
-export interface Result<T, E> {
+export type Result<T, E> = Ok<T, E> | Err<T, E>;
+
+/**
+ * The methods shared by the `Ok` and `Err` variants of `Result`.
+ *
+ * Use `Result<T, E>` in signatures, which also narrows on `isOk()` and `isErr()`.
+ *
+ * @typeParam T - The type of the value contained in a successful `Result`.
+ * @typeParam E - The type of the error contained in an unsuccessful `Result`.
+ * @since 1.11.0
+ * @see Result
+ */
+export interface ResultBase<T, E> {
     // #region Internal properties
 
     /**
@@ -57,34 +88,24 @@ export interface Result<T, E> {
     // #region JavaScript protocols
 
     /**
-     * Implements the Iterator protocol, allowing `Result` to be used with `for...of` loops and spread syntax.
-     * - For `Ok(value)`, yields the contained value once.
-     * - For `Err(error)`, yields nothing (empty iterator).
+     * Implements the Iterator protocol for the `yield*` do-notation of `Result.gen` and `Result.genAsync`.
+     * - For `Ok(value)`, yields nothing and returns the contained value, so `yield* result` evaluates to it.
+     * - For `Err(error)`, yields the `Err` itself, which `Result.gen` returns to short-circuit the block.
      *
-     * This is similar to Rust's `Result::iter()` method.
+     * This is the JavaScript counterpart of Rust's `?` operator.
+     * `for...of` and spread syntax therefore see the `Err` and never the `Ok` value; read `value` after `isOk()` instead.
      *
-     * @returns An iterator that yields zero or one value.
+     * @returns An iterator that yields the `Err` or nothing, and returns the `Ok` value.
+     * @see ResultStatic.gen
      * @example
      * ```ts
-     * // Using with for...of
-     * for (const value of Ok(5)) {
-     *     console.log(value); // 5
-     * }
-     *
-     * for (const value of Err('error')) {
-     *     console.log(value); // never executed
-     * }
-     *
-     * // Using with spread operator
-     * const arr1 = [...Ok(5)];        // [5]
-     * const arr2 = [...Err('error')]; // []
-     *
-     * // Using with Array.from
-     * Array.from(Ok('hello'));   // ['hello']
-     * Array.from(Err('error'));  // []
+     * const sum = Result.gen(function* () {
+     *     const a = yield* parse('1'); // number, or returns the Err of parse
+     *     return a + 1;
+     * });
      * ```
      */
-    [Symbol.iterator](): Iterator<T>;
+    [Symbol.iterator](): Iterator<Result<never, E>, T, unknown>;
 
     /**
      * Custom `toString` implementation that uses the `Result`'s contained value.
@@ -96,6 +117,37 @@ export interface Result<T, E> {
      */
     toString(): string;
 
+    /**
+     * Custom inspection used by `util.inspect` and `console.log` in Node.js, Deno and Bun.
+     * The contained value is inspected with the options of the surrounding output,
+     * so a `Result` prints as `Ok({ a: 1 })` instead of `Ok([object Object])`.
+     *
+     * @param depth - The remaining depth.
+     * @param options - The options of the surrounding `util.inspect` call.
+     * @param inspect - The `util.inspect` function.
+     * @returns The inspected representation.
+     * @example
+     * ```ts
+     * console.log(Ok({ a: 1 })); // Ok({ a: 1 })
+     * console.log(Err(['timeout'])); // Err([ 'timeout' ])
+     * ```
+     */
+    [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string;
+
+    /**
+     * Returns the tagged JSON shape of the `Result`, called by `JSON.stringify`.
+     * Contained `Result`s, `Option`s and `ControlFlow`s are serialized the same way.
+     *
+     * Use `reviver` or `resultFromJSON` to turn the JSON back into a `Result`.
+     * @see ResultJSON
+     * @example
+     * ```ts
+     * console.log(JSON.stringify(Ok(5))); // '{"$kind":"Ok","value":5}'
+     * console.log(JSON.stringify(Err('error'))); // '{"$kind":"Err","error":"error"}'
+     * ```
+     */
+    toJSON(): ResultJSON<T, E>;
+
     // #endregion
 
     // #region Querying the variant
@@ -105,7 +157,7 @@ export interface Result<T, E> {
      */
 
     /**
-     * Returns `true` if the result is `Ok`.
+     * Returns `true` if the result is `Ok`, narrowing it to the `Ok` type.
      * @example
      * ```ts
      * const x = Ok(5);
@@ -113,9 +165,13 @@ export interface Result<T, E> {
      *
      * const y = Err('error');
      * console.log(y.isOk()); // false
+     *
+     * if (x.isOk()) {
+     *     console.log(x.value); // 5
+     * }
      * ```
      */
-    isOk(): boolean;
+    isOk(): this is Ok<T, E>;
 
     /**
      * Returns `true` if the result is `Err`.
@@ -126,9 +182,13 @@ export interface Result<T, E> {
      *
      * const y = Err('error');
      * console.log(y.isErr()); // true
+     *
+     * if (y.isErr()) {
+     *     console.log(y.error); // 'error'
+     * }
      * ```
      */
-    isErr(): boolean;
+    isErr(): this is Err<T, E>;
 
     /**
      * Returns `true` if the result is `Ok` and the provided predicate returns `true` for the contained value.
@@ -194,7 +254,7 @@ export interface Result<T, E> {
     /**
      * Returns the contained `Ok` value, with a provided error message if the result is `Err`.
      * @param msg - The error message to provide if the result is an `Err`.
-     * @throws {TypeError} Throws an error with the provided message if the result is an `Err`.
+     * @throws {Panic} Throws an error with the provided message if the result is an `Err`.
      * @see unwrap
      * @see expectErr
      * @see intoOk
@@ -211,7 +271,7 @@ export interface Result<T, E> {
 
     /**
      * Returns the contained `Ok` value.
-     * @throws {TypeError} Throws an error if the result is an `Err`.
+     * @throws {Panic} Throws an error if the result is an `Err`.
      * @see expect
      * @see unwrapOr
      * @see unwrapErr
@@ -274,7 +334,7 @@ export interface Result<T, E> {
     /**
      * Returns the contained `Err` value, with a provided error message if the result is `Ok`.
      * @param msg - The error message to provide if the result is an `Ok`.
-     * @throws {TypeError} Throws an error with the provided message if the result is an `Ok`.
+     * @throws {Panic} Throws an error with the provided message if the result is an `Ok`.
      * @see unwrapErr
      * @see expect
      * @see intoErr
@@ -291,7 +351,7 @@ export interface Result<T, E> {
 
     /**
      * Returns the contained `Err` value.
-     * @throws {TypeError} Throws an error if the result is an `Ok`.
+     * @throws {Panic} Throws an error if the result is an `Ok`.
      * @see expectErr
      * @see unwrap
      * @see intoErr
@@ -514,6 +574,116 @@ export interface Result<T, E> {
 
     // #endregion
 
+    // #region Adding context
+
+    /**
+     * Wraps the `Err` value into a `ContextError` with the given message and the original error as its `cause`,
+     * leaving an `Ok` value untouched. Similar to anyhow's `Context::context`.
+     * @param message - The context message.
+     * @see withContext
+     * @see formatErrorChain
+     * @example
+     * ```ts
+     * const x = Err<number, string>('file not found').context('Failed to load config');
+     * console.log(x.unwrapErr().message); // 'Failed to load config'
+     * console.log(x.unwrapErr().cause); // 'file not found'
+     * ```
+     */
+    context(message: string): Result<T, ContextError>;
+
+    /**
+     * Like `context`, but the message is computed by `fn` only if the result is `Err`.
+     * Similar to anyhow's `Context::with_context`.
+     * @param fn - A function that takes the `Err` value and returns the context message.
+     * @see context
+     * @example
+     * ```ts
+     * const x = readFile(path).withContext(() => `Failed to read ${path}`);
+     * ```
+     */
+    withContext(fn: (error: E) => string): Result<T, ContextError>;
+
+    // #endregion
+
+    // #region Handling tagged errors
+
+    /**
+     * Calls `fn` with the `Err` value if its `_tag` is `tag`, and returns its result, which may recover with an `Ok`.
+     * Errors with another tag and `Ok` values are returned untouched.
+     * The handled tag is removed from the error type, like a `catch` clause for one error class.
+     * @typeParam Tag - The tag of the handled errors.
+     * @typeParam F - The type of the error returned by `fn`.
+     * @param tag - The tag of the errors to handle.
+     * @param fn - A function that takes the error with the given tag and returns a new `Result`.
+     * @see mapErrTag
+     * @see defineError
+     * @example
+     * ```ts
+     * const x: Result<User, NotFoundError | TimeoutError> = findUser(id);
+     * const y = x.catchTag('NotFound', () => Ok(GUEST)); // Result<User, TimeoutError>
+     * ```
+     */
+    catchTag<Tag extends ErrorTag<E>, F = never>(tag: Tag, fn: (error: Extract<E, { readonly _tag: Tag; }>) => Result<T, F>): Result<T, Exclude<E, { readonly _tag: Tag; }> | F>;
+
+    /**
+     * Maps the `Err` value with `fn` if its `_tag` is `tag`, leaving errors with another tag and `Ok` values untouched.
+     * The handled tag is replaced by the type returned by `fn` in the error type.
+     * @typeParam Tag - The tag of the mapped errors.
+     * @typeParam F - The type of the error returned by `fn`.
+     * @param tag - The tag of the errors to map.
+     * @param fn - A function that takes the error with the given tag and returns a new error.
+     * @see catchTag
+     * @example
+     * ```ts
+     * const x: Result<User, NotFoundError | TimeoutError> = findUser(id);
+     * const y = x.mapErrTag('Timeout', e => new HttpError(504, { cause: e })); // Result<User, NotFoundError | HttpError>
+     * ```
+     */
+    mapErrTag<Tag extends ErrorTag<E>, F>(tag: Tag, fn: (error: Extract<E, { readonly _tag: Tag; }>) => F): Result<T, Exclude<E, { readonly _tag: Tag; }> | F>;
+
+    // #endregion
+
+    // #region Pattern matching
+
+    /**
+     * Calls the `Ok` arm with the success value or the `Err` arm with the error, and returns what it returns.
+     * This is the counterpart of Rust's `match` expression, checked for exhaustiveness by the type of `matcher`.
+     *
+     * @typeParam U - The return type of the `Ok` arm.
+     * @typeParam V - The return type of the `Err` arm.
+     * @param matcher - An object with an `Ok` and an `Err` arm.
+     * @returns The value returned by the arm that was called.
+     * @see matchAsync
+     * @example
+     * ```ts
+     * const message = parse(input).match({
+     *     Ok: value => `parsed ${value}`,
+     *     Err: error => `failed: ${error.message}`,
+     * });
+     * ```
+     */
+    match<U, V>(matcher: ResultMatcher<T, E, U, V>): U | V;
+
+    /**
+     * Asynchronous version of `match`. The arms may return a `PromiseLike`, which is awaited.
+     *
+     * @typeParam U - The return type of the `Ok` arm.
+     * @typeParam V - The return type of the `Err` arm.
+     * @param matcher - An object with an `Ok` and an `Err` arm.
+     * @returns A promise that resolves to the awaited value returned by the arm that was called.
+     * @see match
+     * @example
+     * ```ts
+     * const user = await parseId(input).matchAsync({
+     *     Ok: id => fetchUser(id),
+     *     Err: () => guestUser,
+     * });
+     * ```
+     */
+    matchAsync<U, V>(matcher: ResultMatcher<T, E, U, V>): Promise<Awaited<U | V>>;
+
+    // #endregion
+
     // #region Boolean operators
 
     /**
@@ -661,7 +831,12 @@ export interface Result<T, E> {
 
     /**
      * Tests whether `this` and `other` are both `Ok` containing equal values, or both are `Err` containing equal errors.
+     *
+     * By default the contained values and errors are compared structurally: arrays, plain objects, `Map`s, `Set`s,
+     * `Date`s, `Error`s and nested `Option`s or `Result`s are equal if their contents are equal.
      * @param other - The other `Result` to compare with.
+     * @param equals - A function comparing the `Ok` values.
+     * @param equalsErr - A function comparing the `Err` errors.
      * @returns `true` if `this` and `other` are both `Ok` with equal values, or both are `Err` with equal errors, otherwise `false`.
      * @example
      * ```ts
@@ -675,9 +850,36 @@ export interface Result<T, E> {
      * const e = Err('error');
      * console.log(d.eq(e)); // true
      * console.log(a.eq(d)); // false
+     * console.log(Err(new Error('boom')).eq(Err(new Error('boom')))); // true
+     * console.log(Ok({ id: 1, at: 1 }).eq(Ok({ id: 1, at: 2 }), (x, y) => x.id === y.id)); // true
+     * ```
+     */
+    eq(other: Result<T, E>, equals?: (a: T, b: T) => boolean, equalsErr?: (a: E, b: E) => boolean): boolean;
+
+    // #endregion
+
+    // #region Ordering comparison
+
+    /**
+     * Compares `this` with `other`, following Rust's `Ord` for `Result`: any `Ok` is less than any `Err`,
+     * two `Ok`s are ordered by their values and two `Err`s by their errors.
+     *
+     * By default numbers, bigints, strings, booleans, `Date`s, arrays (lexicographically)
+     * and nested `Option`s or `Result`s can be ordered.
+     * @param other - The other `Result` to compare with.
+     * @param compare - A function ordering the `Ok` values.
+     * @param compareErr - A function ordering the `Err` errors.
+     * @returns `Less`, `Equal` or `Greater`.
+     * @throws {Panic} If the contained values cannot be ordered by default, such as plain objects or `NaN`.
+     * @see Result.compare
+     * @example
+     * ```ts
+     * console.log(Ok(1).cmp(Err('e')) === Less); // true
+     * console.log(Ok(2).cmp(Ok(1)) === Greater); // true
+     * console.log(Err('a').cmp(Err('b')) === Less); // true
      * ```
      */
-    eq(other: Result<T, E>): boolean;
+    cmp(other: Result<T, E>, compare?: (a: T, b: T) => Ordering, compareErr?: (a: E, b: E) => Ordering): Ordering;
 
     // #endregion
 
@@ -854,3 +1056,326 @@ export type AsyncResult<T, E> = Promise<Result<T, E>>;
  * ```
  */
 export type AsyncLikeResult<T, E> = PromiseLike<Result<T, E>>;
+
+/**
+ * The arms passed to `Result.match`, one for each variant.
+ *
+ * @typeParam T - The type of the success value.
+ * @typeParam E - The type of the error value.
+ * @typeParam U - The return type of the `Ok` arm.
+ * @typeParam V - The return type of the `Err` arm.
+ * @since 1.11.0
+ * @see Result.match
+ * @example
+ * ```ts
+ * const toStatus: ResultMatcher<User, HttpError, number, number> = {
+ *     Ok: () => 200,
+ *     Err: error => error.status,
+ * };
+ * ```
+ */
+export interface ResultMatcher<T, E, U, V> {
+    /**
+     * Called with the success value if the `Result` is `Ok`.
+     */
+    readonly Ok: (value: T) => U;
+
+    /**
+     * Called with the error if the `Result` is `Err`.
+     */
+    readonly Err: (error: E) => V;
+}
+
+/**
+ * The JSON shape of a `Result`, returned by `Result.toJSON`.
+ *
+ * @typeParam T - The type of the success value.
+ * @typeParam E - The type of the error value.
+ * @since 1.11.0
+ * @see Result.toJSON
+ */
+export type ResultJSON<T, E> =
+    | { readonly $kind: 'Ok'; readonly value: T; }
+    | { readonly $kind: 'Err'; readonly error: E; };
+
+/**
+ * A collection of `Result`s accepted by `Result.all`: an array, a tuple, or an object record.
+ *
+ * @since 1.11.0
+ * @see ResultStatic.all
+ */
+export type ResultCollection = readonly Result<unknown, unknown>[] | Readonly<Record<string, Result<unknown, unknown>>>;
+
+/**
+ * A `Result` awaited by `Result.allAsync` and `Result.anyAsync`: a `Result`, a `PromiseLike` of a `Result`,
+ * or a function returning either. Functions are only called once a concurrency slot is free.
+ *
+ * @typeParam T - The type of the success value.
+ * @typeParam E - The type of the error value.
+ * @since 1.11.0
+ * @see ResultStatic.allAsync
+ */
+export type AsyncResultTask<T, E> = Result<T, E> | AsyncLikeResult<T, E> | (() => Result<T, E> | AsyncLikeResult<T, E>);
+
+/**
+ * A collection of `AsyncResultTask`s accepted by `Result.allAsync`: an array, a tuple, or an object record.
+ *
+ * @since 1.11.0
+ * @see ResultStatic.allAsync
+ */
+export type AsyncResultCollection = readonly AsyncResultTask<unknown, unknown>[] | Readonly<Record<string, AsyncResultTask<unknown, unknown>>>;
+
+/**
+ * Maps each `Result` (or `AsyncResultTask`) of a collection to its success type.
+ * Tuples stay tuples and records keep their keys.
+ *
+ * @typeParam R - The collection type.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * type Values = OkValues<[Result<number, string>, Result<boolean, Error>]>; // [number, boolean]
+ * ```
+ */
+export type OkValues<R> = { -readonly [K in keyof R]: Awaited<R[K] extends () => infer P ? P : R[K]> extends infer X extends Result<unknown, unknown> ? ReturnType<X['unwrap']> : never };
+
+/**
+ * Maps each `Result` (or `AsyncResultTask`) of a collection to its error type.
+ * Tuples stay tuples and records keep their keys.
+ *
+ * @typeParam R - The collection type.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * type Errors = ErrValues<[Result<number, string>, Result<boolean, Error>]>; // [string, Error]
+ * ```
+ */
+export type ErrValues<R> = { -readonly [K in keyof R]: Awaited<R[K] extends () => infer P ? P : R[K]> extends infer X extends Result<unknown, unknown> ? ReturnType<X['unwrapErr']> : never };
+
+/**
+ * The union of the error types of all `Result`s (or `AsyncResultTask`s) of a collection.
+ *
+ * @typeParam R - The collection type.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * type Error = ErrUnion<{ a: Result<number, string>; b: Result<boolean, Error> }>; // string | Error
+ * ```
+ */
+export type ErrUnion<R> = R extends readonly unknown[] ? ErrValues<R>[number] : ErrValues<R>[keyof R];
+
+/**
+ * Options for the concurrent collection helpers such as `Result.allAsync` and `Option.allAsync`.
+ *
+ * @since 1.11.0
+ */
+export interface ConcurrencyOptions {
+    /**
+     * The maximum number of tasks pending at the same time.
+     * Only tasks passed as functions can be deferred; promises are already running.
+     * Must be a positive integer or `Infinity`.
+     *
+     * @defaultValue `Infinity`
+     */
+    readonly concurrency?: number;
+}
+
+/**
+ * **Non-standard extension**: Static helpers for working with `Result` values, exposed as the `Result` object.
+ *
+ * @since 1.11.0
+ */
+export interface ResultStatic {
+    /**
+     * Runs a generator-based block where `yield* result` unwraps an `Ok` value
+     * or short-circuits the whole block with the `Err`, like Rust's `?` operator.
+     *
+     * The returned value of the block is wrapped in `Ok`. The error type is inferred
+     * as the union of all error types that can be yielded inside the block.
+     * When the block short-circuits, pending `finally` blocks of the generator are still run.
+     *
+     * @typeParam T - The type of the value returned by the block.
+     * @typeParam Y - The type of the `Err` values yielded by the block, inferred automatically.
+     * @param body - A generator function unwrapping Results with `yield*`.
+     * @returns `Ok` with the returned value, or the first `Err` encountered.
+     * @see genAsync
+     * @example
+     * ```ts
+     * function parseNumber(s: string): Result<number, ParseError> { ... }
+     * function checkPositive(n: number): Result<number, RangeError> { ... }
+     *
+     * // Result<number, ParseError | RangeError>
+     * const result = Result.gen(function* () {
+     *     const a = yield* parseNumber('6');
+     *     const b = yield* checkPositive(a);
+     *     return a * b;
+     * });
+     * ```
+     */
+    gen<T, Y extends Result<never, unknown> = never>(body: () => Generator<Y, T, unknown>): Result<T, Y extends Result<never, infer E> ? E : never>;
+
+    /**
+     * Asynchronous version of `gen`.
+     * The block is an async generator function, so an `AsyncResult` is awaited before `yield*`.
+     *
+     * @typeParam T - The type of the value returned by the block.
+     * @typeParam Y - The type of the `Err` values yielded by the block, inferred automatically.
+     * @param body - An async generator function unwrapping Results with `yield*`.
+     * @returns A promise that resolves to `Ok` with the returned value, or the first `Err` encountered.
+     * @see gen
+     * @example
+     * ```ts
+     * // AsyncResult<Order[], AuthError | HttpError>
+     * const orders = Result.genAsync(async function* () {
+     *     const token = yield* await authenticate(credentials);
+     *     const user = yield* await fetchUser(token);
+     *     return yield* await fetchOrders(user.id);
+     * });
+     * ```
+     */
+    genAsync<T, Y extends Result<never, unknown> = never>(body: () => AsyncGenerator<Y, T, unknown>): AsyncResult<T, Y extends Result<never, infer E> ? E : never>;
+
+    /**
+     * Transforms a collection of `Result`s into a `Result` of a collection,
+     * like Rust's `iter.collect::<Result<Vec<_>, _>>()`.
+     *
+     * Arrays, tuples (with precise element types) and object records are supported.
+     * Returns the first `Err` in iteration order without looking at the rest.
+     *
+     * @typeParam R - The collection type, inferred automatically.
+     * @param results - An array, a tuple, or an object record of `Result`s.
+     * @returns `Ok` with the collection of success values, or the first `Err` encountered.
+     * @throws {TypeError} If an element is not a `Result`.
+     * @see allAsync
+     * @see any
+     * @example
+     * ```ts
+     * const tuple = Result.all([Ok(1), Ok('a')] as const); // Result<[number, string], never>
+     * console.log(tuple.unwrap()); // [1, 'a']
+     *
+     * const record = Result.all({ a: Ok(1), b: Err('bad') });
+     * console.log(record.unwrapErr()); // 'bad'
+     * ```
+     */
+    all<const R extends ResultCollection>(results: R): Result<OkValues<R>, ErrUnion<R>>;
+
+    /**
+     * Asynchronous version of `all`.
+     * The tasks are awaited concurrently, with at most `concurrency` of them pending at a time.
+     *
+     * Resolves with the first `Err` to settle as soon as it does, and starts no further task.
+     * The success values keep the order of the collection, not the order of completion.
+     *
+     * @typeParam R - The collection type, inferred automatically.
+     * @param results - An array, a tuple, or an object record of `AsyncResultTask`s.
+     * @param options - Optional concurrency limit.
+     * @returns A promise that resolves to `Ok` with the collection of success values, or the first `Err` to settle.
+     * It rejects if a task rejects, if an element is not a `Result` (`TypeError`),
+     * or if the concurrency limit is invalid (`RangeError`).
+     * @see all
+     * @example
+     * ```ts
+     * // At most 2 requests in flight
+     * const users = await Result.allAsync(ids.map(id => () => fetchUser(id)), { concurrency: 2 });
+     * ```
+     */
+    allAsync<const R extends AsyncResultCollection>(results: R, options?: ConcurrencyOptions): AsyncResult<OkValues<R>, ErrUnion<R>>;
+
+    /**
+     * Returns the first `Ok` of an array or a tuple of `Result`s,
+     * or an `Err` with every error in the original order if there is no `Ok`.
+     *
+     * @typeParam R - The array or tuple type, inferred automatically.
+     * @param results - An array or a tuple of `Result`s.
+     * @returns The first `Ok` encountered, or `Err` with all the errors.
+     * @throws {TypeError} If an element is not a `Result`.
+     * @see anyAsync
+     * @see all
+     * @example
+     * ```ts
+     * const config = Result.any([readEnv(), readFile(), Err('no default')]);
+     * // Result<Config, [EnvError, IoError, string]>
+     * ```
+     */
+    any<const R extends readonly Result<unknown, unknown>[]>(results: R): Result<OkValues<R>[number], ErrValues<R>>;
+
+    /**
+     * Asynchronous version of `any`.
+     * The tasks are awaited concurrently, with at most `concurrency` of them pending at a time.
+     *
+     * Resolves with the first `Ok` to settle as soon as it does, and starts no further task.
+     *
+     * @typeParam R - The array or tuple type, inferred automatically.
+     * @param results - An array or a tuple of `AsyncResultTask`s.
+     * @param options - Optional concurrency limit.
+     * @returns A promise that resolves to the first `Ok` to settle, or `Err` with all the errors in the original order.
+     * It rejects if a task rejects, if an element is not a `Result` (`TypeError`),
+     * or if the concurrency limit is invalid (`RangeError`).
+     * @see any
+     * @example
+     * ```ts
+     * const fastest = await Result.anyAsync(mirrors.map(url => () => download(url)), { concurrency: 3 });
+     * ```
+     */
+    anyAsync<const R extends readonly AsyncResultTask<unknown, unknown>[]>(results: R, options?: ConcurrencyOptions): AsyncResult<OkValues<R>[number], ErrValues<R>>;
+
+    /**
+     * Splits `Result`s into the success values and the error values, keeping their relative order.
+     *
+     * @typeParam T - The type of the success values.
+     * @typeParam E - The type of the error values.
+     * @param results - An iterable of `Result`s.
+     * @returns A tuple of the success values and the error values.
+     * @throws {TypeError} If an element is not a `Result`.
+     * @example
+     * ```ts
+     * const [numbers, errors] = Result.partition(inputs.map(parseNumber));
+     * ```
+     */
+    partition<T, E>(results: Iterable<Result<T, E>>): [oks: T[], errs: E[]];
+
+    /**
+     * Compares two `Result`s with their `cmp()`, returning a number as expected by `Array.prototype.sort`.
+     *
+     * @typeParam T - The type of the success values.
+     * @typeParam E - The type of the error values.
+     * @param a - The first `Result`.
+     * @param b - The second `Result`.
+     * @returns A negative number if `a` is less than `b`, a positive number if it is greater, or `0`.
+     * @throws {Panic} If the contained values cannot be ordered.
+     * @see cmp
+     * @example
+     * ```ts
+     * const sorted = [Err('b'), Ok(2), Err('a'), Ok(1)].sort(Result.compare);
+     * // [Ok(1), Ok(2), Err('a'), Err('b')]
+     * ```
+     */
+    compare<T, E>(a: Result<T, E>, b: Result<T, E>): number;
+}
+
+/**
+ * **Non-standard extension**: Static helpers for working with `Result` values.
+ *
+ * Shares its name with the `Result` type, so `Result` can be used both as a type and as a namespace of helpers.
+ *
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const total: Result<number, Error> = Result.gen(function* () {
+ *     const price = yield* getPrice();
+ *     const quantity = yield* getQuantity();
+ *     return price * quantity;
+ * });
+ * ```
+ */
+export const Result: ResultStatic = /*#__PURE__*/ Object.freeze<ResultStatic>({
+    gen,
+    genAsync,
+    all,
+    allAsync,
+    any,
+    anyAsync,
+    partition,
+    compare<T, E>(a: Result<T, E>, b: Result<T, E>): number {
+        return a.cmp(b).valueOf();
+    },
+});
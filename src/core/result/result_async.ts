@@ -0,0 +1,741 @@
+/**
+ * @module
+ * A fluent, awaitable wrapper around `AsyncResult` that keeps the `Result` method surface chainable without intermediate `await`s.
+ *
+ * **When to use `AsyncResult<T, E>` vs `ResultAsync<T, E>`:**
+ * - Use `AsyncResult<T, E>` (a plain `Promise<Result<T, E>>`) as the return type of async functions
+ * - Use `ResultAsync<T, E>` to build pipelines of several sync or async steps over such values
+ */
+
+import type { Option } from '../option/option.ts';
+import { OptionAsync } from '../option/option_async.ts';
+import { Err, Ok } from '../prelude.ts';
+import { hasErrorTag } from '../../internal/error_tag.ts';
+import { handledOperand } from '../../internal/promise.ts';
+import type { ContextError } from './context.ts';
+import type { AsyncLikeResult, AsyncResult, Result, ResultMatcher } from './result.ts';
+import type { ErrorTag } from './tagged_error.ts';
+import type { Ordering } from '../../std/cmp/ordering.ts';
+
+/**
+ * **Non-standard extension**: An awaitable `Result` whose methods accept both sync and async callbacks.
+ *
+ * Every transforming method returns a new `ResultAsync`, so several async steps can be chained
+ * and awaited once at the end. Awaiting a `ResultAsync` yields the underlying `Result<T, E>`.
+ *
+ * Methods that extract a value (e.g. `unwrap`, `unwrapOr`, `isOk`) return a `Promise` instead.
+ * If the wrapped promise rejects, the rejection propagates through the whole chain.
+ *
+ * @typeParam T - The type of the value contained in a successful `Result`.
+ * @typeParam E - The type of the error contained in an unsuccessful `Result`.
+ * @since 1.11.0
+ * @see {@link Result}
+ * @example
+ * ```ts
+ * const name = await ResultAsync(tryAsyncResult(fetch, '/api/user'))
+ *     .andTry(response => response.json())
+ *     .map(user => user.name)
+ *     .mapErr(err => new ApiError(err))
+ *     .unwrapOr('anonymous');
+ * ```
+ */
+export interface ResultAsync<T, E> extends PromiseLike<Result<T, E>> {
+    // #region Internal properties
+
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'ResultAsync'` so that `Object.prototype.toString.call(result)` produces `'[object ResultAsync]'`.
+     */
+    readonly [Symbol.toStringTag]: 'ResultAsync';
+
+    // #endregion
+
+    // #region JavaScript protocols
+
+    /**
+     * Implements the `PromiseLike` protocol, so a `ResultAsync` can be awaited to obtain the underlying `Result`.
+     *
+     * @example
+     * ```ts
+     * const result: Result<number, string> = await ResultAsync(Ok(5));
+     * ```
+     */
+    then<TResult1 = Result<T, E>, TResult2 = never>(onfulfilled?: ((value: Result<T, E>) => TResult1 | PromiseLike<TResult1>) | null, onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null): Promise<TResult1 | TResult2>;
+
+    /**
+     * Implements the async iterator protocol like `Result`'s `[Symbol.iterator]`, so `yield*` in a `Result.genAsync` block
+     * evaluates to the `Ok` value, or short-circuits the block with the `Err`, without awaiting the `ResultAsync` first.
+     *
+     * @see ResultStatic.genAsync
+     * @example
+     * ```ts
+     * const order = await Result.genAsync(async function* () {
+     *     const user = yield* ResultAsync(fetchUser(id)); // User
+     *     return yield* ResultAsync(fetchOrder(user.lastOrderId));
+     * });
+     * ```
+     */
+    [Symbol.asyncIterator](): AsyncIterator<Result<never, E>, T, unknown>;
+
+    /**
+     * Custom `toString` implementation.
+     * @example
+     * ```ts
+     * console.log(ResultAsync(Ok(5)).toString()); // 'ResultAsync'
+     * ```
+     */
+    toString(): string;
+
+    // #endregion
+
+    // #region Querying the variant
+
+    /**
+     * Resolves to `true` if the result is `Ok`.
+     * @see Result.isOk
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(5)).isOk(); // true
+     * ```
+     */
+    isOk(): Promise<boolean>;
+
+    /**
+     * Resolves to `true` if the result is `Err`.
+     * @see Result.isErr
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).isErr(); // true
+     * ```
+     */
+    isErr(): Promise<boolean>;
+
+    /**
+     * Resolves to `true` if the result is `Ok` and the predicate returns `true` for the contained value.
+     * @param predicate - A function that takes the `Ok` value and returns a `PromiseLike<boolean>` or `boolean`.
+     * @see Result.isOkAnd
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(2)).isOkAnd(async v => v > 1); // true
+     * ```
+     */
+    isOkAnd(predicate: (value: T) => PromiseLike<boolean> | boolean): Promise<boolean>;
+
+    /**
+     * Resolves to `true` if the result is `Err` and the predicate returns `true` for the contained error.
+     * @param predicate - A function that takes the `Err` value and returns a `PromiseLike<boolean>` or `boolean`.
+     * @see Result.isErrAnd
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).isErrAnd(e => e === 'error'); // true
+     * ```
+     */
+    isErrAnd(predicate: (error: E) => PromiseLike<boolean> | boolean): Promise<boolean>;
+
+    // #endregion
+
+    // #region Extracting the contained value
+
+    /**
+     * Resolves to the contained `Ok` value, or rejects with a `Panic` carrying the provided message if the result is `Err`.
+     * @param msg - The error message to provide if the result is an `Err`.
+     * @see Result.expect
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(5)).expect('should have value'); // 5
+     * ```
+     */
+    expect(msg: string): Promise<T>;
+
+    /**
+     * Resolves to the contained `Ok` value, or rejects with a `Panic` if the result is `Err`.
+     * @see Result.unwrap
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(5)).unwrap(); // 5
+     * ```
+     */
+    unwrap(): Promise<T>;
+
+    /**
+     * Resolves to the contained `Ok` value or the provided default.
+     * @param defaultValue - The value to resolve to if the result is an `Err`.
+     * @see Result.unwrapOr
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).unwrapOr(10); // 10
+     * ```
+     */
+    unwrapOr(defaultValue: T): Promise<T>;
+
+    /**
+     * Resolves to the contained `Ok` value or computes it from the error.
+     * @param fn - A function that takes the `Err` value and returns `PromiseLike<T>` or `T`.
+     * @see Result.unwrapOrElseAsync
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).unwrapOrElse(async e => e.length); // 5
+     * ```
+     */
+    unwrapOrElse(fn: (error: E) => PromiseLike<T> | T): Promise<Awaited<T>>;
+
+    /**
+     * Resolves to the contained `Err` value, or rejects with a `Panic` carrying the provided message if the result is `Ok`.
+     * @param msg - The error message to provide if the result is an `Ok`.
+     * @see Result.expectErr
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).expectErr('should have error'); // 'error'
+     * ```
+     */
+    expectErr(msg: string): Promise<E>;
+
+    /**
+     * Resolves to the contained `Err` value, or rejects with a `Panic` if the result is `Ok`.
+     * @see Result.unwrapErr
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).unwrapErr(); // 'error'
+     * ```
+     */
+    unwrapErr(): Promise<E>;
+
+    /**
+     * Resolves to the contained `Ok` value of a `ResultAsync` that can never be `Err`.
+     * @see Result.intoOk
+     * @example
+     * ```ts
+     * await ResultAsync<string, never>(Ok('success')).intoOk(); // 'success'
+     * ```
+     */
+    intoOk(this: ResultAsync<T, never>): Promise<T>;
+
+    /**
+     * Resolves to the contained `Err` value of a `ResultAsync` that can never be `Ok`.
+     * @see Result.intoErr
+     * @example
+     * ```ts
+     * await ResultAsync<never, string>(Err('error')).intoErr(); // 'error'
+     * ```
+     */
+    intoErr(this: ResultAsync<never, E>): Promise<E>;
+
+    // #endregion
+
+    // #region Transforming contained values
+
+    /**
+     * Converts to an `OptionAsync<T>`, discarding the error.
+     * @see Result.ok
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(5)).ok().unwrap(); // 5
+     * ```
+     */
+    ok(): OptionAsync<T>;
+
+    /**
+     * Converts to an `OptionAsync<E>`, discarding the success value.
+     * @see Result.err
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).err().unwrap(); // 'error'
+     * ```
+     */
+    err(): OptionAsync<E>;
+
+    /**
+     * Transposes a `ResultAsync` of an `Option` into an `OptionAsync` of a `Result`.
+     * @typeParam U - The type of the value in the `Some` variant.
+     * @see Result.transpose
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(Some(5))).transpose().unwrap(); // Ok(5)
+     * ```
+     */
+    transpose<U>(this: ResultAsync<Option<U>, E>): OptionAsync<Result<U, E>>;
+
+    /**
+     * Maps the contained `Ok` value with a sync or async function, leaving an `Err` untouched.
+     * @typeParam U - The type of the value returned by the map function.
+     * @param fn - A function that takes the `Ok` value and returns `PromiseLike<U>` or `U`.
+     * @see Result.map
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(5)).map(async v => v * 2).unwrap(); // 10
+     * ```
+     */
+    map<U>(fn: (value: T) => PromiseLike<U> | U): ResultAsync<Awaited<U>, E>;
+
+    /**
+     * Maps the contained `Err` value with a sync or async function, leaving an `Ok` untouched.
+     * @typeParam F - The type of the error returned by the map function.
+     * @param fn - A function that takes the `Err` value and returns `PromiseLike<F>` or `F`.
+     * @see Result.mapErr
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).mapErr(e => e.toUpperCase()).unwrapErr(); // 'ERROR'
+     * ```
+     */
+    mapErr<F>(fn: (error: E) => PromiseLike<F> | F): ResultAsync<T, Awaited<F>>;
+
+    /**
+     * Resolves to the result of applying `fn` to the `Ok` value, or the provided default if `Err`.
+     * @typeParam U - The type of the resolved value.
+     * @param defaultValue - The value to resolve to if the result is `Err`.
+     * @param fn - A function that takes the `Ok` value and returns `PromiseLike<U>` or `U`.
+     * @see Result.mapOr
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).mapOr(0, v => v * 2); // 0
+     * ```
+     */
+    mapOr<U>(defaultValue: U, fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>>;
+
+    /**
+     * Resolves to the result of applying `fn` to the `Ok` value, or of applying `defaultFn` to the `Err` value.
+     * @typeParam U - The type of the resolved value.
+     * @param defaultFn - A function that takes the `Err` value and returns `PromiseLike<U>` or `U`.
+     * @param fn - A function that takes the `Ok` value and returns `PromiseLike<U>` or `U`.
+     * @see Result.mapOrElse
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).mapOrElse(e => e.length, v => v * 2); // 5
+     * ```
+     */
+    mapOrElse<U>(defaultFn: (error: E) => PromiseLike<U> | U, fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>>;
+
+    /**
+     * Converts from `ResultAsync<Result<U, E>, E>` to `ResultAsync<U, E>`.
+     * @typeParam U - The type of the success value in the inner `Result`.
+     * @see Result.flatten
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(Ok(5))).flatten().unwrap(); // 5
+     * ```
+     */
+    flatten<U>(this: ResultAsync<Result<U, E>, E>): ResultAsync<U, E>;
+
+    // #endregion
+
+    // #region Adding context
+
+    /**
+     * Wraps the `Err` value into a `ContextError` with the given message and the original error as its `cause`.
+     * @param message - The context message.
+     * @see Result.context
+     * @example
+     * ```ts
+     * await ResultAsync(Err('timeout')).context('Failed to fetch user').unwrapErr(); // ContextError: Failed to fetch user
+     * ```
+     */
+    context(message: string): ResultAsync<T, ContextError>;
+
+    /**
+     * Like `context`, but the message is computed by `fn` only if the result is `Err`.
+     * @param fn - A function that takes the `Err` value and returns the context message.
+     * @see Result.withContext
+     * @example
+     * ```ts
+     * await ResultAsync(fetchUser(id)).withContext(() => `Failed to fetch user ${id}`);
+     * ```
+     */
+    withContext(fn: (error: E) => string): ResultAsync<T, ContextError>;
+
+    // #endregion
+
+    // #region Handling tagged errors
+
+    /**
+     * Calls `fn` with the `Err` value if its `_tag` is `tag`, and resolves to its result.
+     * @typeParam Tag - The tag of the handled errors.
+     * @typeParam F - The type of the error returned by `fn`.
+     * @param tag - The tag of the errors to handle.
+     * @param fn - A function that takes the error with the given tag and returns a `Result`, an `AsyncResult` or a `ResultAsync`.
+     * @see Result.catchTag
+     * @example
+     * ```ts
+     * await ResultAsync(fetchUser(id)).catchTag('NotFound', () => fetchGuest()).unwrap();
+     * ```
+     */
+    catchTag<Tag extends ErrorTag<E>, F = never>(tag: Tag, fn: (error: Extract<E, { readonly _tag: Tag; }>) => AsyncLikeResult<T, F> | Result<T, F>): ResultAsync<T, Exclude<E, { readonly _tag: Tag; }> | F>;
+
+    /**
+     * Maps the `Err` value with a sync or async function if its `_tag` is `tag`.
+     * @typeParam Tag - The tag of the mapped errors.
+     * @typeParam F - The type of the error returned by `fn`.
+     * @param tag - The tag of the errors to map.
+     * @param fn - A function that takes the error with the given tag and returns `PromiseLike<F>` or `F`.
+     * @see Result.mapErrTag
+     * @example
+     * ```ts
+     * await ResultAsync(fetchUser(id)).mapErrTag('Timeout', e => new HttpError(504, { cause: e })).unwrapErr();
+     * ```
+     */
+    mapErrTag<Tag extends ErrorTag<E>, F>(tag: Tag, fn: (error: Extract<E, { readonly _tag: Tag; }>) => PromiseLike<F> | F): ResultAsync<T, Exclude<E, { readonly _tag: Tag; }> | Awaited<F>>;
+
+    // #endregion
+
+    // #region Pattern matching
+
+    /**
+     * Resolves to the awaited value returned by the `Ok` arm or the `Err` arm.
+     * @typeParam U - The return type of the `Ok` arm.
+     * @typeParam V - The return type of the `Err` arm.
+     * @param matcher - An object with an `Ok` and an `Err` arm, which may return a `PromiseLike`.
+     * @see Result.matchAsync
+     * @example
+     * ```ts
+     * const status = await ResultAsync(fetchUser(id)).match({
+     *     Ok: () => 200,
+     *     Err: error => error.status,
+     * });
+     * ```
+     */
+    match<U, V>(matcher: ResultMatcher<T, E, U, V>): Promise<Awaited<U | V>>;
+
+    // #endregion
+
+    // #region Boolean operators
+
+    /**
+     * Returns `other` if the result is `Ok`, otherwise keeps the `Err`.
+     * @typeParam U - The type of the value in the other `Result`.
+     * @param other - A `Result` or `PromiseLike` of a `Result`.
+     * @see Result.and
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(2)).and(Ok('next')).unwrap(); // 'next'
+     * ```
+     */
+    and<U>(other: AsyncLikeResult<U, E> | Result<U, E>): ResultAsync<U, E>;
+
+    /**
+     * Keeps the `Ok`, otherwise returns `other`.
+     * @typeParam F - The type of the error in the other `Result`.
+     * @param other - A `Result` or `PromiseLike` of a `Result`.
+     * @see Result.or
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).or(Ok(5)).unwrap(); // 5
+     * ```
+     */
+    or<F>(other: AsyncLikeResult<T, F> | Result<T, F>): ResultAsync<T, F>;
+
+    /**
+     * Calls `fn` with the `Ok` value and continues with the `Result` it returns, otherwise keeps the `Err`.
+     * @typeParam U - The type of the value returned by the function.
+     * @param fn - A function that takes the `Ok` value and returns `PromiseLike<Result<U, E>>` or `Result<U, E>`.
+     * @see Result.andThenAsync
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(2)).andThen(async v => Ok(v * 2)).unwrap(); // 4
+     * ```
+     */
+    andThen<U>(fn: (value: T) => AsyncLikeResult<U, E> | Result<U, E>): ResultAsync<U, E>;
+
+    /**
+     * Calls `fn` with the `Err` value and continues with the `Result` it returns, otherwise keeps the `Ok`.
+     * @typeParam F - The type of the error returned by the function.
+     * @param fn - A function that takes the `Err` value and returns `PromiseLike<Result<T, F>>` or `Result<T, F>`.
+     * @see Result.orElseAsync
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).orElse(async e => Ok(e.length)).unwrap(); // 5
+     * ```
+     */
+    orElse<F>(fn: (error: E) => AsyncLikeResult<T, F> | Result<T, F>): ResultAsync<T, F>;
+
+    // #endregion
+
+    // #region Side effects
+
+    /**
+     * Calls `fn` with the `Ok` value for side effects only. An async `fn` is awaited before the chain continues.
+     * @param fn - A function to call with the `Ok` value.
+     * @see Result.inspect
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(5)).inspect(v => console.log(v)); // prints 5
+     * ```
+     */
+    inspect(fn: (value: T) => PromiseLike<void> | void): ResultAsync<T, E>;
+
+    /**
+     * Calls `fn` with the `Err` value for side effects only. An async `fn` is awaited before the chain continues.
+     * @param fn - A function to call with the `Err` value.
+     * @see Result.inspectErr
+     * @example
+     * ```ts
+     * await ResultAsync(Err('error')).inspectErr(e => console.error(e)); // prints 'error'
+     * ```
+     */
+    inspectErr(fn: (error: E) => PromiseLike<void> | void): ResultAsync<T, E>;
+
+    // #endregion
+
+    // #region Equals comparison
+
+    /**
+     * Resolves to `true` if both results are `Ok` with equal values, or both are `Err` with equal errors.
+     * @param other - A `Result` or `PromiseLike` of a `Result` to compare with.
+     * @param equals - A function comparing the `Ok` values, structural equality by default.
+     * @param equalsErr - A function comparing the `Err` errors, structural equality by default.
+     * @see Result.eq
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(5)).eq(Ok(5)); // true
+     * ```
+     */
+    eq(other: AsyncLikeResult<T, E> | Result<T, E>, equals?: (a: T, b: T) => boolean, equalsErr?: (a: E, b: E) => boolean): Promise<boolean>;
+
+    // #endregion
+
+    // #region Ordering comparison
+
+    /**
+     * Resolves to the `Ordering` of this result relative to `other`, where any `Ok` is less than any `Err`.
+     * @param other - A `Result` or `PromiseLike` of a `Result` to compare with.
+     * @param compare - A function ordering the `Ok` values.
+     * @param compareErr - A function ordering the `Err` errors.
+     * @see Result.cmp
+     * @example
+     * ```ts
+     * await ResultAsync(Ok(5)).cmp(Err('e')); // Less
+     * ```
+     */
+    cmp(other: AsyncLikeResult<T, E> | Result<T, E>, compare?: (a: T, b: T) => Ordering, compareErr?: (a: E, b: E) => Ordering): Promise<Ordering>;
+
+    // #endregion
+
+    // #region Type casting
+
+    /**
+     * Casts the error type of an `Ok` to `F`, like `Result.asOk`.
+     * @typeParam F - The new type for the error.
+     * @throws {Panic} Rejects if the `Result` is an `Err`.
+     * @see Result.asOk
+     */
+    asOk<F>(): ResultAsync<T, F>;
+
+    /**
+     * Casts the success type of an `Err` to `U`, like `Result.asErr`.
+     * @typeParam U - The new type for the success value.
+     * @throws {Panic} Rejects if the `Result` is an `Ok`.
+     * @see Result.asErr
+     */
+    asErr<U>(): ResultAsync<U, E>;
+
+    // #endregion
+
+    // #region Try extensions
+
+    /**
+     * Like `andThen`, but `fn` returns a plain value and any thrown exception or rejection is converted to `Err`.
+     * @typeParam U - The type of the value returned by the function.
+     * @param fn - A function that takes the `Ok` value and returns `PromiseLike<U>` or `U`. May throw or reject.
+     * @see Result.andTryAsync
+     * @example
+     * ```ts
+     * await ResultAsync(Ok('{"a":1}')).andTry(JSON.parse).unwrap(); // { a: 1 }
+     * ```
+     */
+    andTry<U>(fn: (value: T) => PromiseLike<U> | U): ResultAsync<Awaited<U>, E>;
+
+    /**
+     * Like `orElse`, but `fn` returns a plain value and any thrown exception or rejection is converted to `Err`.
+     * @typeParam F - The type of the error if the function throws.
+     * @param fn - A function that takes the `Err` value and returns `PromiseLike<T>` or `T`. May throw or reject.
+     * @see Result.orTryAsync
+     * @example
+     * ```ts
+     * await ResultAsync(Err('offline')).orTry(() => readCache()).unwrap();
+     * ```
+     */
+    orTry<F>(fn: (error: E) => PromiseLike<T> | T): ResultAsync<Awaited<T>, F>;
+
+    // #endregion
+}
+
+/**
+ * Wraps a `Result`, an `AsyncResult` or any `PromiseLike` of a `Result` in a fluent `ResultAsync`.
+ *
+ * This is the entry point for opting existing async code into fluent chaining:
+ * the values returned by `tryAsyncResult`, `andThenAsync` or `andTryAsync` can be wrapped directly.
+ * Conversely, a `ResultAsync` is `PromiseLike`, so it can be returned wherever an `AsyncLikeResult` is expected.
+ *
+ * @typeParam T - The type of the value contained in a successful `Result`.
+ * @typeParam E - The type of the error contained in an unsuccessful `Result`.
+ * @param result - The `Result` or promise of a `Result` to wrap.
+ * @returns A new `ResultAsync` instance.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * // Wrap the output of existing helpers
+ * const user = ResultAsync(tryAsyncResult(fetch, '/api/user'))
+ *     .andTry(response => response.json() as Promise<User>);
+ *
+ * // Continue from an existing chain
+ * const orders = ResultAsync(user.andThenAsync(u => fetchOrders(u.id)));
+ *
+ * // Use as the return value of async functions
+ * function loadUser(id: string): ResultAsync<User, Error> {
+ *     return ResultAsync(validateId(id)).andThen(fetchUser);
+ * }
+ * ```
+ */
+export function ResultAsync<T, E>(result: AsyncLikeResult<T, E> | Result<T, E>): ResultAsync<T, E> {
+    const promise: AsyncResult<T, E> = Promise.resolve(result);
+
+    return Object.freeze<ResultAsync<T, E>>({
+        [Symbol.toStringTag]: 'ResultAsync',
+
+        then<TResult1 = Result<T, E>, TResult2 = never>(onfulfilled?: ((value: Result<T, E>) => TResult1 | PromiseLike<TResult1>) | null, onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null): Promise<TResult1 | TResult2> {
+            return promise.then(onfulfilled, onrejected);
+        },
+        async *[Symbol.asyncIterator](): AsyncIterator<Result<never, E>, T, unknown> {
+            return yield* await promise;
+        },
+        toString(): string {
+            return 'ResultAsync';
+        },
+
+        isOk(): Promise<boolean> {
+            return promise.then(r => r.isOk());
+        },
+        isErr(): Promise<boolean> {
+            return promise.then(r => r.isErr());
+        },
+        isOkAnd(predicate: (value: T) => PromiseLike<boolean> | boolean): Promise<boolean> {
+            return promise.then(r => r.isOkAndAsync(predicate));
+        },
+        isErrAnd(predicate: (error: E) => PromiseLike<boolean> | boolean): Promise<boolean> {
+            return promise.then(r => r.isErrAndAsync(predicate));
+        },
+
+        expect(msg: string): Promise<T> {
+            return promise.then(r => r.expect(msg));
+        },
+        unwrap(): Promise<T> {
+            return promise.then(r => r.unwrap());
+        },
+        unwrapOr(defaultValue: T): Promise<T> {
+            return promise.then(r => r.unwrapOr(defaultValue));
+        },
+        unwrapOrElse(fn: (error: E) => PromiseLike<T> | T): Promise<Awaited<T>> {
+            return promise.then(r => r.unwrapOrElseAsync(fn));
+        },
+        expectErr(msg: string): Promise<E> {
+            return promise.then(r => r.expectErr(msg));
+        },
+        unwrapErr(): Promise<E> {
+            return promise.then(r => r.unwrapErr());
+        },
+        intoOk(): Promise<T> {
+            return promise.then(r => r.unwrap());
+        },
+        intoErr(): Promise<E> {
+            return promise.then(r => r.unwrapErr());
+        },
+
+        ok(): OptionAsync<T> {
+            return OptionAsync(promise.then(r => r.ok()));
+        },
+        err(): OptionAsync<E> {
+            return OptionAsync(promise.then(r => r.err()));
+        },
+        transpose<U>(): OptionAsync<Result<U, E>> {
+            return OptionAsync(promise.then(r => (r as unknown as Result<Option<U>, E>).transpose()));
+        },
+
+        map<U>(fn: (value: T) => PromiseLike<U> | U): ResultAsync<Awaited<U>, E> {
+            return ResultAsync(promise.then(async r => r.isOk() ? Ok<Awaited<U>, E>(await fn(r.unwrap())) : r.asErr<Awaited<U>>()));
+        },
+        mapErr<F>(fn: (error: E) => PromiseLike<F> | F): ResultAsync<T, Awaited<F>> {
+            return ResultAsync(promise.then(async r => r.isErr() ? Err<T, Awaited<F>>(await fn(r.unwrapErr())) : r.asOk<Awaited<F>>()));
+        },
+        mapOr<U>(defaultValue: U, fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>> {
+            return promise.then(r => r.isOk() ? fn(r.unwrap()) : defaultValue) as Promise<Awaited<U>>;
+        },
+        mapOrElse<U>(defaultFn: (error: E) => PromiseLike<U> | U, fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>> {
+            return promise.then(r => r.isOk() ? fn(r.unwrap()) : defaultFn(r.unwrapErr())) as Promise<Awaited<U>>;
+        },
+        flatten<U>(): ResultAsync<U, E> {
+            return ResultAsync(promise.then(r => (r as unknown as Result<Result<U, E>, E>).flatten()));
+        },
+
+        context(message: string): ResultAsync<T, ContextError> {
+            return ResultAsync(promise.then(r => r.context(message)));
+        },
+        withContext(fn: (error: E) => string): ResultAsync<T, ContextError> {
+            return ResultAsync(promise.then(r => r.withContext(fn)));
+        },
+
+        catchTag<Tag extends ErrorTag<E>, F = never>(tag: Tag, fn: (error: Extract<E, { readonly _tag: Tag; }>) => AsyncLikeResult<T, F> | Result<T, F>): ResultAsync<T, Exclude<E, { readonly _tag: Tag; }> | F> {
+            type Caught = Extract<E, { readonly _tag: Tag; }>;
+            return ResultAsync(promise.then(r => r.isErr() && hasErrorTag(r.unwrapErr(), tag) ? fn(r.unwrapErr() as Caught) : r as Result<T, Exclude<E, { readonly _tag: Tag; }>>));
+        },
+        mapErrTag<Tag extends ErrorTag<E>, F>(tag: Tag, fn: (error: Extract<E, { readonly _tag: Tag; }>) => PromiseLike<F> | F): ResultAsync<T, Exclude<E, { readonly _tag: Tag; }> | Awaited<F>> {
+            type Caught = Extract<E, { readonly _tag: Tag; }>;
+            return ResultAsync(promise.then(async r => r.isErr() && hasErrorTag(r.unwrapErr(), tag) ? Err(await fn(r.unwrapErr() as Caught)) : r as Result<T, Exclude<E, { readonly _tag: Tag; }>>));
+        },
+
+        match<U, V>(matcher: ResultMatcher<T, E, U, V>): Promise<Awaited<U | V>> {
+            return promise.then(r => r.matchAsync(matcher));
+        },
+
+        and<U>(other: AsyncLikeResult<U, E> | Result<U, E>): ResultAsync<U, E> {
+            const operand = handledOperand(other);
+            return ResultAsync(promise.then(r => r.isOk() ? operand : r.asErr<U>()));
+        },
+        or<F>(other: AsyncLikeResult<T, F> | Result<T, F>): ResultAsync<T, F> {
+            const operand = handledOperand(other);
+            return ResultAsync(promise.then(r => r.isOk() ? r.asOk<F>() : operand));
+        },
+        andThen<U>(fn: (value: T) => AsyncLikeResult<U, E> | Result<U, E>): ResultAsync<U, E> {
+            return ResultAsync(promise.then(r => r.andThenAsync(fn)));
+        },
+        orElse<F>(fn: (error: E) => AsyncLikeResult<T, F> | Result<T, F>): ResultAsync<T, F> {
+            return ResultAsync(promise.then(r => r.orElseAsync(fn)));
+        },
+
+        inspect(fn: (value: T) => PromiseLike<void> | void): ResultAsync<T, E> {
+            return ResultAsync(promise.then(async (r) => {
+                if (r.isOk()) {
+                    await fn(r.unwrap());
+                }
+                return r;
+            }));
+        },
+        inspectErr(fn: (error: E) => PromiseLike<void> | void): ResultAsync<T, E> {
+            return ResultAsync(promise.then(async (r) => {
+                if (r.isErr()) {
+                    await fn(r.unwrapErr());
+                }
+                return r;
+            }));
+        },
+
+        eq(other: AsyncLikeResult<T, E> | Result<T, E>, equals?: (a: T, b: T) => boolean, equalsErr?: (a: E, b: E) => boolean): Promise<boolean> {
+            return Promise.all([promise, other]).then(([a, b]) => a.eq(b, equals, equalsErr));
+        },
+
+        cmp(other: AsyncLikeResult<T, E> | Result<T, E>, compare?: (a: T, b: T) => Ordering, compareErr?: (a: E, b: E) => Ordering): Promise<Ordering> {
+            return Promise.all([promise, other]).then(([a, b]) => a.cmp(b, compare, compareErr));
+        },
+
+        asOk<F>(): ResultAsync<T, F> {
+            return ResultAsync(promise.then(r => r.asOk<F>()));
+        },
+        asErr<U>(): ResultAsync<U, E> {
+            return ResultAsync(promise.then(r => r.asErr<U>()));
+        },
+
+        andTry<U>(fn: (value: T) => PromiseLike<U> | U): ResultAsync<Awaited<U>, E> {
+            return ResultAsync(promise.then(r => r.andTryAsync(fn)));
+        },
+        orTry<F>(fn: (error: E) => PromiseLike<T> | T): ResultAsync<Awaited<T>, F> {
+            return ResultAsync(promise.then(r => r.orTryAsync<F>(fn)));
+        },
+    } as const);
+}
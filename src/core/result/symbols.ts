@@ -1,13 +1,13 @@
 /**
  * @module
- * Internal symbol used to identify `Result` type variants.
+ * Internal symbols used to identify `Result` type variants and tagged errors.
  *
- * This symbol is used as a property key to distinguish between `Ok` and `Err` variants.
+ * `ResultKindSymbol` is used as a property key to distinguish between `Ok` and `Err` variants.
  * It provides a reliable way to identify the variant of a `Result` instance without
  * relying on method calls or duck typing.
  *
- * Note: This symbol is an internal implementation detail and is not exported as part of the public API.
- * Use the `isResult` utility function for type checking instead.
+ * Note: These symbols are internal implementation details and are not exported as part of the public API.
+ * Use the `isResult` and `isTaggedError` utility functions for type checking instead.
  */
 
 /**
@@ -22,3 +22,14 @@
  * @internal
  */
 export const ResultKindSymbol = /*#__PURE__*/ Symbol('Result kind');
+
+/**
+ * A symbol used as a property key to store the tag of errors created by `defineError` classes.
+ *
+ * Unlike `ResultKindSymbol`, it is registered with `Symbol.for`, so it is the same symbol in every realm
+ * (iframes, workers' transferred objects, duplicated copies of this library), which is what makes
+ * `instanceof` on tagged error classes work across them.
+ *
+ * @internal
+ */
+export const TaggedErrorSymbol = /*#__PURE__*/ Symbol.for('happy-rusty.TaggedError');
@@ -0,0 +1,208 @@
+/**
+ * @module
+ * Tagged error classes for typed error unions in `Result<T, E>` signatures.
+ *
+ * `defineError` replaces hand-rolled `class NotFoundError extends Error { readonly _tag = 'NotFound' }` boilerplate.
+ * The `_tag` field discriminates error unions, so `Result.catchTag` and `Result.mapErrTag` can handle one tag
+ * and remove it from the error type.
+ */
+
+import { errorTag } from '../../internal/error_tag.ts';
+import { TaggedErrorSymbol } from './symbols.ts';
+
+/**
+ * An `Error` carrying a string literal `_tag` and the readonly fields of its payload.
+ *
+ * @typeParam Tag - The tag of the error, also used as its `name`.
+ * @typeParam P - The type of the payload whose fields are copied onto the error.
+ * @since 1.11.0
+ * @see defineError
+ */
+export type TaggedError<Tag extends string, P extends object = Record<never, never>> = Error & Readonly<P> & {
+    /**
+     * The tag that discriminates this error in an error union.
+     */
+    readonly _tag: Tag;
+    readonly name: Tag;
+};
+
+/**
+ * The class returned by `defineError`.
+ *
+ * The payload argument is optional when every field of `P` is optional.
+ * Its `_tag`, `name`, `message` and `stack` fields are not copied, as they belong to the error.
+ * The second argument accepts the standard `ErrorOptions`, such as `{ cause }`.
+ *
+ * @typeParam Tag - The tag of the errors created by this class.
+ * @typeParam P - The type of the payload.
+ * @since 1.11.0
+ * @see defineError
+ */
+export interface TaggedErrorClass<Tag extends string, P extends ErrorPayload> {
+    new (...args: Record<never, never> extends P ? [payload?: P, options?: ErrorOptions] : [payload: P, options?: ErrorOptions]): TaggedError<Tag, P>;
+    readonly prototype: TaggedError<Tag, P>;
+
+    /**
+     * The tag of the errors created by this class.
+     */
+    readonly tag: Tag;
+}
+
+/**
+ * Extracts the union of the `_tag`s of an error union.
+ *
+ * @typeParam E - The error union.
+ * @since 1.11.0
+ * @see Result.catchTag
+ * @example
+ * ```ts
+ * type Tags = ErrorTag<NotFoundError | TimeoutError | Error>; // 'NotFound' | 'Timeout'
+ * ```
+ */
+export type ErrorTag<E> = E extends { readonly _tag: infer Tag extends string; } ? Tag : never;
+
+/**
+ * Creates a tagged error class whose instances have a `_tag` and `name` equal to `tag`
+ * and carry the fields of their payload.
+ *
+ * The payload cannot have `_tag`, `name`, `message` or `stack` fields, which belong to the error;
+ * such fields of an untyped payload are ignored.
+ *
+ * `instanceof` checks the prototype chain for the errors of this copy of the library. Errors created by another copy
+ * or in another realm are checked like `isTaggedError`, by their brand and tag; there, subclasses share the tag of
+ * their base class. A plain object with a `_tag` is not an instance.
+ *
+ * @typeParam Tag - The tag of the errors.
+ * @typeParam P - The type of the payload, inferred from the parameter of `message`.
+ * @param tag - The tag of the errors.
+ * @param message - A function that builds the error message from the payload.
+ * @returns A class that creates tagged errors.
+ * @since 1.11.0
+ * @see isTaggedError
+ * @see Result.catchTag
+ * @example
+ * ```ts
+ * class NotFoundError extends defineError('NotFound', (p: { id: string; }) => `User ${p.id} not found`) {}
+ * class TimeoutError extends defineError('Timeout', 'Request timed out') {}
+ *
+ * function findUser(id: string): Result<User, NotFoundError | TimeoutError> {
+ *     return Err(new NotFoundError({ id }));
+ * }
+ *
+ * const error = findUser('42').unwrapErr();
+ * console.log(error._tag, error.message); // 'NotFound' 'User 42 not found'
+ * ```
+ */
+export function defineError<const Tag extends string, P extends ErrorPayload>(tag: Tag, message: (payload: P) => string): TaggedErrorClass<Tag, P>;
+/**
+ * Creates a tagged error class without payload whose instances have a `_tag` and `name` equal to `tag`.
+ *
+ * @typeParam Tag - The tag of the errors.
+ * @param tag - The tag of the errors.
+ * @param message - The message of the errors, empty by default.
+ * @returns A class that creates tagged errors.
+ * @since 1.11.0
+ * @see isTaggedError
+ * @example
+ * ```ts
+ * const Unauthorized = defineError('Unauthorized');
+ * const error = new Unauthorized();
+ * console.log(error instanceof Unauthorized); // true
+ * ```
+ */
+export function defineError<const Tag extends string>(tag: Tag, message?: string): TaggedErrorClass<Tag, Record<never, never>>;
+export function defineError<const Tag extends string, P extends ErrorPayload>(tag: Tag, message: string | ((payload: P) => string) = ''): TaggedErrorClass<Tag, P> {
+    class TaggedErrorBase extends Error {
+        static readonly tag = tag;
+
+        static [Symbol.hasInstance](value: unknown): boolean {
+            return isOwnTaggedError(value) ? Function.prototype[Symbol.hasInstance].call(this, value) : isTaggedError(value, tag);
+        }
+
+        constructor(payload?: P, options?: ErrorOptions) {
+            super(typeof message === 'function' ? message(payload as P) : message, options);
+            Object.assign(this, payloadFields(payload));
+        }
+    }
+
+    Object.defineProperties(TaggedErrorBase.prototype, {
+        name: { value: tag, writable: true, configurable: true },
+        _tag: { value: tag, configurable: true },
+        [TaggedErrorSymbol]: { value: tag },
+    });
+    taggedErrorPrototypes.add(TaggedErrorBase.prototype);
+
+    return TaggedErrorBase as unknown as TaggedErrorClass<Tag, P>;
+}
+
+/**
+ * Checks if a value is an error created by a `defineError` class, optionally with the given tag.
+ *
+ * The error must carry both the brand of `defineError` and a matching `_tag`, so it works across realms
+ * and across copies of this library, but a hand-written class or a plain object with a `_tag` is not recognized.
+ * `Result.catchTag` and `Result.mapErrTag` only read the `_tag`, so they also handle those.
+ *
+ * @typeParam Tag - The expected tag.
+ * @param value - The value to check.
+ * @param tag - The expected tag. If omitted, any tag matches.
+ * @returns `true` if the value is a tagged error with the given tag, otherwise `false`.
+ * @since 1.11.0
+ * @see defineError
+ * @example
+ * ```ts
+ * const NotFound = defineError('NotFound');
+ * console.log(isTaggedError(new NotFound())); // true
+ * console.log(isTaggedError(new NotFound(), 'Timeout')); // false
+ * console.log(isTaggedError(new Error())); // false
+ * console.log(isTaggedError(Object.assign(new Error(), { _tag: 'Legacy' }))); // false
+ * ```
+ */
+export function isTaggedError<Tag extends string = string>(value: unknown, tag?: Tag): value is TaggedError<Tag> {
+    const actual = errorTag(value);
+    return actual !== undefined && (value as Partial<Record<symbol, unknown>>)[TaggedErrorSymbol] === actual && (tag === undefined || actual === tag);
+}
+
+// #region Internal helpers
+
+/**
+ * The prototypes of the classes created by this copy of `defineError`.
+ */
+const taggedErrorPrototypes = new WeakSet<object>();
+
+/**
+ * The fields of an error that a payload cannot have.
+ */
+type ReservedErrorKey = '_tag' | 'name' | 'message' | 'stack';
+
+/**
+ * The payload of a tagged error: an object without the reserved fields of the error.
+ */
+type ErrorPayload = object & Partial<Record<ReservedErrorKey, never>>;
+
+/**
+ * Returns the fields of a payload to copy onto an error, without the reserved ones.
+ */
+function payloadFields(payload: object | undefined): object {
+    const fields: Partial<Record<ReservedErrorKey, unknown>> = { ...payload };
+    delete fields._tag;
+    delete fields.name;
+    delete fields.message;
+    delete fields.stack;
+    return fields;
+}
+
+/**
+ * Checks if a value is an error created by a `defineError` class of this copy of the library.
+ */
+function isOwnTaggedError(value: unknown): boolean {
+    let proto = value != null && typeof value === 'object' ? Object.getPrototypeOf(value) as object | null : null;
+    while (proto !== null) {
+        if (taggedErrorPrototypes.has(proto)) {
+            return true;
+        }
+        proto = Object.getPrototypeOf(proto) as object | null;
+    }
+    return false;
+}
+
+// #endregion
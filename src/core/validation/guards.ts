@@ -0,0 +1,29 @@
+/**
+ * @module
+ * Type guard utility for checking if a value is a `Validation` type.
+ *
+ * This function provides runtime type checking capability for the Validation type.
+ */
+import { ValidationKindSymbol } from './symbols.ts';
+import type { Validation } from './validation.ts';
+
+/**
+ * Checks if a value is a `Validation`.
+ *
+ * @typeParam T - The expected type of the valid value contained within the `Validation`.
+ * @typeParam E - The expected type of the errors contained within the `Validation`.
+ * @param v - The value to be checked as a `Validation`.
+ * @returns `true` if the value is a `Validation`, otherwise `false`.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const x = Valid(5);
+ * console.log(isValidation(x)); // true
+ * console.log(isValidation(Ok(5))); // false
+ * console.log(isValidation(null)); // false
+ * ```
+ */
+export function isValidation<T, E>(v: unknown): v is Validation<T, E> {
+    // `Valid` and `Invalid` must be an object.
+    return v != null && typeof v === 'object' && ValidationKindSymbol in v;
+}
@@ -0,0 +1,7 @@
+/**
+ * @module
+ * Main entry point for the Validation module.
+ * Re-exports all public APIs from the Validation submodules.
+ */
+export * from './guards.ts';
+export * from './validation.ts';
@@ -0,0 +1,24 @@
+/**
+ * @module
+ * Internal symbol used to identify `Validation` type variants.
+ *
+ * This symbol is used as a property key to distinguish between `Valid` and `Invalid` variants.
+ * It provides a reliable way to identify the variant of a `Validation` instance without
+ * relying on method calls or duck typing.
+ *
+ * Note: This symbol is an internal implementation detail and is not exported as part of the public API.
+ * Use the `isValidation` utility function for type checking instead.
+ */
+
+/**
+ * A unique symbol used as a property key to identify the variant of a `Validation` instance.
+ *
+ * When accessed on a `Validation`, returns `'Valid'` if the Validation holds a value,
+ * or `'Invalid'` if it holds errors.
+ *
+ * This symbol is used internally by the `isValidation` utility function to verify
+ * that an object is a valid `Validation` instance.
+ *
+ * @internal
+ */
+export const ValidationKindSymbol = /*#__PURE__*/ Symbol('Validation kind');
@@ -0,0 +1,717 @@
+/**
+ * @module
+ * An error-accumulating `Validation` type, used alongside `Result` when every failure must be reported at once.
+ *
+ * `Result` short-circuits on the first `Err`, which suits dependent steps.
+ * `Validation` instead collects the errors of independent checks, such as the fields of a form or a config file,
+ * and combines the valid values with `zip`, `zipWith` or `Validation.all`.
+ */
+
+import { assertResult, assertValidation } from '../../internal/assert.ts';
+import { shapeLike, valuesOf } from '../../internal/collection.ts';
+import { inspectVariant, InspectSymbol, type InspectFunction, type InspectOptions } from '../../internal/inspect.ts';
+import type { Option } from '../option/option.ts';
+import { panic } from '../panic/panic.ts';
+import { Err, None, Ok, Some } from '../prelude.ts';
+import type { Result } from '../result/result.ts';
+import { ValidationKindSymbol } from './symbols.ts';
+
+/**
+ * The `Validation` type holds either a valid value, `Valid(T)`, or a non-empty list of errors, `Invalid(E[])`.
+ *
+ * Unlike `Result`, combining `Validation`s with `zip`, `zipWith` or `Validation.all` keeps the errors of every
+ * invalid input instead of stopping at the first one. Use `andThen` for checks that depend on a previous value.
+ *
+ * @typeParam T - The type of the valid value.
+ * @typeParam E - The type of each error.
+ * @since 1.11.0
+ * @see Valid
+ * @see Invalid
+ * @example
+ * ```ts
+ * const name = nonEmpty(form.name);       // Validation<string, string>
+ * const age = positive(Number(form.age)); // Validation<number, string>
+ *
+ * const user = name.zipWith(age, (name, age) => ({ name, age }));
+ * console.log(user.errors()); // every message, e.g. ['name is empty', 'age must be positive']
+ * ```
+ */
+export interface Validation<T, E> {
+    // #region Internal properties
+
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'Validation'` so that `Object.prototype.toString.call(validation)` produces `'[object Validation]'`.
+     *
+     * @example
+     * ```ts
+     * const x = Valid(5);
+     * console.log(Object.prototype.toString.call(x)); // '[object Validation]'
+     * ```
+     */
+    readonly [Symbol.toStringTag]: 'Validation';
+
+    /**
+     * A unique symbol property used to identify the variant of this `Validation`.
+     * Returns `'Valid'` if the Validation holds a value, or `'Invalid'` if it holds errors.
+     *
+     * Note: The symbol itself is not exported as part of the public API.
+     * Use the `isValidation` utility function or the `isValid()`/`isInvalid()` methods for type checking.
+     */
+    readonly [ValidationKindSymbol]: 'Valid' | 'Invalid';
+
+    // #endregion
+
+    // #region JavaScript protocols
+
+    /**
+     * Custom `toString` implementation that uses the `Validation`'s contained value or errors.
+     *
+     * @example
+     * ```ts
+     * console.log(Valid(5).toString()); // 'Valid(5)'
+     * console.log(Invalid('a', 'b').toString()); // 'Invalid(a, b)'
+     * ```
+     */
+    toString(): string;
+
+    /**
+     * Custom inspection used by `util.inspect` and `console.log` in Node.js, Deno and Bun.
+     * The contained value is inspected with the options of the surrounding output,
+     * so a `Validation` prints as `Invalid({ field: 'name' })` instead of `Invalid([object Object])`.
+     *
+     * @param depth - The remaining depth.
+     * @param options - The options of the surrounding `util.inspect` call.
+     * @param inspect - The `util.inspect` function.
+     * @returns The inspected representation.
+     * @example
+     * ```ts
+     * console.log(Valid({ a: 1 })); // Valid({ a: 1 })
+     * console.log(Invalid('too short', 'no digit')); // Invalid('too short', 'no digit')
+     * ```
+     */
+    [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string;
+
+    // #endregion
+
+    // #region Querying the variant
+
+    /**
+     * Returns `true` if the validation is `Valid`.
+     *
+     * @see isInvalid
+     * @example
+     * ```ts
+     * console.log(Valid(2).isValid()); // true
+     * console.log(Invalid('bad').isValid()); // false
+     * ```
+     */
+    isValid(): boolean;
+
+    /**
+     * Returns `true` if the validation is `Invalid`.
+     *
+     * @see isValid
+     * @example
+     * ```ts
+     * console.log(Invalid('bad').isInvalid()); // true
+     * ```
+     */
+    isInvalid(): boolean;
+
+    /**
+     * Returns `true` if the validation is `Valid` and the value inside of it matches a predicate.
+     *
+     * @param predicate - A function that takes the valid value and returns a boolean.
+     * @see isValid
+     * @example
+     * ```ts
+     * console.log(Valid(2).isValidAnd(x => x > 1)); // true
+     * console.log(Invalid<number, string>('bad').isValidAnd(x => x > 1)); // false
+     * ```
+     */
+    isValidAnd(predicate: (value: T) => boolean): boolean;
+
+    // #endregion
+
+    // #region Extracting the contained value
+
+    /**
+     * Returns the valid value.
+     *
+     * @param msg - The error message to throw if the validation is `Invalid`.
+     * @throws {Panic} Throws with the provided message followed by the errors if the validation is `Invalid`.
+     * @see unwrap
+     * @example
+     * ```ts
+     * console.log(Valid(5).expect('value should be valid')); // 5
+     * ```
+     */
+    expect(msg: string): T;
+
+    /**
+     * Returns the valid value.
+     *
+     * @throws {Panic} Throws if the validation is `Invalid`.
+     * @see expect
+     * @see unwrapOr
+     * @example
+     * ```ts
+     * console.log(Valid(5).unwrap()); // 5
+     * ```
+     */
+    unwrap(): T;
+
+    /**
+     * Returns the valid value or a provided default.
+     *
+     * @param defaultValue - The value to return if the validation is `Invalid`.
+     * @see unwrapOrElse
+     * @example
+     * ```ts
+     * console.log(Invalid<number, string>('bad').unwrapOr(0)); // 0
+     * ```
+     */
+    unwrapOr(defaultValue: T): T;
+
+    /**
+     * Returns the valid value or computes it from the errors.
+     *
+     * @param fn - A function that computes a value from the errors.
+     * @see unwrapOr
+     * @example
+     * ```ts
+     * console.log(Invalid<number, string>('a', 'b').unwrapOrElse(errors => errors.length)); // 2
+     * ```
+     */
+    unwrapOrElse(fn: (errors: readonly E[]) => T): T;
+
+    /**
+     * Returns the accumulated errors, which is an empty array for a `Valid` validation.
+     *
+     * @see unwrapErrors
+     * @example
+     * ```ts
+     * console.log(Invalid('a', 'b').errors()); // ['a', 'b']
+     * console.log(Valid(5).errors()); // []
+     * ```
+     */
+    errors(): readonly E[];
+
+    /**
+     * Returns the accumulated errors.
+     *
+     * @throws {Panic} Throws if the validation is `Valid`.
+     * @see errors
+     * @example
+     * ```ts
+     * console.log(Invalid('a').unwrapErrors()); // ['a']
+     * ```
+     */
+    unwrapErrors(): readonly E[];
+
+    // #endregion
+
+    // #region Transforming contained values
+
+    /**
+     * Maps a `Validation<T, E>` to `Validation<U, E>` by applying a function to a valid value, leaving errors untouched.
+     *
+     * @typeParam U - The type of the new value.
+     * @param fn - A function that transforms the valid value.
+     * @see mapErr
+     * @example
+     * ```ts
+     * console.log(Valid(2).map(x => x * 2).unwrap()); // 4
+     * ```
+     */
+    map<U>(fn: (value: T) => U): Validation<U, E>;
+
+    /**
+     * Maps a `Validation<T, E>` to `Validation<T, F>` by applying a function to each error, leaving a valid value untouched.
+     *
+     * @typeParam F - The type of the new errors.
+     * @param fn - A function that transforms each error.
+     * @see map
+     * @example
+     * ```ts
+     * console.log(Invalid('a', 'b').mapErr(e => e.toUpperCase()).errors()); // ['A', 'B']
+     * ```
+     */
+    mapErr<F>(fn: (error: E) => F): Validation<T, F>;
+
+    /**
+     * Calls the provided function with the valid value and returns its validation, or returns the errors unchanged.
+     *
+     * This short-circuits like `Result::and_then`, so use it for checks that need the previous value.
+     * Use `zip`/`zipWith` to combine independent checks.
+     *
+     * @typeParam U - The type of the value returned by the function.
+     * @param fn - A function that validates the valid value.
+     * @see zipWith
+     * @example
+     * ```ts
+     * const port = parseInteger(input).andThen(n => inRange(n, 1, 65535));
+     * ```
+     */
+    andThen<U>(fn: (value: T) => Validation<U, E>): Validation<U, E>;
+
+    // #endregion
+
+    // #region Combining validations
+
+    /**
+     * Combines two validations into a validation of a tuple, accumulating the errors of both.
+     *
+     * @typeParam U - The type of the other value.
+     * @param other - The other validation.
+     * @returns `Valid([a, b])` if both are valid, otherwise `Invalid` with the errors of `this` followed by those of `other`.
+     * @see zipWith
+     * @example
+     * ```ts
+     * console.log(Valid(1).zip(Valid('a')).unwrap()); // [1, 'a']
+     * console.log(Invalid('a').zip(Invalid('b')).errors()); // ['a', 'b']
+     * ```
+     */
+    zip<U>(other: Validation<U, E>): Validation<[T, U], E>;
+
+    /**
+     * Combines two validations with a function, accumulating the errors of both.
+     * This is the applicative `map2` of other languages.
+     *
+     * @typeParam U - The type of the other value.
+     * @typeParam R - The type of the combined value.
+     * @param other - The other validation.
+     * @param fn - A function combining both valid values, only called if both are valid.
+     * @returns `Valid(fn(a, b))` if both are valid, otherwise `Invalid` with the errors of `this` followed by those of `other`.
+     * @see zip
+     * @see ValidationStatic.all
+     * @example
+     * ```ts
+     * const range = min.zipWith(max, (min, max) => ({ min, max }));
+     * ```
+     */
+    zipWith<U, R>(other: Validation<U, E>, fn: (value: T, otherValue: U) => R): Validation<R, E>;
+
+    // #endregion
+
+    // #region Pattern matching
+
+    /**
+     * Calls the `Valid` arm with the valid value or the `Invalid` arm with the errors, and returns what it returns.
+     *
+     * @typeParam U - The return type of the `Valid` arm.
+     * @typeParam V - The return type of the `Invalid` arm.
+     * @param matcher - An object with a `Valid` and an `Invalid` arm.
+     * @returns The value returned by the arm that was called.
+     * @see matchAsync
+     * @example
+     * ```ts
+     * const response = validateForm(body).match({
+     *     Valid: form => ({ status: 201, body: save(form) }),
+     *     Invalid: errors => ({ status: 422, body: errors }),
+     * });
+     * ```
+     */
+    match<U, V>(matcher: ValidationMatcher<T, E, U, V>): U | V;
+
+    /**
+     * Asynchronous version of `match`. The arms may return a `PromiseLike`, which is awaited.
+     *
+     * @typeParam U - The return type of the `Valid` arm.
+     * @typeParam V - The return type of the `Invalid` arm.
+     * @param matcher - An object with a `Valid` and an `Invalid` arm.
+     * @returns A promise that resolves to the awaited value returned by the arm that was called.
+     * @see match
+     * @example
+     * ```ts
+     * const saved = await validateForm(body).matchAsync({
+     *     Valid: form => db.insert(form),
+     *     Invalid: () => null,
+     * });
+     * ```
+     */
+    matchAsync<U, V>(matcher: ValidationMatcher<T, E, U, V>): Promise<Awaited<U | V>>;
+
+    // #endregion
+
+    // #region Converting to Result and Option
+
+    /**
+     * Converts the validation into a `Result`, with all the errors in the `Err`.
+     *
+     * @see ValidationStatic.fromResult
+     * @example
+     * ```ts
+     * console.log(Valid(5).toResult().unwrap()); // 5
+     * console.log(Invalid('a', 'b').toResult().unwrapErr()); // ['a', 'b']
+     * ```
+     */
+    toResult(): Result<T, readonly E[]>;
+
+    /**
+     * Converts the validation into an `Option`, discarding the errors.
+     *
+     * @example
+     * ```ts
+     * console.log(Valid(5).ok().unwrap()); // 5
+     * console.log(Invalid('bad').ok().isNone()); // true
+     * ```
+     */
+    ok(): Option<T>;
+
+    // #endregion
+}
+
+/**
+ * The arms passed to `Validation.match`, one for each variant.
+ *
+ * @typeParam T - The type of the valid value.
+ * @typeParam E - The type of each error.
+ * @typeParam U - The return type of the `Valid` arm.
+ * @typeParam V - The return type of the `Invalid` arm.
+ * @since 1.11.0
+ * @see Validation.match
+ */
+export interface ValidationMatcher<T, E, U, V> {
+    /**
+     * Called with the valid value if the `Validation` is `Valid`.
+     */
+    readonly Valid: (value: T) => U;
+
+    /**
+     * Called with the accumulated errors if the `Validation` is `Invalid`.
+     */
+    readonly Invalid: (errors: readonly E[]) => V;
+}
+
+/**
+ * Creates a `Validation<T, E>` holding a valid value.
+ *
+ * @typeParam T - The type of the valid value.
+ * @typeParam E - The type of the errors the validation could hold.
+ * @param value - The valid value.
+ * @returns A `Valid` validation.
+ * @since 1.11.0
+ * @see Invalid
+ * @example
+ * ```ts
+ * function nonEmpty(s: string): Validation<string, string> {
+ *     return s ? Valid(s) : Invalid('must not be empty');
+ * }
+ * ```
+ */
+export function Valid<T, E = never>(value: T): Validation<T, E> {
+    const valid: Validation<T, E> = Object.freeze<Validation<T, E>>({
+        [Symbol.toStringTag]: 'Validation',
+        [ValidationKindSymbol]: 'Valid',
+
+        toString(): string {
+            return `Valid(${value})`;
+        },
+        [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string {
+            return inspectVariant('Valid', [value], depth, options, inspect);
+        },
+
+        isValid(): true {
+            return true;
+        },
+        isInvalid(): false {
+            return false;
+        },
+        isValidAnd(predicate: (value: T) => boolean): boolean {
+            return predicate(value);
+        },
+
+        expect(_msg: string): T {
+            return value;
+        },
+        unwrap(): T {
+            return value;
+        },
+        unwrapOr(_defaultValue: T): T {
+            return value;
+        },
+        unwrapOrElse(_fn: (errors: readonly E[]) => T): T {
+            return value;
+        },
+        errors(): readonly E[] {
+            return NO_ERRORS;
+        },
+        unwrapErrors(): never {
+            return panic('Validation::unwrapErrors() called on a `Valid` value');
+        },
+
+        map<U>(fn: (value: T) => U): Validation<U, E> {
+            return Valid(fn(value));
+        },
+        mapErr<F>(_fn: (error: E) => F): Validation<T, F> {
+            return valid as unknown as Validation<T, F>;
+        },
+        andThen<U>(fn: (value: T) => Validation<U, E>): Validation<U, E> {
+            const other = fn(value);
+            assertValidation<U, E>(other);
+            return other;
+        },
+
+        zip<U>(other: Validation<U, E>): Validation<[T, U], E> {
+            return valid.zipWith<U, [T, U]>(other, pair);
+        },
+        zipWith<U, R>(other: Validation<U, E>, fn: (value: T, otherValue: U) => R): Validation<R, E> {
+            assertValidation<U, E>(other);
+            return other.isValid() ? Valid(fn(value, other.unwrap())) : invalid(other.errors());
+        },
+
+        match<U, V>(matcher: ValidationMatcher<T, E, U, V>): U {
+            return matcher.Valid(value);
+        },
+        matchAsync<U, V>(matcher: ValidationMatcher<T, E, U, V>): Promise<Awaited<U>> {
+            return Promise.resolve(matcher.Valid(value));
+        },
+
+        toResult(): Result<T, readonly E[]> {
+            return Ok(value);
+        },
+        ok(): Option<T> {
+            return Some(value);
+        },
+    } as const);
+
+    return valid;
+}
+
+/**
+ * Creates a `Validation<T, E>` holding one or more errors.
+ *
+ * @typeParam T - The type of the value the validation could hold.
+ * @typeParam E - The type of the errors.
+ * @param error - The first error.
+ * @param errors - Further errors.
+ * @returns An `Invalid` validation.
+ * @since 1.11.0
+ * @see Valid
+ * @example
+ * ```ts
+ * const x = Invalid<number, string>('too small', 'not even');
+ * console.log(x.errors()); // ['too small', 'not even']
+ * ```
+ */
+export function Invalid<T = never, E = unknown>(error: E, ...errors: E[]): Validation<T, E> {
+    return invalid([error, ...errors]);
+}
+
+/**
+ * Shared error list of `Valid` validations.
+ */
+const NO_ERRORS: readonly never[] = /*#__PURE__*/ Object.freeze([]);
+
+/**
+ * Combines two values into a tuple, used by `zip`.
+ *
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns The tuple `[a, b]`.
+ */
+function pair<T, U>(a: T, b: U): [T, U] {
+    return [a, b];
+}
+
+/**
+ * Creates an `Invalid` validation from a non-empty list of errors.
+ *
+ * @param list - The errors, copied into a frozen array.
+ * @returns An `Invalid` validation.
+ */
+function invalid<T, E>(list: readonly E[]): Validation<T, E> {
+    const errors: readonly E[] = Object.freeze(list.slice());
+
+    const self: Validation<T, E> = Object.freeze<Validation<T, E>>({
+        [Symbol.toStringTag]: 'Validation',
+        [ValidationKindSymbol]: 'Invalid',
+
+        toString(): string {
+            return `Invalid(${errors.join(', ')})`;
+        },
+        [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string {
+            return inspectVariant('Invalid', errors, depth, options, inspect);
+        },
+
+        isValid(): false {
+            return false;
+        },
+        isInvalid(): true {
+            return true;
+        },
+        isValidAnd(_predicate: (value: T) => boolean): false {
+            return false;
+        },
+
+        expect(msg: string): never {
+            return panic(`${msg}: ${errors.join(', ')}`, { cause: errors });
+        },
+        unwrap(): never {
+            return panic('Validation::unwrap() called on an `Invalid` value', { cause: errors });
+        },
+        unwrapOr(defaultValue: T): T {
+            return defaultValue;
+        },
+        unwrapOrElse(fn: (errors: readonly E[]) => T): T {
+            return fn(errors);
+        },
+        errors(): readonly E[] {
+            return errors;
+        },
+        unwrapErrors(): readonly E[] {
+            return errors;
+        },
+
+        map<U>(_fn: (value: T) => U): Validation<U, E> {
+            return self as unknown as Validation<U, E>;
+        },
+        mapErr<F>(fn: (error: E) => F): Validation<T, F> {
+            return invalid(errors.map(error => fn(error)));
+        },
+        andThen<U>(_fn: (value: T) => Validation<U, E>): Validation<U, E> {
+            return self as unknown as Validation<U, E>;
+        },
+
+        zip<U>(other: Validation<U, E>): Validation<[T, U], E> {
+            return self.zipWith<U, [T, U]>(other, pair);
+        },
+        zipWith<U, R>(other: Validation<U, E>, _fn: (value: T, otherValue: U) => R): Validation<R, E> {
+            assertValidation<U, E>(other);
+            return other.isValid() ? self as unknown as Validation<R, E> : invalid([...errors, ...other.errors()]);
+        },
+
+        match<U, V>(matcher: ValidationMatcher<T, E, U, V>): V {
+            return matcher.Invalid(errors);
+        },
+        matchAsync<U, V>(matcher: ValidationMatcher<T, E, U, V>): Promise<Awaited<V>> {
+            return Promise.resolve(matcher.Invalid(errors));
+        },
+
+        toResult(): Result<T, readonly E[]> {
+            return Err(errors);
+        },
+        ok(): Option<T> {
+            return None;
+        },
+    } as const);
+
+    return self;
+}
+
+/**
+ * A collection of `Validation`s accepted by `Validation.all`: an array, a tuple, or an object record.
+ *
+ * @since 1.11.0
+ * @see ValidationStatic.all
+ */
+export type ValidationCollection = readonly Validation<unknown, unknown>[] | Readonly<Record<string, Validation<unknown, unknown>>>;
+
+/**
+ * Maps each `Validation` of a collection to its valid type.
+ * Tuples stay tuples and records keep their keys.
+ *
+ * @typeParam V - The collection type.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * type Values = ValidValues<{ name: Validation<string, string>; age: Validation<number, string> }>; // { name: string; age: number }
+ * ```
+ */
+export type ValidValues<V> = { -readonly [K in keyof V]: V[K] extends Validation<unknown, unknown> ? ReturnType<V[K]['unwrap']> : never };
+
+/**
+ * The union of the error types of all `Validation`s of a collection.
+ *
+ * @typeParam V - The collection type.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * type Error = InvalidErrors<[Validation<string, 'empty'>, Validation<number, 'negative'>]>; // 'empty' | 'negative'
+ * ```
+ */
+export type InvalidErrors<V> = (V extends readonly unknown[] ? V[number] : V[keyof V]) extends infer X
+    ? X extends Validation<unknown, unknown> ? ReturnType<X['errors']>[number] : never
+    : never;
+
+/**
+ * **Non-standard extension**: Static helpers for working with `Validation` values, exposed as the `Validation` object.
+ *
+ * @since 1.11.0
+ */
+export interface ValidationStatic {
+    /**
+     * Combines a collection of validations, accumulating the errors of every invalid element.
+     *
+     * Arrays, tuples (with precise element types) and object records are supported,
+     * which makes it the natural way to validate the fields of an object at once.
+     *
+     * @typeParam V - The collection type, inferred automatically.
+     * @param validations - An array, a tuple, or an object record of `Validation`s.
+     * @returns `Valid` with the collection of valid values, or `Invalid` with the errors of all elements in order.
+     * @throws {TypeError} If an element is not a `Validation`.
+     * @example
+     * ```ts
+     * // Validation<{ name: string; age: number }, string>
+     * const user = Validation.all({
+     *     name: nonEmpty(form.name),
+     *     age: positive(Number(form.age)),
+     * });
+     * ```
+     */
+    all<const V extends ValidationCollection>(validations: V): Validation<ValidValues<V>, InvalidErrors<V>>;
+
+    /**
+     * Converts a `Result` into a `Validation`: `Ok(v)` becomes `Valid(v)` and `Err(e)` becomes `Invalid(e)`.
+     *
+     * @typeParam T - The type of the success value.
+     * @typeParam E - The type of the error value.
+     * @param result - The `Result` to convert.
+     * @returns The corresponding `Validation`.
+     * @throws {TypeError} If `result` is not a `Result`.
+     * @see Validation.toResult
+     * @example
+     * ```ts
+     * const port = Validation.fromResult(parsePort(env.PORT));
+     * const host = Validation.fromResult(parseHost(env.HOST));
+     * const address = host.zip(port);
+     * ```
+     */
+    fromResult<T, E>(result: Result<T, E>): Validation<T, E>;
+}
+
+/**
+ * **Non-standard extension**: Static helpers for working with `Validation` values.
+ *
+ * Shares its name with the `Validation` type, so `Validation` can be used both as a type and as a namespace of helpers.
+ *
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const config = Validation.all([parseHost(env), parsePort(env)]);
+ * ```
+ */
+export const Validation: ValidationStatic = /*#__PURE__*/ Object.freeze<ValidationStatic>({
+    all<const V extends ValidationCollection>(validations: V): Validation<ValidValues<V>, InvalidErrors<V>> {
+        const values: unknown[] = [];
+        const errors: InvalidErrors<V>[] = [];
+
+        for (const validation of valuesOf<unknown>(validations)) {
+            assertValidation<unknown, InvalidErrors<V>>(validation);
+            if (validation.isValid()) {
+                values.push(validation.unwrap());
+            } else {
+                errors.push(...validation.errors());
+            }
+        }
+
+        return errors.length === 0 ? Valid(shapeLike(validations, values) as ValidValues<V>) : invalid(errors);
+    },
+
+    fromResult<T, E>(result: Result<T, E>): Validation<T, E> {
+        assertResult<T, E>(result);
+        return result.isOk() ? Valid(result.unwrap()) : Invalid(result.unwrapErr());
+    },
+});
@@ -0,0 +1,81 @@
+/**
+ * @module
+ * Internal runtime assertions for `Option`, `Result` and `Validation` values.
+ *
+ * Shared by `core/prelude.ts`, `core/validation/validation.ts` and the `Result` / `Option` static helpers.
+ * Not re-exported from `src/mod.ts`; consumers cannot import these.
+ */
+import { isOption } from '../core/option/guards.ts';
+import type { Option } from '../core/option/option.ts';
+import { isResult } from '../core/result/guards.ts';
+import type { Result } from '../core/result/result.ts';
+import { isValidation } from '../core/validation/guards.ts';
+import type { Validation } from '../core/validation/validation.ts';
+
+/**
+ * Safely converts a value to a string representation for error messages.
+ * Handles cases where `toString()` might throw or values are null/undefined.
+ *
+ * @param value - The value to stringify.
+ * @returns A safe string representation of the value.
+ */
+export function safeStringify(value: unknown): string {
+    try {
+        if (value === null) {
+            return 'null';
+        }
+        if (value === undefined) {
+            return 'undefined';
+        }
+        if (typeof value === 'object') {
+            return Object.prototype.toString.call(value);
+        }
+        return String(value);
+    } catch {
+        return '[unable to stringify]';
+    }
+}
+
+/**
+ * Asserts that a given value is an `Option`.
+ *
+ * @typeParam T - The expected type of the value contained within the `Option`.
+ * @param o - The value to be checked as an `Option`.
+ * @throws {TypeError} If the value is not an `Option`.
+ * @see isOption
+ */
+export function assertOption<T>(o: unknown): asserts o is Option<T> {
+    if (!isOption(o)) {
+        throw new TypeError(`Expected an Option, but received: ${safeStringify(o)}`);
+    }
+}
+
+/**
+ * Asserts that a given value is a `Result`.
+ *
+ * @typeParam T - The expected type of the success value contained within the `Result`.
+ * @typeParam E - The expected type of the error value contained within the `Result`.
+ * @param r - The value to be checked as a `Result`.
+ * @throws {TypeError} If the value is not a `Result`.
+ * @see isResult
+ */
+export function assertResult<T, E>(r: unknown): asserts r is Result<T, E> {
+    if (!isResult(r)) {
+        throw new TypeError(`Expected a Result, but received: ${safeStringify(r)}`);
+    }
+}
+
+/**
+ * Asserts that a given value is a `Validation`.
+ *
+ * @typeParam T - The expected type of the valid value contained within the `Validation`.
+ * @typeParam E - The expected type of the errors contained within the `Validation`.
+ * @param v - The value to be checked as a `Validation`.
+ * @throws {TypeError} If the value is not a `Validation`.
+ * @see isValidation
+ */
+export function assertValidation<T, E>(v: unknown): asserts v is Validation<T, E> {
+    if (!isValidation(v)) {
+        throw new TypeError(`Expected a Validation, but received: ${safeStringify(v)}`);
+    }
+}
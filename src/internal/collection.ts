@@ -0,0 +1,112 @@
+/**
+ * @module
+ * Internal helpers for the collection combinators (`Result.all`, `Option.all`, ...).
+ *
+ * Shared by the `Result` and `Option` static helpers.
+ * Not re-exported from `src/mod.ts`; consumers cannot import these.
+ */
+
+/**
+ * A value, a `PromiseLike` of a value, or a function returning either.
+ * Functions are only called once a concurrency slot is free.
+ */
+export type Task<T> = T | PromiseLike<T> | (() => T | PromiseLike<T>);
+
+/**
+ * Returns the elements of an array, or the property values of a record in `Object.keys` order.
+ *
+ * @param collection - An array, a tuple, or an object record.
+ * @returns The elements of the collection.
+ */
+export function valuesOf<T>(collection: readonly T[] | Readonly<Record<string, T>>): readonly T[] {
+    return Array.isArray(collection) ? collection : Object.values(collection);
+}
+
+/**
+ * Rebuilds a collection with the same shape as `collection`, holding `values` in the same order.
+ *
+ * @param collection - The original array, tuple, or object record.
+ * @param values - The new values, in the order returned by `valuesOf`.
+ * @returns An array if `collection` is an array, otherwise a record with the same keys.
+ */
+export function shapeLike<T>(collection: readonly unknown[] | Readonly<Record<string, unknown>>, values: T[]): T[] | Record<string, T> {
+    if (Array.isArray(collection)) {
+        return values;
+    }
+
+    const record: Record<string, T> = {};
+    Object.keys(collection).forEach((key, index) => {
+        record[key] = values[index];
+    });
+    return record;
+}
+
+/**
+ * Validates a concurrency limit.
+ *
+ * @param concurrency - The maximum number of pending tasks.
+ * @throws {RangeError} If `concurrency` is not a positive integer or `Infinity`.
+ */
+export function assertConcurrency(concurrency: number): void {
+    if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency < 1)) {
+        throw new RangeError(`Concurrency must be a positive integer or Infinity, got ${concurrency}`);
+    }
+}
+
+/**
+ * Resolves the tasks with at most `concurrency` of them pending at a time,
+ * calling `visit` with each value in completion order.
+ *
+ * No new task is started once `visit` returns `true`.
+ * Tasks passed as already-created promises are running regardless of the limit.
+ *
+ * @param tasks - The tasks to resolve.
+ * @param concurrency - The maximum number of pending tasks, validated by `assertConcurrency`.
+ * @param visit - Called with each resolved value and its index. Returns `true` to stop early.
+ * @returns A promise that resolves once every task has been visited or `visit` has stopped,
+ * or rejects with the first error thrown by a task or by `visit`.
+ */
+export function runTasks<T>(tasks: readonly Task<T>[], concurrency: number, visit: (value: T, index: number) => boolean): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        let next = 0;
+        let pending = 0;
+        let settled = false;
+
+        const launch = (): void => {
+            while (!settled && pending < concurrency && next < tasks.length) {
+                const index = next;
+                const task = tasks[index];
+                next += 1;
+                pending += 1;
+
+                // The executor also captures synchronous throws of task functions
+                new Promise<T>(r => r(typeof task === 'function' ? (task as () => T | PromiseLike<T>)() : task))
+                    .then(value => {
+                        pending -= 1;
+                        if (settled) {
+                            return;
+                        }
+                        if (visit(value, index)) {
+                            settled = true;
+                            resolve();
+                            return;
+                        }
+                        launch();
+                    })
+                    .then(undefined, (error: unknown) => {
+                        if (!settled) {
+                            settled = true;
+                            reject(error);
+                        }
+                    });
+            }
+
+            if (!settled && pending === 0) {
+                settled = true;
+                resolve();
+            }
+        };
+
+        launch();
+    });
+}
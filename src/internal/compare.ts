@@ -0,0 +1,194 @@
+/**
+ * @module
+ * Internal default equality and ordering used by `eq()` and `cmp()` on `Option` and `Result`.
+ *
+ * Not re-exported from `src/mod.ts`; consumers cannot import these.
+ */
+
+import { isOption, isResult, panic } from '../core/mod.ts';
+import { Equal, Greater, Less, type Ordering } from '../std/cmp/ordering.ts';
+import { debug } from '../std/fmt/fmt.ts';
+import { variantOf } from './variant.ts';
+
+/**
+ * Compares two values structurally.
+ *
+ * - Primitives are equal if they are the same value (`NaN` equals `NaN`, `0` equals `-0`).
+ * - `Result`, `Option`, `Validation` and `ControlFlow` are equal if they are the same variant with equal contents.
+ * - Arrays, typed arrays, `Map`s, `Set`s and objects with the same prototype are compared recursively.
+ * `Map` keys and `Set` elements are looked up by identity.
+ * - `Date`s are compared by time, `RegExp`s by source and flags, and `Error`s by name, message, cause and properties.
+ * - Functions and other values are equal only if they are the same.
+ *
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns `true` if the values are structurally equal.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+    return equals(a, b, new Map());
+}
+
+/**
+ * Orders two values like Rust's `Ord`.
+ *
+ * - Numbers and bigints, strings and booleans are ordered with `<` (`false < true`).
+ * - `Option`s and `Result`s are ordered with their `cmp()`.
+ * - `Date`s are ordered by time and arrays lexicographically.
+ *
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns The `Ordering` of `a` relative to `b`.
+ * @throws {Panic} If the values cannot be ordered, such as `NaN`, objects or values of different types.
+ */
+export function compareValues(a: unknown, b: unknown): Ordering {
+    if (isOption(a) && isOption(b)) {
+        return a.cmp(b);
+    }
+    if (isResult(a) && isResult(b)) {
+        return a.cmp(b);
+    }
+    if (a instanceof Date && b instanceof Date) {
+        return compareValues(a.getTime(), b.getTime());
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+        const length = Math.min(a.length, b.length);
+        for (let i = 0; i < length; i += 1) {
+            const ordering = compareValues(a[i], b[i]);
+            if (ordering !== Equal) {
+                return ordering;
+            }
+        }
+        return compareValues(a.length, b.length);
+    }
+
+    if (isComparablePrimitive(a) && isComparablePrimitive(b) && comparableKind(a) === comparableKind(b)) {
+        // Mixed numbers and bigints compare correctly with `<` and `>`
+        const x = a as number;
+        const y = b as number;
+        if (x < y) {
+            return Less;
+        }
+        if (x > y) {
+            return Greater;
+        }
+        if (!Number.isNaN(x) && !Number.isNaN(y)) {
+            return Equal;
+        }
+    }
+
+    return panic(`Cannot compare ${debug(a)} with ${debug(b)}`);
+}
+
+/**
+ * Compares two values structurally, assuming pairs already being compared are equal to handle cycles.
+ *
+ * @param a - The first value.
+ * @param b - The second value.
+ * @param visiting - The pairs being compared.
+ * @returns `true` if the values are structurally equal.
+ */
+function equals(a: unknown, b: unknown, visiting: Map<object, Set<object>>): boolean {
+    if (Object.is(a, b) || a === b) {
+        return true;
+    }
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+        return false;
+    }
+
+    const pairs = visiting.get(a);
+    if (pairs?.has(b)) {
+        return true;
+    }
+    if (pairs === undefined) {
+        visiting.set(a, new Set([b]));
+    } else {
+        pairs.add(b);
+    }
+
+    try {
+        return equalObjects(a, b, visiting);
+    } finally {
+        visiting.get(a)?.delete(b);
+    }
+}
+
+/**
+ * Compares two distinct objects structurally.
+ *
+ * @param a - The first object.
+ * @param b - The second object.
+ * @param visiting - The pairs being compared.
+ * @returns `true` if the objects are structurally equal.
+ */
+function equalObjects(a: object, b: object, visiting: Map<object, Set<object>>): boolean {
+    const left = variantOf(a);
+    const right = variantOf(b);
+    if (left !== undefined || right !== undefined) {
+        return left !== undefined && right !== undefined && left[0] === right[0] && equals(left[1], right[1], visiting);
+    }
+
+    if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+        return false;
+    }
+
+    if (a instanceof Date) {
+        return equals(a.getTime(), (b as Date).getTime(), visiting);
+    }
+    if (a instanceof RegExp) {
+        return a.source === (b as RegExp).source && a.flags === (b as RegExp).flags;
+    }
+    if (a instanceof Error && (a.name !== (b as Error).name || a.message !== (b as Error).message || !equals(a.cause, (b as Error).cause, visiting))) {
+        return false;
+    }
+    if (ArrayBuffer.isView(a)) {
+        const x = new Uint8Array(a.buffer, a.byteOffset, a.byteLength);
+        const y = new Uint8Array((b as ArrayBufferView).buffer, (b as ArrayBufferView).byteOffset, (b as ArrayBufferView).byteLength);
+        return x.length === y.length && x.every((byte, i) => byte === y[i]);
+    }
+    if (a instanceof Map) {
+        const other = b as Map<unknown, unknown>;
+        return a.size === other.size && Array.from(a).every(([key, value]) => other.has(key) && equals(value, other.get(key), visiting));
+    }
+    if (a instanceof Set) {
+        const other = b as Set<unknown>;
+        return a.size === other.size && Array.from(a).every(value => other.has(value));
+    }
+
+    // Arrays are compared by their indices and `length`, like other objects
+    const keys = ownKeys(a);
+    const otherKeys = new Set(ownKeys(b));
+    return keys.length === otherKeys.size
+        && keys.every(key => otherKeys.has(key) && equals((a as Record<PropertyKey, unknown>)[key], (b as Record<PropertyKey, unknown>)[key], visiting));
+}
+
+/**
+ * Returns the own enumerable keys of an object, including `length` for arrays.
+ *
+ * @param value - The object.
+ * @returns The keys.
+ */
+function ownKeys(value: object): PropertyKey[] {
+    const keys: PropertyKey[] = Reflect.ownKeys(value).filter(key => Object.prototype.propertyIsEnumerable.call(value, key));
+    return Array.isArray(value) ? [...keys, 'length'] : keys;
+}
+
+/**
+ * Checks whether a value is a primitive that `compareValues` orders with `<`.
+ *
+ * @param value - The value to check.
+ * @returns `true` for numbers, bigints, strings and booleans.
+ */
+function isComparablePrimitive(value: unknown): value is number | bigint | string | boolean {
+    const type = typeof value;
+    return type === 'number' || type === 'bigint' || type === 'string' || type === 'boolean';
+}
+
+/**
+ * Returns the group of a primitive for ordering: numbers and bigints can be compared with each other.
+ *
+ * @param value - The primitive.
+ * @returns The group of the primitive.
+ */
+function comparableKind(value: number | bigint | string | boolean): string {
+    return typeof value === 'bigint' ? 'number' : typeof value;
+}
@@ -0,0 +1,35 @@
+/**
+ * @module
+ * Internal `Symbol.dispose` and `Symbol.asyncDispose`, polyfilled on runtimes that lack them.
+ *
+ * Shared by the guards and permits of `std/sync` and by `Channel`, so that `using` declarations release them.
+ * Not re-exported from `src/mod.ts`; consumers cannot import these.
+ */
+
+/**
+ * `Symbol.dispose`, defined on `Symbol` if the runtime lacks it.
+ *
+ * The polyfill is `Symbol.for('nodejs.dispose')`, the symbol Node.js itself uses,
+ * so that transpiled `using` declarations and other polyfills agree on it.
+ */
+export const DisposeSymbol: typeof Symbol.dispose = polyfillSymbol('dispose');
+
+/**
+ * `Symbol.asyncDispose`, defined on `Symbol` if the runtime lacks it.
+ *
+ * The polyfill is `Symbol.for('nodejs.asyncDispose')`, the symbol Node.js itself uses.
+ */
+export const AsyncDisposeSymbol: typeof Symbol.asyncDispose = polyfillSymbol('asyncDispose');
+
+/**
+ * Returns a well-known symbol of `Symbol`, defining it from the global symbol registry first if it is missing.
+ *
+ * @param name - The name of the well-known symbol.
+ * @returns The well-known symbol.
+ */
+function polyfillSymbol<K extends 'dispose' | 'asyncDispose'>(name: K): SymbolConstructor[K] {
+    if (typeof Symbol[name] !== 'symbol') {
+        Object.defineProperty(Symbol, name, { value: Symbol.for(`nodejs.${name}`) });
+    }
+    return Symbol[name];
+}
@@ -0,0 +1,33 @@
+/**
+ * @module
+ * Internal helpers reading the `_tag` of tagged errors, the loose check behind the tagged error
+ * combinators (`Result.catchTag`, `Result.mapErrTag`), which `isTaggedError` completes with its brand check.
+ *
+ * Shared by `core/prelude.ts`, `core/result/result_async.ts` and `core/result/tagged_error.ts`.
+ * Not re-exported from `src/mod.ts`; consumers cannot import this.
+ */
+
+/**
+ * Returns the `_tag` of an error.
+ *
+ * Only the `_tag` field is read, so hand-written tagged error classes are handled
+ * the same way as the classes created by `defineError`.
+ *
+ * @param error - The error to read.
+ * @returns The `_tag` of `error` if it is an object with a string `_tag`, otherwise `undefined`.
+ */
+export function errorTag(error: unknown): string | undefined {
+    const tag = error != null && typeof error === 'object' ? (error as { _tag?: unknown; })._tag : undefined;
+    return typeof tag === 'string' ? tag : undefined;
+}
+
+/**
+ * Checks if an error has the given `_tag`.
+ *
+ * @param error - The error to check.
+ * @param tag - The expected tag.
+ * @returns `true` if `error` is an object whose `_tag` is `tag`, otherwise `false`.
+ */
+export function hasErrorTag(error: unknown, tag: string): boolean {
+    return errorTag(error) === tag;
+}
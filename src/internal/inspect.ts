@@ -0,0 +1,63 @@
+/**
+ * @module
+ * Internal support for Node.js `util.inspect` custom inspection.
+ *
+ * Shared by `Option`, `Result`, `Validation` and `ControlFlow`, whose instances implement `InspectSymbol`
+ * so that `console.log(Ok({ a: 1 }))` prints `Ok({ a: 1 })` in Node.js, Deno and Bun.
+ * Not re-exported from `src/mod.ts`; consumers cannot import these.
+ */
+
+/**
+ * The symbol looked up by Node.js `util.inspect`, registered globally so that no Node.js import is needed.
+ *
+ * @internal
+ */
+export const InspectSymbol: unique symbol = /*#__PURE__*/ Symbol.for('nodejs.util.inspect.custom');
+
+/**
+ * The subset of the `util.inspect` options used by `inspectVariant`.
+ *
+ * @internal
+ */
+export interface InspectOptions {
+    readonly depth?: number | null;
+    readonly stylize?: (text: string, styleType: string) => string;
+}
+
+/**
+ * The `util.inspect` function passed as third argument to custom inspection functions.
+ *
+ * @internal
+ */
+export type InspectFunction = (value: unknown, options: InspectOptions) => string;
+
+/**
+ * Formats a variant as `Name(payload, ...)` with the `inspect` function provided by the runtime,
+ * so that the payloads keep the colors, depth and other options of the surrounding output.
+ *
+ * @param name - The name of the variant, such as `'Ok'`.
+ * @param payloads - The contained values, empty for `None`.
+ * @param depth - The remaining depth passed by `util.inspect`.
+ * @param options - The options passed by `util.inspect`.
+ * @param inspect - The `util.inspect` function, missing on older runtimes.
+ * @returns The formatted variant.
+ */
+export function inspectVariant(name: string, payloads: readonly unknown[], depth: number, options: InspectOptions, inspect?: InspectFunction): string {
+    if (payloads.length === 0) {
+        return name;
+    }
+    if (depth < 0) {
+        const text = `[${name}]`;
+        return typeof options.stylize === 'function' ? options.stylize(text, 'special') : text;
+    }
+    if (typeof inspect !== 'function') {
+        return `${name}(${payloads.map(String).join(', ')})`;
+    }
+
+    // The payloads are printed at the nesting level of the variant, as if it were transparent
+    const nested: InspectOptions = { ...options, depth: options.depth == null ? options.depth : depth };
+    const padding = ' '.repeat(name.length + 1);
+    const inner = payloads.map(payload => inspect(payload, nested).replaceAll('\n', `\n${padding}`));
+
+    return `${name}(${inner.join(', ')})`;
+}
@@ -0,0 +1,49 @@
+/**
+ * @module
+ * Internal link from a `MutexGuard` to the mutex it locks.
+ *
+ * Written by `std/sync/mutex.ts` and read by `std/sync/condvar.ts`, which reacquires the mutex of a guard after waiting.
+ * Not re-exported from `src/mod.ts`; consumers cannot import this.
+ */
+
+import type { AbortOptions } from '../std/sync/abort.ts';
+import type { MutexGuard } from '../std/sync/mutex.ts';
+
+/**
+ * Acquires the lock of a mutex, like `Mutex.lock`.
+ */
+export type LockFn<T> = (options?: AbortOptions) => Promise<MutexGuard<T>>;
+
+/**
+ * The `lock` function of the mutex of each guard still held; a guard is removed when it is released.
+ */
+const guardLocks = new WeakMap<MutexGuard<unknown>, LockFn<unknown>>();
+
+/**
+ * Records the mutex of a new guard.
+ *
+ * @param guard - The guard, just acquired.
+ * @param lock - The `lock` function of its mutex.
+ */
+export function linkGuard<T>(guard: MutexGuard<T>, lock: LockFn<T>): void {
+    guardLocks.set(guard, lock as LockFn<unknown>);
+}
+
+/**
+ * Forgets the mutex of a released guard.
+ *
+ * @param guard - The released guard.
+ */
+export function unlinkGuard<T>(guard: MutexGuard<T>): void {
+    guardLocks.delete(guard);
+}
+
+/**
+ * Returns the `lock` function of the mutex of a guard.
+ *
+ * @param guard - The guard.
+ * @returns The `lock` function, or `undefined` if the guard has been released.
+ */
+export function guardLock<T>(guard: MutexGuard<T>): LockFn<T> | undefined {
+    return guardLocks.get(guard) as LockFn<T> | undefined;
+}
@@ -0,0 +1,30 @@
+/**
+ * @module
+ * Internal helper for promise operands that may never be awaited.
+ *
+ * Shared by `core/result/result_async.ts` and `core/option/option_async.ts`.
+ * Not re-exported from `src/mod.ts`; consumers cannot import this.
+ */
+
+/**
+ * Resolves `operand` to a promise whose rejection is not reported as unhandled when the promise is dropped.
+ *
+ * The returned promise still rejects, so a caller that does use it observes the rejection.
+ * @param operand - The operand of a boolean operator such as `and` or `or`, which only one branch uses.
+ */
+export function handledOperand<T>(operand: PromiseLike<T> | T): Promise<T> {
+    const promise = Promise.resolve(operand);
+    promise.catch(noop);
+    return promise;
+}
+
+// #region Internal helpers
+
+/**
+ * Does nothing, used to mark the operand as handled.
+ */
+function noop(): void {
+    // Nothing to do
+}
+
+// #endregion
@@ -0,0 +1,85 @@
+/**
+ * @module
+ * Internal helpers for the tagged shapes returned by `toJSON` (`{ $kind: 'Ok', value }`, `{ $kind: 'None' }`, ...).
+ *
+ * Shared by the JSON `reviver` and the structured-clone codec.
+ * Not re-exported from `src/mod.ts`; consumers cannot import these.
+ */
+
+import { Err, None, Ok, Some } from '../core/mod.ts';
+import { Break, Continue } from '../std/ops/control_flow.ts';
+
+/**
+ * The `$kind` of a tagged shape.
+ */
+export type TaggedKind = 'Ok' | 'Err' | 'Some' | 'None' | 'Break' | 'Continue';
+
+/**
+ * The key holding the payload of each kind, or `undefined` for `None`.
+ */
+const PAYLOAD_KEYS: Readonly<Record<TaggedKind, string | undefined>> = {
+    Ok: 'value',
+    Err: 'error',
+    Some: 'value',
+    None: undefined,
+    Break: 'value',
+    Continue: 'value',
+};
+
+/**
+ * Returns the kind of a tagged shape: a plain object whose `$kind` is a known kind
+ * and which has no other key than the payload key of that kind.
+ *
+ * @param value - The value to check.
+ * @returns The kind, or `undefined` if the value is not a tagged shape.
+ */
+export function taggedKind(value: unknown): TaggedKind | undefined {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return undefined;
+    }
+
+    const kind = (value as Record<string, unknown>)['$kind'];
+    if (typeof kind !== 'string' || !Object.hasOwn(PAYLOAD_KEYS, kind)) {
+        return undefined;
+    }
+
+    const payloadKey = PAYLOAD_KEYS[kind as TaggedKind];
+    const valid = Object.keys(value).every(key => key === '$kind' || key === payloadKey);
+    return valid ? kind as TaggedKind : undefined;
+}
+
+/**
+ * Reads the payload of a tagged shape.
+ *
+ * @param value - A tagged shape of the given kind.
+ * @param kind - The kind returned by `taggedKind`.
+ * @returns The payload, or `undefined` if it is absent or the kind is `None`.
+ */
+export function taggedPayload(value: object, kind: TaggedKind): unknown {
+    const payloadKey = PAYLOAD_KEYS[kind];
+    return payloadKey === undefined ? undefined : (value as Record<string, unknown>)[payloadKey];
+}
+
+/**
+ * Creates the instance described by a kind and a payload.
+ *
+ * @param kind - The kind of the instance.
+ * @param payload - The contained value, ignored for `None`.
+ * @returns A `Result`, `Option` or `ControlFlow`.
+ */
+export function fromTagged(kind: TaggedKind, payload: unknown): unknown {
+    switch (kind) {
+        case 'Ok':
+            return Ok(payload);
+        case 'Err':
+            return Err(payload);
+        case 'Some':
+            return Some(payload);
+        case 'None':
+            return None;
+        case 'Break':
+            return Break(payload);
+        case 'Continue':
+            return Continue(payload);
+    }
+}
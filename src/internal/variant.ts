@@ -0,0 +1,37 @@
+/**
+ * @module
+ * Internal helper to read the variant of a `Result`, `Option`, `Validation`, `ControlFlow` or `Ordering` generically.
+ *
+ * Shared by the debug formatter and the test matchers.
+ * Not re-exported from `src/mod.ts`; consumers cannot import these.
+ */
+
+import { isOption, isResult, isValidation } from '../core/mod.ts';
+import { isOrdering } from '../std/cmp/guards.ts';
+import { isControlFlow } from '../std/ops/guards.ts';
+
+/**
+ * Returns the name and contained values of a `Result`, `Option`, `Validation`, `ControlFlow` or `Ordering`.
+ *
+ * @param value - The value to check.
+ * @returns The name and contained values (empty for `None` and orderings, the errors for `Invalid`),
+ * or `undefined` if the value is none of these.
+ */
+export function variantOf(value: unknown): [name: string, payloads: readonly unknown[]] | undefined {
+    if (isResult(value)) {
+        return value.isOk() ? ['Ok', [value.value]] : ['Err', [value.error]];
+    }
+    if (isOption(value)) {
+        return value.isSome() ? ['Some', [value.value]] : ['None', []];
+    }
+    if (isValidation(value)) {
+        return value.isValid() ? ['Valid', [value.unwrap()]] : ['Invalid', value.unwrapErrors()];
+    }
+    if (isControlFlow(value)) {
+        return value.isBreak() ? ['Break', [value.breakValue().unwrap()]] : ['Continue', [value.continueValue().unwrap()]];
+    }
+    if (isOrdering(value)) {
+        return [value.toString(), []];
+    }
+    return undefined;
+}
@@ -0,0 +1,92 @@
+/**
+ * @module
+ * Internal helpers for the wait queues of the sync primitives (`Mutex`, `RwLock`, `Semaphore`, `Channel`, ...).
+ *
+ * Not re-exported from `src/mod.ts`; consumers cannot import these.
+ */
+
+import { AbortError } from '../std/sync/abort.ts';
+
+/**
+ * The options of `parkWaiter`.
+ *
+ * @typeParam T - The type of the value the waiter is woken with.
+ */
+export interface ParkOptions<T> {
+    /**
+     * Removes the waiter and rejects with an `AbortError` when it aborts.
+     */
+    readonly signal?: AbortSignal;
+
+    /**
+     * Removes the waiter and resolves with `value` after `ms` milliseconds.
+     */
+    readonly timeout?: { readonly ms: number; readonly value: T; };
+
+    /**
+     * Called after the waiter has been removed by the signal or the timeout,
+     * to restore the state of the primitive (such as a count of pending waiters).
+     */
+    readonly onCancel?: () => void;
+}
+
+/**
+ * Creates the error rejecting a wait cancelled by `signal`.
+ *
+ * @param signal - The aborted signal.
+ * @returns An `AbortError` with the reason of the signal as `cause`.
+ */
+export function abortError(signal: AbortSignal): AbortError {
+    return new AbortError('The operation was aborted', { cause: signal.reason });
+}
+
+/**
+ * Pushes a waiter to a wait queue and returns a promise settled when it is woken up or cancelled.
+ *
+ * Waking up and cancelling are both synchronous, so exactly one of them happens:
+ * a woken waiter no longer listens to the signal or the timeout, and a cancelled waiter is no longer in the queue.
+ *
+ * @typeParam T - The type of the value the waiter is woken with.
+ * @typeParam W - The type of the waiters in the queue.
+ * @param queue - The wait queue.
+ * @param createWaiter - Creates the waiter from the function waking it up, which resolves the returned promise.
+ * @param options - The signal, timeout and cancellation callback.
+ * @returns A promise of the value the waiter is woken with.
+ */
+export function parkWaiter<T, W>(queue: W[], createWaiter: (wake: (value: T) => void) => W, options: ParkOptions<T> = {}): Promise<T> {
+    const { signal, timeout, onCancel } = options;
+
+    return new Promise<T>((resolve, reject) => {
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+        const cancel = (): void => {
+            queue.splice(queue.indexOf(waiter), 1);
+            cleanup();
+            onCancel?.();
+        };
+
+        const abort = (): void => {
+            cancel();
+            reject(abortError(signal as AbortSignal));
+        };
+
+        const cleanup = (): void => {
+            clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', abort);
+        };
+
+        const waiter = createWaiter((value) => {
+            cleanup();
+            resolve(value);
+        });
+        queue.push(waiter);
+
+        signal?.addEventListener('abort', abort, { once: true });
+        if (timeout !== undefined) {
+            timeoutId = setTimeout(() => {
+                cancel();
+                resolve(timeout.value);
+            }, timeout.ms);
+        }
+    });
+}
@@ -0,0 +1,293 @@
+/**
+ * @module
+ * A structured-clone codec for `Result`, `Option` and `ControlFlow`, and a `MessagePort` wrapper that applies it.
+ *
+ * Structured clone (used by `postMessage`, `structuredClone`, `BroadcastChannel` and `worker_threads`)
+ * drops functions, so a `Result` sent to a worker arrives as a plain object without methods.
+ * `toCloneable` replaces every instance in a value by its tagged shape (the one returned by `toJSON`),
+ * and `fromCloneable` turns the shapes back into instances on the receiving side.
+ */
+
+import { isOption, isResult } from '../../core/mod.ts';
+import { fromTagged, taggedKind, taggedPayload } from '../../internal/tagged.ts';
+import { isControlFlow } from '../ops/guards.ts';
+
+/**
+ * The subset of `MessagePort` used by `CloneablePort`.
+ *
+ * Satisfied by a browser `MessagePort`, `Worker`, `BroadcastChannel` or worker global scope,
+ * and by a `MessagePort` of Node.js `worker_threads`.
+ *
+ * @since 1.11.0
+ * @see CloneablePort
+ */
+export interface MessagePortLike {
+    postMessage(message: unknown, transfer?: readonly object[]): void;
+    addEventListener(type: 'message', listener: (event: { readonly data: unknown; }) => void): void;
+    removeEventListener(type: 'message', listener: (event: { readonly data: unknown; }) => void): void;
+}
+
+/**
+ * A wrapper around a `MessagePortLike` that encodes outgoing messages with `toCloneable`
+ * and decodes incoming messages with `fromCloneable`.
+ *
+ * @typeParam T - The type of the messages.
+ * @since 1.11.0
+ * @see CloneablePort
+ */
+export interface CloneablePort<T> {
+    // #region Internal properties
+
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'CloneablePort'` so that `Object.prototype.toString.call(port)` produces `'[object CloneablePort]'`.
+     */
+    readonly [Symbol.toStringTag]: 'CloneablePort';
+
+    // #endregion
+
+    /**
+     * The wrapped port.
+     */
+    readonly port: MessagePortLike;
+
+    /**
+     * Encodes a message with `toCloneable` and posts it.
+     *
+     * @param message - The message to send.
+     * @param transfer - Objects whose ownership is transferred, such as `ArrayBuffer`s or `MessagePort`s.
+     * @example
+     * ```ts
+     * port.postMessage(Ok({ id: 1 }));
+     * ```
+     */
+    postMessage(message: T, transfer?: readonly object[]): void;
+
+    /**
+     * Registers a listener called with each decoded message.
+     *
+     * A `MessagePort` only dispatches messages once `start()` has been called on it
+     * (or once a listener is set with `onmessage`).
+     *
+     * @param listener - The function to call with each message.
+     * @returns A function that unregisters the listener.
+     * @example
+     * ```ts
+     * const unsubscribe = port.onMessage(result => {
+     *     result.inspect(user => render(user));
+     * });
+     * ```
+     */
+    onMessage(listener: (message: T) => void): () => void;
+
+    /**
+     * Custom `toString` implementation.
+     * @example
+     * ```ts
+     * console.log(CloneablePort(channel.port1).toString()); // 'CloneablePort'
+     * ```
+     */
+    toString(): string;
+}
+
+/**
+ * Replaces every `Result`, `Option` and `ControlFlow` in a value by its tagged shape
+ * (`{ $kind: 'Ok', value }`, `{ $kind: 'None' }`, ...) so that it survives structured clone.
+ *
+ * Arrays, plain objects, `Map`s and `Set`s are copied while their contents are encoded.
+ * Other objects (`Date`, `ArrayBuffer`, class instances, ...) are kept as is.
+ * Shared references and cycles are preserved.
+ *
+ * @param value - The value to encode.
+ * @returns A copy of the value without `Result`, `Option` or `ControlFlow` instances.
+ * @since 1.11.0
+ * @see fromCloneable
+ * @example
+ * ```ts
+ * worker.postMessage(toCloneable({ user: Some(user), saved: Ok(true) }));
+ * ```
+ */
+export function toCloneable(value: unknown): unknown {
+    return encode(value, new Map());
+}
+
+/**
+ * Turns the tagged shapes produced by `toCloneable` back into `Result`, `Option` and `ControlFlow` instances.
+ *
+ * Arrays, plain objects, `Map`s and `Set`s are copied while their contents are decoded.
+ * A plain object is decoded only if it has exactly the keys of a tagged shape, as with `reviver`.
+ * Shared references and cycles are preserved.
+ *
+ * @typeParam T - The expected type of the decoded value. It is not checked at runtime.
+ * @param data - The value received through structured clone.
+ * @returns A copy of the value with the tagged shapes replaced by instances.
+ * @since 1.11.0
+ * @see toCloneable
+ * @example
+ * ```ts
+ * self.addEventListener('message', event => {
+ *     const { user } = fromCloneable<{ user: Option<User>; }>(event.data);
+ *     user.inspect(greet);
+ * });
+ * ```
+ */
+export function fromCloneable<T = unknown>(data: unknown): T {
+    return decode(data, new Map()) as T;
+}
+
+/**
+ * Wraps a `MessagePortLike` so that `Result`, `Option` and `ControlFlow` values keep their methods across threads.
+ *
+ * @typeParam T - The type of the messages.
+ * @param port - The port, worker or channel to wrap.
+ * @returns A `CloneablePort` sending and receiving messages of type `T`.
+ * @since 1.11.0
+ * @see toCloneable
+ * @see fromCloneable
+ * @example
+ * ```ts
+ * // main.ts
+ * const port = CloneablePort<Result<number, string>>(new Worker('./worker.js', { type: 'module' }));
+ * port.onMessage(result => console.log(result.unwrapOr(0)));
+ *
+ * // worker.js
+ * const port = CloneablePort<Result<number, string>>(self);
+ * port.postMessage(Ok(42));
+ * ```
+ */
+export function CloneablePort<T>(port: MessagePortLike): CloneablePort<T> {
+    return Object.freeze<CloneablePort<T>>({
+        [Symbol.toStringTag]: 'CloneablePort',
+        port,
+
+        postMessage(message: T, transfer?: readonly object[]): void {
+            const data = toCloneable(message);
+            if (transfer === undefined) {
+                port.postMessage(data);
+            } else {
+                port.postMessage(data, transfer);
+            }
+        },
+
+        onMessage(listener: (message: T) => void): () => void {
+            const handler = (event: { readonly data: unknown; }): void => {
+                listener(fromCloneable<T>(event.data));
+            };
+            port.addEventListener('message', handler);
+            return () => port.removeEventListener('message', handler);
+        },
+
+        toString(): string {
+            return 'CloneablePort';
+        },
+    } as const);
+}
+
+/**
+ * Encodes a value, reusing the copies of already visited objects.
+ *
+ * @param value - The value to encode.
+ * @param seen - The copies of the objects visited so far.
+ * @returns The encoded value.
+ */
+function encode(value: unknown, seen: Map<object, unknown>): unknown {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (seen.has(value)) {
+        return seen.get(value);
+    }
+
+    if (isResult(value) || isOption(value) || isControlFlow(value)) {
+        const tagged: Record<string, unknown> = { ...value.toJSON() };
+        seen.set(value, tagged);
+        for (const key of Object.keys(tagged)) {
+            if (key !== '$kind') {
+                tagged[key] = encode(tagged[key], seen);
+            }
+        }
+        return tagged;
+    }
+
+    return copyContainer(value, seen, encode);
+}
+
+/**
+ * Decodes a value, reusing the copies of already visited objects.
+ *
+ * @param data - The value to decode.
+ * @param seen - The copies of the objects visited so far.
+ * @returns The decoded value.
+ */
+function decode(data: unknown, seen: Map<object, unknown>): unknown {
+    if (data === null || typeof data !== 'object') {
+        return data;
+    }
+    if (seen.has(data)) {
+        return seen.get(data);
+    }
+
+    const kind = taggedKind(data);
+    if (kind !== undefined) {
+        const payload = decode(taggedPayload(data, kind), seen);
+        // Decoding the payload may have reached this object again through a cycle
+        if (!seen.has(data)) {
+            seen.set(data, fromTagged(kind, payload));
+        }
+        return seen.get(data);
+    }
+
+    return copyContainer(data, seen, decode);
+}
+
+/**
+ * Copies an array, a plain object, a `Map` or a `Set`, transforming its contents with `transform`.
+ * The copy is registered in `seen` before its contents are transformed, so that cycles resolve to it.
+ * Other objects are returned as is.
+ *
+ * @param value - The object to copy.
+ * @param seen - The copies of the objects visited so far.
+ * @param transform - `encode` or `decode`.
+ * @returns The copy, or `value` itself if it is not a container.
+ */
+function copyContainer(value: object, seen: Map<object, unknown>, transform: (value: unknown, seen: Map<object, unknown>) => unknown): unknown {
+    if (Array.isArray(value)) {
+        const copy: unknown[] = [];
+        seen.set(value, copy);
+        for (const item of value) {
+            copy.push(transform(item, seen));
+        }
+        return copy;
+    }
+
+    if (value instanceof Map) {
+        const copy = new Map<unknown, unknown>();
+        seen.set(value, copy);
+        for (const [key, item] of value) {
+            copy.set(transform(key, seen), transform(item, seen));
+        }
+        return copy;
+    }
+
+    if (value instanceof Set) {
+        const copy = new Set<unknown>();
+        seen.set(value, copy);
+        for (const item of value) {
+            copy.add(transform(item, seen));
+        }
+        return copy;
+    }
+
+    const proto: unknown = Object.getPrototypeOf(value);
+    if (proto === Object.prototype || proto === null) {
+        const copy: Record<string, unknown> = {};
+        seen.set(value, copy);
+        for (const [key, item] of Object.entries(value)) {
+            copy[key] = transform(item, seen);
+        }
+        return copy;
+    }
+
+    seen.set(value, value);
+    return value;
+}
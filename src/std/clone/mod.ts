@@ -0,0 +1,6 @@
+/**
+ * @module
+ * Main entry point for the clone module.
+ * Re-exports all public APIs from the clone submodules.
+ */
+export * from './clone.ts';
@@ -0,0 +1,93 @@
+/**
+ * @module
+ * Builders composing comparators, the functions ordering two values with an `Ordering`.
+ */
+
+import { compareValues } from '../../internal/compare.ts';
+import type { Ordering } from './ordering.ts';
+
+/**
+ * A function ordering two values, like the `compare` argument of `cmp()`.
+ *
+ * Without a comparator, the functions of this module use the default ordering of `cmp()`:
+ * numbers, bigints, strings, booleans, `Date`s, arrays (lexicographically) and nested `Option`s or `Result`s.
+ *
+ * @typeParam T - The type of the compared values.
+ * @since 1.11.0
+ * @see toCompareFn
+ * @example
+ * ```ts
+ * const byAge: Comparator<User> = (a, b) => Some(a.age).cmp(Some(b.age));
+ * ```
+ */
+export type Comparator<T> = (a: T, b: T) => Ordering;
+
+/**
+ * Creates a comparator ordering values by a key extracted from them,
+ * like Rust's `sort_by_key`.
+ *
+ * @typeParam T - The type of the compared values.
+ * @typeParam K - The type of the key.
+ * @param key - A function extracting the key of a value.
+ * @param compare - A comparator for the keys, the default ordering if omitted.
+ * @returns A comparator of the values.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * users.sort(toCompareFn(byKey(user => user.age)));
+ * users.sort(toCompareFn(byKey(user => user.name, reverse())));
+ * ```
+ */
+export function byKey<T, K>(key: (value: T) => K, compare: Comparator<K> = compareValues): Comparator<T> {
+    return (a, b) => compare(key(a), key(b));
+}
+
+/**
+ * Creates a comparator with the reversed order, like Rust's `Reverse`.
+ *
+ * @typeParam T - The type of the compared values.
+ * @param compare - The comparator to reverse, the default ordering if omitted.
+ * @returns A comparator returning `Greater` where `compare` returns `Less` and vice versa.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const newestFirst = reverse(byKey((post: Post) => post.date));
+ * ```
+ */
+export function reverse<T>(compare: Comparator<T> = compareValues): Comparator<T> {
+    return (a, b) => compare(a, b).reverse();
+}
+
+/**
+ * Chains comparators: each comparator is used only when the previous ones return `Equal`,
+ * like `Ordering.thenWith`.
+ *
+ * @typeParam T - The type of the compared values.
+ * @param first - The comparator taking precedence.
+ * @param rest - The comparators used to break ties, in order.
+ * @returns A comparator returning the first ordering that is not `Equal`.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const byName = thenBy(byKey((user: User) => user.lastName), byKey(user => user.firstName));
+ * ```
+ */
+export function thenBy<T>(first: Comparator<T>, ...rest: Comparator<T>[]): Comparator<T> {
+    return (a, b) => rest.reduce((ordering, compare) => ordering.thenWith(() => compare(a, b)), first(a, b));
+}
+
+/**
+ * Converts a comparator into a function returning a number, as expected by `Array.prototype.sort`.
+ *
+ * @typeParam T - The type of the compared values.
+ * @param compare - The comparator to convert, the default ordering if omitted.
+ * @returns A function returning `-1`, `0` or `1`.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const sorted = users.toSorted(toCompareFn(byKey(user => user.age)));
+ * ```
+ */
+export function toCompareFn<T>(compare: Comparator<T> = compareValues): (a: T, b: T) => number {
+    return (a, b) => compare(a, b).valueOf();
+}
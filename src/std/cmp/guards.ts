@@ -0,0 +1,25 @@
+/**
+ * @module
+ * Type guard utility for checking if a value is an `Ordering`.
+ *
+ * This function provides runtime type checking capability for the Ordering type.
+ */
+import type { Ordering } from './ordering.ts';
+import { OrderingKindSymbol } from './symbols.ts';
+
+/**
+ * Checks if a value is an `Ordering`.
+ *
+ * @param o - The value to be checked as an `Ordering`.
+ * @returns `true` if the value is an `Ordering`, otherwise `false`.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * console.log(isOrdering(Some(1).cmp(None))); // true
+ * console.log(isOrdering(-1)); // false
+ * ```
+ */
+export function isOrdering(o: unknown): o is Ordering {
+    // `Less`, `Equal` and `Greater` must be an object.
+    return o != null && typeof o === 'object' && OrderingKindSymbol in o;
+}
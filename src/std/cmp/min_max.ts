@@ -0,0 +1,163 @@
+/**
+ * @module
+ * Rust-inspired minimum, maximum and clamping helpers driven by a comparator.
+ */
+
+import { None, panic, Some, type Option } from '../../core/mod.ts';
+import { compareValues } from '../../internal/compare.ts';
+import type { Comparator } from './comparator.ts';
+
+/**
+ * Returns the minimum of the values according to a comparator, like Rust's `Iterator::min_by`.
+ *
+ * If several values are equally minimum, the first one is returned.
+ *
+ * @typeParam T - The type of the values.
+ * @param values - The values to search.
+ * @param compare - A comparator for the values, the default ordering if omitted.
+ * @returns `Some` with the minimum, or `None` if there are no values.
+ * @since 1.11.0
+ * @see maxBy
+ * @see minByKey
+ * @example
+ * ```ts
+ * console.log(minBy([3, 1, 2])); // Some(1)
+ * console.log(minBy([])); // None
+ * ```
+ */
+export function minBy<T>(values: Iterable<T>, compare: Comparator<T> = compareValues): Option<T> {
+    return select(values, (candidate, best) => compare(candidate, best).isLt());
+}
+
+/**
+ * Returns the maximum of the values according to a comparator, like Rust's `Iterator::max_by`.
+ *
+ * If several values are equally maximum, the last one is returned.
+ *
+ * @typeParam T - The type of the values.
+ * @param values - The values to search.
+ * @param compare - A comparator for the values, the default ordering if omitted.
+ * @returns `Some` with the maximum, or `None` if there are no values.
+ * @since 1.11.0
+ * @see minBy
+ * @see maxByKey
+ * @example
+ * ```ts
+ * const longest = maxBy(words, byKey(word => word.length));
+ * ```
+ */
+export function maxBy<T>(values: Iterable<T>, compare: Comparator<T> = compareValues): Option<T> {
+    return select(values, (candidate, best) => compare(candidate, best).isGe());
+}
+
+/**
+ * Returns the value with the minimum key, like Rust's `Iterator::min_by_key`.
+ *
+ * If several values have the minimum key, the first one is returned.
+ * The key is computed once per value.
+ *
+ * @typeParam T - The type of the values.
+ * @typeParam K - The type of the key.
+ * @param values - The values to search.
+ * @param key - A function extracting the key of a value.
+ * @param compare - A comparator for the keys, the default ordering if omitted.
+ * @returns `Some` with the value with the minimum key, or `None` if there are no values.
+ * @since 1.11.0
+ * @see minBy
+ * @example
+ * ```ts
+ * const youngest = minByKey(users, user => user.age);
+ * ```
+ */
+export function minByKey<T, K>(values: Iterable<T>, key: (value: T) => K, compare: Comparator<K> = compareValues): Option<T> {
+    return minBy(withKeys(values, key), (a, b) => compare(a[1], b[1])).map(([value]) => value);
+}
+
+/**
+ * Returns the value with the maximum key, like Rust's `Iterator::max_by_key`.
+ *
+ * If several values have the maximum key, the last one is returned.
+ * The key is computed once per value.
+ *
+ * @typeParam T - The type of the values.
+ * @typeParam K - The type of the key.
+ * @param values - The values to search.
+ * @param key - A function extracting the key of a value.
+ * @param compare - A comparator for the keys, the default ordering if omitted.
+ * @returns `Some` with the value with the maximum key, or `None` if there are no values.
+ * @since 1.11.0
+ * @see maxBy
+ * @example
+ * ```ts
+ * const latest = maxByKey(posts, post => post.date);
+ * ```
+ */
+export function maxByKey<T, K>(values: Iterable<T>, key: (value: T) => K, compare: Comparator<K> = compareValues): Option<T> {
+    return maxBy(withKeys(values, key), (a, b) => compare(a[1], b[1])).map(([value]) => value);
+}
+
+/**
+ * Restricts a value to an interval, like Rust's `Ord::clamp`.
+ *
+ * Returns `min` if `value` is less than `min`, `max` if `value` is greater than `max`, otherwise `value`.
+ *
+ * @typeParam T - The type of the values.
+ * @param value - The value to restrict.
+ * @param min - The lower bound.
+ * @param max - The upper bound.
+ * @param compare - A comparator for the values, the default ordering if omitted.
+ * @returns The restricted value.
+ * @throws {Panic} If `min` is greater than `max`.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * console.log(clamp(15, 0, 10)); // 10
+ * console.log(clamp('m', 'a', 'f')); // 'f'
+ * ```
+ */
+export function clamp<T>(value: T, min: T, max: T, compare: Comparator<T> = compareValues): T {
+    if (compare(min, max).isGt()) {
+        return panic('clamp() called with `min` greater than `max`');
+    }
+    if (compare(value, min).isLt()) {
+        return min;
+    }
+    if (compare(value, max).isGt()) {
+        return max;
+    }
+    return value;
+}
+
+// #region Internal helpers
+
+/**
+ * Returns the value that replaces all previous ones according to `replaces`.
+ *
+ * @param values - The values to search.
+ * @param replaces - Whether a candidate replaces the best value so far.
+ * @returns `Some` with the best value, or `None` if there are no values.
+ */
+function select<T>(values: Iterable<T>, replaces: (candidate: T, best: T) => boolean): Option<T> {
+    let best: Option<T> = None;
+    for (const value of values) {
+        if (best.isNone() || replaces(value, best.value)) {
+            best = Some(value);
+        }
+    }
+    return best;
+}
+
+/**
+ * Pairs each value with its key, so that the key is computed once.
+ *
+ * @param values - The values.
+ * @param key - A function extracting the key of a value.
+ * @returns The pairs of values and keys.
+ */
+function* withKeys<T, K>(values: Iterable<T>, key: (value: T) => K): Generator<[T, K]> {
+    for (const value of values) {
+        yield [value, key(value)];
+    }
+}
+
+// #endregion
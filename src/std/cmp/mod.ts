@@ -0,0 +1,9 @@
+/**
+ * @module
+ * Main entry point for the cmp module.
+ * Re-exports all public APIs from the cmp submodules.
+ */
+export * from './comparator.ts';
+export * from './guards.ts';
+export * from './min_max.ts';
+export * from './ordering.ts';
@@ -0,0 +1,286 @@
+/**
+ * @module
+ * A Rust-inspired [Ordering](https://doc.rust-lang.org/std/cmp/enum.Ordering.html) type,
+ * the result of comparing two values with `cmp()`.
+ */
+
+import { inspectVariant, InspectSymbol, type InspectFunction, type InspectOptions } from '../../internal/inspect.ts';
+import { OrderingKindSymbol } from './symbols.ts';
+
+/**
+ * The result of a comparison between two values: `Less`, `Equal` or `Greater`.
+ *
+ * As Rust Code:
+```rust
+pub enum Ordering {
+    Less = -1,
+    Equal = 0,
+    Greater = 1,
+}
+```
+ * `Less`, `Equal` and `Greater` are singletons, so orderings can be compared with `===`.
+ * `valueOf()` returns `-1`, `0` or `1`, the convention of `Array.prototype.sort` comparators.
+ *
+ * @since 1.11.0
+ * @see https://doc.rust-lang.org/std/cmp/enum.Ordering.html
+ * @example
+ * ```ts
+ * const ordering = Some(1).cmp(Some(2));
+ * console.log(ordering === Less); // true
+ *
+ * const sorted = [Some(3), None, Some(1)].sort(Option.compare);
+ * // [None, Some(1), Some(3)]
+ * ```
+ */
+export interface Ordering {
+    // #region Internal properties
+
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'Ordering'` so that `Object.prototype.toString.call(ordering)` produces `'[object Ordering]'`.
+     *
+     * @example
+     * ```ts
+     * console.log(Object.prototype.toString.call(Less)); // '[object Ordering]'
+     * ```
+     */
+    readonly [Symbol.toStringTag]: 'Ordering';
+
+    /**
+     * A unique symbol property used to identify the variant of this `Ordering`.
+     * Returns `'Less'`, `'Equal'` or `'Greater'`.
+     *
+     * This is used internally by the `isOrdering` utility function to verify that an object is a valid `Ordering`.
+     *
+     * Note: The symbol itself is not exported as part of the public API.
+     * Use the `isOrdering` utility function or compare with `Less`, `Equal` and `Greater` for type checking.
+     */
+    readonly [OrderingKindSymbol]: 'Less' | 'Equal' | 'Greater';
+
+    // #endregion
+
+    /**
+     * Custom `toString` implementation that returns the name of the variant.
+     * @example
+     * ```ts
+     * console.log(Less.toString()); // 'Less'
+     * ```
+     */
+    toString(): string;
+
+    /**
+     * Custom inspection for Node.js `util.inspect`, so that `console.log(Less)` prints `Less`.
+     *
+     * @example
+     * ```ts
+     * console.log(Some(1).cmp(Some(2))); // Less
+     * ```
+     */
+    [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string;
+
+    /**
+     * Returns `-1` for `Less`, `0` for `Equal` and `1` for `Greater`,
+     * the values expected from an `Array.prototype.sort` comparator.
+     *
+     * @example
+     * ```ts
+     * console.log(Greater.valueOf()); // 1
+     * const sorted = options.sort((a, b) => a.cmp(b, byLength).valueOf());
+     * ```
+     */
+    valueOf(): -1 | 0 | 1;
+
+    // #region Querying the variant
+
+    /**
+     * Returns `true` if the ordering is `Equal`.
+     * @example
+     * ```ts
+     * console.log(Equal.isEq()); // true
+     * ```
+     */
+    isEq(): boolean;
+
+    /**
+     * Returns `true` if the ordering is not `Equal`.
+     * @example
+     * ```ts
+     * console.log(Less.isNe()); // true
+     * ```
+     */
+    isNe(): boolean;
+
+    /**
+     * Returns `true` if the ordering is `Less`.
+     * @example
+     * ```ts
+     * console.log(Some(1).cmp(Some(2)).isLt()); // true
+     * ```
+     */
+    isLt(): boolean;
+
+    /**
+     * Returns `true` if the ordering is `Greater`.
+     * @example
+     * ```ts
+     * console.log(Greater.isGt()); // true
+     * ```
+     */
+    isGt(): boolean;
+
+    /**
+     * Returns `true` if the ordering is `Less` or `Equal`.
+     * @example
+     * ```ts
+     * console.log(Equal.isLe()); // true
+     * ```
+     */
+    isLe(): boolean;
+
+    /**
+     * Returns `true` if the ordering is `Greater` or `Equal`.
+     * @example
+     * ```ts
+     * console.log(Less.isGe()); // false
+     * ```
+     */
+    isGe(): boolean;
+
+    // #endregion
+
+    // #region Combining orderings
+
+    /**
+     * Reverses the ordering: `Less` becomes `Greater` and `Greater` becomes `Less`.
+     * @returns The reversed `Ordering`.
+     * @example
+     * ```ts
+     * console.log(Less.reverse() === Greater); // true
+     * console.log(Equal.reverse() === Equal); // true
+     * ```
+     */
+    reverse(): Ordering;
+
+    /**
+     * Chains two orderings: returns `this` when it is not `Equal`, otherwise `other`.
+     * Useful to compare by several fields, the first one taking precedence.
+     *
+     * This is Rust's `Ordering::then`, renamed because a `then` method would make every `Ordering`
+     * a thenable that `await` never resolves.
+     * @param other - The ordering used when `this` is `Equal`.
+     * @returns The combined `Ordering`.
+     * @see thenWith
+     * @example
+     * ```ts
+     * const ordering = Some(a.last).cmp(Some(b.last)).chain(Some(a.first).cmp(Some(b.first)));
+     * ```
+     */
+    chain(other: Ordering): Ordering;
+
+    /**
+     * Chains two orderings like `chain`, but computes the second ordering only when `this` is `Equal`.
+     * @param fn - A function returning the ordering used when `this` is `Equal`.
+     * @returns The combined `Ordering`.
+     * @see chain
+     * @example
+     * ```ts
+     * const ordering = Some(a.last).cmp(Some(b.last)).thenWith(() => Some(a.first).cmp(Some(b.first)));
+     * ```
+     */
+    thenWith(fn: () => Ordering): Ordering;
+
+    // #endregion
+}
+
+/**
+ * The `Ordering` of a value that is less than another.
+ *
+ * @since 1.11.0
+ * @see Ordering
+ * @example
+ * ```ts
+ * console.log(None.cmp(Some(1)) === Less); // true
+ * ```
+ */
+export const Less: Ordering = /*#__PURE__*/ createOrdering('Less', -1);
+
+/**
+ * The `Ordering` of a value that is equal to another.
+ *
+ * @since 1.11.0
+ * @see Ordering
+ * @example
+ * ```ts
+ * console.log(Ok(1).cmp(Ok(1)) === Equal); // true
+ * ```
+ */
+export const Equal: Ordering = /*#__PURE__*/ createOrdering('Equal', 0);
+
+/**
+ * The `Ordering` of a value that is greater than another.
+ *
+ * @since 1.11.0
+ * @see Ordering
+ * @example
+ * ```ts
+ * console.log(Err('e').cmp(Ok(1)) === Greater); // true
+ * ```
+ */
+export const Greater: Ordering = /*#__PURE__*/ createOrdering('Greater', 1);
+
+/**
+ * Creates one of the three `Ordering` singletons.
+ *
+ * @param kind - The name of the variant.
+ * @param value - The number returned by `valueOf()`.
+ * @returns A frozen `Ordering`.
+ */
+function createOrdering(kind: 'Less' | 'Equal' | 'Greater', value: -1 | 0 | 1): Ordering {
+    const ordering: Ordering = Object.freeze<Ordering>({
+        [Symbol.toStringTag]: 'Ordering',
+        [OrderingKindSymbol]: kind,
+
+        toString(): string {
+            return kind;
+        },
+
+        [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string {
+            return inspectVariant(kind, [], depth, options, inspect);
+        },
+
+        valueOf(): -1 | 0 | 1 {
+            return value;
+        },
+
+        isEq(): boolean {
+            return value === 0;
+        },
+        isNe(): boolean {
+            return value !== 0;
+        },
+        isLt(): boolean {
+            return value < 0;
+        },
+        isGt(): boolean {
+            return value > 0;
+        },
+        isLe(): boolean {
+            return value <= 0;
+        },
+        isGe(): boolean {
+            return value >= 0;
+        },
+
+        reverse(): Ordering {
+            return value < 0 ? Greater : value > 0 ? Less : Equal;
+        },
+        chain(other: Ordering): Ordering {
+            return value === 0 ? other : ordering;
+        },
+        thenWith(fn: () => Ordering): Ordering {
+            return value === 0 ? fn() : ordering;
+        },
+    } as const);
+
+    return ordering;
+}
@@ -0,0 +1,23 @@
+/**
+ * @module
+ * Internal symbol used to identify `Ordering` variants.
+ *
+ * This symbol is used as a property key to distinguish between `Less`, `Equal` and `Greater`.
+ * It provides a reliable way to identify the variant of an `Ordering` without
+ * relying on method calls or duck typing.
+ *
+ * Note: This symbol is an internal implementation detail and is not exported as part of the public API.
+ * Use the `isOrdering` utility function for type checking instead.
+ */
+
+/**
+ * A unique symbol used as a property key to identify the variant of an `Ordering`.
+ *
+ * When accessed on an `Ordering`, returns `'Less'`, `'Equal'` or `'Greater'`.
+ *
+ * This symbol is used internally by the `isOrdering` utility function to verify
+ * that an object is a valid `Ordering`.
+ *
+ * @internal
+ */
+export const OrderingKindSymbol = /*#__PURE__*/ Symbol('Ordering kind');
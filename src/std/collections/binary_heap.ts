@@ -0,0 +1,278 @@
+/**
+ * @module
+ * Rust-inspired [BinaryHeap](https://doc.rust-lang.org/std/collections/struct.BinaryHeap.html),
+ * a priority queue returning `Option` instead of `undefined`.
+ */
+
+import { None, Some, type Option } from '../../core/mod.ts';
+import { compareValues } from '../../internal/compare.ts';
+import { toCompareFn, type Comparator } from '../cmp/comparator.ts';
+import { Iter } from '../iter/iter.ts';
+
+/**
+ * A priority queue implemented with a binary heap.
+ *
+ * The heap is a max-heap like in Rust: `pop` and `peek` return the greatest value according to the comparator.
+ * Pass `reverse()` as comparator for a min-heap.
+ * `push` and `pop` run in `O(log n)`, `peek` in `O(1)`.
+ * Iteration visits the values in an arbitrary order; use `intoSortedVec` for a sorted array.
+ *
+ * @typeParam T - The type of the values.
+ * @since 1.11.0
+ * @see https://doc.rust-lang.org/std/collections/struct.BinaryHeap.html
+ * @example
+ * ```ts
+ * const jobs = BinaryHeap<Job>([], byKey(job => job.priority));
+ * jobs.push({ name: 'backup', priority: 1 });
+ * jobs.push({ name: 'deploy', priority: 5 });
+ *
+ * console.log(jobs.pop()); // Some({ name: 'deploy', priority: 5 })
+ * ```
+ */
+export interface BinaryHeap<T> extends Iterable<T> {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'BinaryHeap'` so that `Object.prototype.toString.call(heap)` produces `'[object BinaryHeap]'`.
+     */
+    readonly [Symbol.toStringTag]: 'BinaryHeap';
+
+    /**
+     * The number of values in the heap.
+     */
+    readonly length: number;
+
+    /**
+     * Returns `true` if the heap contains no values.
+     */
+    readonly isEmpty: boolean;
+
+    /**
+     * Custom `toString` implementation.
+     * @example
+     * ```ts
+     * console.log(BinaryHeap([3, 1]).toString()); // 'BinaryHeap(2)'
+     * ```
+     */
+    toString(): string;
+
+    /**
+     * Returns an iterator over the values, in an arbitrary order.
+     * @example
+     * ```ts
+     * const total = [...heap].reduce((sum, n) => sum + n, 0);
+     * ```
+     */
+    [Symbol.iterator](): Iterator<T>;
+
+    /**
+     * Pushes a value onto the heap.
+     * @param value - The value to push.
+     * @example
+     * ```ts
+     * heap.push(42);
+     * ```
+     */
+    push(value: T): void;
+
+    /**
+     * Removes and returns the greatest value.
+     * @returns `Some` with the greatest value, or `None` if the heap is empty.
+     * @example
+     * ```ts
+     * const heap = BinaryHeap([1, 5, 2]);
+     * console.log(heap.pop()); // Some(5)
+     * ```
+     */
+    pop(): Option<T>;
+
+    /**
+     * Returns the greatest value without removing it.
+     * @returns `Some` with the greatest value, or `None` if the heap is empty.
+     * @example
+     * ```ts
+     * console.log(BinaryHeap([1, 5, 2]).peek()); // Some(5)
+     * ```
+     */
+    peek(): Option<T>;
+
+    /**
+     * Replaces the greatest value with the result of `fn` and restores the heap order,
+     * like updating through Rust's `peek_mut`.
+     * @param fn - A function returning the new value from the greatest one.
+     * @returns `Some` with the new value, or `None` without calling `fn` if the heap is empty.
+     * @example
+     * ```ts
+     * const heap = BinaryHeap([1, 5, 2]);
+     * heap.peekMut(n => n - 4);
+     * console.log(heap.peek()); // Some(2)
+     * ```
+     */
+    peekMut(fn: (value: T) => T): Option<T>;
+
+    /**
+     * Removes all values and returns them sorted in ascending order.
+     * @returns The values of the heap, from the smallest to the greatest.
+     * @example
+     * ```ts
+     * console.log(BinaryHeap([3, 1, 2]).intoSortedVec()); // [1, 2, 3]
+     * ```
+     */
+    intoSortedVec(): T[];
+
+    /**
+     * Removes all values and returns a lazy iterator over them, in an arbitrary order.
+     * The heap is empty as soon as `drain` returns.
+     * @returns An `Iter` of the removed values.
+     * @example
+     * ```ts
+     * for (const job of queue.drain()) {
+     *     job.cancel();
+     * }
+     * ```
+     */
+    drain(): Iter<T>;
+
+    /**
+     * Removes all values.
+     * @example
+     * ```ts
+     * heap.clear();
+     * ```
+     */
+    clear(): void;
+}
+
+/**
+ * Creates a `BinaryHeap`, optionally filled with initial values.
+ *
+ * @typeParam T - The type of the values.
+ * @param values - The initial values.
+ * @param compare - A comparator for the values, the default ordering of `cmp()` if omitted
+ * (numbers, bigints, strings, booleans, `Date`s, arrays and nested `Option`s or `Result`s).
+ * @returns A new `BinaryHeap`.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const maxHeap = BinaryHeap([3, 1, 4]);
+ * const minHeap = BinaryHeap<number>([], reverse());
+ * const deadlines = BinaryHeap<Task>([], reverse(byKey(task => task.deadline)));
+ * ```
+ */
+export function BinaryHeap<T>(values?: Iterable<T>, compare: Comparator<T> = compareValues): BinaryHeap<T> {
+    // The heap in an array: the children of `i` are at `2i + 1` and `2i + 2`
+    let data: T[] = [];
+
+    const swap = (i: number, j: number): void => {
+        [data[i], data[j]] = [data[j], data[i]];
+    };
+
+    const siftUp = (index: number): void => {
+        let i = index;
+        while (i > 0) {
+            const parent = (i - 1) >>> 1;
+            if (compare(data[i], data[parent]).isLe()) {
+                return;
+            }
+            swap(i, parent);
+            i = parent;
+        }
+    };
+
+    const siftDown = (index: number): void => {
+        let i = index;
+        for (;;) {
+            const left = 2 * i + 1;
+            const right = left + 1;
+            let largest = i;
+            if (left < data.length && compare(data[left], data[largest]).isGt()) {
+                largest = left;
+            }
+            if (right < data.length && compare(data[right], data[largest]).isGt()) {
+                largest = right;
+            }
+            if (largest === i) {
+                return;
+            }
+            swap(i, largest);
+            i = largest;
+        }
+    };
+
+    const take = (): T[] => {
+        const taken = data;
+        data = [];
+        return taken;
+    };
+
+    const heap = Object.freeze<BinaryHeap<T>>({
+        [Symbol.toStringTag]: 'BinaryHeap',
+
+        get length(): number {
+            return data.length;
+        },
+
+        get isEmpty(): boolean {
+            return data.length === 0;
+        },
+
+        toString(): string {
+            return `BinaryHeap(${data.length})`;
+        },
+
+        [Symbol.iterator](): Iterator<T> {
+            return data.slice()[Symbol.iterator]();
+        },
+
+        push(value: T): void {
+            data.push(value);
+            siftUp(data.length - 1);
+        },
+
+        pop(): Option<T> {
+            if (data.length === 0) {
+                return None;
+            }
+            const top = data[0];
+            const last = data.pop() as T;
+            if (data.length > 0) {
+                data[0] = last;
+                siftDown(0);
+            }
+            return Some(top);
+        },
+
+        peek(): Option<T> {
+            return data.length > 0 ? Some(data[0]) : None;
+        },
+
+        peekMut(fn: (value: T) => T): Option<T> {
+            if (data.length === 0) {
+                return None;
+            }
+            const value = fn(data[0]);
+            data[0] = value;
+            siftDown(0);
+            return Some(value);
+        },
+
+        intoSortedVec(): T[] {
+            return take().sort(toCompareFn(compare));
+        },
+
+        drain(): Iter<T> {
+            return Iter(take());
+        },
+
+        clear(): void {
+            data = [];
+        },
+    } as const);
+
+    if (values !== undefined) {
+        for (const value of values) {
+            heap.push(value);
+        }
+    }
+
+    return heap;
+}
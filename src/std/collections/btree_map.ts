@@ -0,0 +1,664 @@
+/**
+ * @module
+ * Rust-inspired [BTreeMap](https://doc.rust-lang.org/std/collections/struct.BTreeMap.html),
+ * a map keeping its keys sorted, with range queries.
+ */
+
+import { None, panic, Some, type Option } from '../../core/mod.ts';
+import { compareValues } from '../../internal/compare.ts';
+import type { Comparator } from '../cmp/comparator.ts';
+import { Iter } from '../iter/iter.ts';
+import { createEntry } from './entry.ts';
+import type { Entry } from './hash_map.ts';
+
+/**
+ * A map keeping its keys sorted by a comparator.
+ *
+ * The entries are stored in a B+ tree, so lookups, insertions and removals take `O(log n)`.
+ * Two keys are the same key if the comparator returns `Equal`.
+ *
+ * Iteration is lazy and in ascending key order. Like the iterators of `HashMap`, the iterators are live:
+ * each step continues after the last key visited, so the entries inserted after it are visited,
+ * the entries removed before being reached are skipped, and values are read when they are reached.
+ *
+ * @typeParam K - The type of the keys.
+ * @typeParam V - The type of the values.
+ * @since 1.11.0
+ * @see https://doc.rust-lang.org/std/collections/struct.BTreeMap.html
+ * @example
+ * ```ts
+ * const events = BTreeMap<Date, string>();
+ * events.insert(new Date('2026-03-01'), 'launch');
+ * events.insert(new Date('2026-01-15'), 'beta');
+ *
+ * console.log(events.firstKeyValue()); // Some([2026-01-15, 'beta'])
+ * const march = events.range({ start: new Date('2026-03-01'), end: new Date('2026-04-01') }).collect();
+ * ```
+ */
+export interface BTreeMap<K, V> extends Iterable<[K, V]> {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'BTreeMap'` so that `Object.prototype.toString.call(map)` produces `'[object BTreeMap]'`.
+     */
+    readonly [Symbol.toStringTag]: 'BTreeMap';
+
+    /**
+     * The number of entries in the map.
+     */
+    readonly length: number;
+
+    /**
+     * Returns `true` if the map contains no entries.
+     */
+    readonly isEmpty: boolean;
+
+    /**
+     * Custom `toString` implementation.
+     * @example
+     * ```ts
+     * console.log(BTreeMap([[1, 'a']]).toString()); // 'BTreeMap(1)'
+     * ```
+     */
+    toString(): string;
+
+    /**
+     * Returns an iterator over the `[key, value]` pairs, in ascending key order.
+     * @example
+     * ```ts
+     * for (const [key, value] of map) {
+     *     console.log(key, value);
+     * }
+     * ```
+     */
+    [Symbol.iterator](): Iterator<[K, V]>;
+
+    /**
+     * Returns the value of a key.
+     * @param key - The key to look up.
+     * @returns `Some` with the value, or `None` if the key is missing.
+     * @example
+     * ```ts
+     * console.log(BTreeMap([[1, 'a']]).get(1)); // Some('a')
+     * ```
+     */
+    get(key: K): Option<V>;
+
+    /**
+     * Returns `true` if the map contains a key.
+     * @param key - The key to look up.
+     * @example
+     * ```ts
+     * console.log(BTreeMap([[1, 'a']]).containsKey(2)); // false
+     * ```
+     */
+    containsKey(key: K): boolean;
+
+    /**
+     * Inserts a value for a key, replacing the previous value.
+     * @param key - The key.
+     * @param value - The value.
+     * @returns `Some` with the previous value, or `None` if the key was missing.
+     * @example
+     * ```ts
+     * const previous = versions.insert('1.2.0', release);
+     * ```
+     */
+    insert(key: K, value: V): Option<V>;
+
+    /**
+     * Removes a key from the map.
+     * @param key - The key to remove.
+     * @returns `Some` with the removed value, or `None` if the key was missing.
+     * @example
+     * ```ts
+     * timers.remove(deadline);
+     * ```
+     */
+    remove(key: K): Option<V>;
+
+    /**
+     * Returns the entry of a key, to read, insert or update its value in place.
+     * @param key - The key.
+     * @returns The `Entry` of the key.
+     * @example
+     * ```ts
+     * histogram.entry(bucket).andModify(n => n + 1).orInsert(1);
+     * ```
+     */
+    entry(key: K): Entry<K, V>;
+
+    /**
+     * Returns the entry with the smallest key.
+     * @returns `Some` with the `[key, value]` pair, or `None` if the map is empty.
+     * @example
+     * ```ts
+     * console.log(BTreeMap([[2, 'b'], [1, 'a']]).firstKeyValue()); // Some([1, 'a'])
+     * ```
+     */
+    firstKeyValue(): Option<[K, V]>;
+
+    /**
+     * Returns the entry with the largest key.
+     * @returns `Some` with the `[key, value]` pair, or `None` if the map is empty.
+     * @example
+     * ```ts
+     * console.log(BTreeMap([[2, 'b'], [1, 'a']]).lastKeyValue()); // Some([2, 'b'])
+     * ```
+     */
+    lastKeyValue(): Option<[K, V]>;
+
+    /**
+     * Removes and returns the entry with the smallest key.
+     * @returns `Some` with the `[key, value]` pair, or `None` if the map is empty.
+     * @example
+     * ```ts
+     * const next = schedule.popFirst();
+     * ```
+     */
+    popFirst(): Option<[K, V]>;
+
+    /**
+     * Removes and returns the entry with the largest key.
+     * @returns `Some` with the `[key, value]` pair, or `None` if the map is empty.
+     * @example
+     * ```ts
+     * const newest = history.popLast();
+     * ```
+     */
+    popLast(): Option<[K, V]>;
+
+    /**
+     * Returns a lazy iterator over the entries whose keys are within the bounds, in ascending key order.
+     * @param bounds - The bounds of the keys; a missing bound is unbounded.
+     * @returns An `Iter` of the `[key, value]` pairs within the bounds.
+     * @throws {Panic} If `start` is greater than `end`.
+     * @example
+     * ```ts
+     * const map = BTreeMap([[1, 'a'], [2, 'b'], [3, 'c'], [4, 'd']]);
+     * console.log(map.range({ start: 2, end: 4 }).collect()); // [[2, 'b'], [3, 'c']]
+     * console.log(map.range({ start: 2, end: 4, inclusive: true }).collect()); // [[2, 'b'], [3, 'c'], [4, 'd']]
+     * console.log(map.range({ end: 2 }).collect()); // [[1, 'a']]
+     * ```
+     */
+    range(bounds: RangeBounds<K>): Iter<[K, V]>;
+
+    /**
+     * Returns a lazy iterator over the keys, in ascending order.
+     * @example
+     * ```ts
+     * const sorted = BTreeMap(pairs).keys().collect();
+     * ```
+     */
+    keys(): Iter<K>;
+
+    /**
+     * Returns a lazy iterator over the values, in ascending key order.
+     * @example
+     * ```ts
+     * const ordered = BTreeMap(pairs).values().collect();
+     * ```
+     */
+    values(): Iter<V>;
+
+    /**
+     * Removes all entries.
+     * @example
+     * ```ts
+     * index.clear();
+     * ```
+     */
+    clear(): void;
+}
+
+/**
+ * The bounds of `BTreeMap.range`, like Rust's `start..end` and `start..=end`.
+ *
+ * @typeParam K - The type of the keys.
+ * @since 1.11.0
+ * @see BTreeMap.range
+ */
+export interface RangeBounds<K> {
+    /**
+     * The smallest key included, unbounded if omitted.
+     */
+    readonly start?: K;
+
+    /**
+     * The key ending the range, excluded unless `inclusive` is `true`; unbounded if omitted.
+     */
+    readonly end?: K;
+
+    /**
+     * Whether `end` is included in the range. Defaults to `false`.
+     */
+    readonly inclusive?: boolean;
+}
+
+/**
+ * Creates a `BTreeMap`, optionally filled with initial entries.
+ *
+ * @typeParam K - The type of the keys.
+ * @typeParam V - The type of the values.
+ * @param entries - The initial `[key, value]` pairs; later pairs replace earlier ones with the same key.
+ * @param compare - A comparator for the keys, the default ordering of `cmp()` if omitted
+ * (numbers, bigints, strings, booleans, `Date`s, arrays and nested `Option`s or `Result`s).
+ * @returns A new `BTreeMap`.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const leaderboard = BTreeMap<number, string>([], reverse());
+ * const byName = BTreeMap(users.map(user => [user.name, user]));
+ * ```
+ */
+export function BTreeMap<K, V>(entries?: Iterable<readonly [K, V]>, compare: Comparator<K> = compareValues): BTreeMap<K, V> {
+    let root: TreeNode<K, V> = createLeaf();
+    let size = 0;
+    // Incremented when entries are added or removed, so that live iterators find their position again
+    let version = 0;
+
+    // Returns the index of the first key not less than `key` (greater than `key` if `after`),
+    // and whether that key is equal to `key`
+    const search = (keys: readonly K[], key: K, after = false): [index: number, found: boolean] => {
+        let low = 0;
+        let high = keys.length;
+        let found = false;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            const ordering = compare(keys[middle], key);
+            if (ordering.isLt() || (after && ordering.isEq())) {
+                low = middle + 1;
+            } else {
+                found ||= ordering.isEq();
+                high = middle;
+            }
+        }
+        return [low, found];
+    };
+
+    // Returns the index of the child of a branch that may contain `key`
+    const childIndex = (branch: BranchNode<K, V>, key: K): number => {
+        return search(branch.keys, key, true)[0];
+    };
+
+    // Returns the leaf that may contain `key`
+    const findLeaf = (key: K): LeafNode<K, V> => {
+        let node = root;
+        while (!node.leaf) {
+            node = node.children[childIndex(node, key)];
+        }
+        return node;
+    };
+
+    // Returns the position of the first key not less than `key` (greater than `key` if `after`),
+    // which may be past the end of its leaf
+    const seek = (key: K, after: boolean): [leaf: LeafNode<K, V>, index: number] => {
+        const leaf = findLeaf(key);
+        return [leaf, search(leaf.keys, key, after)[0]];
+    };
+
+    // Returns the leaf at the start (or end if `last`) of the tree
+    const edgeLeaf = (last: boolean): LeafNode<K, V> => {
+        let node = root;
+        while (!node.leaf) {
+            node = node.children[last ? node.children.length - 1 : 0];
+        }
+        return node;
+    };
+
+    const get = (key: K): Option<V> => {
+        const leaf = findLeaf(key);
+        const [index, found] = search(leaf.keys, key);
+        return found ? Some(leaf.values[index]) : None;
+    };
+
+    // Inserts into the subtree of `node`, returning the previous value and the new right sibling if `node` was split
+    const insertInto = (node: TreeNode<K, V>, key: K, value: V): [previous: Option<V>, split?: [separator: K, right: TreeNode<K, V>]] => {
+        if (node.leaf) {
+            const [index, found] = search(node.keys, key);
+            if (found) {
+                const previous = node.values[index];
+                node.values[index] = value;
+                return [Some(previous)];
+            }
+            node.keys.splice(index, 0, key);
+            node.values.splice(index, 0, value);
+            return [None, node.keys.length > NODE_CAPACITY ? splitLeaf(node) : undefined];
+        }
+
+        const index = childIndex(node, key);
+        const [previous, split] = insertInto(node.children[index], key, value);
+        if (split !== undefined) {
+            node.keys.splice(index, 0, split[0]);
+            node.children.splice(index + 1, 0, split[1]);
+        }
+        return [previous, node.children.length > NODE_CAPACITY ? splitBranch(node) : undefined];
+    };
+
+    const insert = (key: K, value: V): Option<V> => {
+        const [previous, split] = insertInto(root, key, value);
+        if (split !== undefined) {
+            root = { leaf: false, keys: [split[0]], children: [root, split[1]] };
+        }
+        if (previous.isNone()) {
+            size += 1;
+            version += 1;
+        }
+        return previous;
+    };
+
+    // Removes from the subtree of `node`, rebalancing the child it was removed from
+    const removeFrom = (node: TreeNode<K, V>, key: K): Option<V> => {
+        if (node.leaf) {
+            const [index, found] = search(node.keys, key);
+            if (!found) {
+                return None;
+            }
+            node.keys.splice(index, 1);
+            return Some(node.values.splice(index, 1)[0]);
+        }
+
+        const index = childIndex(node, key);
+        const removed = removeFrom(node.children[index], key);
+        if (nodeLength(node.children[index]) < MIN_NODE_LENGTH) {
+            rebalance(node, index);
+        }
+        return removed;
+    };
+
+    const remove = (key: K): Option<V> => {
+        const removed = removeFrom(root, key);
+        if (!root.leaf && root.children.length === 1) {
+            root = root.children[0];
+        }
+        if (removed.isSome()) {
+            size -= 1;
+            version += 1;
+        }
+        return removed;
+    };
+
+    const edgeKeyValue = (last: boolean): Option<[K, V]> => {
+        const leaf = edgeLeaf(last);
+        const index = last ? leaf.keys.length - 1 : 0;
+        return size === 0 ? None : Some([leaf.keys[index], leaf.values[index]]);
+    };
+
+    const popEdge = (last: boolean): Option<[K, V]> => {
+        return edgeKeyValue(last).inspect(([key]) => remove(key));
+    };
+
+    // Yields the entries from `start` to `end`, finding its position again after the map is modified
+    function* walk(start: K | undefined, end: K | undefined, inclusive: boolean): Generator<[K, V]> {
+        let leaf: LeafNode<K, V> | undefined;
+        let index = 0;
+        let seen = -1;
+        let last: [K] | undefined;
+
+        for (;;) {
+            if (seen !== version) {
+                [leaf, index] = last !== undefined
+                    ? seek(last[0], true)
+                    : start === undefined ? [edgeLeaf(false), 0] : seek(start, false);
+                seen = version;
+            }
+            while (leaf !== undefined && index >= leaf.keys.length) {
+                leaf = leaf.next;
+                index = 0;
+            }
+            if (leaf === undefined) {
+                return;
+            }
+
+            const key = leaf.keys[index];
+            if (end !== undefined && (inclusive ? compare(key, end).isGt() : !compare(key, end).isLt())) {
+                return;
+            }
+            index += 1;
+            last = [key];
+            yield [key, leaf.values[index - 1]];
+        }
+    }
+
+    const map = Object.freeze<BTreeMap<K, V>>({
+        [Symbol.toStringTag]: 'BTreeMap',
+
+        get length(): number {
+            return size;
+        },
+
+        get isEmpty(): boolean {
+            return size === 0;
+        },
+
+        toString(): string {
+            return `BTreeMap(${size})`;
+        },
+
+        [Symbol.iterator](): Iterator<[K, V]> {
+            return walk(undefined, undefined, false);
+        },
+
+        get,
+
+        containsKey(key: K): boolean {
+            return search(findLeaf(key).keys, key)[1];
+        },
+
+        insert,
+
+        remove,
+
+        entry(key: K): Entry<K, V> {
+            return createEntry(key, () => get(key), value => insert(key, value));
+        },
+
+        firstKeyValue(): Option<[K, V]> {
+            return edgeKeyValue(false);
+        },
+
+        lastKeyValue(): Option<[K, V]> {
+            return edgeKeyValue(true);
+        },
+
+        popFirst(): Option<[K, V]> {
+            return popEdge(false);
+        },
+
+        popLast(): Option<[K, V]> {
+            return popEdge(true);
+        },
+
+        range(bounds: RangeBounds<K>): Iter<[K, V]> {
+            const { start, end, inclusive = false } = bounds;
+            if (start !== undefined && end !== undefined && compare(start, end).isGt()) {
+                return panic('BTreeMap.range() called with `start` greater than `end`');
+            }
+            return Iter(walk(start, end, inclusive));
+        },
+
+        keys(): Iter<K> {
+            return Iter(walk(undefined, undefined, false)).map(([key]) => key);
+        },
+
+        values(): Iter<V> {
+            return Iter(walk(undefined, undefined, false)).map(([, value]) => value);
+        },
+
+        clear(): void {
+            root = createLeaf();
+            size = 0;
+            version += 1;
+        },
+    } as const);
+
+    if (entries !== undefined) {
+        for (const [key, value] of entries) {
+            map.insert(key, value);
+        }
+    }
+
+    return map;
+}
+
+// #region Internal helpers
+
+/**
+ * The maximum number of entries of a leaf, and of children of a branch.
+ */
+const NODE_CAPACITY = 16;
+
+/**
+ * The minimum number of entries of a leaf, and of children of a branch, except for the root.
+ */
+const MIN_NODE_LENGTH = NODE_CAPACITY / 2;
+
+/**
+ * A leaf of the B+ tree, holding entries sorted by key. The leaves are linked in key order.
+ */
+interface LeafNode<K, V> {
+    readonly leaf: true;
+    readonly keys: K[];
+    readonly values: V[];
+    next: LeafNode<K, V> | undefined;
+}
+
+/**
+ * A branch of the B+ tree. `keys[i]` is greater than the keys of `children[i]`
+ * and not greater than the keys of `children[i + 1]`.
+ */
+interface BranchNode<K, V> {
+    readonly leaf: false;
+    readonly keys: K[];
+    readonly children: TreeNode<K, V>[];
+}
+
+/**
+ * A node of the B+ tree.
+ */
+type TreeNode<K, V> = LeafNode<K, V> | BranchNode<K, V>;
+
+/**
+ * Creates an empty leaf.
+ */
+function createLeaf<K, V>(): LeafNode<K, V> {
+    return { leaf: true, keys: [], values: [], next: undefined };
+}
+
+/**
+ * Returns the number of entries of a leaf, or of children of a branch.
+ */
+function nodeLength<K, V>(node: TreeNode<K, V>): number {
+    return node.leaf ? node.keys.length : node.children.length;
+}
+
+/**
+ * Moves the second half of an overfull leaf to a new leaf.
+ *
+ * @returns The first key of the new leaf and the new leaf.
+ */
+function splitLeaf<K, V>(leaf: LeafNode<K, V>): [separator: K, right: LeafNode<K, V>] {
+    const middle = leaf.keys.length >>> 1;
+    const right: LeafNode<K, V> = {
+        leaf: true,
+        keys: leaf.keys.splice(middle),
+        values: leaf.values.splice(middle),
+        next: leaf.next,
+    };
+    leaf.next = right;
+    return [right.keys[0], right];
+}
+
+/**
+ * Moves the second half of an overfull branch to a new branch.
+ *
+ * @returns The key separating the two branches and the new branch.
+ */
+function splitBranch<K, V>(branch: BranchNode<K, V>): [separator: K, right: BranchNode<K, V>] {
+    const middle = (branch.children.length + 1) >>> 1;
+    const right: BranchNode<K, V> = {
+        leaf: false,
+        keys: branch.keys.splice(middle),
+        children: branch.children.splice(middle),
+    };
+    return [branch.keys.pop() as K, right];
+}
+
+/**
+ * Refills the underfull child `index` of a branch by borrowing from a sibling, or merges it with a sibling.
+ */
+function rebalance<K, V>(parent: BranchNode<K, V>, index: number): void {
+    const left = parent.children[index - 1] as TreeNode<K, V> | undefined;
+    const right = parent.children[index + 1] as TreeNode<K, V> | undefined;
+
+    if (left !== undefined && nodeLength(left) > MIN_NODE_LENGTH) {
+        borrowFromLeft(parent, index);
+    } else if (right !== undefined && nodeLength(right) > MIN_NODE_LENGTH) {
+        borrowFromRight(parent, index);
+    } else {
+        // Non-root branches have at least 2 children, and the root is replaced by its only child
+        merge(parent, left === undefined ? index : index - 1);
+    }
+}
+
+/**
+ * Moves the last entry (or child) of the left sibling of the child `index` to the start of that child.
+ */
+function borrowFromLeft<K, V>(parent: BranchNode<K, V>, index: number): void {
+    const child = parent.children[index];
+    const left = parent.children[index - 1];
+
+    if (child.leaf) {
+        const leftLeaf = left as LeafNode<K, V>;
+        child.keys.unshift(leftLeaf.keys.pop() as K);
+        child.values.unshift(leftLeaf.values.pop() as V);
+        parent.keys[index - 1] = child.keys[0];
+    } else {
+        const leftBranch = left as BranchNode<K, V>;
+        child.keys.unshift(parent.keys[index - 1]);
+        child.children.unshift(leftBranch.children.pop() as TreeNode<K, V>);
+        parent.keys[index - 1] = leftBranch.keys.pop() as K;
+    }
+}
+
+/**
+ * Moves the first entry (or child) of the right sibling of the child `index` to the end of that child.
+ */
+function borrowFromRight<K, V>(parent: BranchNode<K, V>, index: number): void {
+    const child = parent.children[index];
+    const right = parent.children[index + 1];
+
+    if (child.leaf) {
+        const rightLeaf = right as LeafNode<K, V>;
+        child.keys.push(rightLeaf.keys.shift() as K);
+        child.values.push(rightLeaf.values.shift() as V);
+        parent.keys[index] = rightLeaf.keys[0];
+    } else {
+        const rightBranch = right as BranchNode<K, V>;
+        child.keys.push(parent.keys[index]);
+        child.children.push(rightBranch.children.shift() as TreeNode<K, V>);
+        parent.keys[index] = rightBranch.keys.shift() as K;
+    }
+}
+
+/**
+ * Merges the child `index + 1` of a branch into the child `index`.
+ */
+function merge<K, V>(parent: BranchNode<K, V>, index: number): void {
+    const left = parent.children[index];
+    const right = parent.children[index + 1];
+    const [separator] = parent.keys.splice(index, 1);
+    parent.children.splice(index + 1, 1);
+
+    if (left.leaf) {
+        const rightLeaf = right as LeafNode<K, V>;
+        left.keys.push(...rightLeaf.keys);
+        left.values.push(...rightLeaf.values);
+        left.next = rightLeaf.next;
+    } else {
+        const rightBranch = right as BranchNode<K, V>;
+        left.keys.push(separator, ...rightBranch.keys);
+        left.children.push(...rightBranch.children);
+    }
+}
+
+// #endregion
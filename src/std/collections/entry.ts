@@ -0,0 +1,48 @@
+/**
+ * @module
+ * The implementation of the `Entry` API shared by `HashMap` and `BTreeMap`.
+ *
+ * Note: This module is not re-exported from the collections module entry point.
+ */
+
+import type { Option } from '../../core/mod.ts';
+import type { Entry } from './hash_map.ts';
+
+/**
+ * Creates an `Entry` for a key of a map.
+ *
+ * @param key - The key of the entry.
+ * @param get - Reads the value of the key in the map.
+ * @param set - Inserts or replaces the value of the key in the map.
+ * @returns The `Entry` of the key.
+ */
+export function createEntry<K, V>(key: K, get: () => Option<V>, set: (value: V) => void): Entry<K, V> {
+    const entry = Object.freeze<Entry<K, V>>({
+        [Symbol.toStringTag]: 'Entry',
+        key,
+
+        orInsert(value: V): V {
+            return entry.orInsertWith(() => value);
+        },
+
+        orInsertWith(fn: () => V): V {
+            const current = get();
+            if (current.isSome()) {
+                return current.value;
+            }
+            const value = fn();
+            set(value);
+            return value;
+        },
+
+        andModify(fn: (value: V) => V): Entry<K, V> {
+            const current = get();
+            if (current.isSome()) {
+                set(fn(current.value));
+            }
+            return entry;
+        },
+    } as const);
+
+    return entry;
+}
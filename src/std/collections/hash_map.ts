@@ -0,0 +1,281 @@
+/**
+ * @module
+ * Rust-inspired [HashMap](https://doc.rust-lang.org/std/collections/struct.HashMap.html)
+ * over a JavaScript `Map`, returning `Option` instead of `undefined`.
+ */
+
+import { None, Some, type Option } from '../../core/mod.ts';
+import { Iter } from '../iter/iter.ts';
+import { createEntry } from './entry.ts';
+
+/**
+ * A map from keys to values, backed by a JavaScript `Map`.
+ *
+ * Keys are compared like in a `Map` (by value for primitives, by identity for objects),
+ * and the iteration order is the insertion order.
+ * Methods that may find no value return `Option`, so a missing key is distinguished from a stored `undefined`.
+ *
+ * @typeParam K - The type of the keys.
+ * @typeParam V - The type of the values.
+ * @since 1.11.0
+ * @see https://doc.rust-lang.org/std/collections/struct.HashMap.html
+ * @example
+ * ```ts
+ * const scores = HashMap<string, number>();
+ * scores.insert('alice', 10);
+ *
+ * console.log(scores.get('alice')); // Some(10)
+ * console.log(scores.get('bob')); // None
+ *
+ * scores.entry('bob').andModify(n => n + 1).orInsert(1);
+ * ```
+ */
+export interface HashMap<K, V> extends Iterable<[K, V]> {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'HashMap'` so that `Object.prototype.toString.call(map)` produces `'[object HashMap]'`.
+     */
+    readonly [Symbol.toStringTag]: 'HashMap';
+
+    /**
+     * The number of entries in the map.
+     */
+    readonly length: number;
+
+    /**
+     * Returns `true` if the map contains no entries.
+     */
+    readonly isEmpty: boolean;
+
+    /**
+     * Custom `toString` implementation.
+     * @example
+     * ```ts
+     * console.log(HashMap([['a', 1]]).toString()); // 'HashMap(1)'
+     * ```
+     */
+    toString(): string;
+
+    /**
+     * Returns an iterator over the `[key, value]` pairs, in insertion order.
+     * @example
+     * ```ts
+     * for (const [key, value] of map) {
+     *     console.log(key, value);
+     * }
+     * ```
+     */
+    [Symbol.iterator](): Iterator<[K, V]>;
+
+    /**
+     * Returns the value of a key.
+     * @param key - The key to look up.
+     * @returns `Some` with the value, or `None` if the key is missing.
+     * @example
+     * ```ts
+     * const port = config.get('port').unwrapOr(8080);
+     * ```
+     */
+    get(key: K): Option<V>;
+
+    /**
+     * Returns `true` if the map contains a key.
+     * @param key - The key to look up.
+     * @example
+     * ```ts
+     * console.log(HashMap([['a', 1]]).containsKey('a')); // true
+     * ```
+     */
+    containsKey(key: K): boolean;
+
+    /**
+     * Inserts a value for a key, replacing the previous value.
+     * @param key - The key.
+     * @param value - The value.
+     * @returns `Some` with the previous value, or `None` if the key was missing.
+     * @example
+     * ```ts
+     * const previous = sessions.insert(userId, session);
+     * ```
+     */
+    insert(key: K, value: V): Option<V>;
+
+    /**
+     * Removes a key from the map.
+     * @param key - The key to remove.
+     * @returns `Some` with the removed value, or `None` if the key was missing.
+     * @example
+     * ```ts
+     * sessions.remove(userId).inspect(session => session.close());
+     * ```
+     */
+    remove(key: K): Option<V>;
+
+    /**
+     * Returns the entry of a key, to read, insert or update its value in place.
+     * @param key - The key.
+     * @returns The `Entry` of the key.
+     * @example
+     * ```ts
+     * for (const word of words) {
+     *     counts.entry(word).andModify(n => n + 1).orInsert(1);
+     * }
+     * ```
+     */
+    entry(key: K): Entry<K, V>;
+
+    /**
+     * Returns a lazy iterator over the keys, in insertion order.
+     * @example
+     * ```ts
+     * const names = map.keys().collect();
+     * ```
+     */
+    keys(): Iter<K>;
+
+    /**
+     * Returns a lazy iterator over the values, in insertion order.
+     * @example
+     * ```ts
+     * const total = map.values().tryFold(0, (sum, n) => Continue(sum + n));
+     * ```
+     */
+    values(): Iter<V>;
+
+    /**
+     * Removes all entries.
+     * @example
+     * ```ts
+     * cache.clear();
+     * ```
+     */
+    clear(): void;
+}
+
+/**
+ * The entry of a key in a `HashMap` or a `BTreeMap`, returned by their `entry` method.
+ *
+ * @typeParam K - The type of the key.
+ * @typeParam V - The type of the value.
+ * @since 1.11.0
+ * @see https://doc.rust-lang.org/std/collections/hash_map/enum.Entry.html
+ */
+export interface Entry<K, V> {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'Entry'` so that `Object.prototype.toString.call(entry)` produces `'[object Entry]'`.
+     */
+    readonly [Symbol.toStringTag]: 'Entry';
+
+    /**
+     * The key of the entry.
+     */
+    readonly key: K;
+
+    /**
+     * Inserts a value if the key is missing.
+     * @param value - The value to insert.
+     * @returns The value of the key after the call.
+     * @example
+     * ```ts
+     * groups.entry(user.team).orInsert([]).push(user);
+     * ```
+     */
+    orInsert(value: V): V;
+
+    /**
+     * Inserts the value returned by `fn` if the key is missing; `fn` is not called otherwise.
+     * @param fn - A function returning the value to insert.
+     * @returns The value of the key after the call.
+     * @example
+     * ```ts
+     * const connection = pool.entry(host).orInsertWith(() => connect(host));
+     * ```
+     */
+    orInsertWith(fn: () => V): V;
+
+    /**
+     * Replaces the value with the result of `fn` if the key is present.
+     * @param fn - A function returning the new value from the current one.
+     * @returns The same entry, to chain with `orInsert` or `orInsertWith`.
+     * @example
+     * ```ts
+     * counts.entry(word).andModify(n => n + 1).orInsert(1);
+     * ```
+     */
+    andModify(fn: (value: V) => V): Entry<K, V>;
+}
+
+/**
+ * Creates a `HashMap`, optionally filled with initial entries.
+ *
+ * @typeParam K - The type of the keys.
+ * @typeParam V - The type of the values.
+ * @param entries - The initial `[key, value]` pairs, such as a `Map` or an array; later pairs replace earlier ones.
+ * @returns A new `HashMap`.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const users = HashMap<number, User>();
+ * const headers = HashMap(Object.entries(rawHeaders));
+ * ```
+ */
+export function HashMap<K, V>(entries?: Iterable<readonly [K, V]>): HashMap<K, V> {
+    const map = new Map<K, V>(entries);
+
+    const get = (key: K): Option<V> => map.has(key) ? Some(map.get(key) as V) : None;
+
+    return Object.freeze<HashMap<K, V>>({
+        [Symbol.toStringTag]: 'HashMap',
+
+        get length(): number {
+            return map.size;
+        },
+
+        get isEmpty(): boolean {
+            return map.size === 0;
+        },
+
+        toString(): string {
+            return `HashMap(${map.size})`;
+        },
+
+        [Symbol.iterator](): Iterator<[K, V]> {
+            return map.entries();
+        },
+
+        get,
+
+        containsKey(key: K): boolean {
+            return map.has(key);
+        },
+
+        insert(key: K, value: V): Option<V> {
+            const previous = get(key);
+            map.set(key, value);
+            return previous;
+        },
+
+        remove(key: K): Option<V> {
+            const previous = get(key);
+            map.delete(key);
+            return previous;
+        },
+
+        entry(key: K): Entry<K, V> {
+            return createEntry(key, () => get(key), value => map.set(key, value));
+        },
+
+        keys(): Iter<K> {
+            return Iter(map.keys());
+        },
+
+        values(): Iter<V> {
+            return Iter(map.values());
+        },
+
+        clear(): void {
+            map.clear();
+        },
+    } as const);
+}
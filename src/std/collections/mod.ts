@@ -0,0 +1,9 @@
+/**
+ * @module
+ * Main entry point for the collections module.
+ * Re-exports all public APIs from the collections submodules.
+ */
+export * from './binary_heap.ts';
+export * from './btree_map.ts';
+export * from './hash_map.ts';
+export * from './vec_deque.ts';
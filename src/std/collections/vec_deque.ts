@@ -0,0 +1,276 @@
+/**
+ * @module
+ * Rust-inspired [VecDeque](https://doc.rust-lang.org/std/collections/struct.VecDeque.html),
+ * a double-ended queue implemented with a growable ring buffer.
+ */
+
+import { None, Some, type Option } from '../../core/mod.ts';
+
+/**
+ * A double-ended queue implemented with a growable ring buffer.
+ *
+ * Values can be pushed and popped at both ends in amortized constant time,
+ * unlike `Array.prototype.shift` and `Array.prototype.unshift` which move every element.
+ * Methods that may find no value return `Option` instead of `undefined`.
+ *
+ * @typeParam T - The type of the values.
+ * @since 1.11.0
+ * @see https://doc.rust-lang.org/std/collections/struct.VecDeque.html
+ * @example
+ * ```ts
+ * const queue = VecDeque<string>();
+ * queue.pushBack('a');
+ * queue.pushBack('b');
+ * queue.pushFront('z');
+ *
+ * console.log(queue.popFront()); // Some('z')
+ * console.log(queue.popBack()); // Some('b')
+ * console.log([...queue]); // ['a']
+ * ```
+ */
+export interface VecDeque<T> extends Iterable<T> {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'VecDeque'` so that `Object.prototype.toString.call(deque)` produces `'[object VecDeque]'`.
+     */
+    readonly [Symbol.toStringTag]: 'VecDeque';
+
+    /**
+     * The number of values in the queue.
+     */
+    readonly length: number;
+
+    /**
+     * Returns `true` if the queue contains no values.
+     */
+    readonly isEmpty: boolean;
+
+    /**
+     * Custom `toString` implementation.
+     * @example
+     * ```ts
+     * console.log(VecDeque([1, 2]).toString()); // 'VecDeque(2)'
+     * ```
+     */
+    toString(): string;
+
+    /**
+     * Returns an iterator over the values, from front to back.
+     * @example
+     * ```ts
+     * for (const value of VecDeque([1, 2])) {
+     *     console.log(value);
+     * }
+     * ```
+     */
+    [Symbol.iterator](): Iterator<T>;
+
+    /**
+     * Appends a value to the back of the queue.
+     * @param value - The value to append.
+     * @example
+     * ```ts
+     * queue.pushBack(task);
+     * ```
+     */
+    pushBack(value: T): void;
+
+    /**
+     * Prepends a value to the front of the queue.
+     * @param value - The value to prepend.
+     * @example
+     * ```ts
+     * queue.pushFront(urgentTask);
+     * ```
+     */
+    pushFront(value: T): void;
+
+    /**
+     * Removes and returns the value at the front of the queue.
+     * @returns `Some` with the first value, or `None` if the queue is empty.
+     * @example
+     * ```ts
+     * const next = queue.popFront();
+     * ```
+     */
+    popFront(): Option<T>;
+
+    /**
+     * Removes and returns the value at the back of the queue.
+     * @returns `Some` with the last value, or `None` if the queue is empty.
+     * @example
+     * ```ts
+     * const undone = history.popBack();
+     * ```
+     */
+    popBack(): Option<T>;
+
+    /**
+     * Returns the value at the front of the queue without removing it.
+     * @returns `Some` with the first value, or `None` if the queue is empty.
+     * @example
+     * ```ts
+     * console.log(VecDeque([1, 2]).front()); // Some(1)
+     * ```
+     */
+    front(): Option<T>;
+
+    /**
+     * Returns the value at the back of the queue without removing it.
+     * @returns `Some` with the last value, or `None` if the queue is empty.
+     * @example
+     * ```ts
+     * console.log(VecDeque([1, 2]).back()); // Some(2)
+     * ```
+     */
+    back(): Option<T>;
+
+    /**
+     * Returns the value at an index, counted from the front.
+     * @param index - The zero-based index of the value.
+     * @returns `Some` with the value, or `None` if the index is out of bounds.
+     * @example
+     * ```ts
+     * console.log(VecDeque(['a', 'b']).get(1)); // Some('b')
+     * ```
+     */
+    get(index: number): Option<T>;
+
+    /**
+     * Removes all values.
+     * @example
+     * ```ts
+     * queue.clear();
+     * console.log(queue.isEmpty); // true
+     * ```
+     */
+    clear(): void;
+}
+
+/**
+ * Creates a `VecDeque`, optionally filled with initial values from front to back.
+ *
+ * @typeParam T - The type of the values.
+ * @param values - The initial values.
+ * @returns A new `VecDeque`.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const recent = VecDeque<string>();
+ * const queue = VecDeque(['a', 'b', 'c']);
+ * ```
+ */
+export function VecDeque<T>(values?: Iterable<T>): VecDeque<T> {
+    // The ring buffer, whose capacity is always a power of two
+    let buffer: (T | undefined)[] = new Array<T | undefined>(MIN_CAPACITY);
+    let head = 0;
+    let length = 0;
+
+    const physical = (index: number): number => (head + index) & (buffer.length - 1);
+
+    const grow = (): void => {
+        const next = new Array<T | undefined>(buffer.length * 2);
+        for (let i = 0; i < length; i += 1) {
+            next[i] = buffer[physical(i)];
+        }
+        buffer = next;
+        head = 0;
+    };
+
+    const deque = Object.freeze<VecDeque<T>>({
+        [Symbol.toStringTag]: 'VecDeque',
+
+        get length(): number {
+            return length;
+        },
+
+        get isEmpty(): boolean {
+            return length === 0;
+        },
+
+        toString(): string {
+            return `VecDeque(${length})`;
+        },
+
+        *[Symbol.iterator](): Iterator<T> {
+            for (let i = 0; i < length; i += 1) {
+                yield buffer[physical(i)] as T;
+            }
+        },
+
+        pushBack(value: T): void {
+            if (length === buffer.length) {
+                grow();
+            }
+            buffer[physical(length)] = value;
+            length += 1;
+        },
+
+        pushFront(value: T): void {
+            if (length === buffer.length) {
+                grow();
+            }
+            head = physical(buffer.length - 1);
+            buffer[head] = value;
+            length += 1;
+        },
+
+        popFront(): Option<T> {
+            if (length === 0) {
+                return None;
+            }
+            const value = buffer[head] as T;
+            // Releases the reference for garbage collection
+            buffer[head] = undefined;
+            head = physical(1);
+            length -= 1;
+            return Some(value);
+        },
+
+        popBack(): Option<T> {
+            if (length === 0) {
+                return None;
+            }
+            const index = physical(length - 1);
+            const value = buffer[index] as T;
+            buffer[index] = undefined;
+            length -= 1;
+            return Some(value);
+        },
+
+        front(): Option<T> {
+            return deque.get(0);
+        },
+
+        back(): Option<T> {
+            return deque.get(length - 1);
+        },
+
+        get(index: number): Option<T> {
+            return Number.isInteger(index) && index >= 0 && index < length ? Some(buffer[physical(index)] as T) : None;
+        },
+
+        clear(): void {
+            buffer = new Array<T | undefined>(MIN_CAPACITY);
+            head = 0;
+            length = 0;
+        },
+    } as const);
+
+    if (values !== undefined) {
+        for (const value of values) {
+            deque.pushBack(value);
+        }
+    }
+
+    return deque;
+}
+
+// #region Internal helpers
+
+/**
+ * The initial capacity of the ring buffer, a power of two.
+ */
+const MIN_CAPACITY = 8;
+
+// #endregion
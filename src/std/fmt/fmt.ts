@@ -0,0 +1,404 @@
+/**
+ * @module
+ * Rust-like [debug formatting](https://doc.rust-lang.org/std/fmt/trait.Debug.html) for `Result`, `Option`,
+ * `Validation` and `ControlFlow`, and the values they contain.
+ *
+ * `toString()` interpolates the contained value, so `Some({ a: 1 }).toString()` is `'Some([object Object])'`.
+ * `debug` prints nested values readably (`Some({ a: 1 })`), with cycle detection and a depth limit,
+ * `format` interpolates values into a template like Rust's `format!`, and `devtoolsFormatter`
+ * renders instances the same way in the Chrome and Firefox devtools consoles.
+ */
+
+import { panic } from '../../core/mod.ts';
+import { variantOf } from '../../internal/variant.ts';
+
+/**
+ * Options for `debug`.
+ *
+ * @since 1.11.0
+ * @see debug
+ */
+export interface DebugOptions {
+    /**
+     * The number of nesting levels to print, below the top-level value.
+     * Deeper arrays, objects and variants are abbreviated as `[Array]`, `[Object]`, `[Ok]`, ...
+     *
+     * @defaultValue 4
+     */
+    readonly depth?: number;
+
+    /**
+     * Whether to print each element of arrays, objects, `Map`s and `Set`s on its own line,
+     * indented by four spaces, like Rust's `{:#?}`.
+     *
+     * @defaultValue false
+     */
+    readonly pretty?: boolean;
+}
+
+/**
+ * A [JsonML](http://www.jsonml.org/) node, as returned by devtools custom formatters.
+ *
+ * @since 1.11.0
+ * @see DevtoolsFormatter
+ */
+export type JsonML = string | readonly [tagName: string, attributes: Readonly<Record<string, unknown>>, ...children: JsonML[]];
+
+/**
+ * A [custom formatter](https://firefox-source-docs.mozilla.org/devtools-user/custom_formatters/) for the Chrome and Firefox devtools.
+ *
+ * Devtools only call custom formatters when "Enable custom formatters" is checked in their settings.
+ *
+ * @since 1.11.0
+ * @see devtoolsFormatter
+ * @see installDevtoolsFormatter
+ */
+export interface DevtoolsFormatter {
+    /**
+     * Returns the one-line representation of a value, or `null` to let other formatters handle it.
+     */
+    header(value: unknown): JsonML | null;
+
+    /**
+     * Returns whether the value can be expanded.
+     */
+    hasBody(value: unknown): boolean;
+
+    /**
+     * Returns the expanded representation of a value, or `null` if it has none.
+     */
+    body(value: unknown): JsonML | null;
+}
+
+/**
+ * Formats a value for debugging, printing `Result`, `Option`, `Validation` and `ControlFlow` as
+ * `Ok(...)`, `Some(...)`, `None`, `Invalid(...)` or `Break(...)`, and the values they contain at any depth.
+ *
+ * Strings are quoted, arrays print as `[1, 2]`, plain objects as `{ a: 1 }`, class instances as `Point { x: 1 }`,
+ * `Map`s as `Map(1) { "a" => 1 }` and `Set`s as `Set(1) { 1 }`.
+ * A reference to an enclosing value prints as `[Circular]`.
+ *
+ * @param value - The value to format.
+ * @param options - The depth limit and layout.
+ * @returns The formatted value.
+ * @since 1.11.0
+ * @see format
+ * @example
+ * ```ts
+ * console.log(debug(Some({ a: 1, tags: ['x'] }))); // 'Some({ a: 1, tags: ["x"] })'
+ * console.log(debug(Ok([[[[[1]]]]]), { depth: 2 })); // 'Ok([[[Array]]])'
+ * console.log(debug(Err({ code: 404 }), { pretty: true }));
+ * // Err({
+ * //     code: 404,
+ * // })
+ * ```
+ */
+export function debug(value: unknown, options?: DebugOptions): string {
+    const { depth = DEFAULT_DEPTH, pretty = false } = options ?? {};
+    return formatValue(value, 0, 0, { maxDepth: depth, pretty, ancestors: new Set() });
+}
+
+/**
+ * Interpolates values into a template, like Rust's `format!`.
+ *
+ * - `{}` inserts a value for display: strings as is, other values as with `debug`.
+ * - `{:?}` inserts a value as with `debug`, so strings are quoted.
+ * - `{:#?}` inserts a value as with `debug` and `pretty: true`.
+ * - `{{` and `}}` insert literal braces.
+ *
+ * @param template - The template containing placeholders.
+ * @param args - One value per placeholder, in order.
+ * @returns The interpolated string.
+ * @throws {Panic} If the number of arguments differs from the number of placeholders.
+ * @since 1.11.0
+ * @see debug
+ * @example
+ * ```ts
+ * console.log(format('{} failed: {:?}', 'save', Err({ code: 409 }))); // 'save failed: Err({ code: 409 })'
+ * console.log(format('{{}} is {:?}', '')); // '{} is ""'
+ * ```
+ */
+export function format(template: string, ...args: unknown[]): string {
+    let index = 0;
+
+    const output = template.replace(PLACEHOLDER, (placeholder: string) => {
+        if (placeholder === '{{') {
+            return '{';
+        }
+        if (placeholder === '}}') {
+            return '}';
+        }
+        if (index >= args.length) {
+            return panic(`format: missing argument for placeholder ${index} in ${JSON.stringify(template)}`);
+        }
+
+        const arg = args[index];
+        index += 1;
+
+        switch (placeholder) {
+            case '{:?}':
+                return debug(arg);
+            case '{:#?}':
+                return debug(arg, { pretty: true });
+            default:
+                return typeof arg === 'string' ? arg : debug(arg);
+        }
+    });
+
+    if (index < args.length) {
+        return panic(`format: ${args.length - index} argument(s) not used by ${JSON.stringify(template)}`);
+    }
+
+    return output;
+}
+
+/**
+ * A devtools custom formatter that renders `Result`, `Option`, `Validation` and `ControlFlow`
+ * as `Ok(...)`, `None`, ... with the contained values expandable.
+ *
+ * Other values are left to the default formatting.
+ *
+ * @since 1.11.0
+ * @see installDevtoolsFormatter
+ * @example
+ * ```ts
+ * (window as { devtoolsFormatters?: unknown[]; }).devtoolsFormatters = [devtoolsFormatter];
+ * ```
+ */
+export const devtoolsFormatter: DevtoolsFormatter = /*#__PURE__*/ Object.freeze<DevtoolsFormatter>({
+    header(value: unknown): JsonML | null {
+        const variant = variantOf(value);
+        if (variant === undefined) {
+            return null;
+        }
+
+        const [name, payloads] = variant;
+        if (payloads.length === 0) {
+            return ['span', {}, name];
+        }
+
+        const children: JsonML[] = [`${name}(`];
+        payloads.forEach((payload, index) => {
+            if (index > 0) {
+                children.push(', ');
+            }
+            children.push(['object', { object: payload }]);
+        });
+        children.push(')');
+
+        return ['span', {}, ...children];
+    },
+
+    hasBody(_value: unknown): boolean {
+        return false;
+    },
+
+    body(_value: unknown): JsonML | null {
+        return null;
+    },
+} as const);
+
+/**
+ * Registers `devtoolsFormatter` in `globalThis.devtoolsFormatters`, where the Chrome and Firefox devtools look up custom formatters.
+ * Registering it again has no effect.
+ *
+ * @returns A function that unregisters the formatter.
+ * @since 1.11.0
+ * @see devtoolsFormatter
+ * @example
+ * ```ts
+ * if (import.meta.env.DEV) {
+ *     installDevtoolsFormatter();
+ * }
+ * console.log(Ok({ a: 1 })); // Ok({a: 1}) with "Enable custom formatters" checked
+ * ```
+ */
+export function installDevtoolsFormatter(): () => void {
+    const target = globalThis as { devtoolsFormatters?: unknown[]; };
+    const formatters = target.devtoolsFormatters ??= [];
+    if (!formatters.includes(devtoolsFormatter)) {
+        formatters.push(devtoolsFormatter);
+    }
+
+    return () => {
+        const index = target.devtoolsFormatters?.indexOf(devtoolsFormatter) ?? -1;
+        if (index !== -1) {
+            target.devtoolsFormatters?.splice(index, 1);
+        }
+    };
+}
+
+// #region Internal helpers
+
+/**
+ * The default value of `DebugOptions.depth`.
+ */
+const DEFAULT_DEPTH = 4;
+
+/**
+ * The indentation of one level with `pretty: true`.
+ */
+const INDENT = '    ';
+
+/**
+ * Matches the escaped braces and placeholders of `format`.
+ */
+const PLACEHOLDER = /\{\{|\}\}|\{(?::#?\?)?\}/g;
+
+/**
+ * Matches the object keys that can be printed without quotes.
+ */
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * The state shared by a `debug` call.
+ */
+interface FormatState {
+    readonly maxDepth: number;
+    readonly pretty: boolean;
+    /**
+     * The objects being formatted, used to detect cycles.
+     */
+    readonly ancestors: Set<object>;
+}
+
+/**
+ * Formats any value.
+ *
+ * @param value - The value to format.
+ * @param depth - The nesting level of the value.
+ * @param indent - The indentation level of the value with `pretty: true`.
+ * @param state - The state of the `debug` call.
+ * @returns The formatted value.
+ */
+function formatValue(value: unknown, depth: number, indent: number, state: FormatState): string {
+    switch (typeof value) {
+        case 'string':
+            return JSON.stringify(value);
+        case 'number':
+            return Object.is(value, -0) ? '-0' : String(value);
+        case 'bigint':
+            return `${value}n`;
+        case 'function':
+            return `[Function ${value.name || '(anonymous)'}]`;
+        case 'object':
+            return value === null ? 'null' : formatObject(value, depth, indent, state);
+        default:
+            return String(value);
+    }
+}
+
+/**
+ * Formats an object, abbreviating it below the depth limit and replacing cycles by `[Circular]`.
+ *
+ * @param value - The object to format.
+ * @param depth - The nesting level of the object.
+ * @param indent - The indentation level of the object with `pretty: true`.
+ * @param state - The state of the `debug` call.
+ * @returns The formatted object.
+ */
+function formatObject(value: object, depth: number, indent: number, state: FormatState): string {
+    if (value instanceof Date) {
+        return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    }
+    if (value instanceof RegExp || value instanceof Error) {
+        return String(value);
+    }
+    if (state.ancestors.has(value)) {
+        return '[Circular]';
+    }
+
+    const variant = variantOf(value);
+    if (variant !== undefined && variant[1].length === 0) {
+        return variant[0];
+    }
+    if (depth > state.maxDepth) {
+        return `[${variant?.[0] ?? (Array.isArray(value) ? 'Array' : typeName(value) || 'Object')}]`;
+    }
+
+    state.ancestors.add(value);
+    try {
+        if (variant !== undefined) {
+            // Variants are printed inline, so their contents keep the current indentation
+            const [name, payloads] = variant;
+            return `${name}(${payloads.map(payload => formatValue(payload, depth + 1, indent, state)).join(', ')})`;
+        }
+
+        const child = (item: unknown): string => formatValue(item, depth + 1, indent + 1, state);
+
+        if (Array.isArray(value)) {
+            return formatEntries('[', value.map(child), ']', indent, state);
+        }
+        if (value instanceof Map) {
+            const entries = Array.from(value, ([key, item]) => `${child(key)} => ${child(item)}`);
+            return formatEntries(`Map(${value.size}) { `, entries, ' }', indent, state);
+        }
+        if (value instanceof Set) {
+            return formatEntries(`Set(${value.size}) { `, Array.from(value, child), ' }', indent, state);
+        }
+
+        const entries = Reflect.ownKeys(value)
+            .filter(key => key !== Symbol.toStringTag && Object.prototype.propertyIsEnumerable.call(value, key))
+            .map(key => `${formatKey(key)}: ${child((value as Record<PropertyKey, unknown>)[key])}`);
+        const name = typeName(value);
+        return formatEntries(name ? `${name} { ` : '{ ', entries, ' }', indent, state);
+    } finally {
+        state.ancestors.delete(value);
+    }
+}
+
+/**
+ * Joins the formatted entries of a container, on one line or one entry per line with `pretty: true`.
+ *
+ * @param open - The opening delimiter, including the trailing space of the one-line layout.
+ * @param entries - The formatted entries.
+ * @param close - The closing delimiter, including the leading space of the one-line layout.
+ * @param indent - The indentation level of the container.
+ * @param state - The state of the `debug` call.
+ * @returns The formatted container.
+ */
+function formatEntries(open: string, entries: readonly string[], close: string, indent: number, state: FormatState): string {
+    if (entries.length === 0) {
+        return `${open.trimEnd()}${close.trimStart()}`;
+    }
+    if (!state.pretty) {
+        return `${open}${entries.join(', ')}${close}`;
+    }
+
+    const padding = INDENT.repeat(indent + 1);
+    const lines = entries.map(entry => `${padding}${entry},\n`).join('');
+    return `${open.trimEnd()}\n${lines}${INDENT.repeat(indent)}${close.trimStart()}`;
+}
+
+/**
+ * Formats an object key, quoting it unless it is an identifier.
+ *
+ * @param key - The key to format.
+ * @returns The formatted key.
+ */
+function formatKey(key: string | symbol): string {
+    if (typeof key === 'symbol') {
+        return `[${String(key)}]`;
+    }
+    return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Returns the name printed before the entries of an object: the name of its class,
+ * or its `Symbol.toStringTag` for plain objects such as `Mutex`.
+ *
+ * @param value - The object.
+ * @returns The name, or `''` for plain objects without a tag.
+ */
+function typeName(value: object): string {
+    const proto: unknown = Object.getPrototypeOf(value);
+    const ctor: unknown = proto === null ? undefined : (proto as { constructor?: unknown; }).constructor;
+    if (typeof ctor === 'function' && ctor !== Object && ctor.name) {
+        return ctor.name;
+    }
+
+    const tag: unknown = (value as { [Symbol.toStringTag]?: unknown; })[Symbol.toStringTag];
+    return typeof tag === 'string' ? tag : '';
+}
+
+// #endregion
@@ -0,0 +1,6 @@
+/**
+ * @module
+ * Main entry point for the fmt module.
+ * Re-exports all public APIs from the fmt submodules.
+ */
+export * from './fmt.ts';
@@ -0,0 +1,632 @@
+/**
+ * @module
+ * Rust-inspired asynchronous stream adapters over any `AsyncIterable`, such as a channel `Receiver`,
+ * modeled after the `StreamExt` traits of the [futures](https://docs.rs/futures/latest/futures/stream/trait.StreamExt.html)
+ * and [tokio-stream](https://docs.rs/tokio-stream/latest/tokio_stream/trait.StreamExt.html) crates.
+ *
+ * **When to use `Iter<T>` vs `AsyncIter<T>`:**
+ * - Use `Iter<T>` for values available synchronously (arrays, sets, generators)
+ * - Use `AsyncIter<T>` for values arriving over time (channels, async generators, paginated APIs)
+ */
+
+import { Err, None, Ok, Some, type AsyncLikeOption, type AsyncOption, type AsyncResult, type Option, type Result } from '../../core/mod.ts';
+import { assertOption, assertResult } from '../../internal/assert.ts';
+import { assertConcurrency } from '../../internal/collection.ts';
+import { Continue, type ControlFlow } from '../ops/control_flow.ts';
+
+/**
+ * A lazy asynchronous iterator over the values of an `AsyncIterable`.
+ *
+ * Like `Iter`, an `AsyncIter` is stateful: adapters do nothing until values are pulled,
+ * and pulling values consumes them from the underlying iterator.
+ * Callbacks may be sync or async.
+ *
+ * Methods that stop before the end (`tryFold`, `collectResult`, `collectOption`, breaking out of
+ * a `for await...of` loop, ...) close the underlying iterator through its `return()` method,
+ * and closing an adapter closes its sources, such as all the iterators of `merge`.
+ * A callback that throws or rejects closes it too. The `AsyncIter` is exhausted afterwards.
+ *
+ * An `AsyncIter` is itself async iterable, so it can be used in `for await...of` loops.
+ *
+ * @typeParam T - The type of the values.
+ * @since 1.11.0
+ * @see Iter
+ * @see https://docs.rs/futures/latest/futures/stream/trait.StreamExt.html
+ * @example
+ * ```ts
+ * // Fetches the queued URLs four at a time and saves them in batches of 100 or every second
+ * const saved = await AsyncIter(urls.receiver)
+ *     .bufferUnordered(4, url => fetchPage(url))
+ *     .chunksTimeout(100, 1000)
+ *     .map(pages => db.insert(pages))
+ *     .collect();
+ * ```
+ */
+export interface AsyncIter<T> extends AsyncIterable<T> {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'AsyncIter'` so that `Object.prototype.toString.call(iter)` produces `'[object AsyncIter]'`.
+     */
+    readonly [Symbol.toStringTag]: 'AsyncIter';
+
+    /**
+     * Returns a JavaScript async iterator over the remaining values, sharing the state of this `AsyncIter`.
+     *
+     * Breaking out of a `for await...of` loop closes the `AsyncIter` and its underlying iterator.
+     * @example
+     * ```ts
+     * for await (const message of AsyncIter(receiver).filter(isUrgent)) {
+     *     notify(message);
+     * }
+     * ```
+     */
+    [Symbol.asyncIterator](): AsyncIterator<T>;
+
+    /**
+     * Waits for the next value.
+     * @returns A promise that resolves to `Some` with the next value, or `None` when the iterator is exhausted.
+     * @example
+     * ```ts
+     * const first = await AsyncIter(receiver).next();
+     * ```
+     */
+    next(): AsyncOption<T>;
+
+    // #region Collecting
+
+    /**
+     * Consumes the iterator and collects the values into an array.
+     * @returns A promise that resolves to the values once the iterator is exhausted.
+     * @example
+     * ```ts
+     * const messages = await AsyncIter(receiver).collect();
+     * ```
+     */
+    collect(): Promise<T[]>;
+
+    /**
+     * Collects an iterator of `Result`s into a `Result` of an array, stopping at the first `Err` and closing the iterator.
+     * @typeParam U - The type of the success values.
+     * @typeParam E - The type of the error values.
+     * @returns A promise that resolves to `Ok` with the success values, or the first `Err`.
+     * It rejects if the underlying iterator rejects, or with a `TypeError` if a value is not a `Result`.
+     * @see Iter.collectResult
+     * @example
+     * ```ts
+     * const users = await AsyncIter(ids).map(id => fetchUser(id)).collectResult(); // Result<User[], FetchError>
+     * ```
+     */
+    collectResult<U, E>(this: AsyncIter<Result<U, E>>): AsyncResult<U[], E>;
+
+    /**
+     * Collects an iterator of `Option`s into an `Option` of an array, stopping at the first `None` and closing the iterator.
+     * @typeParam U - The type of the contained values.
+     * @returns A promise that resolves to `Some` with the contained values, or `None` if a value is `None`.
+     * It rejects if the underlying iterator rejects, or with a `TypeError` if a value is not an `Option`.
+     * @see Iter.collectOption
+     * @example
+     * ```ts
+     * const avatars = await AsyncIter(users).map(user => cache.get(user.id)).collectOption();
+     * ```
+     */
+    collectOption<U>(this: AsyncIter<Option<U>>): AsyncOption<U[]>;
+
+    /**
+     * Folds the values into an accumulator, stopping as soon as the function returns `Break` and closing the iterator.
+     * @typeParam B - The type of the break value.
+     * @typeParam C - The type of the accumulator.
+     * @param init - The initial accumulator.
+     * @param fn - A function combining the accumulator with a value, returning `Continue` with the new accumulator or `Break`.
+     * @returns A promise that resolves to the `Break` returned by `fn`, or `Continue` with the final accumulator.
+     * @see Iter.tryFold
+     * @example
+     * ```ts
+     * const flow = await AsyncIter(receiver).tryFold(0, (bytes, chunk) => bytes > limit ? Break(bytes) : Continue(bytes + chunk.length));
+     * ```
+     */
+    tryFold<B, C>(init: C, fn: (acc: C, value: T) => PromiseLike<ControlFlow<B, C>> | ControlFlow<B, C>): Promise<ControlFlow<B, C>>;
+
+    // #endregion
+
+    // #region Adapters
+
+    /**
+     * Lazily transforms each value, one at a time.
+     * @typeParam U - The type of the transformed values.
+     * @param fn - A function transforming a value.
+     * @returns An `AsyncIter` of the transformed values.
+     * @see buffered
+     * @example
+     * ```ts
+     * const lengths = AsyncIter(receiver).map(text => text.length);
+     * ```
+     */
+    map<U>(fn: (value: T) => PromiseLike<U> | U): AsyncIter<Awaited<U>>;
+
+    /**
+     * Lazily keeps the values satisfying the predicate.
+     * @param predicate - A function to test each value.
+     * @returns An `AsyncIter` of the matching values.
+     * @example
+     * ```ts
+     * const errors = AsyncIter(logs).filter(log => log.level === 'error');
+     * ```
+     */
+    filter(predicate: (value: T) => PromiseLike<boolean> | boolean): AsyncIter<T>;
+
+    /**
+     * Lazily transforms and filters the values at once, keeping the contents of the `Some`s.
+     * @typeParam U - The type of the transformed values.
+     * @param fn - A function returning `Some` with a transformed value, or `None` to skip the value.
+     * @returns An `AsyncIter` of the transformed values.
+     * @example
+     * ```ts
+     * const users = AsyncIter(ids).filterMap(id => cache.get(id));
+     * ```
+     */
+    filterMap<U>(fn: (value: T) => AsyncLikeOption<U> | Option<U>): AsyncIter<U>;
+
+    /**
+     * Lazily transforms the values with at most `n` calls of `fn` pending at a time,
+     * yielding the results in the order of the values.
+     *
+     * Closing the returned iterator drops the results of the pending calls.
+     * @typeParam U - The type of the transformed values.
+     * @param n - The maximum number of pending calls, a positive integer or `Infinity`.
+     * @param fn - A function transforming a value.
+     * @returns An `AsyncIter` of the transformed values, in order.
+     * @throws {RangeError} If `n` is not a positive integer or `Infinity`.
+     * @see bufferUnordered
+     * @example
+     * ```ts
+     * const pages = AsyncIter(urls).buffered(4, url => fetch(url).then(res => res.text()));
+     * ```
+     */
+    buffered<U>(n: number, fn: (value: T) => PromiseLike<U> | U): AsyncIter<Awaited<U>>;
+
+    /**
+     * Lazily transforms the values with at most `n` calls of `fn` pending at a time,
+     * yielding the results as soon as they are available.
+     *
+     * Closing the returned iterator drops the results of the pending calls.
+     * @typeParam U - The type of the transformed values.
+     * @param n - The maximum number of pending calls, a positive integer or `Infinity`.
+     * @param fn - A function transforming a value.
+     * @returns An `AsyncIter` of the transformed values, in completion order.
+     * @throws {RangeError} If `n` is not a positive integer or `Infinity`.
+     * @see buffered
+     * @example
+     * ```ts
+     * for await (const thumbnail of AsyncIter(images).bufferUnordered(8, resize)) {
+     *     upload(thumbnail);
+     * }
+     * ```
+     */
+    bufferUnordered<U>(n: number, fn: (value: T) => PromiseLike<U> | U): AsyncIter<Awaited<U>>;
+
+    /**
+     * Lazily groups the values into arrays of at most `size` values, yielding a chunk when it is full
+     * or when `ms` milliseconds have passed since its first value, like tokio-stream's `chunks_timeout`.
+     * @param size - The maximum number of values per chunk.
+     * @param ms - The maximum time in milliseconds a value waits in a chunk.
+     * @returns An `AsyncIter` of non-empty chunks.
+     * @throws {RangeError} If `size` is not a positive integer, or `ms` is negative or not finite.
+     * @example
+     * ```ts
+     * for await (const batch of AsyncIter(events.receiver).chunksTimeout(100, 1000)) {
+     *     await analytics.send(batch);
+     * }
+     * ```
+     */
+    chunksTimeout(size: number, ms: number): AsyncIter<T[]>;
+
+    /**
+     * Lazily interleaves the values of this iterator and other async iterables, in arrival order.
+     *
+     * One value is requested ahead from each iterator that is not exhausted.
+     * @param others - The async iterables to merge.
+     * @returns An `AsyncIter` of the values of all iterators, exhausted when all of them are.
+     * @example
+     * ```ts
+     * for await (const event of AsyncIter(clicks.receiver).merge(keys.receiver)) {
+     *     handle(event);
+     * }
+     * ```
+     */
+    merge(...others: AsyncIterable<T>[]): AsyncIter<T>;
+
+    // #endregion
+}
+
+/**
+ * Creates a lazy `AsyncIter` over the values of an `AsyncIterable`, such as a channel `Receiver`
+ * or an async generator, or over the awaited values of an `Iterable`.
+ *
+ * @typeParam T - The type of the values.
+ * @param iterable - The values to iterate over.
+ * @returns An `AsyncIter` over the values.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const ch = Channel<string>(16);
+ * const lines = AsyncIter(ch.receiver).map(line => line.trim()).filter(line => line !== '');
+ * ```
+ */
+export function AsyncIter<T>(iterable: AsyncIterable<T> | Iterable<T | PromiseLike<T>>): AsyncIter<T> {
+    return fromAsyncIterator(Symbol.asyncIterator in iterable ? iterable[Symbol.asyncIterator]() : fromIterable(iterable));
+}
+
+// #region Internal helpers
+
+/**
+ * The result returned by exhausted internal iterators.
+ */
+const DONE: IteratorReturnResult<undefined> = /*#__PURE__*/ Object.freeze({ done: true, value: undefined });
+
+/**
+ * An event of `bufferedGenerator`: a value pulled from the source, or a finished call of the mapping function.
+ */
+type BufferEvent<T, U> =
+    | { readonly pulled: IteratorResult<T>; }
+    | { readonly task: Promise<BufferEvent<T, U>>; readonly value: U; };
+
+/**
+ * Creates an `AsyncIter` pulling its values from a JavaScript async iterator.
+ *
+ * @param source - The iterator to pull the values from.
+ * @returns An `AsyncIter` over the values of `source`.
+ */
+function fromAsyncIterator<T>(source: AsyncIterator<T>): AsyncIter<T> {
+    let closed = false;
+
+    const pull = (): Promise<IteratorResult<T>> => closed ? Promise.resolve(DONE) : source.next();
+
+    // Closes the source once, like breaking out of a `for await...of` loop over it
+    const close = async (): Promise<IteratorReturnResult<undefined>> => {
+        if (!closed) {
+            closed = true;
+            await source.return?.();
+        }
+        return DONE;
+    };
+
+    return Object.freeze<AsyncIter<T>>({
+        [Symbol.toStringTag]: 'AsyncIter',
+
+        [Symbol.asyncIterator](): AsyncIterator<T> {
+            return { next: pull, return: close };
+        },
+
+        async next(): AsyncOption<T> {
+            const result = await pull();
+            return result.done ? None : Some(result.value);
+        },
+
+        async collect(): Promise<T[]> {
+            const values: T[] = [];
+            for (let result = await pull(); !result.done; result = await pull()) {
+                values.push(result.value);
+            }
+            return values;
+        },
+
+        async collectResult<U, E>(): AsyncResult<U[], E> {
+            const toResult = guard((item: unknown): Result<U, E> => {
+                assertResult<U, E>(item);
+                return item;
+            }, close);
+            const values: U[] = [];
+            for (let result = await pull(); !result.done; result = await pull()) {
+                const item = await toResult(result.value);
+                if (item.isErr()) {
+                    await close();
+                    return Err(item.error);
+                }
+                values.push(item.value);
+            }
+            return Ok(values);
+        },
+
+        async collectOption<U>(): AsyncOption<U[]> {
+            const toOption = guard((item: unknown): Option<U> => {
+                assertOption<U>(item);
+                return item;
+            }, close);
+            const values: U[] = [];
+            for (let result = await pull(); !result.done; result = await pull()) {
+                const item = await toOption(result.value);
+                if (item.isNone()) {
+                    await close();
+                    return None;
+                }
+                values.push(item.value);
+            }
+            return Some(values);
+        },
+
+        async tryFold<B, C>(init: C, fn: (acc: C, value: T) => PromiseLike<ControlFlow<B, C>> | ControlFlow<B, C>): Promise<ControlFlow<B, C>> {
+            const step = guard(fn, close);
+            let acc = init;
+            for (let result = await pull(); !result.done; result = await pull()) {
+                const flow = await step(acc, result.value);
+                if (flow.isBreak()) {
+                    await close();
+                    return flow;
+                }
+                acc = flow.continueValue().unwrap();
+            }
+            return Continue(acc);
+        },
+
+        map<U>(fn: (value: T) => PromiseLike<U> | U): AsyncIter<Awaited<U>> {
+            return fromAsyncIterator((async function* () {
+                try {
+                    for (let result = await pull(); !result.done; result = await pull()) {
+                        yield await fn(result.value);
+                    }
+                } finally {
+                    await close();
+                }
+            })());
+        },
+
+        filter(predicate: (value: T) => PromiseLike<boolean> | boolean): AsyncIter<T> {
+            return fromAsyncIterator((async function* () {
+                try {
+                    for (let result = await pull(); !result.done; result = await pull()) {
+                        if (await predicate(result.value)) {
+                            yield result.value;
+                        }
+                    }
+                } finally {
+                    await close();
+                }
+            })());
+        },
+
+        filterMap<U>(fn: (value: T) => AsyncLikeOption<U> | Option<U>): AsyncIter<U> {
+            return fromAsyncIterator((async function* () {
+                try {
+                    for (let result = await pull(); !result.done; result = await pull()) {
+                        const option = await fn(result.value);
+                        assertOption<U>(option);
+                        if (option.isSome()) {
+                            yield option.value;
+                        }
+                    }
+                } finally {
+                    await close();
+                }
+            })());
+        },
+
+        buffered<U>(n: number, fn: (value: T) => PromiseLike<U> | U): AsyncIter<Awaited<U>> {
+            assertConcurrency(n);
+            return fromAsyncIterator(bufferedGenerator(pull, close, n, fn, true));
+        },
+
+        bufferUnordered<U>(n: number, fn: (value: T) => PromiseLike<U> | U): AsyncIter<Awaited<U>> {
+            assertConcurrency(n);
+            return fromAsyncIterator(bufferedGenerator(pull, close, n, fn, false));
+        },
+
+        chunksTimeout(size: number, ms: number): AsyncIter<T[]> {
+            if (!Number.isInteger(size) || size < 1) {
+                throw new RangeError(`AsyncIter.chunksTimeout() expects a positive integer size, got ${size}`);
+            }
+            if (!Number.isFinite(ms) || ms < 0) {
+                throw new RangeError(`AsyncIter.chunksTimeout() expects a finite non-negative timeout, got ${ms}`);
+            }
+            return fromAsyncIterator(chunksTimeoutGenerator(pull, close, size, ms));
+        },
+
+        merge(...others: AsyncIterable<T>[]): AsyncIter<T> {
+            const sources = [{ next: pull, return: close }, ...others.map(other => other[Symbol.asyncIterator]())];
+            return fromAsyncIterator(mergeGenerator(sources));
+        },
+    } as const);
+}
+
+/**
+ * Converts an `Iterable` into an async iterator of its awaited values.
+ *
+ * @param iterable - The values, possibly promises.
+ * @returns An async iterator over the awaited values.
+ */
+async function* fromIterable<T>(iterable: Iterable<T | PromiseLike<T>>): AsyncGenerator<T> {
+    for (const value of iterable) {
+        yield await value;
+    }
+}
+
+/**
+ * Maps the pulled values with at most `n` pending calls of `fn`,
+ * pulling the next value while the calls are pending.
+ *
+ * @param pull - Pulls the next value from the source.
+ * @param close - Closes the source, once the generator is exhausted or closed.
+ * @param n - The maximum number of pending calls.
+ * @param fn - The mapping function.
+ * @param ordered - Whether to yield the results in the order of the values, or in completion order.
+ * @returns An async generator of the results.
+ */
+async function* bufferedGenerator<T, U>(pull: () => Promise<IteratorResult<T>>, close: () => Promise<unknown>, n: number, fn: (value: T) => PromiseLike<U> | U, ordered: boolean): AsyncGenerator<Awaited<U>> {
+    // The pending calls, in the order of the values.
+    // Rejections are reported when a task or a pull is raced, so they are marked as handled meanwhile.
+    const tasks: Promise<BufferEvent<T, Awaited<U>>>[] = [];
+    let pulling: Promise<BufferEvent<T, Awaited<U>>> | undefined;
+    let exhausted = false;
+
+    try {
+        for (;;) {
+            if (pulling === undefined && !exhausted && tasks.length < n) {
+                pulling = pull().then(pulled => ({ pulled }));
+                pulling.catch(noop);
+            }
+            if (pulling === undefined && tasks.length === 0) {
+                return;
+            }
+
+            const candidates = ordered ? tasks.slice(0, 1) : tasks.slice();
+            if (pulling !== undefined) {
+                candidates.push(pulling);
+            }
+            const event = await Promise.race(candidates);
+
+            if ('pulled' in event) {
+                pulling = undefined;
+                if (event.pulled.done) {
+                    exhausted = true;
+                } else {
+                    const { value } = event.pulled;
+                    const task: Promise<BufferEvent<T, Awaited<U>>> = Promise.resolve()
+                        .then(() => fn(value))
+                        .then(result => ({ task, value: result as Awaited<U> }));
+                    task.catch(noop);
+                    tasks.push(task);
+                }
+            } else {
+                tasks.splice(tasks.indexOf(event.task), 1);
+                yield event.value;
+            }
+        }
+    } finally {
+        await closeSource(close, pulling !== undefined);
+    }
+}
+
+/**
+ * Groups the pulled values into chunks of at most `size` values, or the values pulled within `ms` of the first one.
+ *
+ * @param pull - Pulls the next value from the source.
+ * @param close - Closes the source, once the generator is exhausted or closed.
+ * @param size - The maximum number of values per chunk.
+ * @param ms - The maximum time in milliseconds a value waits in a chunk.
+ * @returns An async generator of non-empty chunks.
+ */
+async function* chunksTimeoutGenerator<T>(pull: () => Promise<IteratorResult<T>>, close: () => Promise<unknown>, size: number, ms: number): AsyncGenerator<T[]> {
+    // A pull still pending when a chunk times out is kept for the next chunk
+    let pending: Promise<IteratorResult<T>> | undefined;
+
+    try {
+        for (;;) {
+            pending ??= pull();
+            const first = await pending;
+            pending = undefined;
+            if (first.done) {
+                return;
+            }
+
+            const chunk = [first.value];
+            let timeoutId: ReturnType<typeof setTimeout> | undefined;
+            const deadline = new Promise<undefined>(resolve => {
+                timeoutId = setTimeout(resolve, ms);
+            });
+
+            try {
+                while (chunk.length < size) {
+                    pending = pull();
+                    pending.catch(noop);
+                    const result = await Promise.race([pending, deadline]);
+                    if (result === undefined) {
+                        break;
+                    }
+                    pending = undefined;
+                    if (result.done) {
+                        yield chunk;
+                        return;
+                    }
+                    chunk.push(result.value);
+                }
+            } finally {
+                clearTimeout(timeoutId);
+            }
+
+            yield chunk;
+        }
+    } finally {
+        await closeSource(close, pending !== undefined);
+    }
+}
+
+/**
+ * Yields the values of several async iterators in arrival order.
+ *
+ * Closing the generator closes the iterators that are not exhausted.
+ *
+ * @param sources - The iterators to merge.
+ * @returns An async generator of the values of all iterators.
+ */
+async function* mergeGenerator<T>(sources: AsyncIterator<T>[]): AsyncGenerator<T> {
+    const pending = new Map<AsyncIterator<T>, Promise<[AsyncIterator<T>, IteratorResult<T>]>>();
+    const active = new Set(sources);
+
+    try {
+        while (active.size > 0) {
+            for (const source of active) {
+                if (!pending.has(source)) {
+                    const next = source.next().then(result => [source, result] as [AsyncIterator<T>, IteratorResult<T>]);
+                    // Rejections are reported when the pull is raced
+                    next.catch(noop);
+                    pending.set(source, next);
+                }
+            }
+
+            const [source, result] = await Promise.race(pending.values());
+            pending.delete(source);
+            if (result.done) {
+                active.delete(source);
+            } else {
+                yield result.value;
+            }
+        }
+    } finally {
+        await Promise.all([...active].map(source => closeSource(async () => source.return?.(), pending.has(source))));
+    }
+}
+
+/**
+ * Closes a source of an adapter.
+ *
+ * The `return()` method of an async generator waits for a pending `next()` to settle,
+ * so a source with a pending pull is closed without waiting for it.
+ *
+ * @param close - Closes the source.
+ * @param pulling - Whether a pull of the source is pending.
+ */
+async function closeSource(close: () => Promise<unknown>, pulling: boolean): Promise<void> {
+    const closing = close();
+    if (pulling) {
+        closing.catch(noop);
+    } else {
+        await closing;
+    }
+}
+
+/**
+ * Wraps a callback so that it closes the source before rethrowing what it throws or rejects with,
+ * like an exception thrown in the body of a `for await...of` loop.
+ *
+ * @param fn - The callback to wrap.
+ * @param close - Closes the source.
+ * @returns A function calling `fn` with the same arguments and resolving to its result.
+ */
+function guard<A extends unknown[], R>(fn: (...args: A) => R, close: () => Promise<unknown>): (...args: A) => Promise<Awaited<R>> {
+    return async (...args): Promise<Awaited<R>> => {
+        try {
+            return await fn(...args);
+        } catch (error) {
+            await close();
+            throw error;
+        }
+    };
+}
+
+/**
+ * Does nothing, used to mark promises whose rejections are observed later as handled.
+ */
+function noop(): void {
+    // Nothing to do
+}
+
+// #endregion
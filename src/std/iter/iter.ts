@@ -0,0 +1,757 @@
+/**
+ * @module
+ * Rust-inspired [Iterator](https://doc.rust-lang.org/std/iter/trait.Iterator.html) adapters over any `Iterable`,
+ * returning `Option`, `Result` and `ControlFlow` instead of sentinel values.
+ */
+
+import { Err, None, Ok, Some, type Option, type Result } from '../../core/mod.ts';
+import { assertOption, assertResult } from '../../internal/assert.ts';
+import { Continue, type ControlFlow } from '../ops/control_flow.ts';
+
+/**
+ * A lazy iterator over the values of an `Iterable`.
+ *
+ * Like Rust's iterators, an `Iter` is stateful: adapters such as `map`, `filter` or `take` do nothing
+ * until values are pulled, and pulling values (with `next`, `find`, a `for...of` loop, etc.)
+ * consumes them from the underlying iterator.
+ *
+ * Like the JavaScript iterator helpers, methods that stop before the end (`find`, `nth`, `position`, `tryFold`,
+ * `take`, breaking out of a `for...of` loop, ...) close the underlying iterator: its `return()` method is called,
+ * so the `finally` blocks of a generator run, and the `Iter` is exhausted afterwards. So does a callback that throws,
+ * like an exception thrown in the body of a `for...of` loop.
+ * Pull values with `next` or `peekable` to stop without closing it.
+ *
+ * An `Iter` is itself iterable, so it can be spread or used in `for...of` loops.
+ *
+ * @typeParam T - The type of the values.
+ * @since 1.11.0
+ * @see https://doc.rust-lang.org/std/iter/trait.Iterator.html
+ * @example
+ * ```ts
+ * const ports = Iter(process.argv)
+ *     .filterMap(arg => arg.startsWith('--port=') ? Some(Number(arg.slice(7))) : None)
+ *     .take(2)
+ *     .collect();
+ * ```
+ */
+export interface Iter<T> extends Iterable<T> {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'Iter'` so that `Object.prototype.toString.call(iter)` produces `'[object Iter]'`.
+     */
+    readonly [Symbol.toStringTag]: 'Iter';
+
+    /**
+     * Returns a JavaScript iterator over the remaining values, sharing the state of this `Iter`.
+     *
+     * Breaking out of a `for...of` loop closes the `Iter` and its underlying iterator.
+     * @example
+     * ```ts
+     * for (const value of Iter([1, 2, 3])) {
+     *     console.log(value);
+     * }
+     * ```
+     */
+    [Symbol.iterator](): Iterator<T>;
+
+    // #region Pulling values
+
+    /**
+     * Advances the iterator and returns the next value.
+     * @returns `Some` with the next value, or `None` when the iterator is exhausted.
+     * @example
+     * ```ts
+     * const iter = Iter([1]);
+     * console.log(iter.next()); // Some(1)
+     * console.log(iter.next()); // None
+     * ```
+     */
+    next(): Option<T>;
+
+    /**
+     * Returns the `n`th value (zero-based), consuming it and all the values before it, then closes the iterator.
+     * @param n - The index of the value.
+     * @returns `Some` with the value, or `None` if there are fewer than `n + 1` values.
+     * @throws {RangeError} If `n` is negative or not an integer.
+     * @example
+     * ```ts
+     * console.log(Iter(['a', 'b', 'c']).nth(1)); // Some('b')
+     * ```
+     */
+    nth(n: number): Option<T>;
+
+    /**
+     * Consumes the iterator and returns the last value.
+     * @returns `Some` with the last value, or `None` if there are no values.
+     * @example
+     * ```ts
+     * console.log(Iter([1, 2, 3]).last()); // Some(3)
+     * ```
+     */
+    last(): Option<T>;
+
+    /**
+     * Returns the first value satisfying the predicate, then closes the iterator.
+     * @param predicate - A function to test each value.
+     * @returns `Some` with the first matching value, or `None`.
+     * @example
+     * ```ts
+     * const admin = Iter(users).find(user => user.role === 'admin');
+     * ```
+     */
+    find(predicate: (value: T) => boolean): Option<T>;
+
+    /**
+     * Returns the index of the first value satisfying the predicate, then closes the iterator.
+     * @param predicate - A function to test each value.
+     * @returns `Some` with the index of the first matching value, or `None`.
+     * @example
+     * ```ts
+     * console.log(Iter([1, 3, 4]).position(n => n % 2 === 0)); // Some(2)
+     * ```
+     */
+    position(predicate: (value: T) => boolean): Option<number>;
+
+    // #endregion
+
+    // #region Short-circuiting folds
+
+    /**
+     * Folds the values into an accumulator, stopping as soon as the function returns `Break` and closing the iterator.
+     * @typeParam B - The type of the break value.
+     * @typeParam C - The type of the accumulator.
+     * @param init - The initial accumulator.
+     * @param fn - A function combining the accumulator with a value, returning `Continue` with the new accumulator or `Break`.
+     * @returns The `Break` returned by `fn`, or `Continue` with the final accumulator.
+     * @example
+     * ```ts
+     * // Sums the values until the total exceeds 100
+     * const flow = Iter(amounts).tryFold(0, (total, amount) => total + amount > 100 ? Break(total) : Continue(total + amount));
+     * ```
+     */
+    tryFold<B, C>(init: C, fn: (acc: C, value: T) => ControlFlow<B, C>): ControlFlow<B, C>;
+
+    /**
+     * Calls a function on each value, stopping as soon as it returns `Break` and closing the iterator.
+     * @typeParam B - The type of the break value.
+     * @param fn - A function returning `Continue()` to go on, or `Break` to stop.
+     * @returns The `Break` returned by `fn`, or `Continue()` once every value is processed.
+     * @example
+     * ```ts
+     * const flow = Iter(files).tryForEach(file => file.size > limit ? Break(file.name) : Continue());
+     * ```
+     */
+    tryForEach<B>(fn: (value: T) => ControlFlow<B, void>): ControlFlow<B, void>;
+
+    // #endregion
+
+    // #region Collecting
+
+    /**
+     * Consumes the iterator and collects the values into an array.
+     * @returns The remaining values.
+     * @example
+     * ```ts
+     * console.log(Iter(new Set([1, 2])).map(n => n * 2).collect()); // [2, 4]
+     * ```
+     */
+    collect(): T[];
+
+    /**
+     * Collects an iterator of `Result`s into a `Result` of an array, like Rust's `collect::<Result<Vec<_>, _>>()`.
+     *
+     * Stops at the first `Err` and closes the iterator.
+     * @typeParam U - The type of the success values.
+     * @typeParam E - The type of the error values.
+     * @returns `Ok` with the success values, or the first `Err`.
+     * @throws {TypeError} If a value is not a `Result`.
+     * @see Result.all
+     * @example
+     * ```ts
+     * const numbers = Iter(inputs).map(parseNumber).collectResult(); // Result<number[], ParseError>
+     * ```
+     */
+    collectResult<U, E>(this: Iter<Result<U, E>>): Result<U[], E>;
+
+    /**
+     * Collects an iterator of `Option`s into an `Option` of an array, like Rust's `collect::<Option<Vec<_>>>()`.
+     *
+     * Stops at the first `None` and closes the iterator.
+     * @typeParam U - The type of the contained values.
+     * @returns `Some` with the contained values, or `None` if a value is `None`.
+     * @throws {TypeError} If a value is not an `Option`.
+     * @see Option.all
+     * @example
+     * ```ts
+     * const users = Iter(ids).map(findUser).collectOption(); // Option<User[]>
+     * ```
+     */
+    collectOption<U>(this: Iter<Option<U>>): Option<U[]>;
+
+    // #endregion
+
+    // #region Adapters
+
+    /**
+     * Lazily transforms each value.
+     * @typeParam U - The type of the transformed values.
+     * @param fn - A function transforming a value.
+     * @returns An `Iter` of the transformed values.
+     * @example
+     * ```ts
+     * console.log(Iter([1, 2]).map(n => n * 10).collect()); // [10, 20]
+     * ```
+     */
+    map<U>(fn: (value: T) => U): Iter<U>;
+
+    /**
+     * Lazily keeps the values satisfying the predicate.
+     * @param predicate - A function to test each value.
+     * @returns An `Iter` of the matching values.
+     * @example
+     * ```ts
+     * console.log(Iter([1, 2, 3, 4]).filter(n => n % 2 === 0).collect()); // [2, 4]
+     * ```
+     */
+    filter(predicate: (value: T) => boolean): Iter<T>;
+
+    /**
+     * Lazily transforms and filters the values at once, keeping the contents of the `Some`s.
+     * @typeParam U - The type of the transformed values.
+     * @param fn - A function returning `Some` with a transformed value, or `None` to skip the value.
+     * @returns An `Iter` of the transformed values.
+     * @example
+     * ```ts
+     * const numbers = Iter(['1', 'x', '3']).filterMap(s => tryResult(() => parseStrict(s)).ok()).collect();
+     * ```
+     */
+    filterMap<U>(fn: (value: T) => Option<U>): Iter<U>;
+
+    /**
+     * Lazily pairs the values with the values of another iterable, stopping when either is exhausted.
+     * @typeParam U - The type of the other values.
+     * @param other - The other iterable.
+     * @returns An `Iter` of pairs.
+     * @example
+     * ```ts
+     * console.log(Iter(['a', 'b']).zip([1, 2, 3]).collect()); // [['a', 1], ['b', 2]]
+     * ```
+     */
+    zip<U>(other: Iterable<U>): Iter<[T, U]>;
+
+    /**
+     * Lazily yields the values of this iterator, then the values of another iterable.
+     * @param other - The iterable to append.
+     * @returns An `Iter` of both sequences.
+     * @example
+     * ```ts
+     * console.log(Iter([1]).chain([2, 3]).collect()); // [1, 2, 3]
+     * ```
+     */
+    chain(other: Iterable<T>): Iter<T>;
+
+    /**
+     * Lazily yields at most the first `n` values, then closes the iterator.
+     * @param n - The maximum number of values.
+     * @returns An `Iter` of at most `n` values.
+     * @throws {RangeError} If `n` is negative or not an integer.
+     * @example
+     * ```ts
+     * console.log(Iter(naturals()).take(3).collect()); // [0, 1, 2]
+     * ```
+     */
+    take(n: number): Iter<T>;
+
+    /**
+     * Lazily skips the first `n` values.
+     * @param n - The number of values to skip.
+     * @returns An `Iter` of the values after the first `n`.
+     * @throws {RangeError} If `n` is negative or not an integer.
+     * @example
+     * ```ts
+     * console.log(Iter([1, 2, 3]).skip(1).collect()); // [2, 3]
+     * ```
+     */
+    skip(n: number): Iter<T>;
+
+    /**
+     * Lazily yields the first value, then every `step`th value after it.
+     * @param step - The distance between the yielded values.
+     * @returns An `Iter` of every `step`th value.
+     * @throws {RangeError} If `step` is not a positive integer.
+     * @example
+     * ```ts
+     * console.log(Iter([0, 1, 2, 3, 4]).stepBy(2).collect()); // [0, 2, 4]
+     * ```
+     */
+    stepBy(step: number): Iter<T>;
+
+    /**
+     * Lazily groups the values into arrays of `size` values; the last array may be shorter.
+     * @param size - The number of values per chunk.
+     * @returns An `Iter` of chunks.
+     * @throws {RangeError} If `size` is not a positive integer.
+     * @example
+     * ```ts
+     * console.log(Iter([1, 2, 3, 4, 5]).chunks(2).collect()); // [[1, 2], [3, 4], [5]]
+     * ```
+     */
+    chunks(size: number): Iter<T[]>;
+
+    /**
+     * Creates an iterator that can look at the next value without consuming it.
+     *
+     * The returned `Peekable` takes over the remaining values of this iterator.
+     * @returns A `Peekable` over the remaining values.
+     * @example
+     * ```ts
+     * const tokens = Iter(input).peekable();
+     * while (tokens.peek().isSomeAnd(isDigit)) {
+     *     digits.push(tokens.next().unwrap());
+     * }
+     * ```
+     */
+    peekable(): Peekable<T>;
+
+    // #endregion
+}
+
+/**
+ * An `Iter` that can look at its next value without consuming it, returned by `Iter.peekable`.
+ *
+ * @typeParam T - The type of the values.
+ * @since 1.11.0
+ * @see Iter.peekable
+ * @see https://doc.rust-lang.org/std/iter/struct.Peekable.html
+ */
+export interface Peekable<T> extends Iter<T> {
+    /**
+     * Returns the next value without consuming it.
+     * @returns `Some` with the next value, or `None` when the iterator is exhausted.
+     * @example
+     * ```ts
+     * const iter = Iter([1, 2]).peekable();
+     * console.log(iter.peek()); // Some(1)
+     * console.log(iter.next()); // Some(1)
+     * ```
+     */
+    peek(): Option<T>;
+
+    /**
+     * Consumes and returns the next value if it satisfies the predicate.
+     * @param predicate - A function to test the next value.
+     * @returns `Some` with the next value if it matches, otherwise `None`, leaving the value in place.
+     * @example
+     * ```ts
+     * const iter = Iter(['-v', 'file.txt']).peekable();
+     * const verbose = iter.nextIf(arg => arg === '-v').isSome(); // true
+     * ```
+     */
+    nextIf(predicate: (value: T) => boolean): Option<T>;
+}
+
+/**
+ * Creates a lazy `Iter` over the values of an `Iterable`, such as an array, a `Set`, a `Map` or a generator.
+ *
+ * @typeParam T - The type of the values.
+ * @param iterable - The values to iterate over.
+ * @returns An `Iter` over the values.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const total = Iter(cart.items)
+ *     .filter(item => item.inStock)
+ *     .tryFold(0, (sum, item) => item.price < 0 ? Break(item) : Continue(sum + item.price));
+ * ```
+ */
+export function Iter<T>(iterable: Iterable<T>): Iter<T> {
+    return fromIterator(iterable[Symbol.iterator]());
+}
+
+// #region Internal helpers
+
+/**
+ * The result returned by exhausted internal iterators.
+ */
+const DONE: IteratorReturnResult<undefined> = /*#__PURE__*/ Object.freeze({ done: true, value: undefined });
+
+/**
+ * Creates an `Iter` pulling its values from a JavaScript iterator.
+ *
+ * @param source - The iterator to pull the values from.
+ * @returns An `Iter` over the values of `source`.
+ */
+function fromIterator<T>(source: Iterator<T>): Iter<T> {
+    let closed = false;
+
+    const pull = (): IteratorResult<T> => closed ? DONE : source.next();
+
+    // Closes the source once, like breaking out of a `for...of` loop over it
+    const close = (): IteratorReturnResult<undefined> => {
+        if (!closed) {
+            closed = true;
+            source.return?.();
+        }
+        return DONE;
+    };
+
+    return Object.freeze<Iter<T>>({
+        [Symbol.toStringTag]: 'Iter',
+
+        [Symbol.iterator](): Iterator<T> {
+            return { next: pull, return: close };
+        },
+
+        next(): Option<T> {
+            const result = pull();
+            return result.done ? None : Some(result.value);
+        },
+
+        nth(n: number): Option<T> {
+            assertCount('nth', n, 0);
+            for (let result = pull(), index = 0; !result.done; result = pull(), index += 1) {
+                if (index === n) {
+                    close();
+                    return Some(result.value);
+                }
+            }
+            return None;
+        },
+
+        last(): Option<T> {
+            let last: Option<T> = None;
+            for (let result = pull(); !result.done; result = pull()) {
+                last = Some(result.value);
+            }
+            return last;
+        },
+
+        find(predicate: (value: T) => boolean): Option<T> {
+            const test = guard(predicate, close);
+            for (let result = pull(); !result.done; result = pull()) {
+                if (test(result.value)) {
+                    close();
+                    return Some(result.value);
+                }
+            }
+            return None;
+        },
+
+        position(predicate: (value: T) => boolean): Option<number> {
+            const test = guard(predicate, close);
+            for (let result = pull(), index = 0; !result.done; result = pull(), index += 1) {
+                if (test(result.value)) {
+                    close();
+                    return Some(index);
+                }
+            }
+            return None;
+        },
+
+        tryFold<B, C>(init: C, fn: (acc: C, value: T) => ControlFlow<B, C>): ControlFlow<B, C> {
+            const step = guard(fn, close);
+            let acc = init;
+            for (let result = pull(); !result.done; result = pull()) {
+                const flow = step(acc, result.value);
+                if (flow.isBreak()) {
+                    close();
+                    return flow;
+                }
+                acc = flow.continueValue().unwrap();
+            }
+            return Continue(acc);
+        },
+
+        tryForEach<B>(fn: (value: T) => ControlFlow<B, void>): ControlFlow<B, void> {
+            const step = guard(fn, close);
+            for (let result = pull(); !result.done; result = pull()) {
+                const flow = step(result.value);
+                if (flow.isBreak()) {
+                    close();
+                    return flow;
+                }
+            }
+            return Continue();
+        },
+
+        collect(): T[] {
+            const values: T[] = [];
+            for (let result = pull(); !result.done; result = pull()) {
+                values.push(result.value);
+            }
+            return values;
+        },
+
+        collectResult<U, E>(): Result<U[], E> {
+            const toResult = guard((item: unknown): Result<U, E> => {
+                assertResult<U, E>(item);
+                return item;
+            }, close);
+            const values: U[] = [];
+            for (let result = pull(); !result.done; result = pull()) {
+                const item = toResult(result.value);
+                if (item.isErr()) {
+                    close();
+                    return Err(item.error);
+                }
+                values.push(item.value);
+            }
+            return Ok(values);
+        },
+
+        collectOption<U>(): Option<U[]> {
+            const toOption = guard((item: unknown): Option<U> => {
+                assertOption<U>(item);
+                return item;
+            }, close);
+            const values: U[] = [];
+            for (let result = pull(); !result.done; result = pull()) {
+                const item = toOption(result.value);
+                if (item.isNone()) {
+                    close();
+                    return None;
+                }
+                values.push(item.value);
+            }
+            return Some(values);
+        },
+
+        map<U>(fn: (value: T) => U): Iter<U> {
+            const transform = guard(fn, close);
+            return fromIterator({
+                next(): IteratorResult<U> {
+                    const result = pull();
+                    return result.done ? DONE : { done: false, value: transform(result.value) };
+                },
+                return: close,
+            });
+        },
+
+        filter(predicate: (value: T) => boolean): Iter<T> {
+            const test = guard(predicate, close);
+            return fromIterator({
+                next(): IteratorResult<T> {
+                    for (let result = pull(); !result.done; result = pull()) {
+                        if (test(result.value)) {
+                            return result;
+                        }
+                    }
+                    return DONE;
+                },
+                return: close,
+            });
+        },
+
+        filterMap<U>(fn: (value: T) => Option<U>): Iter<U> {
+            const transform = guard((value: T): Option<U> => {
+                const option = fn(value);
+                assertOption<U>(option);
+                return option;
+            }, close);
+            return fromIterator({
+                next(): IteratorResult<U> {
+                    for (let result = pull(); !result.done; result = pull()) {
+                        const option = transform(result.value);
+                        if (option.isSome()) {
+                            return { done: false, value: option.value };
+                        }
+                    }
+                    return DONE;
+                },
+                return: close,
+            });
+        },
+
+        zip<U>(other: Iterable<U>): Iter<[T, U]> {
+            const otherSource = other[Symbol.iterator]();
+            return fromIterator({
+                next(): IteratorResult<[T, U]> {
+                    const result = pull();
+                    if (result.done) {
+                        otherSource.return?.();
+                        return DONE;
+                    }
+                    const otherResult = otherSource.next();
+                    return otherResult.done ? close() : { done: false, value: [result.value, otherResult.value] };
+                },
+                return(): IteratorResult<[T, U]> {
+                    otherSource.return?.();
+                    return close();
+                },
+            });
+        },
+
+        chain(other: Iterable<T>): Iter<T> {
+            let otherSource: Iterator<T> | undefined;
+            return fromIterator({
+                next(): IteratorResult<T> {
+                    if (otherSource === undefined) {
+                        const result = pull();
+                        if (!result.done) {
+                            return result;
+                        }
+                        otherSource = other[Symbol.iterator]();
+                    }
+                    return otherSource.next();
+                },
+                return(): IteratorResult<T> {
+                    otherSource?.return?.();
+                    return close();
+                },
+            });
+        },
+
+        take(n: number): Iter<T> {
+            assertCount('take', n, 0);
+            let remaining = n;
+            return fromIterator({
+                next(): IteratorResult<T> {
+                    if (remaining === 0) {
+                        return close();
+                    }
+                    remaining -= 1;
+                    return pull();
+                },
+                return: close,
+            });
+        },
+
+        skip(n: number): Iter<T> {
+            assertCount('skip', n, 0);
+            let remaining = n;
+            return fromIterator({
+                next(): IteratorResult<T> {
+                    for (; remaining > 0; remaining -= 1) {
+                        if (pull().done) {
+                            return DONE;
+                        }
+                    }
+                    return pull();
+                },
+                return: close,
+            });
+        },
+
+        stepBy(step: number): Iter<T> {
+            assertCount('stepBy', step, 1);
+            let first = true;
+            return fromIterator({
+                next(): IteratorResult<T> {
+                    if (!first) {
+                        for (let skipped = 1; skipped < step; skipped += 1) {
+                            if (pull().done) {
+                                return DONE;
+                            }
+                        }
+                    }
+                    first = false;
+                    return pull();
+                },
+                return: close,
+            });
+        },
+
+        chunks(size: number): Iter<T[]> {
+            assertCount('chunks', size, 1);
+            return fromIterator({
+                next(): IteratorResult<T[]> {
+                    const chunk: T[] = [];
+                    for (let result = pull(); !result.done; result = pull()) {
+                        chunk.push(result.value);
+                        if (chunk.length === size) {
+                            break;
+                        }
+                    }
+                    return chunk.length === 0 ? DONE : { done: false, value: chunk };
+                },
+                return: close,
+            });
+        },
+
+        peekable(): Peekable<T> {
+            return createPeekable(pull, close);
+        },
+    } as const);
+}
+
+/**
+ * Creates a `Peekable` pulling its values from a JavaScript iterator.
+ *
+ * @param pull - Pulls the next value of the underlying iterator.
+ * @param close - Closes the underlying iterator.
+ * @returns A `Peekable` over the values returned by `pull`.
+ */
+function createPeekable<T>(pull: () => IteratorResult<T>, close: () => IteratorReturnResult<undefined>): Peekable<T> {
+    // The value pulled by `peek` and not consumed yet
+    let peeked: IteratorResult<T> | undefined;
+
+    const peekResult = (): IteratorResult<T> => {
+        peeked ??= pull();
+        return peeked;
+    };
+
+    const iter = fromIterator<T>({
+        next(): IteratorResult<T> {
+            const result = peekResult();
+            peeked = undefined;
+            return result;
+        },
+        return(): IteratorReturnResult<undefined> {
+            peeked = DONE;
+            return close();
+        },
+    });
+
+    return Object.freeze<Peekable<T>>({
+        ...iter,
+
+        peek(): Option<T> {
+            const result = peekResult();
+            return result.done ? None : Some(result.value);
+        },
+
+        nextIf(predicate: (value: T) => boolean): Option<T> {
+            const result = peekResult();
+            if (result.done || !predicate(result.value)) {
+                return None;
+            }
+            peeked = undefined;
+            return Some(result.value);
+        },
+    } as const);
+}
+
+/**
+ * Wraps a callback so that it closes the underlying iterator before rethrowing what it throws,
+ * like an exception thrown in the body of a `for...of` loop.
+ *
+ * @param fn - The callback to wrap.
+ * @param close - Closes the underlying iterator.
+ * @returns A function calling `fn` with the same arguments.
+ */
+function guard<A extends unknown[], R>(fn: (...args: A) => R, close: () => unknown): (...args: A) => R {
+    return (...args) => {
+        try {
+            return fn(...args);
+        } catch (error) {
+            close();
+            throw error;
+        }
+    };
+}
+
+/**
+ * Checks a count argument of an `Iter` method.
+ *
+ * @param method - The name of the method, for the error message.
+ * @param count - The count to check.
+ * @param min - The minimum valid count.
+ * @throws {RangeError} If `count` is not an integer greater than or equal to `min`.
+ */
+function assertCount(method: string, count: number, min: number): void {
+    if (!Number.isInteger(count) || count < min) {
+        throw new RangeError(`Iter.${method}() expects ${min === 0 ? 'a non-negative' : 'a positive'} integer, got ${count}`);
+    }
+}
+
+// #endregion
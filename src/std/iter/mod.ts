@@ -0,0 +1,7 @@
+/**
+ * @module
+ * Main entry point for the iter module.
+ * Re-exports all public APIs from the iter submodules.
+ */
+export * from './async_iter.ts';
+export * from './iter.ts';
@@ -0,0 +1,133 @@
+/**
+ * @module
+ * JSON revival for the tagged shapes produced by `toJSON` on `Result`, `Option` and `ControlFlow`.
+ *
+ * `JSON.stringify` already uses `toJSON`, so `JSON.stringify(Ok(Some(1)))` produces
+ * `{"$kind":"Ok","value":{"$kind":"Some","value":1}}`. `reviver` rebuilds real instances from that JSON,
+ * and the `*FromJSON` helpers parse untrusted input into a `Result` instead of throwing.
+ */
+
+import { Err, isOption, isResult, Ok, tryResult, type Option, type Result } from '../../core/mod.ts';
+import { fromTagged, taggedKind, taggedPayload } from '../../internal/tagged.ts';
+import type { ControlFlow } from '../ops/control_flow.ts';
+import { isControlFlow } from '../ops/guards.ts';
+
+/**
+ * The error returned by `resultFromJSON`, `optionFromJSON` and `controlFlowFromJSON`
+ * when the input is not valid JSON (with the `SyntaxError` as `cause`) or does not describe the expected type.
+ *
+ * @since 1.11.0
+ * @see resultFromJSON
+ * @example
+ * ```ts
+ * const result = resultFromJSON('{"$kind":"Maybe"}');
+ * console.log(result.unwrapErr() instanceof ParseError); // true
+ * ```
+ */
+export class ParseError extends Error {
+    override readonly name = 'ParseError';
+}
+
+/**
+ * A reviver for `JSON.parse` that turns the tagged shapes produced by `toJSON` back into
+ * `Result`, `Option` and `ControlFlow` instances, at any depth.
+ *
+ * An object is revived only if its `$kind` is one of `'Ok'`, `'Err'`, `'Some'`, `'None'`, `'Break'` or `'Continue'`
+ * and it has no other key than the one of that variant (`value` or `error`). Other objects are returned as is.
+ * A missing `value` or `error` is revived as `undefined`, which `JSON.stringify` omits, so `Ok()` or `Continue()`
+ * round-trip too.
+ *
+ * @param _key - The property name, unused.
+ * @param value - The parsed value, whose children have already been revived.
+ * @returns The revived instance, or `value` itself.
+ * @since 1.11.0
+ * @see resultFromJSON
+ * @example
+ * ```ts
+ * const json = JSON.stringify({ user: Some({ name: 'Alice' }), saved: Ok(true) });
+ * const data = JSON.parse(json, reviver);
+ * console.log(data.user.unwrap().name); // 'Alice'
+ * console.log(data.saved.isOk()); // true
+ * ```
+ */
+export function reviver(_key: string, value: unknown): unknown {
+    const kind = taggedKind(value);
+    return kind === undefined ? value : fromTagged(kind, taggedPayload(value as object, kind));
+}
+
+/**
+ * Parses a JSON string produced by `JSON.stringify` of a `Result`, reviving nested instances with `reviver`.
+ *
+ * The type parameters are not checked at runtime; validate the contained values when the input is untrusted.
+ *
+ * @typeParam T - The expected type of the success value.
+ * @typeParam E - The expected type of the error value.
+ * @param json - The JSON string to parse.
+ * @returns `Ok` with the revived `Result`, or `Err` with a `ParseError` if the input is not valid JSON
+ * or does not describe a `Result`.
+ * @since 1.11.0
+ * @see reviver
+ * @example
+ * ```ts
+ * const response = await fetch('/api/save');
+ * const saved = resultFromJSON<number, string>(await response.text());
+ * // Result<Result<number, string>, ParseError>
+ * ```
+ */
+export function resultFromJSON<T = unknown, E = unknown>(json: string): Result<Result<T, E>, ParseError> {
+    return parse(json).andThen(value => isResult<T, E>(value) ? Ok(value) : Err(new ParseError('Expected a serialized Result')));
+}
+
+/**
+ * Parses a JSON string produced by `JSON.stringify` of an `Option`, reviving nested instances with `reviver`.
+ *
+ * The type parameter is not checked at runtime; validate the contained value when the input is untrusted.
+ *
+ * @typeParam T - The expected type of the contained value.
+ * @param json - The JSON string to parse.
+ * @returns `Ok` with the revived `Option`, or `Err` with a `ParseError` if the input is not valid JSON
+ * or does not describe an `Option`.
+ * @since 1.11.0
+ * @see reviver
+ * @example
+ * ```ts
+ * const cached = optionFromJSON<User>(localStorage.getItem('user') ?? '');
+ * // Result<Option<User>, ParseError>
+ * ```
+ */
+export function optionFromJSON<T = unknown>(json: string): Result<Option<T>, ParseError> {
+    return parse(json).andThen(value => isOption<T>(value) ? Ok(value) : Err(new ParseError('Expected a serialized Option')));
+}
+
+/**
+ * Parses a JSON string produced by `JSON.stringify` of a `ControlFlow`, reviving nested instances with `reviver`.
+ *
+ * The type parameters are not checked at runtime; validate the contained values when the input is untrusted.
+ *
+ * @typeParam B - The expected type of the break value.
+ * @typeParam C - The expected type of the continue value.
+ * @param json - The JSON string to parse.
+ * @returns `Ok` with the revived `ControlFlow`, or `Err` with a `ParseError` if the input is not valid JSON
+ * or does not describe a `ControlFlow`.
+ * @since 1.11.0
+ * @see reviver
+ * @example
+ * ```ts
+ * const flow = controlFlowFromJSON<string, number>(message.data);
+ * // Result<ControlFlow<string, number>, ParseError>
+ * ```
+ */
+export function controlFlowFromJSON<B = unknown, C = unknown>(json: string): Result<ControlFlow<B, C>, ParseError> {
+    return parse(json).andThen(value => isControlFlow<B, C>(value) ? Ok(value) : Err(new ParseError('Expected a serialized ControlFlow')));
+}
+
+/**
+ * Parses a JSON string with `reviver`.
+ *
+ * @param json - The JSON string to parse.
+ * @returns `Ok` with the revived value, or `Err` with a `ParseError` caused by the `SyntaxError`.
+ */
+function parse(json: string): Result<unknown, ParseError> {
+    return tryResult<unknown, SyntaxError, []>(() => JSON.parse(json, reviver))
+        .mapErr(error => new ParseError('Invalid JSON', { cause: error }));
+}
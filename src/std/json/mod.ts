@@ -0,0 +1,6 @@
+/**
+ * @module
+ * Main entry point for the json module.
+ * Re-exports all public APIs from the json submodules.
+ */
+export * from './json.ts';
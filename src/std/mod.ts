@@ -1,7 +1,13 @@
 /**
  * @module
  * Main entry point for the std module.
- * Re-exports all public APIs from sync and ops submodules.
+ * Re-exports all public APIs from clone, cmp, collections, fmt, iter, json, ops and sync submodules.
  */
+export * from './clone/mod.ts';
+export * from './cmp/mod.ts';
+export * from './collections/mod.ts';
+export * from './fmt/mod.ts';
+export * from './iter/mod.ts';
+export * from './json/mod.ts';
 export * from './ops/mod.ts';
 export * from './sync/mod.ts';
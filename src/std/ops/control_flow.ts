@@ -4,6 +4,7 @@
  */
 
 import { Err, None, Ok, Some, type Option, type Result } from '../../core/mod.ts';
+import { inspectVariant, InspectSymbol, type InspectFunction, type InspectOptions } from '../../internal/inspect.ts';
 import { ControlFlowKindSymbol } from './symbols.ts';
 
 /**
@@ -100,6 +101,37 @@ export interface ControlFlow<B, C = void> {
      */
     toString(): string;
 
+    /**
+     * Custom inspection used by `util.inspect` and `console.log` in Node.js, Deno and Bun.
+     * The contained value is inspected with the options of the surrounding output,
+     * so a `ControlFlow` prints as `Break({ a: 1 })` instead of `Break([object Object])`.
+     *
+     * @param depth - The remaining depth.
+     * @param options - The options of the surrounding `util.inspect` call.
+     * @param inspect - The `util.inspect` function.
+     * @returns The inspected representation.
+     * @example
+     * ```ts
+     * console.log(Break({ a: 1 })); // Break({ a: 1 })
+     * console.log(Continue([1, 2])); // Continue([ 1, 2 ])
+     * ```
+     */
+    [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string;
+
+    /**
+     * Returns the tagged JSON shape of the `ControlFlow`, called by `JSON.stringify`.
+     *
+     * Use `reviver` or `controlFlowFromJSON` to turn the JSON back into a `ControlFlow`.
+     * @since 1.11.0
+     * @see ControlFlowJSON
+     * @example
+     * ```ts
+     * console.log(JSON.stringify(Break(5))); // '{"$kind":"Break","value":5}'
+     * console.log(JSON.stringify(Continue('ok'))); // '{"$kind":"Continue","value":"ok"}'
+     * ```
+     */
+    toJSON(): ControlFlowJSON<B, C>;
+
     /**
      * Returns `true` if this is a `Break` variant.
      *
@@ -221,8 +253,80 @@ export interface ControlFlow<B, C = void> {
      * ```
      */
     intoValue(this: ControlFlow<B, B>): B;
+
+    /**
+     * Calls the `Break` arm with the break value or the `Continue` arm with the continue value, and returns what it returns.
+     *
+     * @typeParam U - The return type of the `Break` arm.
+     * @typeParam V - The return type of the `Continue` arm.
+     * @param matcher - An object with a `Break` and a `Continue` arm.
+     * @returns The value returned by the arm that was called.
+     * @since 1.11.0
+     * @see matchAsync
+     * @example
+     * ```ts
+     * const message = flow.match({
+     *     Break: value => `stopped at ${value}`,
+     *     Continue: () => 'finished',
+     * });
+     * ```
+     */
+    match<U, V>(matcher: ControlFlowMatcher<B, C, U, V>): U | V;
+
+    /**
+     * Asynchronous version of `match`. The arms may return a `PromiseLike`, which is awaited.
+     *
+     * @typeParam U - The return type of the `Break` arm.
+     * @typeParam V - The return type of the `Continue` arm.
+     * @param matcher - An object with a `Break` and a `Continue` arm.
+     * @returns A promise that resolves to the awaited value returned by the arm that was called.
+     * @since 1.11.0
+     * @see match
+     * @example
+     * ```ts
+     * await flow.matchAsync({
+     *     Break: value => report(value),
+     *     Continue: acc => persist(acc),
+     * });
+     * ```
+     */
+    matchAsync<U, V>(matcher: ControlFlowMatcher<B, C, U, V>): Promise<Awaited<U | V>>;
 }
 
+/**
+ * The arms passed to `ControlFlow.match`, one for each variant.
+ *
+ * @typeParam B - The type of the break value.
+ * @typeParam C - The type of the continue value.
+ * @typeParam U - The return type of the `Break` arm.
+ * @typeParam V - The return type of the `Continue` arm.
+ * @since 1.11.0
+ * @see ControlFlow.match
+ */
+export interface ControlFlowMatcher<B, C, U, V> {
+    /**
+     * Called with the break value if the `ControlFlow` is `Break`.
+     */
+    readonly Break: (value: B) => U;
+
+    /**
+     * Called with the continue value if the `ControlFlow` is `Continue`.
+     */
+    readonly Continue: (value: C) => V;
+}
+
+/**
+ * The JSON shape of a `ControlFlow`, returned by `ControlFlow.toJSON`.
+ *
+ * @typeParam B - The type of the break value.
+ * @typeParam C - The type of the continue value.
+ * @since 1.11.0
+ * @see ControlFlow.toJSON
+ */
+export type ControlFlowJSON<B, C> =
+    | { readonly $kind: 'Break'; readonly value: B; }
+    | { readonly $kind: 'Continue'; readonly value: C; };
+
 /**
  * Creates a `Break` variant of `ControlFlow`.
  *
@@ -268,6 +372,12 @@ export function Break<B, C>(value?: B): ControlFlow<B, C> {
         toString(): string {
             return `Break(${value})`;
         },
+        [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string {
+            return inspectVariant('Break', [value], depth, options, inspect);
+        },
+        toJSON(): ControlFlowJSON<B, C> {
+            return { $kind: 'Break', value: value as B };
+        },
 
         isBreak(): true {
             return true;
@@ -296,6 +406,13 @@ export function Break<B, C>(value?: B): ControlFlow<B, C> {
         intoValue(): B {
             return value as B;
         },
+
+        match<U, V>(matcher: ControlFlowMatcher<B, C, U, V>): U {
+            return matcher.Break(value as B);
+        },
+        matchAsync<U, V>(matcher: ControlFlowMatcher<B, C, U, V>): Promise<Awaited<U>> {
+            return Promise.resolve(matcher.Break(value as B));
+        },
     } as const);
 
     return brk;
@@ -345,6 +462,12 @@ export function Continue<B, C>(value?: C): ControlFlow<B, C> {
         toString(): string {
             return `Continue(${value})`;
         },
+        [InspectSymbol](depth: number, options: InspectOptions, inspect?: InspectFunction): string {
+            return inspectVariant('Continue', [value], depth, options, inspect);
+        },
+        toJSON(): ControlFlowJSON<B, C> {
+            return { $kind: 'Continue', value: value as C };
+        },
 
         isBreak(): false {
             return false;
@@ -373,6 +496,13 @@ export function Continue<B, C>(value?: C): ControlFlow<B, C> {
         intoValue(): B {
             return value as unknown as B;
         },
+
+        match<U, V>(matcher: ControlFlowMatcher<B, C, U, V>): V {
+            return matcher.Continue(value as C);
+        },
+        matchAsync<U, V>(matcher: ControlFlowMatcher<B, C, U, V>): Promise<Awaited<V>> {
+            return Promise.resolve(matcher.Continue(value as C));
+        },
     } as const);
 
     return cont;
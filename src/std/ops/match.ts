@@ -0,0 +1,211 @@
+/**
+ * @module
+ * Free-function forms of the `match` methods of `Result`, `Option`, `Validation` and `ControlFlow`.
+ *
+ * `match(value, matcher)` reads like Rust's `match value { ... }` and is handy in pipelines
+ * or when the value comes from an expression that would be awkward to call a method on.
+ */
+
+import {
+    isOption,
+    isResult,
+    isValidation,
+    type AsyncLikeOption,
+    type AsyncLikeResult,
+    type Option,
+    type OptionMatcher,
+    type Result,
+    type ResultMatcher,
+    type Validation,
+    type ValidationMatcher,
+} from '../../core/mod.ts';
+import { safeStringify } from '../../internal/assert.ts';
+import type { ControlFlow, ControlFlowMatcher } from './control_flow.ts';
+import { isControlFlow } from './guards.ts';
+
+/**
+ * The common shape of the values accepted by `match` and `matchAsync`.
+ */
+interface Matchable {
+    match(matcher: unknown): unknown;
+    matchAsync(matcher: unknown): Promise<unknown>;
+}
+
+/**
+ * Calls the `Ok` arm with the success value or the `Err` arm with the error, and returns what it returns.
+ *
+ * @typeParam T - The type of the success value.
+ * @typeParam E - The type of the error value.
+ * @typeParam U - The return type of the `Ok` arm.
+ * @typeParam V - The return type of the `Err` arm.
+ * @param result - The `Result` to match.
+ * @param matcher - An object with an `Ok` and an `Err` arm.
+ * @returns The value returned by the arm that was called.
+ * @throws {TypeError} If the value is not a `Result`, an `Option`, a `Validation` or a `ControlFlow`.
+ * @since 1.11.0
+ * @see Result.match
+ * @example
+ * ```ts
+ * const text = match(parse(input), {
+ *     Ok: value => `parsed ${value}`,
+ *     Err: error => `failed: ${error.message}`,
+ * });
+ * ```
+ */
+export function match<T, E, U, V>(result: Result<T, E>, matcher: ResultMatcher<T, E, U, V>): U | V;
+/**
+ * Calls the `Some` arm with the contained value or the `None` arm, and returns what it returns.
+ *
+ * @typeParam T - The type of the contained value.
+ * @typeParam U - The return type of the `Some` arm.
+ * @typeParam V - The return type of the `None` arm.
+ * @param option - The `Option` to match.
+ * @param matcher - An object with a `Some` and a `None` arm.
+ * @returns The value returned by the arm that was called.
+ * @since 1.11.0
+ * @see Option.match
+ * @example
+ * ```ts
+ * const name = match(findUser(id), {
+ *     Some: user => user.name,
+ *     None: () => 'guest',
+ * });
+ * ```
+ */
+export function match<T, U, V>(option: Option<T>, matcher: OptionMatcher<T, U, V>): U | V;
+/**
+ * Calls the `Valid` arm with the valid value or the `Invalid` arm with the errors, and returns what it returns.
+ *
+ * @typeParam T - The type of the valid value.
+ * @typeParam E - The type of each error.
+ * @typeParam U - The return type of the `Valid` arm.
+ * @typeParam V - The return type of the `Invalid` arm.
+ * @param validation - The `Validation` to match.
+ * @param matcher - An object with a `Valid` and an `Invalid` arm.
+ * @returns The value returned by the arm that was called.
+ * @since 1.11.0
+ * @see Validation.match
+ * @example
+ * ```ts
+ * const status = match(validateForm(body), {
+ *     Valid: () => 201,
+ *     Invalid: () => 422,
+ * });
+ * ```
+ */
+export function match<T, E, U, V>(validation: Validation<T, E>, matcher: ValidationMatcher<T, E, U, V>): U | V;
+/**
+ * Calls the `Break` arm with the break value or the `Continue` arm with the continue value, and returns what it returns.
+ *
+ * @typeParam B - The type of the break value.
+ * @typeParam C - The type of the continue value.
+ * @typeParam U - The return type of the `Break` arm.
+ * @typeParam V - The return type of the `Continue` arm.
+ * @param flow - The `ControlFlow` to match.
+ * @param matcher - An object with a `Break` and a `Continue` arm.
+ * @returns The value returned by the arm that was called.
+ * @since 1.11.0
+ * @see ControlFlow.match
+ * @example
+ * ```ts
+ * const total = match(flow, {
+ *     Break: partial => partial,
+ *     Continue: sum => sum,
+ * });
+ * ```
+ */
+export function match<B, C, U, V>(flow: ControlFlow<B, C>, matcher: ControlFlowMatcher<B, C, U, V>): U | V;
+export function match(value: unknown, matcher: unknown): unknown {
+    assertMatchable(value);
+    return value.match(matcher);
+}
+
+/**
+ * Asynchronous version of `match` for a `Result` or a `PromiseLike` of a `Result`.
+ * The value is awaited first, and the arms may return a `PromiseLike`, which is awaited too.
+ *
+ * @typeParam T - The type of the success value.
+ * @typeParam E - The type of the error value.
+ * @typeParam U - The return type of the `Ok` arm.
+ * @typeParam V - The return type of the `Err` arm.
+ * @param result - The `Result` to match, or a `PromiseLike` of it.
+ * @param matcher - An object with an `Ok` and an `Err` arm.
+ * @returns A promise that resolves to the awaited value returned by the arm that was called.
+ * It rejects with a `TypeError` if the awaited value is not a `Result`, an `Option`, a `Validation` or a `ControlFlow`.
+ * @since 1.11.0
+ * @see Result.matchAsync
+ * @example
+ * ```ts
+ * const user = await matchAsync(fetchUser(id), {
+ *     Ok: user => user,
+ *     Err: () => fetchGuest(),
+ * });
+ * ```
+ */
+export function matchAsync<T, E, U, V>(result: AsyncLikeResult<T, E> | Result<T, E>, matcher: ResultMatcher<T, E, U, V>): Promise<Awaited<U | V>>;
+/**
+ * Asynchronous version of `match` for an `Option` or a `PromiseLike` of an `Option`.
+ * The value is awaited first, and the arms may return a `PromiseLike`, which is awaited too.
+ *
+ * @typeParam T - The type of the contained value.
+ * @typeParam U - The return type of the `Some` arm.
+ * @typeParam V - The return type of the `None` arm.
+ * @param option - The `Option` to match, or a `PromiseLike` of it.
+ * @param matcher - An object with a `Some` and a `None` arm.
+ * @returns A promise that resolves to the awaited value returned by the arm that was called.
+ * @since 1.11.0
+ * @see Option.matchAsync
+ * @example
+ * ```ts
+ * const profile = await matchAsync(cache.get(id), {
+ *     Some: profile => profile,
+ *     None: () => fetchProfile(id),
+ * });
+ * ```
+ */
+export function matchAsync<T, U, V>(option: AsyncLikeOption<T> | Option<T>, matcher: OptionMatcher<T, U, V>): Promise<Awaited<U | V>>;
+/**
+ * Asynchronous version of `match` for a `Validation` or a `PromiseLike` of a `Validation`.
+ *
+ * @typeParam T - The type of the valid value.
+ * @typeParam E - The type of each error.
+ * @typeParam U - The return type of the `Valid` arm.
+ * @typeParam V - The return type of the `Invalid` arm.
+ * @param validation - The `Validation` to match, or a `PromiseLike` of it.
+ * @param matcher - An object with a `Valid` and an `Invalid` arm.
+ * @returns A promise that resolves to the awaited value returned by the arm that was called.
+ * @since 1.11.0
+ * @see Validation.matchAsync
+ */
+export function matchAsync<T, E, U, V>(validation: PromiseLike<Validation<T, E>> | Validation<T, E>, matcher: ValidationMatcher<T, E, U, V>): Promise<Awaited<U | V>>;
+/**
+ * Asynchronous version of `match` for a `ControlFlow` or a `PromiseLike` of a `ControlFlow`.
+ *
+ * @typeParam B - The type of the break value.
+ * @typeParam C - The type of the continue value.
+ * @typeParam U - The return type of the `Break` arm.
+ * @typeParam V - The return type of the `Continue` arm.
+ * @param flow - The `ControlFlow` to match, or a `PromiseLike` of it.
+ * @param matcher - An object with a `Break` and a `Continue` arm.
+ * @returns A promise that resolves to the awaited value returned by the arm that was called.
+ * @since 1.11.0
+ * @see ControlFlow.matchAsync
+ */
+export function matchAsync<B, C, U, V>(flow: PromiseLike<ControlFlow<B, C>> | ControlFlow<B, C>, matcher: ControlFlowMatcher<B, C, U, V>): Promise<Awaited<U | V>>;
+export async function matchAsync(value: unknown, matcher: unknown): Promise<unknown> {
+    const awaited = await value;
+    assertMatchable(awaited);
+    return awaited.matchAsync(matcher);
+}
+
+/**
+ * Asserts that a value is a `Result`, an `Option`, a `Validation` or a `ControlFlow`.
+ *
+ * @param value - The value to check.
+ * @throws {TypeError} If the value is none of the supported types.
+ */
+function assertMatchable(value: unknown): asserts value is Matchable {
+    if (!isResult(value) && !isOption(value) && !isValidation(value) && !isControlFlow(value)) {
+        throw new TypeError(`Expected a Result, Option, Validation or ControlFlow, but received: ${safeStringify(value)}`);
+    }
+}
@@ -7,3 +7,4 @@ export * from './control_flow.ts';
 export * from './fn_once.ts';
 export * from './fn_once_async.ts';
 export * from './guards.ts';
+export * from './match.ts';
@@ -0,0 +1,44 @@
+/**
+ * @module
+ * Cancellation of the waiting operations of the sync primitives with an `AbortSignal`.
+ */
+
+/**
+ * The error rejecting a waiting operation of a sync primitive when its `AbortSignal` aborts,
+ * with the `reason` of the signal as `cause`.
+ *
+ * Its `name` is `'AbortError'`, like the `DOMException` thrown by `fetch`,
+ * so existing `error.name === 'AbortError'` checks keep working.
+ *
+ * @since 1.11.0
+ * @see AbortOptions
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * const pending = mutex.lock({ signal: controller.signal });
+ * controller.abort();
+ *
+ * await pending.catch(error => console.log(error instanceof AbortError)); // true
+ * ```
+ */
+export class AbortError extends Error {
+    override readonly name = 'AbortError';
+}
+
+/**
+ * The options of the waiting operations of the sync primitives.
+ *
+ * @since 1.11.0
+ * @see AbortError
+ */
+export interface AbortOptions {
+    /**
+     * A signal cancelling the wait.
+     *
+     * When it aborts, the caller is removed from the wait queue and the returned promise rejects with an `AbortError`,
+     * so no lock, permit or message is taken on its behalf.
+     * A signal already aborted rejects immediately, even if the operation could complete without waiting.
+     * Aborting after the operation completed has no effect.
+     */
+    readonly signal?: AbortSignal;
+}
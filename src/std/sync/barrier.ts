@@ -0,0 +1,211 @@
+/**
+ * @module
+ * Rust-inspired [Barrier](https://doc.rust-lang.org/std/sync/struct.Barrier.html) for making a fixed number of
+ * async tasks wait for each other.
+ *
+ * A `Barrier(n)` holds back the tasks calling `wait()` until `n` of them have arrived, then releases them all at once.
+ * It is reusable: once released, the next `n` calls to `wait()` form a new generation.
+ */
+
+import { abortError, parkWaiter } from '../../internal/waiter.ts';
+import type { AbortOptions } from './abort.ts';
+
+/**
+ * Tells whether a task was the leader of its `Barrier` generation.
+ *
+ * @since 1.11.0
+ * @see https://doc.rust-lang.org/std/sync/struct.BarrierWaitResult.html
+ */
+export interface BarrierWaitResult {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'BarrierWaitResult'` so that `Object.prototype.toString.call(result)` produces `'[object BarrierWaitResult]'`.
+     */
+    readonly [Symbol.toStringTag]: 'BarrierWaitResult';
+
+    /**
+     * Custom `toString` implementation.
+     * @example
+     * ```ts
+     * const result = await barrier.wait();
+     * console.log(result.toString()); // 'BarrierWaitResult(<leader>)' or 'BarrierWaitResult(<follower>)'
+     * ```
+     */
+    toString(): string;
+
+    /**
+     * Returns `true` for exactly one task of each generation: the last one to arrive.
+     *
+     * @example
+     * ```ts
+     * const result = await barrier.wait();
+     * if (result.isLeader()) {
+     *     console.log('All workers are ready');
+     * }
+     * ```
+     */
+    isLeader(): boolean;
+}
+
+/**
+ * A barrier making `n` async tasks wait until all of them have reached the same point.
+ *
+ * The first `n - 1` calls to `wait()` wait; the `n`-th call releases them all and resolves immediately.
+ * The last task to arrive is the leader of the generation, so one task can run a step on behalf of all.
+ * The barrier is then ready for the next generation.
+ *
+ * @since 1.11.0
+ * @see https://doc.rust-lang.org/std/sync/struct.Barrier.html
+ * @example
+ * ```ts
+ * const barrier = Barrier(3);
+ *
+ * async function worker(id: number): Promise<void> {
+ *     await loadShard(id);
+ *     // Waits until the 3 shards are loaded
+ *     const result = await barrier.wait();
+ *     if (result.isLeader()) {
+ *         buildIndex();
+ *     }
+ * }
+ *
+ * await Promise.all([worker(0), worker(1), worker(2)]);
+ * ```
+ */
+export interface Barrier {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'Barrier'` so that `Object.prototype.toString.call(barrier)` produces `'[object Barrier]'`.
+     */
+    readonly [Symbol.toStringTag]: 'Barrier';
+
+    /**
+     * Custom `toString` implementation showing arrived/parties of the current generation.
+     *
+     * @example
+     * ```ts
+     * const barrier = Barrier(3);
+     * console.log(barrier.toString()); // 'Barrier(0/3)'
+     * barrier.wait();
+     * console.log(barrier.toString()); // 'Barrier(1/3)'
+     * ```
+     */
+    toString(): string;
+
+    /**
+     * The number of tasks released together, set at construction.
+     *
+     * @example
+     * ```ts
+     * const barrier = Barrier(4);
+     * console.log(barrier.parties); // 4
+     * ```
+     */
+    readonly parties: number;
+
+    /**
+     * Waits until `parties` tasks, this one included, have called `wait()` in the current generation.
+     *
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
+     * @returns A promise that resolves to a {@link BarrierWaitResult} once the generation is complete.
+     * @throws {AbortError} Rejects if the signal aborts before the generation is complete.
+     * The task then no longer counts as arrived, so the generation waits for another one.
+     * @example
+     * ```ts
+     * const barrier = Barrier(2);
+     * const [a, b] = await Promise.all([barrier.wait(), barrier.wait()]);
+     * console.log(a.isLeader(), b.isLeader()); // false true
+     * ```
+     */
+    wait(options?: AbortOptions): Promise<BarrierWaitResult>;
+}
+
+/**
+ * Creates a new `Barrier` releasing `parties` tasks at a time.
+ *
+ * @param parties - The number of tasks to wait for. Must be a positive integer;
+ *                  with `1`, every call to `wait()` resolves immediately as the leader.
+ * @returns A new `Barrier` instance.
+ * @throws {RangeError} If `parties` is not a positive integer.
+ * @example
+ * ```ts
+ * // Runs the rounds of 4 workers in lockstep
+ * const round = Barrier(4);
+ *
+ * async function worker(id: number): Promise<void> {
+ *     for (let step = 0; step < 10; step++) {
+ *         await compute(id, step);
+ *         await round.wait();
+ *     }
+ * }
+ * ```
+ */
+export function Barrier(parties: number): Barrier {
+    if (!Number.isInteger(parties) || parties < 1) {
+        throw new RangeError(`Barrier parties must be a positive integer, got ${parties}`);
+    }
+
+    // Tasks of the current generation waiting for the last one
+    const waitQueue: (() => void)[] = [];
+
+    return Object.freeze<Barrier>({
+        [Symbol.toStringTag]: 'Barrier',
+
+        toString(): string {
+            return `Barrier(${waitQueue.length}/${parties})`;
+        },
+
+        parties,
+
+        wait(options?: AbortOptions): Promise<BarrierWaitResult> {
+            const signal = options?.signal;
+            if (signal?.aborted) {
+                return Promise.reject(abortError(signal));
+            }
+
+            if (waitQueue.length === parties - 1) {
+                // The last task releases its generation and starts the next one
+                for (const next of waitQueue.splice(0)) {
+                    next();
+                }
+                return Promise.resolve(LEADER);
+            }
+
+            // An aborted task leaves the queue, so it no longer counts as arrived
+            return parkWaiter(waitQueue, wake => () => {
+                wake(FOLLOWER);
+            }, { signal });
+        },
+    } as const);
+}
+
+// #region Internal helpers
+
+/**
+ * Creates a `BarrierWaitResult`.
+ */
+function createBarrierWaitResult(leader: boolean): BarrierWaitResult {
+    return Object.freeze<BarrierWaitResult>({
+        [Symbol.toStringTag]: 'BarrierWaitResult',
+
+        toString(): string {
+            return leader ? 'BarrierWaitResult(<leader>)' : 'BarrierWaitResult(<follower>)';
+        },
+
+        isLeader(): boolean {
+            return leader;
+        },
+    } as const);
+}
+
+/**
+ * The result of the last task to arrive.
+ */
+const LEADER = createBarrierWaitResult(true);
+
+/**
+ * The result of the other tasks.
+ */
+const FOLLOWER = createBarrierWaitResult(false);
+
+// #endregion
@@ -9,6 +9,10 @@
 
 import { ASYNC_FALSE, ASYNC_TRUE } from '../../internal/constants.ts';
 import { ASYNC_NONE, None, Some, type AsyncOption, type Option } from '../../core/mod.ts';
+import { AsyncDisposeSymbol } from '../../internal/dispose.ts';
+import { abortError, parkWaiter } from '../../internal/waiter.ts';
+import { VecDeque } from '../collections/vec_deque.ts';
+import type { AbortOptions } from './abort.ts';
 
 /**
  * A sender view of a channel that can only send values.
@@ -83,7 +87,9 @@ export interface Sender<T> {
      * - If the channel is closed, returns `false` immediately.
      *
      * @param value - The value to send.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for space.
      * @returns A promise that resolves to `true` if sent successfully, `false` if the channel is closed.
+     * @throws {AbortError} Rejects if the signal aborts before the value is sent; the value is then never received.
      * @see {@link Channel.send}
      * @example
      * ```ts
@@ -93,7 +99,7 @@ export interface Sender<T> {
      * }
      * ```
      */
-    send(value: T): Promise<boolean>;
+    send(value: T, options?: AbortOptions): Promise<boolean>;
 
     /**
      * Attempts to send a value without waiting.
@@ -122,8 +128,10 @@ export interface Sender<T> {
      *
      * @param value - The value to send.
      * @param ms - Timeout in milliseconds.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for space.
      * @returns A promise that resolves to `true` if sent successfully,
      *          `false` if timed out, channel is full, or closed.
+     * @throws {AbortError} Rejects if the signal aborts before the value is sent and before the timeout.
      *
      * @see {@link Channel.sendTimeout}
      * @example
@@ -134,7 +142,26 @@ export interface Sender<T> {
      * }
      * ```
      */
-    sendTimeout(value: T, ms: number): Promise<boolean>;
+    sendTimeout(value: T, ms: number, options?: AbortOptions): Promise<boolean>;
+
+    /**
+     * Closes the channel like `Channel.close()` when an `await using` declaration goes out of scope.
+     *
+     * This closes the whole channel, not only this view: use it for the last (or only) producer.
+     *
+     * @since 1.11.0
+     * @see {@link Channel.close}
+     * @example
+     * ```ts
+     * async function produce(sender: Sender<number>) {
+     *     await using tx = sender;
+     *     for (let i = 0; i < 3; i++) {
+     *         await tx.send(i);
+     *     }
+     * } // the channel is closed here, ending the consumers' `for await` loops
+     * ```
+     */
+    [Symbol.asyncDispose](): Promise<void>;
 }
 
 /**
@@ -157,6 +184,9 @@ export interface Receiver<T> {
     /**
      * Returns an async iterator that yields values until the channel is closed.
      *
+     * Closing the iterator, such as by breaking out of a `for await...of` loop, cancels its pending receive
+     * without closing the channel, so the values sent afterwards are left to the other receivers.
+     *
      * @example
      * ```ts
      * for await (const msg of receiver) {
@@ -223,7 +253,9 @@ export interface Receiver<T> {
      * - If the buffer is empty and not closed, waits for a value.
      * - If the channel is closed and empty, returns `None`.
      *
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for a value.
      * @returns A promise that resolves to `Some(value)` or `None` if closed and empty.
+     * @throws {AbortError} Rejects if the signal aborts before a value is received; no value is taken from the channel.
      * @see {@link Channel.receive}
      * @example
      * ```ts
@@ -235,7 +267,7 @@ export interface Receiver<T> {
      * }
      * ```
      */
-    receive(): AsyncOption<T>;
+    receive(options?: AbortOptions): AsyncOption<T>;
 
     /**
      * Attempts to receive a value without waiting.
@@ -261,8 +293,10 @@ export interface Receiver<T> {
      * within the specified timeout.
      *
      * @param ms - Timeout in milliseconds.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for a value.
      * @returns A promise that resolves to `Some(value)` or `None` if timed out,
      *          empty, or closed.
+     * @throws {AbortError} Rejects if the signal aborts before a value is received and before the timeout.
      *
      * @see {@link Channel.receiveTimeout}
      * @example
@@ -273,7 +307,7 @@ export interface Receiver<T> {
      * }
      * ```
      */
-    receiveTimeout(ms: number): AsyncOption<T>;
+    receiveTimeout(ms: number, options?: AbortOptions): AsyncOption<T>;
 }
 
 /**
@@ -324,6 +358,9 @@ export interface Channel<T> {
     /**
      * Returns an async iterator that yields values until the channel is closed.
      *
+     * Closing the iterator, such as by breaking out of a `for await...of` loop, cancels its pending receive
+     * without closing the channel.
+     *
      * @example
      * ```ts
      * for await (const msg of channel) {
@@ -470,7 +507,9 @@ export interface Channel<T> {
      * - If the channel is closed, returns `false` immediately.
      *
      * @param value - The value to send.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for space.
      * @returns A promise that resolves to `true` if sent successfully, `false` if the channel is closed.
+     * @throws {AbortError} Rejects if the signal aborts before the value is sent; the value is then never received.
      * @example
      * ```ts
      * const ch = Channel<number>(1);
@@ -480,7 +519,7 @@ export interface Channel<T> {
      * const ok2 = await ch.send(2); // false
      * ```
      */
-    send(value: T): Promise<boolean>;
+    send(value: T, options?: AbortOptions): Promise<boolean>;
 
     /**
      * Attempts to send a value without waiting.
@@ -509,8 +548,10 @@ export interface Channel<T> {
      *
      * @param value - The value to send.
      * @param ms - Timeout in milliseconds.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for space.
      * @returns A promise that resolves to `true` if sent successfully,
      *          `false` if timed out, channel is full, or closed.
+     * @throws {AbortError} Rejects if the signal aborts before the value is sent and before the timeout.
      *
      * @example
      * ```ts
@@ -520,7 +561,7 @@ export interface Channel<T> {
      * const ok = await ch.sendTimeout(123, 10); // false
      * ```
      */
-    sendTimeout(value: T, ms: number): Promise<boolean>;
+    sendTimeout(value: T, ms: number, options?: AbortOptions): Promise<boolean>;
 
     /**
      * Receives a value from the channel, waiting if necessary.
@@ -530,7 +571,9 @@ export interface Channel<T> {
      * - If the buffer is empty and not closed, waits for a value.
      * - If the channel is closed and empty, returns `None`.
      *
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for a value.
      * @returns A promise that resolves to `Some(value)` or `None` if closed and empty.
+     * @throws {AbortError} Rejects if the signal aborts before a value is received; no value is taken from the channel.
      * @example
      * ```ts
      * const ch = Channel<number>(10);
@@ -541,7 +584,7 @@ export interface Channel<T> {
      * const v2 = await ch.receive(); // None
      * ```
      */
-    receive(): AsyncOption<T>;
+    receive(options?: AbortOptions): AsyncOption<T>;
 
     /**
      * Attempts to receive a value without waiting.
@@ -566,8 +609,10 @@ export interface Channel<T> {
      * within the specified timeout.
      *
      * @param ms - Timeout in milliseconds.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for a value.
      * @returns A promise that resolves to `Some(value)` or `None` if timed out,
      *          empty, or closed.
+     * @throws {AbortError} Rejects if the signal aborts before a value is received and before the timeout.
      *
      * @example
      * ```ts
@@ -576,7 +621,7 @@ export interface Channel<T> {
      * console.log(v.isNone()); // true
      * ```
      */
-    receiveTimeout(ms: number): AsyncOption<T>;
+    receiveTimeout(ms: number, options?: AbortOptions): AsyncOption<T>;
 
     /**
      * Closes the channel.
@@ -603,6 +648,20 @@ export interface Channel<T> {
      * ```
      */
     close(): void;
+
+    /**
+     * Closes the channel like `close()` when an `await using` declaration goes out of scope.
+     *
+     * @since 1.11.0
+     * @example
+     * ```ts
+     * {
+     *     await using ch = Channel<number>(10);
+     *     await ch.send(1);
+     * } // closed here
+     * ```
+     */
+    [Symbol.asyncDispose](): Promise<void>;
 }
 
 /**
@@ -673,7 +732,7 @@ export function Channel<T>(capacity = Infinity): Channel<T> {
         throw new RangeError('Channel capacity must be a non-negative integer or Infinity');
     }
 
-    const buffer = new Queue<T>();
+    const buffer = VecDeque<T>();
     let closed = false;
 
     // Senders waiting for space (or for a receiver in rendezvous mode)
@@ -686,7 +745,12 @@ export function Channel<T>(capacity = Infinity): Channel<T> {
     let cachedSender: Sender<T> | undefined;
     let cachedReceiver: Receiver<T> | undefined;
 
-    function send(value: T): Promise<boolean> {
+    function send(value: T, options?: AbortOptions): Promise<boolean> {
+        const signal = options?.signal;
+        if (signal?.aborted) {
+            return Promise.reject(abortError(signal));
+        }
+
         if (closed) {
             return ASYNC_FALSE;
         }
@@ -696,9 +760,7 @@ export function Channel<T>(capacity = Infinity): Channel<T> {
         }
 
         // Buffer is full (or capacity is 0), wait for space
-        return new Promise<boolean>((resolve) => {
-            sendWaitQueue.push({ value, resolve });
-        });
+        return parkWaiter(sendWaitQueue, (resolve): SendWaiter => ({ value, resolve }), options);
     }
 
     function trySend(value: T): boolean {
@@ -715,14 +777,19 @@ export function Channel<T>(capacity = Infinity): Channel<T> {
 
         // If buffer has space, add to buffer
         if (buffer.length < capacity) {
-            buffer.push(value);
+            buffer.pushBack(value);
             return true;
         }
 
         return false;
     }
 
-    function receive(): AsyncOption<T> {
+    function receive(options?: AbortOptions): AsyncOption<T> {
+        const signal = options?.signal;
+        if (signal?.aborted) {
+            return Promise.reject(abortError(signal));
+        }
+
         const result = tryReceive();
         if (result.isSome()) {
             return Promise.resolve(result);
@@ -733,20 +800,18 @@ export function Channel<T>(capacity = Infinity): Channel<T> {
         }
 
         // Wait for a value
-        return new Promise<Option<T>>((resolve) => {
-            receiveWaitQueue.push(resolve);
-        });
+        return parkWaiter<Option<T>, ReceiveWaiter>(receiveWaitQueue, resolve => resolve, options);
     }
 
     function tryReceive(): Option<T> {
         // If buffer has items, return one
         if (buffer.length > 0) {
-            const value = buffer.shift() as T;
+            const value = buffer.popFront().unwrap();
 
             // Wake up a waiting sender if any
             if (sendWaitQueue.length > 0) {
                 const sender = sendWaitQueue.shift() as SendWaiter;
-                buffer.push(sender.value);
+                buffer.pushBack(sender.value);
                 sender.resolve(true);
             }
 
@@ -782,7 +847,12 @@ export function Channel<T>(capacity = Infinity): Channel<T> {
         }
     }
 
-    function sendTimeout(value: T, ms: number): Promise<boolean> {
+    function sendTimeout(value: T, ms: number, options?: AbortOptions): Promise<boolean> {
+        const signal = options?.signal;
+        if (signal?.aborted) {
+            return Promise.reject(abortError(signal));
+        }
+
         if (closed) {
             return ASYNC_FALSE;
         }
@@ -792,26 +862,18 @@ export function Channel<T>(capacity = Infinity): Channel<T> {
         }
 
         // Buffer is full, wait with timeout
-        return new Promise<boolean>((resolve) => {
-            const waiter: SendWaiter = { value, resolve };
-            sendWaitQueue.push(waiter);
-
-            const timeoutId = setTimeout(() => {
-                const index = sendWaitQueue.indexOf(waiter);
-                sendWaitQueue.splice(index, 1);
-                resolve(false);
-            }, ms);
-
-            // Wrap the original resolve to clear the timeout
-            const originalResolve = waiter.resolve;
-            waiter.resolve = (success: boolean) => {
-                clearTimeout(timeoutId);
-                originalResolve(success);
-            };
+        return parkWaiter(sendWaitQueue, (resolve): SendWaiter => ({ value, resolve }), {
+            signal,
+            timeout: { ms, value: false },
         });
     }
 
-    function receiveTimeout(ms: number): AsyncOption<T> {
+    function receiveTimeout(ms: number, options?: AbortOptions): AsyncOption<T> {
+        const signal = options?.signal;
+        if (signal?.aborted) {
+            return Promise.reject(abortError(signal));
+        }
+
         const result = tryReceive();
         if (result.isSome()) {
             return Promise.resolve(result);
@@ -822,31 +884,36 @@ export function Channel<T>(capacity = Infinity): Channel<T> {
         }
 
         // Wait with timeout
-        return new Promise<Option<T>>((resolve) => {
-            const wrappedWaiter: ReceiveWaiter = (value) => {
-                clearTimeout(timeoutId);
-                resolve(value);
-            };
-
-            receiveWaitQueue.push(wrappedWaiter);
-
-            const timeoutId = setTimeout(() => {
-                const index = receiveWaitQueue.indexOf(wrappedWaiter);
-                receiveWaitQueue.splice(index, 1);
-                resolve(None);
-            }, ms);
+        return parkWaiter<Option<T>, ReceiveWaiter>(receiveWaitQueue, resolve => resolve, {
+            signal,
+            timeout: { ms, value: None },
         });
     }
 
+    function asyncDispose(): Promise<void> {
+        close();
+        return Promise.resolve();
+    }
+
     function asyncIterator(): AsyncIterator<T> {
+        // Cancels a pending receive when the iterator is closed, so that it does not take a later value
+        const controller = new AbortController();
+        const { signal } = controller;
+
         return {
             async next(): Promise<IteratorResult<T>> {
-                const result = await receive();
+                // Only rejects once the iterator is closed
+                const result = await receive({ signal }).catch((): Option<T> => None);
                 if (result.isNone()) {
                     return { done: true, value: undefined };
                 }
                 return { done: false, value: result.unwrap() };
             },
+
+            return(): Promise<IteratorResult<T>> {
+                controller.abort();
+                return Promise.resolve({ done: true, value: undefined });
+            },
         };
     }
 
@@ -887,6 +954,7 @@ export function Channel<T>(capacity = Infinity): Channel<T> {
             send,
             trySend,
             sendTimeout,
+            [AsyncDisposeSymbol]: asyncDispose,
         });
     }
 
@@ -980,50 +1048,7 @@ export function Channel<T>(capacity = Infinity): Channel<T> {
         tryReceive,
         receiveTimeout,
         close,
+        [AsyncDisposeSymbol]: asyncDispose,
     } as const);
 }
 
-
-// #region Internal helpers
-
-/**
- * A fast FIFO queue implementation using an array and an offset pointer.
- * This avoids the O(n) overhead of Array.shift() by simply incrementing the offset.
- *
- * When the offset exceeds a threshold (1024) and more than half the array is empty,
- * the array is compacted by slicing. The threshold 1024 was chosen empirically:
- * - Too small: frequent compaction overhead
- * - Too large: excessive memory waste
- * - 1024 balances compaction frequency and memory usage across typical workloads
- *
- * Benchmark results show minimal performance difference between thresholds (64-16384),
- * so 1024 is a reasonable default that works well for most Channel use cases.
- */
-class Queue<T> {
-    private data: (T | undefined)[] = [];
-    private offset = 0;
-
-    get length(): number {
-        return this.data.length - this.offset;
-    }
-
-    push(item: T): void {
-        this.data.push(item);
-    }
-
-    shift(): T | undefined {
-        const item = this.data[this.offset];
-        this.data[this.offset] = undefined;
-        this.offset++;
-
-        // Compact the array if the empty space is too large
-        if (this.offset > 1024 && this.offset * 2 > this.data.length) {
-            this.data = this.data.slice(this.offset);
-            this.offset = 0;
-        }
-
-        return item as T;
-    }
-}
-
-// #endregion
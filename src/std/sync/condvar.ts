@@ -0,0 +1,338 @@
+/**
+ * @module
+ * Rust-inspired [Condvar](https://doc.rust-lang.org/std/sync/struct.Condvar.html) for waiting on a condition
+ * of a `Mutex`-protected value.
+ *
+ * A `Condvar` lets a task holding a `MutexGuard` release the lock and wait until another task
+ * changes the protected value and notifies it, then reacquire the lock before resuming,
+ * instead of polling the mutex.
+ */
+
+import { guardLock, type LockFn } from '../../internal/mutex_guard.ts';
+import { abortError, parkWaiter, type ParkOptions } from '../../internal/waiter.ts';
+import type { AbortOptions } from './abort.ts';
+import type { MutexGuard } from './mutex.ts';
+
+/**
+ * Tells whether `Condvar.waitTimeout` returned because its timeout expired.
+ *
+ * @since 1.11.0
+ * @see https://doc.rust-lang.org/std/sync/struct.WaitTimeoutResult.html
+ */
+export interface WaitTimeoutResult {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'WaitTimeoutResult'` so that `Object.prototype.toString.call(result)` produces `'[object WaitTimeoutResult]'`.
+     */
+    readonly [Symbol.toStringTag]: 'WaitTimeoutResult';
+
+    /**
+     * Custom `toString` implementation.
+     * @example
+     * ```ts
+     * const [relocked, result] = await condvar.waitTimeout(guard, 10);
+     * console.log(result.toString()); // 'WaitTimeoutResult(<timed-out>)' or 'WaitTimeoutResult(<notified>)'
+     * ```
+     */
+    toString(): string;
+
+    /**
+     * Returns `true` if the wait ended because the timeout expired, `false` if it was notified.
+     *
+     * @example
+     * ```ts
+     * const [relocked, result] = await condvar.waitTimeout(guard, 1000);
+     * if (result.timedOut()) {
+     *     console.log('No notification within a second');
+     * }
+     * ```
+     */
+    timedOut(): boolean;
+}
+
+/**
+ * A condition variable, to wait until a `Mutex`-protected value satisfies a condition.
+ *
+ * `wait` releases the lock of a `MutexGuard` and parks the caller; `notifyOne` or `notifyAll`
+ * wakes it up, and it reacquires the lock of the same mutex before `wait` resolves with a new guard.
+ * The caller is parked before the lock is released, so a notification sent once the lock is free is never missed.
+ *
+ * As in Rust, the condition should be checked again after waking up, since another task may have changed
+ * the value before the lock was reacquired: prefer `waitWhile`, which does it in a loop.
+ * Use one `Condvar` with a single `Mutex`.
+ *
+ * A wait cancelled by its `AbortSignal` always rejects without holding the lock, even if the signal was
+ * already aborted. A notified task cancelled while reacquiring the lock passes the notification on
+ * to the next waiting task, so that it is not lost.
+ *
+ * @since 1.11.0
+ * @see https://doc.rust-lang.org/std/sync/struct.Condvar.html
+ * @example
+ * ```ts
+ * const queue = Mutex<string[]>([]);
+ * const nonEmpty = Condvar();
+ *
+ * // Consumer
+ * let guard = await queue.lock();
+ * guard = await nonEmpty.waitWhile(guard, jobs => jobs.length === 0);
+ * const job = guard.value.shift();
+ * guard.unlock();
+ *
+ * // Producer
+ * await queue.withLock(jobs => jobs.push('build'));
+ * nonEmpty.notifyOne();
+ * ```
+ */
+export interface Condvar {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'Condvar'` so that `Object.prototype.toString.call(condvar)` produces `'[object Condvar]'`.
+     */
+    readonly [Symbol.toStringTag]: 'Condvar';
+
+    /**
+     * Custom `toString` implementation showing the number of waiting tasks.
+     * @example
+     * ```ts
+     * const condvar = Condvar();
+     * console.log(condvar.toString()); // 'Condvar(<waiting:0>)'
+     * ```
+     */
+    toString(): string;
+
+    /**
+     * Releases the lock of `guard` and waits for a notification, then reacquires the lock.
+     *
+     * `guard` is released by the call, even if it rejects; use the returned guard afterwards.
+     *
+     * @typeParam T - The type of the protected value.
+     * @param guard - A held guard of the mutex protecting the condition.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
+     * @returns A promise that resolves to a new guard of the same mutex, once notified and relocked.
+     * @throws {Error} Rejects if `guard` has already been released.
+     * @throws {AbortError} Rejects if the signal aborts before the lock is reacquired; the lock is then not held.
+     * @example
+     * ```ts
+     * let guard = await state.lock();
+     * while (!guard.value.ready) {
+     *     guard = await condvar.wait(guard);
+     * }
+     * guard.unlock();
+     * ```
+     */
+    wait<T>(guard: MutexGuard<T>, options?: AbortOptions): Promise<MutexGuard<T>>;
+
+    /**
+     * Waits while `predicate` returns `true` for the protected value, releasing the lock while waiting.
+     *
+     * The predicate is checked first, so the call resolves without waiting if it is already `false`.
+     *
+     * @typeParam T - The type of the protected value.
+     * @param guard - A held guard of the mutex protecting the condition.
+     * @param predicate - Returns `true` to keep waiting.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
+     * @returns A promise that resolves to a guard of the same mutex, held, once `predicate` returns `false`.
+     * @throws {Error} Rejects if `guard` has already been released.
+     * @throws {AbortError} Rejects if the signal aborts before the predicate returns `false`; the lock is then not held.
+     * @example
+     * ```ts
+     * let guard = await inventory.lock();
+     * guard = await restocked.waitWhile(guard, stock => stock.count === 0);
+     * guard.value.count -= 1;
+     * guard.unlock();
+     * ```
+     */
+    waitWhile<T>(guard: MutexGuard<T>, predicate: (value: T) => boolean, options?: AbortOptions): Promise<MutexGuard<T>>;
+
+    /**
+     * Like `wait`, but stops waiting for a notification after `ms` milliseconds.
+     *
+     * The lock is reacquired in both cases, so the returned guard is always held.
+     *
+     * @typeParam T - The type of the protected value.
+     * @param guard - A held guard of the mutex protecting the condition.
+     * @param ms - Timeout in milliseconds.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
+     * @returns A promise that resolves to a new guard of the same mutex and a `WaitTimeoutResult`.
+     * @throws {Error} Rejects if `guard` has already been released.
+     * @throws {AbortError} Rejects if the signal aborts before the lock is reacquired; the lock is then not held.
+     * @example
+     * ```ts
+     * let guard = await state.lock();
+     * const [relocked, result] = await condvar.waitTimeout(guard, 1000);
+     * guard = relocked;
+     * if (result.timedOut()) {
+     *     console.log('Gave up waiting');
+     * }
+     * guard.unlock();
+     * ```
+     */
+    waitTimeout<T>(guard: MutexGuard<T>, ms: number, options?: AbortOptions): Promise<[MutexGuard<T>, WaitTimeoutResult]>;
+
+    /**
+     * Wakes up one waiting task, the one that has waited the longest. Does nothing if none is waiting.
+     *
+     * @example
+     * ```ts
+     * await queue.withLock(jobs => jobs.push(job));
+     * nonEmpty.notifyOne();
+     * ```
+     */
+    notifyOne(): void;
+
+    /**
+     * Wakes up all waiting tasks. They reacquire the lock one at a time.
+     *
+     * @example
+     * ```ts
+     * await state.withLock(s => {
+     *     s.shuttingDown = true;
+     * });
+     * changed.notifyAll();
+     * ```
+     */
+    notifyAll(): void;
+}
+
+/**
+ * Creates a new `Condvar` with no waiting task.
+ *
+ * @returns A new `Condvar` instance.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * const state = Mutex({ ready: false });
+ * const ready = Condvar();
+ *
+ * async function waitReady(): Promise<void> {
+ *     const guard = await ready.waitWhile(await state.lock(), s => !s.ready);
+ *     guard.unlock();
+ * }
+ *
+ * async function markReady(): Promise<void> {
+ *     await state.set({ ready: true });
+ *     ready.notifyAll();
+ * }
+ * ```
+ */
+export function Condvar(): Condvar {
+    // Tasks waiting for a notification, woken with `false` (or `true` by their timeout)
+    const waitQueue: (() => void)[] = [];
+
+    /**
+     * Parks the caller, releases `guard`, and reacquires its mutex once woken.
+     */
+    async function park<T>(guard: MutexGuard<T>, options: ParkOptions<boolean>): Promise<[MutexGuard<T>, boolean]> {
+        const { signal } = options;
+        const lock = guardLockOf(guard);
+        if (signal?.aborted) {
+            guard.unlock();
+            throw abortError(signal);
+        }
+
+        // Parks before releasing the lock, so a notification sent once it is free is never missed
+        const woken = parkWaiter<boolean, () => void>(waitQueue, wake => () => {
+            wake(false);
+        }, options);
+        guard.unlock();
+
+        const timedOut = await woken;
+        try {
+            return [await lock({ signal }), timedOut];
+        } catch (error) {
+            if (!timedOut) {
+                // Passes on the notification taken by this task
+                notifyOne();
+            }
+            throw error;
+        }
+    }
+
+    async function wait<T>(guard: MutexGuard<T>, options?: AbortOptions): Promise<MutexGuard<T>> {
+        const [relocked] = await park(guard, { signal: options?.signal });
+        return relocked;
+    }
+
+    function notifyOne(): void {
+        const next = waitQueue.shift();
+        next?.();
+    }
+
+    return Object.freeze<Condvar>({
+        [Symbol.toStringTag]: 'Condvar',
+
+        toString(): string {
+            return `Condvar(<waiting:${waitQueue.length}>)`;
+        },
+
+        wait,
+
+        async waitWhile<T>(guard: MutexGuard<T>, predicate: (value: T) => boolean, options?: AbortOptions): Promise<MutexGuard<T>> {
+            let current = guard;
+            while (predicate(current.value)) {
+                current = await wait(current, options);
+            }
+            return current;
+        },
+
+        async waitTimeout<T>(guard: MutexGuard<T>, ms: number, options?: AbortOptions): Promise<[MutexGuard<T>, WaitTimeoutResult]> {
+            const [relocked, timedOut] = await park(guard, {
+                signal: options?.signal,
+                timeout: { ms, value: true },
+            });
+            return [relocked, timedOut ? TIMED_OUT : NOTIFIED];
+        },
+
+        notifyOne,
+
+        notifyAll(): void {
+            for (const next of waitQueue.splice(0)) {
+                next();
+            }
+        },
+    } as const);
+}
+
+// #region Internal helpers
+
+/**
+ * Returns the `lock` function of the mutex of a held guard.
+ *
+ * @throws {Error} If the guard has been released.
+ */
+function guardLockOf<T>(guard: MutexGuard<T>): LockFn<T> {
+    const lock = guardLock(guard);
+    if (lock === undefined) {
+        throw new Error('Condvar cannot wait with a released MutexGuard');
+    }
+    return lock;
+}
+
+/**
+ * Creates a `WaitTimeoutResult`.
+ */
+function createWaitTimeoutResult(timedOut: boolean): WaitTimeoutResult {
+    return Object.freeze<WaitTimeoutResult>({
+        [Symbol.toStringTag]: 'WaitTimeoutResult',
+
+        toString(): string {
+            return timedOut ? 'WaitTimeoutResult(<timed-out>)' : 'WaitTimeoutResult(<notified>)';
+        },
+
+        timedOut(): boolean {
+            return timedOut;
+        },
+    } as const);
+}
+
+/**
+ * The result of a wait ended by its timeout.
+ */
+const TIMED_OUT = createWaitTimeoutResult(true);
+
+/**
+ * The result of a notified wait.
+ */
+const NOTIFIED = createWaitTimeoutResult(false);
+
+// #endregion
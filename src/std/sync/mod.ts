@@ -3,7 +3,10 @@
  * Main entry point for the sync module.
  * Re-exports all public APIs from the sync submodules.
  */
+export * from './abort.ts';
+export * from './barrier.ts';
 export * from './channel.ts';
+export * from './condvar.ts';
 export * from './lazy.ts';
 export * from './lazy_async.ts';
 export * from './mutex.ts';
@@ -11,3 +14,4 @@ export * from './once.ts';
 export * from './once_async.ts';
 export * from './rwlock.ts';
 export * from './semaphore.ts';
+export * from './wait_group.ts';
@@ -6,13 +6,17 @@
  * async operations, ensuring only one async task accesses the protected resource at a time.
  */
 
-import { None, Some, type Option } from '../../core/mod.ts';
+import { None, Some, type AsyncOption, type Option } from '../../core/mod.ts';
+import { DisposeSymbol } from '../../internal/dispose.ts';
+import { linkGuard, unlinkGuard } from '../../internal/mutex_guard.ts';
+import { abortError, parkWaiter, type ParkOptions } from '../../internal/waiter.ts';
+import type { AbortOptions } from './abort.ts';
 
 /**
  * A guard that provides access to the mutex-protected value.
  *
- * The guard must be released after use by calling `unlock()`.
- * Failure to unlock will cause deadlock for subsequent lock attempts.
+ * The guard must be released after use by calling `unlock()`, or automatically
+ * with a `using` declaration. Failure to unlock will cause deadlock for subsequent lock attempts.
  *
  * @typeParam T - The type of the protected value.
  * @since 1.6.0
@@ -66,6 +70,20 @@ export interface MutexGuard<T> {
      * ```
      */
     unlock(): void;
+
+    /**
+     * Releases the lock like `unlock()` when a `using` declaration goes out of scope.
+     *
+     * @since 1.11.0
+     * @example
+     * ```ts
+     * {
+     *     using guard = await mutex.lock();
+     *     guard.value.push('item');
+     * } // unlocked here, even if an exception was thrown
+     * ```
+     */
+    [Symbol.dispose](): void;
 }
 
 /**
@@ -124,7 +142,9 @@ export interface Mutex<T> {
      *
      * @typeParam U - The return type of the callback.
      * @param fn - The callback that receives the protected value.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for the lock.
      * @returns A promise that resolves to the callback's return value.
+     * @throws {AbortError} Rejects if the signal aborts before the lock is acquired; `fn` is not called.
      * @example
      * ```ts
      * const mutex = Mutex<number[]>([]);
@@ -134,7 +154,7 @@ export interface Mutex<T> {
      * });
      * ```
      */
-    withLock<U>(fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>>;
+    withLock<U>(fn: (value: T) => PromiseLike<U> | U, options?: AbortOptions): Promise<Awaited<U>>;
 
     /**
      * Acquires the lock and returns a guard for manual control.
@@ -142,7 +162,10 @@ export interface Mutex<T> {
      * Use this when you need more control over when to release the lock.
      * **Important:** Always release the lock in a `finally` block to prevent deadlocks.
      *
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
      * @returns A promise that resolves to a guard providing access to the value.
+     * @throws {AbortError} Rejects if the signal aborts before the lock is acquired.
+     * The caller is removed from the wait queue, so the lock is never handed to it.
      * @example
      * ```ts
      * const guard = await mutex.lock();
@@ -153,9 +176,40 @@ export interface Mutex<T> {
      * } finally {
      *     guard.unlock();
      * }
+     *
+     * // Give up waiting when the request is cancelled
+     * const guard = await mutex.lock({ signal: request.signal });
      * ```
      */
-    lock(): Promise<MutexGuard<T>>;
+    lock(options?: AbortOptions): Promise<MutexGuard<T>>;
+
+    /**
+     * Acquires the lock, waiting at most `ms` milliseconds.
+     *
+     * Like `lock()`, but gives up after the timeout. A timed-out caller is removed
+     * from the wait queue, so the lock is never handed to it afterwards.
+     *
+     * @param ms - Timeout in milliseconds.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
+     * @returns A promise that resolves to `Some(guard)` if acquired, or `None` if timed out.
+     * @throws {AbortError} Rejects if the signal aborts before the lock is acquired and before the timeout.
+     * @example
+     * ```ts
+     * const maybeGuard = await mutex.lockTimeout(100);
+     * if (maybeGuard.isNone()) {
+     *     console.log('Mutex is busy, try again later');
+     *     return;
+     * }
+     *
+     * const guard = maybeGuard.unwrap();
+     * try {
+     *     guard.value.push('item');
+     * } finally {
+     *     guard.unlock();
+     * }
+     * ```
+     */
+    lockTimeout(ms: number, options?: AbortOptions): AsyncOption<MutexGuard<T>>;
 
     /**
      * Attempts to acquire the lock without waiting.
@@ -202,6 +256,7 @@ export interface Mutex<T> {
      *
      * This is a convenience method equivalent to `withLock(v => v)`.
      *
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for the lock.
      * @returns A promise that resolves to a copy of the value.
      * @example
      * ```ts
@@ -210,7 +265,7 @@ export interface Mutex<T> {
      * console.log(value); // 42
      * ```
      */
-    get(): Promise<Awaited<T>>;
+    get(options?: AbortOptions): Promise<Awaited<T>>;
 
     /**
      * Acquires the lock and sets a new value.
@@ -218,6 +273,7 @@ export interface Mutex<T> {
      * This is a convenience method equivalent to `withLock(() => { value = newValue; })`.
      *
      * @param value - The new value to set.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for the lock.
      * @returns A promise that resolves when the value has been set.
      * @example
      * ```ts
@@ -226,7 +282,7 @@ export interface Mutex<T> {
      * console.log(await mutex.get()); // 100
      * ```
      */
-    set(value: T): Promise<void>;
+    set(value: T, options?: AbortOptions): Promise<void>;
 
     /**
      * Acquires the lock, sets a new value, and returns the old value.
@@ -237,6 +293,7 @@ export interface Mutex<T> {
      * ```
      *
      * @param value - The new value to set.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for the lock.
      * @returns A promise that resolves to the old value.
      * @example
      * ```ts
@@ -246,7 +303,7 @@ export interface Mutex<T> {
      * console.log(await mutex.get()); // 100
      * ```
      */
-    replace(value: T): Promise<Awaited<T>>;
+    replace(value: T, options?: AbortOptions): Promise<Awaited<T>>;
 }
 
 /**
@@ -342,7 +399,7 @@ export function Mutex<T>(value: T): Mutex<T> {
     function createGuard(): MutexGuard<T> {
         let released = false;
 
-        return Object.freeze<MutexGuard<T>>({
+        const guard = Object.freeze<MutexGuard<T>>({
             [Symbol.toStringTag]: 'MutexGuard',
 
             toString(): string {
@@ -369,22 +426,43 @@ export function Mutex<T>(value: T): Mutex<T> {
                     return; // Already released, ignore
                 }
                 released = true;
+                unlinkGuard(guard);
                 unlock();
             },
+
+            [DisposeSymbol](): void {
+                guard.unlock();
+            },
         } as const);
+
+        // Lets a `Condvar` reacquire this mutex after waiting
+        linkGuard(guard, lock);
+
+        return guard;
     }
 
-    function lock(): Promise<MutexGuard<T>> {
+    /**
+     * Acquires the lock and resolves with `wrap(guard)`, or with the timeout value.
+     */
+    function acquireLock<R>(wrap: (guard: MutexGuard<T>) => R, options: ParkOptions<R> = {}): Promise<R> {
+        const { signal } = options;
+        if (signal?.aborted) {
+            return Promise.reject(abortError(signal));
+        }
+
         if (!locked) {
             locked = true;
-            return Promise.resolve(createGuard());
+            return Promise.resolve(wrap(createGuard()));
         }
 
-        return new Promise<MutexGuard<T>>((resolve) => {
-            waitQueue.push(() => {
-                resolve(createGuard());
-            });
-        });
+        // The waiter is removed from the queue if the signal aborts or the timeout expires
+        return parkWaiter(waitQueue, wake => () => {
+            wake(wrap(createGuard()));
+        }, options);
+    }
+
+    function lock(options?: AbortOptions): Promise<MutexGuard<T>> {
+        return acquireLock(guard => guard, options);
     }
 
     return Object.freeze<Mutex<T>>({
@@ -394,8 +472,8 @@ export function Mutex<T>(value: T): Mutex<T> {
             return locked ? 'Mutex(<locked>)' : 'Mutex(<unlocked>)';
         },
 
-        async withLock<U>(fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>> {
-            const guard = await lock();
+        async withLock<U>(fn: (value: T) => PromiseLike<U> | U, options?: AbortOptions): Promise<Awaited<U>> {
+            const guard = await lock(options);
             try {
                 return await fn(guard.value);
             } finally {
@@ -405,6 +483,13 @@ export function Mutex<T>(value: T): Mutex<T> {
 
         lock,
 
+        lockTimeout(ms: number, options?: AbortOptions): AsyncOption<MutexGuard<T>> {
+            return acquireLock<Option<MutexGuard<T>>>(Some, {
+                signal: options?.signal,
+                timeout: { ms, value: None },
+            });
+        },
+
         tryLock(): Option<MutexGuard<T>> {
             if (locked) {
                 return None;
@@ -417,8 +502,8 @@ export function Mutex<T>(value: T): Mutex<T> {
             return locked;
         },
 
-        async get(): Promise<Awaited<T>> {
-            const guard = await lock();
+        async get(options?: AbortOptions): Promise<Awaited<T>> {
+            const guard = await lock(options);
             try {
                 return guard.value as Awaited<T>;
             } finally {
@@ -426,8 +511,8 @@ export function Mutex<T>(value: T): Mutex<T> {
             }
         },
 
-        async set(value: T): Promise<void> {
-            const guard = await lock();
+        async set(value: T, options?: AbortOptions): Promise<void> {
+            const guard = await lock(options);
             try {
                 guard.value = value;
             } finally {
@@ -435,8 +520,8 @@ export function Mutex<T>(value: T): Mutex<T> {
             }
         },
 
-        async replace(value: T): Promise<Awaited<T>> {
-            const guard = await lock();
+        async replace(value: T, options?: AbortOptions): Promise<Awaited<T>> {
+            const guard = await lock(options);
             try {
                 const old = guard.value;
                 guard.value = value;
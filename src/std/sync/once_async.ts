@@ -11,6 +11,8 @@
  */
 
 import { Err, None, Ok, RESULT_VOID, Some, type AsyncLikeResult, type AsyncResult, type Option, type Result, type VoidResult } from '../../core/mod.ts';
+import { abortError, parkWaiter } from '../../internal/waiter.ts';
+import type { AbortOptions } from './abort.ts';
 
 /**
  * An async-first container which can be written to only once.
@@ -213,7 +215,10 @@ export interface OnceAsync<T> {
      * If the cell is uninitialized and no initialization is in progress,
      * the returned promise will resolve when another caller initializes the cell.
      *
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
      * @returns A promise that resolves to the stored value once initialized.
+     * @throws {AbortError} Rejects if the signal aborts before the cell is initialized.
+     * An initialization in progress is not cancelled.
      * @example
      * ```ts
      * const once = OnceAsync<number>();
@@ -226,9 +231,12 @@ export interface OnceAsync<T> {
      *
      * // waitPromise resolves with 42
      * console.log(await waitPromise); // 42
+     *
+     * // Give up if nobody initializes the cell within a second
+     * const value = await once.wait({ signal: AbortSignal.timeout(1000) });
      * ```
      */
-    wait(): Promise<Awaited<T>>;
+    wait(options?: AbortOptions): Promise<Awaited<T>>;
 }
 
 /**
@@ -424,7 +432,12 @@ export function OnceAsync<T>(): OnceAsync<T> {
             return initialized;
         },
 
-        wait(): Promise<Value> {
+        wait(options?: AbortOptions): Promise<Value> {
+            const signal = options?.signal;
+            if (signal?.aborted) {
+                return Promise.reject(abortError(signal));
+            }
+
             // If already initialized, return immediately
             if (initialized) {
                 // Reuse cached promise to avoid creating new Promise on each call
@@ -433,13 +446,30 @@ export function OnceAsync<T>(): OnceAsync<T> {
 
             // If initialization is in progress, wait for it
             if (pendingPromise) {
-                return pendingPromise;
+                return signal === undefined ? pendingPromise : raceAbort(pendingPromise, signal);
             }
 
             // Otherwise, add to waiters and wait for someone to initialize
-            return new Promise<Value>((resolve) => {
-                waiters.push(resolve);
-            });
+            return parkWaiter<Value, Waiter>(waiters, resolve => resolve, options);
         },
     } as const);
 }
+
+// #region Internal helpers
+
+/**
+ * Settles like `promise`, or rejects with an `AbortError` if `signal` aborts first.
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const abort = (): void => {
+            reject(abortError(signal));
+        };
+        signal.addEventListener('abort', abort, { once: true });
+        promise.then(resolve, reject).finally(() => {
+            signal.removeEventListener('abort', abort);
+        });
+    });
+}
+
+// #endregion
@@ -17,7 +17,10 @@
  * - RwLock adds complexity over Mutex with marginal performance benefit
  */
 
-import { None, Some, type Option } from '../../core/mod.ts';
+import { None, Some, type AsyncOption, type Option } from '../../core/mod.ts';
+import { DisposeSymbol } from '../../internal/dispose.ts';
+import { abortError, parkWaiter, type ParkOptions } from '../../internal/waiter.ts';
+import type { AbortOptions } from './abort.ts';
 
 /**
  * A guard that provides shared read access to the RwLock-protected value.
@@ -74,6 +77,20 @@ export interface RwLockReadGuard<T> {
      * ```
      */
     unlock(): void;
+
+    /**
+     * Releases the read lock like `unlock()` when a `using` declaration goes out of scope.
+     *
+     * @since 1.11.0
+     * @example
+     * ```ts
+     * {
+     *     using guard = await rwlock.read();
+     *     console.log(guard.value);
+     * } // unlocked here
+     * ```
+     */
+    [Symbol.dispose](): void;
 }
 
 /**
@@ -133,6 +150,21 @@ export interface RwLockWriteGuard<T> {
      */
     unlock(): void;
 
+    /**
+     * Releases the write lock like `unlock()` when a `using` declaration goes out of scope.
+     * Does nothing if the guard has been downgraded; dispose the read guard instead.
+     *
+     * @since 1.11.0
+     * @example
+     * ```ts
+     * {
+     *     using guard = await rwlock.write();
+     *     guard.value = newValue;
+     * } // unlocked here
+     * ```
+     */
+    [Symbol.dispose](): void;
+
     /**
      * Downgrades this write guard to a read guard atomically.
      *
@@ -224,7 +256,9 @@ export interface RwLock<T> {
      *
      * @typeParam U - The return type of the callback.
      * @param fn - The callback that receives the protected value (read-only).
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for the lock.
      * @returns A promise that resolves to the callback's return value.
+     * @throws {AbortError} Rejects if the signal aborts before the lock is acquired; `fn` is not called.
      * @example
      * ```ts
      * const data = await rwlock.withRead(async (value) => {
@@ -232,7 +266,7 @@ export interface RwLock<T> {
      * });
      * ```
      */
-    withRead<U>(fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>>;
+    withRead<U>(fn: (value: T) => PromiseLike<U> | U, options?: AbortOptions): Promise<Awaited<U>>;
 
     /**
      * Acquires a write lock and executes the callback with the protected value.
@@ -241,7 +275,9 @@ export interface RwLock<T> {
      *
      * @typeParam U - The return type of the callback.
      * @param fn - The callback that receives the protected value (read-write).
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for the lock.
      * @returns A promise that resolves to the callback's return value.
+     * @throws {AbortError} Rejects if the signal aborts before the lock is acquired; `fn` is not called.
      * @example
      * ```ts
      * await rwlock.withWrite(async (value) => {
@@ -249,12 +285,14 @@ export interface RwLock<T> {
      * });
      * ```
      */
-    withWrite<U>(fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>>;
+    withWrite<U>(fn: (value: T) => PromiseLike<U> | U, options?: AbortOptions): Promise<Awaited<U>>;
 
     /**
      * Acquires a read lock and returns a guard for manual control.
      *
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
      * @returns A promise that resolves to a read guard.
+     * @throws {AbortError} Rejects if the signal aborts before the lock is acquired.
      * @example
      * ```ts
      * const guard = await rwlock.read();
@@ -265,12 +303,16 @@ export interface RwLock<T> {
      * }
      * ```
      */
-    read(): Promise<RwLockReadGuard<T>>;
+    read(options?: AbortOptions): Promise<RwLockReadGuard<T>>;
 
     /**
      * Acquires a write lock and returns a guard for manual control.
      *
+     * A waiting writer blocks new readers; if its wait is aborted, the readers it blocked are let in.
+     *
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
      * @returns A promise that resolves to a write guard.
+     * @throws {AbortError} Rejects if the signal aborts before the lock is acquired.
      * @example
      * ```ts
      * const guard = await rwlock.write();
@@ -279,9 +321,58 @@ export interface RwLock<T> {
      * } finally {
      *     guard.unlock();
      * }
+     *
+     * // Give up after 100 ms
+     * const guard = await rwlock.write({ signal: AbortSignal.timeout(100) });
+     * ```
+     */
+    write(options?: AbortOptions): Promise<RwLockWriteGuard<T>>;
+
+    /**
+     * Acquires a read lock, waiting at most `ms` milliseconds.
+     *
+     * Like `read()`, but gives up after the timeout. A timed-out caller is removed
+     * from the wait queue, so the lock is never handed to it afterwards.
+     *
+     * @param ms - Timeout in milliseconds.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
+     * @returns A promise that resolves to `Some(guard)` if acquired, or `None` if timed out.
+     * @throws {AbortError} Rejects if the signal aborts before the lock is acquired and before the timeout.
+     * @example
+     * ```ts
+     * const maybeGuard = await rwlock.readTimeout(100);
+     * maybeGuard.inspect((guard) => {
+     *     console.log(guard.value);
+     *     guard.unlock();
+     * });
      * ```
      */
-    write(): Promise<RwLockWriteGuard<T>>;
+    readTimeout(ms: number, options?: AbortOptions): AsyncOption<RwLockReadGuard<T>>;
+
+    /**
+     * Acquires a write lock, waiting at most `ms` milliseconds.
+     *
+     * Like `write()`, but gives up after the timeout. A timed-out writer is removed
+     * from the wait queue and no longer blocks new readers.
+     *
+     * @param ms - Timeout in milliseconds.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
+     * @returns A promise that resolves to `Some(guard)` if acquired, or `None` if timed out.
+     * @throws {AbortError} Rejects if the signal aborts before the lock is acquired and before the timeout.
+     * @example
+     * ```ts
+     * const maybeGuard = await rwlock.writeTimeout(100);
+     * if (maybeGuard.isSome()) {
+     *     const guard = maybeGuard.unwrap();
+     *     try {
+     *         guard.value = newValue;
+     *     } finally {
+     *         guard.unlock();
+     *     }
+     * }
+     * ```
+     */
+    writeTimeout(ms: number, options?: AbortOptions): AsyncOption<RwLockWriteGuard<T>>;
 
     /**
      * Attempts to acquire a read lock without waiting.
@@ -352,30 +443,33 @@ export interface RwLock<T> {
     /**
      * Acquires a read lock and returns a copy of the protected value.
      *
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for the lock.
      * @returns A promise that resolves to a copy of the value.
      * @example
      * ```ts
      * const value = await rwlock.get();
      * ```
      */
-    get(): Promise<Awaited<T>>;
+    get(options?: AbortOptions): Promise<Awaited<T>>;
 
     /**
      * Acquires a write lock and sets a new value.
      *
      * @param value - The new value to set.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for the lock.
      * @returns A promise that resolves when the value has been set.
      * @example
      * ```ts
      * await rwlock.set(newValue);
      * ```
      */
-    set(value: T): Promise<void>;
+    set(value: T, options?: AbortOptions): Promise<void>;
 
     /**
      * Acquires a write lock, sets a new value, and returns the old value.
      *
      * @param value - The new value to set.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for the lock.
      * @returns A promise that resolves to the old value.
      * @example
      * ```ts
@@ -385,7 +479,7 @@ export interface RwLock<T> {
      * console.log(await rwlock.get()); // 100
      * ```
      */
-    replace(value: T): Promise<Awaited<T>>;
+    replace(value: T, options?: AbortOptions): Promise<Awaited<T>>;
 }
 
 /**
@@ -501,19 +595,23 @@ export function RwLock<T>(value: T): RwLock<T> {
             pendingWriters--;
             next();
         } else {
-            // Wake all pending readers
-            while (readWaitQueue.length > 0) {
-                readers++;
-                const next = readWaitQueue.shift() as () => void;
-                next();
-            }
+            wakeReaders();
+        }
+    }
+
+    function wakeReaders(): void {
+        // Wake all pending readers
+        while (readWaitQueue.length > 0) {
+            readers++;
+            const next = readWaitQueue.shift() as () => void;
+            next();
         }
     }
 
     function createReadGuard(): RwLockReadGuard<T> {
         let released = false;
 
-        return Object.freeze<RwLockReadGuard<T>>({
+        const guard = Object.freeze<RwLockReadGuard<T>>({
             [Symbol.toStringTag]: 'RwLockReadGuard',
 
             toString(): string {
@@ -537,13 +635,19 @@ export function RwLock<T>(value: T): RwLock<T> {
                 released = true;
                 releaseRead();
             },
+
+            [DisposeSymbol](): void {
+                guard.unlock();
+            },
         });
+
+        return guard;
     }
 
     function createWriteGuard(): RwLockWriteGuard<T> {
         let released = false;
 
-        return Object.freeze<RwLockWriteGuard<T>>({
+        const guard = Object.freeze<RwLockWriteGuard<T>>({
             [Symbol.toStringTag]: 'RwLockWriteGuard',
 
             toString(): string {
@@ -575,6 +679,10 @@ export function RwLock<T>(value: T): RwLock<T> {
                 releaseWrite();
             },
 
+            [DisposeSymbol](): void {
+                guard.unlock();
+            },
+
             downgrade(): RwLockReadGuard<T> {
                 if (released) {
                     throw new Error('RwLockWriteGuard has been released');
@@ -584,41 +692,69 @@ export function RwLock<T>(value: T): RwLock<T> {
                 writer = false;
                 readers = 1; // self becomes the first reader
                 // Wake all waiting readers (writers keep waiting while readers exist)
-                while (readWaitQueue.length > 0) {
-                    readers++;
-                    const next = readWaitQueue.shift() as () => void;
-                    next();
-                }
+                wakeReaders();
                 return createReadGuard();
             },
         } as const);
+
+        return guard;
     }
 
-    function read(): Promise<RwLockReadGuard<T>> {
+    /**
+     * Acquires a read lock and resolves with `wrap(guard)`, or with the timeout value.
+     */
+    function acquireRead<R>(wrap: (guard: RwLockReadGuard<T>) => R, options: ParkOptions<R> = {}): Promise<R> {
+        const { signal } = options;
+        if (signal?.aborted) {
+            return Promise.reject(abortError(signal));
+        }
+
         if (tryAcquireRead()) {
-            return Promise.resolve(createReadGuard());
+            return Promise.resolve(wrap(createReadGuard()));
         }
 
-        return new Promise<RwLockReadGuard<T>>((resolve) => {
-            readWaitQueue.push(() => {
-                resolve(createReadGuard());
-            });
-        });
+        // The waiter is removed from the queue if the signal aborts or the timeout expires
+        return parkWaiter(readWaitQueue, wake => () => {
+            wake(wrap(createReadGuard()));
+        }, options);
     }
 
-    function write(): Promise<RwLockWriteGuard<T>> {
+    /**
+     * Acquires a write lock and resolves with `wrap(guard)`, or with the timeout value.
+     */
+    function acquireWrite<R>(wrap: (guard: RwLockWriteGuard<T>) => R, options: ParkOptions<R> = {}): Promise<R> {
+        const { signal } = options;
+        if (signal?.aborted) {
+            return Promise.reject(abortError(signal));
+        }
+
         if (tryAcquireWrite()) {
-            return Promise.resolve(createWriteGuard());
+            return Promise.resolve(wrap(createWriteGuard()));
         }
 
         pendingWriters++;
-        return new Promise<RwLockWriteGuard<T>>((resolve) => {
-            writeWaitQueue.push(() => {
-                resolve(createWriteGuard());
-            });
+        return parkWaiter(writeWaitQueue, wake => () => {
+            wake(wrap(createWriteGuard()));
+        }, {
+            ...options,
+            onCancel: () => {
+                pendingWriters--;
+                // The readers blocked by this writer can proceed if it was the last pending one
+                if (!writer && pendingWriters === 0) {
+                    wakeReaders();
+                }
+            },
         });
     }
 
+    function read(options?: AbortOptions): Promise<RwLockReadGuard<T>> {
+        return acquireRead(guard => guard, options);
+    }
+
+    function write(options?: AbortOptions): Promise<RwLockWriteGuard<T>> {
+        return acquireWrite(guard => guard, options);
+    }
+
     return Object.freeze<RwLock<T>>({
         [Symbol.toStringTag]: 'RwLock',
 
@@ -632,8 +768,8 @@ export function RwLock<T>(value: T): RwLock<T> {
             return 'RwLock(<unlocked>)';
         },
 
-        async withRead<U>(fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>> {
-            const guard = await read();
+        async withRead<U>(fn: (value: T) => PromiseLike<U> | U, options?: AbortOptions): Promise<Awaited<U>> {
+            const guard = await read(options);
             try {
                 return await fn(guard.value);
             } finally {
@@ -641,8 +777,8 @@ export function RwLock<T>(value: T): RwLock<T> {
             }
         },
 
-        async withWrite<U>(fn: (value: T) => PromiseLike<U> | U): Promise<Awaited<U>> {
-            const guard = await write();
+        async withWrite<U>(fn: (value: T) => PromiseLike<U> | U, options?: AbortOptions): Promise<Awaited<U>> {
+            const guard = await write(options);
             try {
                 return await fn(guard.value);
             } finally {
@@ -654,6 +790,20 @@ export function RwLock<T>(value: T): RwLock<T> {
 
         write,
 
+        readTimeout(ms: number, options?: AbortOptions): AsyncOption<RwLockReadGuard<T>> {
+            return acquireRead<Option<RwLockReadGuard<T>>>(Some, {
+                signal: options?.signal,
+                timeout: { ms, value: None },
+            });
+        },
+
+        writeTimeout(ms: number, options?: AbortOptions): AsyncOption<RwLockWriteGuard<T>> {
+            return acquireWrite<Option<RwLockWriteGuard<T>>>(Some, {
+                signal: options?.signal,
+                timeout: { ms, value: None },
+            });
+        },
+
         tryRead(): Option<RwLockReadGuard<T>> {
             if (tryAcquireRead()) {
                 return Some(createReadGuard());
@@ -676,8 +826,8 @@ export function RwLock<T>(value: T): RwLock<T> {
             return writer;
         },
 
-        async get(): Promise<Awaited<T>> {
-            const guard = await read();
+        async get(options?: AbortOptions): Promise<Awaited<T>> {
+            const guard = await read(options);
             try {
                 return guard.value as Awaited<T>;
             } finally {
@@ -685,8 +835,8 @@ export function RwLock<T>(value: T): RwLock<T> {
             }
         },
 
-        async set(value: T): Promise<void> {
-            const guard = await write();
+        async set(value: T, options?: AbortOptions): Promise<void> {
+            const guard = await write(options);
             try {
                 guard.value = value;
             } finally {
@@ -694,8 +844,8 @@ export function RwLock<T>(value: T): RwLock<T> {
             }
         },
 
-        async replace(value: T): Promise<Awaited<T>> {
-            const guard = await write();
+        async replace(value: T, options?: AbortOptions): Promise<Awaited<T>> {
+            const guard = await write(options);
             try {
                 const old = guard.value;
                 guard.value = value;
@@ -17,14 +17,17 @@
  * guard provides typed access via `value`.
  */
 
-import { None, Some, type Option } from '../../core/mod.ts';
+import { None, Some, type AsyncOption, type Option } from '../../core/mod.ts';
+import { DisposeSymbol } from '../../internal/dispose.ts';
+import { abortError, parkWaiter, type ParkOptions } from '../../internal/waiter.ts';
+import type { AbortOptions } from './abort.ts';
 
 /**
  * A permit acquired from a {@link Semaphore}.
  *
- * The permit must be released after use by calling `release()`. Failure to
- * release reduces available concurrency until the permit is garbage collected
- * (JavaScript has no RAII like Rust's `Drop`).
+ * The permit must be released after use by calling `release()`, or automatically
+ * with a `using` declaration (the JavaScript counterpart of Rust's `Drop`).
+ * Failure to release reduces available concurrency for good.
  *
  * Prefer {@link Semaphore.withPermit} for automatic acquire/release with
  * `try/finally` semantics. Manual `acquire()`/`release()` requires a
@@ -81,6 +84,20 @@ export interface SemaphorePermit {
      * ```
      */
     release(): void;
+
+    /**
+     * Releases the permit like `release()` when a `using` declaration goes out of scope.
+     *
+     * @since 1.11.0
+     * @example
+     * ```ts
+     * async function niceFetch(url: string): Promise<Response> {
+     *     using permit = await sem.acquire();
+     *     return await fetch(url);
+     * } // released here
+     * ```
+     */
+    [Symbol.dispose](): void;
 }
 
 /**
@@ -169,7 +186,9 @@ export interface Semaphore {
      *
      * @typeParam U - The return type of the callback.
      * @param fn - The callback to execute while holding a permit.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait for a permit.
      * @returns A promise that resolves to the callback's return value.
+     * @throws {AbortError} Rejects if the signal aborts before a permit is acquired; `fn` is not called.
      * @example
      * ```ts
      * const sem = Semaphore(3);
@@ -178,7 +197,7 @@ export interface Semaphore {
      * });
      * ```
      */
-    withPermit<U>(fn: () => PromiseLike<U> | U): Promise<Awaited<U>>;
+    withPermit<U>(fn: () => PromiseLike<U> | U, options?: AbortOptions): Promise<Awaited<U>>;
 
     /**
      * Acquires a permit, waiting if necessary until one is available.
@@ -187,7 +206,10 @@ export interface Semaphore {
      * leaking permits on exceptions. Prefer {@link withPermit} for automatic
      * release.
      *
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
      * @returns A promise that resolves to a {@link SemaphorePermit}.
+     * @throws {AbortError} Rejects if the signal aborts before a permit is acquired.
+     * The caller is removed from the wait queue, so no permit is consumed on its behalf.
      * @example
      * ```ts
      * const sem = Semaphore(2);
@@ -197,9 +219,40 @@ export interface Semaphore {
      * } finally {
      *     permit.release();
      * }
+     *
+     * // Stop waiting when the user navigates away
+     * const permit = await sem.acquire({ signal: controller.signal });
      * ```
      */
-    acquire(): Promise<SemaphorePermit>;
+    acquire(options?: AbortOptions): Promise<SemaphorePermit>;
+
+    /**
+     * Acquires a permit, waiting at most `ms` milliseconds.
+     *
+     * Like `acquire()`, but gives up after the timeout. A timed-out caller is
+     * removed from the wait queue, so no permit is handed to it afterwards.
+     *
+     * @param ms - Timeout in milliseconds.
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
+     * @returns A promise that resolves to `Some(permit)` if acquired, or `None` if timed out.
+     * @throws {AbortError} Rejects if the signal aborts before a permit is acquired and before the timeout.
+     * @example
+     * ```ts
+     * const sem = Semaphore(2);
+     * const maybePermit = await sem.acquireTimeout(500);
+     * if (maybePermit.isNone()) {
+     *     return new Response('Too many requests', { status: 429 });
+     * }
+     *
+     * const permit = maybePermit.unwrap();
+     * try {
+     *     return await handle(request);
+     * } finally {
+     *     permit.release();
+     * }
+     * ```
+     */
+    acquireTimeout(ms: number, options?: AbortOptions): AsyncOption<SemaphorePermit>;
 
     /**
      * Attempts to acquire a permit without waiting.
@@ -297,7 +350,7 @@ export function Semaphore(permits: number): Semaphore {
     function createPermit(): SemaphorePermit {
         let released = false;
 
-        return Object.freeze<SemaphorePermit>({
+        const permit = Object.freeze<SemaphorePermit>({
             [Symbol.toStringTag]: 'SemaphorePermit',
 
             toString(): string {
@@ -311,20 +364,37 @@ export function Semaphore(permits: number): Semaphore {
                 released = true;
                 releasePermit();
             },
+
+            [DisposeSymbol](): void {
+                permit.release();
+            },
         } as const);
+
+        return permit;
     }
 
-    function acquire(): Promise<SemaphorePermit> {
+    /**
+     * Acquires a permit and resolves with `wrap(permit)`, or with the timeout value.
+     */
+    function acquirePermit<R>(wrap: (permit: SemaphorePermit) => R, options: ParkOptions<R> = {}): Promise<R> {
+        const { signal } = options;
+        if (signal?.aborted) {
+            return Promise.reject(abortError(signal));
+        }
+
         if (available > 0) {
             available--;
-            return Promise.resolve(createPermit());
+            return Promise.resolve(wrap(createPermit()));
         }
 
-        return new Promise<SemaphorePermit>((resolve) => {
-            waitQueue.push(() => {
-                resolve(createPermit());
-            });
-        });
+        // The waiter is removed from the queue if the signal aborts or the timeout expires
+        return parkWaiter(waitQueue, wake => () => {
+            wake(wrap(createPermit()));
+        }, options);
+    }
+
+    function acquire(options?: AbortOptions): Promise<SemaphorePermit> {
+        return acquirePermit(permit => permit, options);
     }
 
     function tryAcquire(): Option<SemaphorePermit> {
@@ -344,8 +414,8 @@ export function Semaphore(permits: number): Semaphore {
 
         capacity,
 
-        async withPermit<U>(fn: () => PromiseLike<U> | U): Promise<Awaited<U>> {
-            const permit = await acquire();
+        async withPermit<U>(fn: () => PromiseLike<U> | U, options?: AbortOptions): Promise<Awaited<U>> {
+            const permit = await acquire(options);
             try {
                 return await fn();
             } finally {
@@ -355,6 +425,13 @@ export function Semaphore(permits: number): Semaphore {
 
         acquire,
 
+        acquireTimeout(ms: number, options?: AbortOptions): AsyncOption<SemaphorePermit> {
+            return acquirePermit<Option<SemaphorePermit>>(Some, {
+                signal: options?.signal,
+                timeout: { ms, value: None },
+            });
+        },
+
         tryAcquire,
 
         availablePermits(): number {
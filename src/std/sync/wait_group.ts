@@ -0,0 +1,212 @@
+/**
+ * @module
+ * Counter for waiting until a group of async tasks has finished.
+ *
+ * Inspired by Go's [`sync.WaitGroup`](https://pkg.go.dev/sync#WaitGroup) and Java's `CountDownLatch`
+ * (Rust std does not include one). Each task is registered with `add()` and signals its completion
+ * with `done()`; `wait()` resolves once every registered task is done, without collecting their promises.
+ *
+ * **When to use `WaitGroup` vs `Barrier`:**
+ * - Use `WaitGroup` when some tasks wait for others to finish (fan-in), with a count that can grow
+ * - Use `Barrier` when a fixed number of tasks wait for each other, possibly repeatedly
+ */
+
+import { panic } from '../../core/mod.ts';
+import { abortError, parkWaiter } from '../../internal/waiter.ts';
+import type { AbortOptions } from './abort.ts';
+
+/**
+ * A counter of pending tasks that can be waited for until it drops to zero.
+ *
+ * `add(n)` increments the counter, `done()` decrements it, and `wait()` resolves when it reaches zero,
+ * immediately if it already is. All waiting tasks are released together.
+ * Once zero, the counter can be incremented again for a new round of tasks.
+ *
+ * Created with an initial count and used with `done()` and `wait()` only, it is a countdown latch.
+ *
+ * @since 1.11.0
+ * @see https://pkg.go.dev/sync#WaitGroup
+ * @example
+ * ```ts
+ * const group = WaitGroup();
+ *
+ * for (const url of urls) {
+ *     group.add();
+ *     fetch(url).then(cache.put).finally(() => group.done());
+ * }
+ *
+ * await group.wait();
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Countdown latch: starts serving once the 3 caches are warm
+ * const warm = WaitGroup(3);
+ *
+ * warmUsers().then(() => warm.done());
+ * warmOrders().then(() => warm.done());
+ * warmProducts().then(() => warm.done());
+ *
+ * await warm.wait();
+ * server.listen();
+ * ```
+ */
+export interface WaitGroup {
+    /**
+     * The well-known symbol `Symbol.toStringTag` used by `Object.prototype.toString()`.
+     * Returns `'WaitGroup'` so that `Object.prototype.toString.call(group)` produces `'[object WaitGroup]'`.
+     */
+    readonly [Symbol.toStringTag]: 'WaitGroup';
+
+    /**
+     * Custom `toString` implementation showing the number of pending tasks.
+     *
+     * @example
+     * ```ts
+     * const group = WaitGroup(2);
+     * console.log(group.toString()); // 'WaitGroup(2)'
+     * ```
+     */
+    toString(): string;
+
+    /**
+     * Registers `n` more pending tasks.
+     *
+     * Call it before starting the tasks, not from inside them, so that `wait()` cannot resolve in between.
+     *
+     * @param n - The number of tasks to add. Defaults to `1`.
+     * @throws {RangeError} If `n` is negative or not an integer.
+     * @example
+     * ```ts
+     * const group = WaitGroup();
+     * group.add(jobs.length);
+     * for (const job of jobs) {
+     *     run(job).finally(() => group.done());
+     * }
+     * ```
+     */
+    add(n?: number): void;
+
+    /**
+     * Marks one pending task as done, releasing the waiting tasks if it was the last one.
+     *
+     * @throws {Panic} If no task is pending, as it would make the counter negative.
+     * @example
+     * ```ts
+     * group.add();
+     * try {
+     *     await upload(file);
+     * } finally {
+     *     group.done();
+     * }
+     * ```
+     */
+    done(): void;
+
+    /**
+     * Waits until no task is pending.
+     *
+     * @param options - Options for waiting, such as an `AbortSignal` cancelling the wait.
+     * @returns A promise that resolves once the counter is zero, immediately if it already is.
+     * @throws {AbortError} Rejects if the signal aborts before the counter reaches zero.
+     * @example
+     * ```ts
+     * // Gives up on stragglers after 5 seconds
+     * await group.wait({ signal: AbortSignal.timeout(5000) });
+     * ```
+     */
+    wait(options?: AbortOptions): Promise<void>;
+
+    /**
+     * Returns the number of pending tasks.
+     *
+     * Note: this is a snapshot and may change immediately after the call as tasks are added or done.
+     *
+     * @example
+     * ```ts
+     * const group = WaitGroup(2);
+     * group.done();
+     * console.log(group.count()); // 1
+     * ```
+     */
+    count(): number;
+}
+
+/**
+ * Creates a new `WaitGroup` with the given number of pending tasks.
+ *
+ * @param count - The initial number of pending tasks. Must be a non-negative integer. Defaults to `0`.
+ * @returns A new `WaitGroup` instance.
+ * @throws {RangeError} If `count` is negative or not an integer.
+ * @example
+ * ```ts
+ * // Grows as tasks are added
+ * const group = WaitGroup();
+ *
+ * // Latch for a known number of tasks
+ * const latch = WaitGroup(workers.length);
+ * ```
+ */
+export function WaitGroup(count = 0): WaitGroup {
+    assertCount(count, 'WaitGroup count');
+
+    let pending = count;
+    const waitQueue: (() => void)[] = [];
+
+    return Object.freeze<WaitGroup>({
+        [Symbol.toStringTag]: 'WaitGroup',
+
+        toString(): string {
+            return `WaitGroup(${pending})`;
+        },
+
+        add(n = 1): void {
+            assertCount(n, 'WaitGroup.add() argument');
+            pending += n;
+        },
+
+        done(): void {
+            if (pending === 0) {
+                panic('WaitGroup.done() called with no pending task');
+            }
+            pending--;
+            if (pending === 0) {
+                for (const next of waitQueue.splice(0)) {
+                    next();
+                }
+            }
+        },
+
+        wait(options?: AbortOptions): Promise<void> {
+            const signal = options?.signal;
+            if (signal?.aborted) {
+                return Promise.reject(abortError(signal));
+            }
+
+            if (pending === 0) {
+                return Promise.resolve();
+            }
+
+            return parkWaiter<undefined, () => void>(waitQueue, wake => () => {
+                wake(undefined);
+            }, { signal });
+        },
+
+        count(): number {
+            return pending;
+        },
+    } as const);
+}
+
+// #region Internal helpers
+
+/**
+ * Throws a `RangeError` if `n` is not a non-negative integer.
+ */
+function assertCount(n: number, name: string): void {
+    if (!Number.isInteger(n) || n < 0) {
+        throw new RangeError(`${name} must be a non-negative integer, got ${n}`);
+    }
+}
+
+// #endregion
@@ -0,0 +1,36 @@
+/**
+ * @module
+ * Jest setup module, published as `happy-rusty/testing/jest`.
+ *
+ * Registers `matchers` and `variantEquality` on Jest's global `expect`, and declares the matchers on
+ * the `jest` namespace of `@types/jest`. Add it to `setupFilesAfterEnv` in the Jest config:
+ * ```ts
+ * export default {
+ *     setupFilesAfterEnv: ['happy-rusty/testing/jest'],
+ * };
+ * ```
+ */
+
+import { matchers, variantEquality, type EqualityTester, type HappyRustyMatcherFunctions, type HappyRustyMatchers } from './matchers.ts';
+
+/**
+ * The methods of Jest's global `expect` used to register the matchers.
+ */
+interface JestExpect {
+    extend(matchers: HappyRustyMatcherFunctions): void;
+    addEqualityTesters(testers: EqualityTester[]): void;
+}
+
+// Jest provides `expect` as a global to the setup files
+const { expect } = globalThis as unknown as { readonly expect: JestExpect; };
+
+expect.extend(matchers);
+expect.addEqualityTesters([variantEquality]);
+
+declare global {
+    namespace jest {
+        interface Matchers<R> extends HappyRustyMatchers<R> {}
+        interface Expect extends HappyRustyMatchers<unknown> {}
+        interface InverseAsymmetricMatchers extends HappyRustyMatchers<unknown> {}
+    }
+}
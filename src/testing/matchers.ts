@@ -0,0 +1,342 @@
+/**
+ * @module
+ * Custom matchers for Vitest and Jest that assert on `Result`, `Option` and `ControlFlow` values.
+ *
+ * Register them with `expect.extend(matchers)`, or list `happy-rusty/testing/vitest` in Vitest's `setupFiles`
+ * (`happy-rusty/testing/jest` in Jest's `setupFilesAfterEnv`), which also declares them on the framework's types.
+ * Once registered, every matcher is also available as an asymmetric matcher for use inside `toEqual`,
+ * such as `expect.toBeOkWith(1)`.
+ */
+
+import { variantOf } from '../internal/variant.ts';
+import { debug } from '../std/fmt/fmt.ts';
+
+/**
+ * The matchers added to `expect` by `expect.extend(matchers)`.
+ *
+ * @typeParam R - The return type of the matchers, provided by the test framework.
+ * @since 1.11.0
+ * @see matchers
+ */
+export interface HappyRustyMatchers<R = unknown> {
+    /**
+     * Asserts that the value is an `Ok`.
+     *
+     * @example
+     * ```ts
+     * expect(parse('1')).toBeOk();
+     * ```
+     */
+    toBeOk(): R;
+
+    /**
+     * Asserts that the value is an `Err`.
+     *
+     * @example
+     * ```ts
+     * expect(parse('x')).toBeErr();
+     * ```
+     */
+    toBeErr(): R;
+
+    /**
+     * Asserts that the value is an `Ok` whose value recursively equals `expected`, as with `toEqual`.
+     *
+     * @param expected - The expected value, which may contain asymmetric matchers.
+     * @example
+     * ```ts
+     * expect(parse('1')).toBeOkWith(1);
+     * expect(fetchUser()).toBeOkWith(expect.objectContaining({ name: 'Alice' }));
+     * ```
+     */
+    toBeOkWith(expected: unknown): R;
+
+    /**
+     * Asserts that the value is an `Err` whose error matches `expected`:
+     * - a string is contained in the error message (or in the error itself if it is a string);
+     * - a `RegExp` matches the error message (or the error itself if it is a string);
+     * - a class is a class of the error;
+     * - an object has properties recursively equal to those of the error, as with `toMatchObject`.
+     *
+     * @param expected - The expected message, pattern, class or properties.
+     * @example
+     * ```ts
+     * expect(parse('x')).toBeErrMatching(/invalid digit/);
+     * expect(load()).toBeErrMatching(NotFoundError);
+     * expect(load()).toBeErrMatching({ _tag: 'NotFound', id: 42 });
+     * ```
+     */
+    toBeErrMatching(expected: string | RegExp | (abstract new (...args: never[]) => unknown) | object): R;
+
+    /**
+     * Asserts that the value is a `Some` and, if `expected` is given, that its value recursively equals `expected`.
+     *
+     * @param expected - The expected value, which may contain asymmetric matchers.
+     * @example
+     * ```ts
+     * expect(find(1)).toBeSome();
+     * expect(find(1)).toBeSome({ id: 1 });
+     * ```
+     */
+    toBeSome(expected?: unknown): R;
+
+    /**
+     * Asserts that the value is `None`.
+     *
+     * @example
+     * ```ts
+     * expect(find(-1)).toBeNone();
+     * ```
+     */
+    toBeNone(): R;
+
+    /**
+     * Asserts that the value is a `Break` and, if `expected` is given, that its value recursively equals `expected`.
+     *
+     * @param expected - The expected value, which may contain asymmetric matchers.
+     * @example
+     * ```ts
+     * expect(step(10)).toBeBreak('limit reached');
+     * expect(step(1)).not.toBeBreak();
+     * ```
+     */
+    toBeBreak(expected?: unknown): R;
+}
+
+/**
+ * An equality tester, called by `equals` before the default comparison.
+ * Returns `undefined` to let the next tester decide.
+ *
+ * @since 1.11.0
+ * @see variantEquality
+ */
+export type EqualityTester = (this: EqualityTesterContext, a: unknown, b: unknown, customTesters: EqualityTester[]) => boolean | undefined;
+
+/**
+ * The context of an `EqualityTester`, provided by the test framework.
+ *
+ * @since 1.11.0
+ * @see EqualityTester
+ */
+export interface EqualityTesterContext {
+    equals(a: unknown, b: unknown, customTesters?: EqualityTester[]): boolean;
+}
+
+/**
+ * The subset of the matcher context (`this` in a matcher) used by `matchers`,
+ * provided by both Vitest and Jest.
+ *
+ * @since 1.11.0
+ * @see matchers
+ */
+export interface MatcherContext extends EqualityTesterContext {
+    readonly isNot: boolean;
+    readonly customTesters?: EqualityTester[];
+    readonly utils: {
+        matcherHint(matcherName: string, received?: string, expected?: string, options?: { isNot?: boolean; }): string;
+        EXPECTED_COLOR(text: string): string;
+        RECEIVED_COLOR(text: string): string;
+    };
+}
+
+/**
+ * The result of a matcher, consumed by the test framework.
+ * `actual` and `expected` are shown as a diff when the assertion fails.
+ *
+ * @since 1.11.0
+ * @see matchers
+ */
+export interface MatcherResult {
+    readonly pass: boolean;
+    readonly message: () => string;
+    readonly actual?: unknown;
+    readonly expected?: unknown;
+}
+
+/**
+ * The implementations of `HappyRustyMatchers`, to pass to `expect.extend`.
+ *
+ * @since 1.11.0
+ * @see HappyRustyMatchers
+ */
+export type HappyRustyMatcherFunctions = {
+    readonly [K in keyof HappyRustyMatchers]: (this: MatcherContext, received: unknown, ...expected: Parameters<HappyRustyMatchers[K]>) => MatcherResult;
+};
+
+/**
+ * An equality tester that compares `Result`, `Option`, `Validation` and `ControlFlow` values by variant
+ * and contained values, wherever they appear in the compared values.
+ *
+ * Register it with `expect.addEqualityTesters([variantEquality])` so that `toEqual(Some(1))` works.
+ * `matchers` already use it.
+ *
+ * @param a - The first value.
+ * @param b - The second value.
+ * @param customTesters - The registered testers, passed on to nested comparisons.
+ * @returns Whether the values are equal, or `undefined` if neither is a `Result`, `Option`, `Validation` or `ControlFlow`.
+ * @since 1.11.0
+ * @example
+ * ```ts
+ * expect.addEqualityTesters([variantEquality]);
+ * expect({ user: Some({ id: 1 }) }).toEqual({ user: Some({ id: 1 }) });
+ * ```
+ */
+export function variantEquality(this: EqualityTesterContext, a: unknown, b: unknown, customTesters: EqualityTester[]): boolean | undefined {
+    const left = variantOf(a);
+    const right = variantOf(b);
+    if (left === undefined && right === undefined) {
+        return undefined;
+    }
+    if (left === undefined || right === undefined || left[0] !== right[0]) {
+        return false;
+    }
+    return this.equals(left[1], right[1], customTesters);
+}
+
+/**
+ * Matchers for Vitest and Jest asserting on `Result`, `Option` and `ControlFlow` values,
+ * with failure messages that print the values as `Ok({ ... })` and a diff of the contained values.
+ *
+ * @since 1.11.0
+ * @see HappyRustyMatchers
+ * @example
+ * ```ts
+ * import { expect } from 'vitest';
+ * import { matchers } from 'happy-rusty/testing';
+ *
+ * expect.extend(matchers);
+ *
+ * expect(Ok(1)).toBeOkWith(1);
+ * expect({ user: Some('Alice') }).toEqual({ user: expect.toBeSome('Alice') });
+ * ```
+ */
+export const matchers: HappyRustyMatcherFunctions = /*#__PURE__*/ Object.freeze<HappyRustyMatcherFunctions>({
+    toBeOk(received: unknown): MatcherResult {
+        const variant = variantOf(received);
+        return report(this, 'toBeOk', variant?.[0] === 'Ok', 'Ok', received);
+    },
+
+    toBeErr(received: unknown): MatcherResult {
+        const variant = variantOf(received);
+        return report(this, 'toBeErr', variant?.[0] === 'Err', 'Err', received);
+    },
+
+    toBeOkWith(received: unknown, expected: unknown): MatcherResult {
+        return matchPayload(this, 'toBeOkWith', 'Ok', received, [expected]);
+    },
+
+    toBeErrMatching(received: unknown, expected: string | RegExp | (abstract new (...args: never[]) => unknown) | object): MatcherResult {
+        const variant = variantOf(received);
+        const isErr = variant?.[0] === 'Err';
+        const error = isErr ? variant[1][0] : undefined;
+
+        let pass = isErr;
+        if (isErr) {
+            if (typeof expected === 'string' || expected instanceof RegExp) {
+                const message = typeof error === 'string' ? error : error instanceof Error ? error.message : undefined;
+                pass = message !== undefined && (typeof expected === 'string' ? message.includes(expected) : expected.test(message));
+            } else if (typeof expected === 'function') {
+                pass = error instanceof expected;
+            } else {
+                const testers = testersOf(this);
+                pass = error != null && typeof error === 'object'
+                    && Reflect.ownKeys(expected).every(key => this.equals((error as Record<PropertyKey, unknown>)[key], (expected as Record<PropertyKey, unknown>)[key], testers));
+            }
+        }
+
+        const description = typeof expected === 'function' ? expected.name || '(anonymous class)' : describe(expected);
+        return report(this, 'toBeErrMatching', pass, `Err matching ${description}`, received, isErr ? { actual: error, expected } : undefined);
+    },
+
+    toBeSome(received: unknown, ...expected: [expected?: unknown]): MatcherResult {
+        return matchPayload(this, 'toBeSome', 'Some', received, expected);
+    },
+
+    toBeNone(received: unknown): MatcherResult {
+        const variant = variantOf(received);
+        return report(this, 'toBeNone', variant?.[0] === 'None', 'None', received);
+    },
+
+    toBeBreak(received: unknown, ...expected: [expected?: unknown]): MatcherResult {
+        return matchPayload(this, 'toBeBreak', 'Break', received, expected);
+    },
+} as const);
+
+// #region Internal helpers
+
+/**
+ * Returns the testers to use for nested comparisons: the registered ones and `variantEquality`.
+ *
+ * @param context - The matcher context.
+ * @returns The testers.
+ */
+function testersOf(context: MatcherContext): EqualityTester[] {
+    return [...context.customTesters ?? [], variantEquality];
+}
+
+/**
+ * Checks the variant of a value and, if an expected value is given, its contained value.
+ *
+ * @param context - The matcher context.
+ * @param matcherName - The name of the matcher.
+ * @param name - The expected variant.
+ * @param received - The value to check.
+ * @param expected - The expected contained value, or an empty array to only check the variant.
+ * @returns The matcher result.
+ */
+function matchPayload(context: MatcherContext, matcherName: string, name: string, received: unknown, expected: readonly unknown[]): MatcherResult {
+    const variant = variantOf(received);
+    const isVariant = variant?.[0] === name;
+
+    if (expected.length === 0) {
+        return report(context, matcherName, isVariant, name, received);
+    }
+
+    const [value] = expected;
+    const actual = isVariant ? variant[1][0] : undefined;
+    const pass = isVariant && context.equals(actual, value, testersOf(context));
+
+    return report(context, matcherName, pass, `${name}(${describe(value)})`, received, isVariant ? { actual, expected: value } : undefined);
+}
+
+/**
+ * Builds the result of a matcher with a message showing the expected and received values.
+ *
+ * @param context - The matcher context.
+ * @param matcherName - The name of the matcher.
+ * @param pass - Whether the assertion passed.
+ * @param expected - The description of the expected value.
+ * @param received - The received value.
+ * @param diff - The contained values to diff, if the variant is the expected one.
+ * @returns The matcher result.
+ */
+function report(context: MatcherContext, matcherName: string, pass: boolean, expected: string, received: unknown, diff?: { actual: unknown; expected: unknown; }): MatcherResult {
+    const { isNot, utils } = context;
+
+    return {
+        pass,
+        message: () => [
+            utils.matcherHint(matcherName, undefined, undefined, { isNot }),
+            '',
+            `Expected: ${isNot ? 'not ' : ''}${utils.EXPECTED_COLOR(expected)}`,
+            `Received: ${utils.RECEIVED_COLOR(describe(received))}`,
+        ].join('\n'),
+        ...diff,
+    };
+}
+
+/**
+ * Describes a value for a failure message, using the description of asymmetric matchers.
+ *
+ * @param value - The value to describe.
+ * @returns The description.
+ */
+function describe(value: unknown): string {
+    if (value != null && typeof value === 'object' && typeof (value as { asymmetricMatch?: unknown; }).asymmetricMatch === 'function') {
+        const { toAsymmetricMatcher } = value as { toAsymmetricMatcher?: () => string; };
+        return typeof toAsymmetricMatcher === 'function' ? toAsymmetricMatcher.call(value) : String(value);
+    }
+    return debug(value);
+}
+
+// #endregion
@@ -0,0 +1,8 @@
+/**
+ * @module
+ * Main entry point for the testing module, published as `happy-rusty/testing`.
+ * Re-exports all public APIs from the testing submodules.
+ *
+ * Not re-exported from `src/mod.ts`, so that test helpers stay out of application bundles.
+ */
+export * from './matchers.ts';
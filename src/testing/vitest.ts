@@ -0,0 +1,24 @@
+/**
+ * @module
+ * Vitest setup module, published as `happy-rusty/testing/vitest`.
+ *
+ * Registers `matchers` and `variantEquality` on Vitest's `expect`, and declares the matchers on
+ * Vitest's assertion and asymmetric matcher types. Add it to `setupFiles` in the Vitest config:
+ * ```ts
+ * export default defineConfig({
+ *     test: {
+ *         setupFiles: ['happy-rusty/testing/vitest'],
+ *     },
+ * });
+ * ```
+ */
+
+import { expect } from 'vitest';
+import { matchers, variantEquality, type HappyRustyMatchers } from './matchers.ts';
+
+expect.extend(matchers);
+expect.addEqualityTesters([variantEquality]);
+
+declare module 'vitest' {
+    interface Matchers<T> extends HappyRustyMatchers<T> {}
+}
@@ -0,0 +1,91 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { None, Option, Some } from '../../../src/mod.ts';
+
+function delay<T>(ms: number, value: T): Promise<T> {
+    return new Promise(resolve => setTimeout(() => resolve(value), ms));
+}
+
+describe('Option.all', () => {
+    it('should collect an array of Some values', () => {
+        const options: Option<number>[] = [Some(1), Some(2)];
+        const all = Option.all(options);
+
+        expectTypeOf(all).toEqualTypeOf<Option<number[]>>();
+        expect(all.unwrap()).toEqual([1, 2]);
+    });
+
+    it('should keep precise tuple and record types', () => {
+        const tuple = Option.all([Some(1), Some('a')]);
+        const record = Option.all({ id: Some(1), name: Some('a') });
+
+        expectTypeOf(tuple).toEqualTypeOf<Option<[number, string]>>();
+        expectTypeOf(record).toEqualTypeOf<Option<{ id: number; name: string; }>>();
+        expect(tuple.unwrap()).toEqual([1, 'a']);
+        expect(record.unwrap()).toEqual({ id: 1, name: 'a' });
+    });
+
+    it('should return None if any element is None', () => {
+        expect(Option.all([Some(1), None, Some(3)])).toBe(None);
+        expect(Option.all({ a: None })).toBe(None);
+    });
+
+    it('should throw TypeError for non-Option elements', () => {
+        expect(() => Option.all([Some(1), 'a' as unknown as Option<number>])).toThrow(TypeError);
+    });
+});
+
+describe('Option.allAsync', () => {
+    it('should accept Options, promises and task functions', async () => {
+        const all = await Option.allAsync({
+            a: Some(1),
+            b: delay(5, Some('b')),
+            c: async () => Some(true),
+        });
+
+        expectTypeOf(all).toEqualTypeOf<Option<{ a: number; b: string; c: boolean; }>>();
+        expect(all.unwrap()).toEqual({ a: 1, b: 'b', c: true });
+    });
+
+    it('should resolve None without starting further tasks', async () => {
+        const third = vi.fn(() => Some(3));
+        const all = await Option.allAsync([() => Some(1), () => None, third], { concurrency: 1 });
+
+        expect(all).toBe(None);
+        expect(third).not.toHaveBeenCalled();
+    });
+
+    it('should reject for invalid tasks and concurrency', async () => {
+        await expect(Option.allAsync([Promise.resolve(1 as unknown as Option<number>)])).rejects.toThrow(TypeError);
+        await expect(Option.allAsync([], { concurrency: NaN })).rejects.toThrow(RangeError);
+    });
+});
+
+describe('Option.any', () => {
+    it('should return the first Some', () => {
+        const any = Option.any([None, Some('a'), Some(1)]);
+
+        expectTypeOf(any).toEqualTypeOf<Option<string | number>>();
+        expect(any.unwrap()).toBe('a');
+        expect(Option.any([None, None])).toBe(None);
+    });
+
+    it('should throw TypeError for non-Option elements', () => {
+        expect(() => Option.any([undefined as unknown as Option<number>])).toThrow(TypeError);
+    });
+});
+
+describe('Option.anyAsync', () => {
+    it('should resolve with the first Some to settle', async () => {
+        const any = await Option.anyAsync([delay(20, Some('slow')), delay(1, Some('fast')), None]);
+
+        expect(any.unwrap()).toBe('fast');
+    });
+
+    it('should resolve None when every task is None', async () => {
+        expect(await Option.anyAsync([() => None, Promise.resolve(None)], { concurrency: Infinity })).toBe(None);
+    });
+
+    it('should reject for invalid concurrency', async () => {
+        await expect(Option.anyAsync([], { concurrency: 0 })).rejects.toThrow(RangeError);
+    });
+});
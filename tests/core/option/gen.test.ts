@@ -0,0 +1,82 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { None, Option, Some, type AsyncOption } from '../../../src/mod.ts';
+
+const users = new Map([[1, { name: 'Alice', city: Some('Paris') }], [2, { name: 'Bob', city: None as Option<string> }]]);
+
+function findUser(id: number): Option<{ name: string; city: Option<string>; }> {
+    const user = users.get(id);
+    return user ? Some(user) : None;
+}
+
+async function findUserAsync(id: number): AsyncOption<{ name: string; city: Option<string>; }> {
+    return findUser(id);
+}
+
+describe('Option.gen', () => {
+    it('should be frozen', () => {
+        expect(Object.isFrozen(Option)).toBe(true);
+    });
+
+    it('should return Some with the returned value when every step is Some', () => {
+        const city = Option.gen(function* () {
+            const user = yield* findUser(1);
+            return yield* user.city;
+        });
+
+        expectTypeOf(city).toEqualTypeOf<Option<string>>();
+        expect(city.unwrap()).toBe('Paris');
+    });
+
+    it('should short-circuit with None', () => {
+        const after = vi.fn();
+        const city = Option.gen(function* () {
+            const user = yield* findUser(2);
+            const c = yield* user.city;
+            after();
+            return c;
+        });
+
+        expect(city).toBe(None);
+        expect(after).not.toHaveBeenCalled();
+    });
+
+    it('should run finally blocks when short-circuiting', () => {
+        const cleanup = vi.fn();
+        const result = Option.gen(function* () {
+            try {
+                return yield* findUser(3);
+            } finally {
+                cleanup();
+            }
+        });
+
+        expect(result.isNone()).toBe(true);
+        expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('Option.genAsync', () => {
+    it('should unwrap both sync and async Options', async () => {
+        const city = await Option.genAsync(async function* () {
+            const user = yield* await findUserAsync(1);
+            return yield* user.city;
+        });
+
+        expect(city.unwrap()).toBe('Paris');
+    });
+
+    it('should short-circuit with None', async () => {
+        const cleanup = vi.fn();
+        const city = await Option.genAsync(async function* () {
+            try {
+                const user = yield* await findUserAsync(2);
+                return yield* user.city;
+            } finally {
+                cleanup();
+            }
+        });
+
+        expect(city).toBe(None);
+        expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+});
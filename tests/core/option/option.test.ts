@@ -1,5 +1,5 @@
-import { describe, expect, it, vi } from 'vitest';
-import { ASYNC_NONE, Err, None, Ok, Some, type AsyncOption, type Option } from '../../../src/mod.ts';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { ASYNC_NONE, ContextError, Equal, Err, Greater, Less, None, Ok, Option, Some, type AsyncOption, type OptionBase } from '../../../src/mod.ts';
 
 describe('Option', () => {
     describe('Some variant', () => {
@@ -200,7 +200,7 @@ describe('Option', () => {
 
             it('should return self when only self is Some', () => {
                 const a = Some(10);
-                const b: Option<number> = None;
+                const b = None as Option<number>;
                 expect(a.reduce(b, (x, y) => x + y).eq(Some(10))).toBe(true);
             });
 
@@ -296,29 +296,61 @@ describe('Option', () => {
             it('should not equal None', () => {
                 expect(some.eq(None)).toBe(false);
             });
+
+            it('should compare the contained values structurally', () => {
+                expect(Some({ a: [1, { b: 2 }] }).eq(Some({ a: [1, { b: 2 }] }))).toBe(true);
+                expect(Some({ a: [1, { b: 2 }] }).eq(Some({ a: [1, { b: 3 }] }))).toBe(false);
+                expect(Some(Some([1])).eq(Some(Some([1])))).toBe(true);
+                expect(Some<unknown>(Ok(1)).eq(Some(Err(1)))).toBe(false);
+            });
+
+            it('should compare the contained values with a custom function', () => {
+                const a = Some({ id: 1, name: 'a' });
+                const b = Some({ id: 1, name: 'b' });
+
+                expect(a.eq(b)).toBe(false);
+                expect(a.eq(b, (x, y) => x.id === y.id)).toBe(true);
+                expect(Some([1]).eq(Some([1]), (x, y) => x === y)).toBe(false);
+            });
+
+            it('should throw TypeError for invalid Option', () => {
+                expect(() => some.eq(null as unknown as Option<number>)).toThrow(TypeError);
+            });
         });
 
-        describe('iterator', () => {
-            it('should yield the contained value once', () => {
-                const values: number[] = [];
-                for (const v of some) {
-                    values.push(v);
-                }
-                expect(values).toEqual([10]);
+        describe('ordering', () => {
+            it('should order the contained values', () => {
+                expect(some.cmp(Some(10))).toBe(Equal);
+                expect(some.cmp(Some(5))).toBe(Greater);
+                expect(some.cmp(Some(20))).toBe(Less);
+                expect(Some('b').cmp(Some('a'))).toBe(Greater);
             });
 
-            it('should work with spread operator', () => {
-                expect([...some]).toEqual([10]);
-                expect([...Some('hello')]).toEqual(['hello']);
+            it('should be greater than None', () => {
+                expect(some.cmp(None)).toBe(Greater);
             });
 
-            it('should work with Array.from', () => {
-                expect(Array.from(some)).toEqual([10]);
+            it('should order the contained values with a custom function', () => {
+                const byLength = (a: string, b: string) => Some(a.length).cmp(Some(b.length));
+
+                expect(Some('abc').cmp(Some('z'))).toBe(Less);
+                expect(Some('abc').cmp(Some('z'), byLength)).toBe(Greater);
             });
 
-            it('should be usable with destructuring', () => {
-                const [first] = some;
-                expect(first).toBe(10);
+            it('should throw for values that cannot be ordered', () => {
+                expect(() => Some({ a: 1 }).cmp(Some({ a: 1 }))).toThrow(TypeError);
+                expect(() => some.cmp(undefined as unknown as Option<number>)).toThrow(TypeError);
+            });
+        });
+
+        describe('iterator', () => {
+            it('should return the contained value without yielding', () => {
+                expect(some[Symbol.iterator]().next()).toEqual({ done: true, value: 10 });
+            });
+
+            it('should be seen as empty by spread syntax', () => {
+                expect([...some]).toEqual([]);
+                expect(Array.from(Some('hello'))).toEqual([]);
             });
         });
 
@@ -567,23 +599,232 @@ describe('Option', () => {
             });
         });
 
-        describe('iterator', () => {
-            it('should yield nothing', () => {
-                const values: never[] = [];
-                for (const v of none) {
-                    values.push(v);
-                }
-                expect(values).toEqual([]);
+        describe('ordering', () => {
+            it('should be less than Some and equal to None', () => {
+                expect(none.cmp(Some(10))).toBe(Less);
+                expect(none.cmp(None)).toBe(Equal);
             });
 
-            it('should work with spread operator', () => {
-                expect([...none]).toEqual([]);
+            it('should not call the custom function', () => {
+                const compare = vi.fn(() => Equal);
+
+                expect(none.cmp(Some(1), compare)).toBe(Less);
+                expect(compare).not.toHaveBeenCalled();
             });
 
-            it('should work with Array.from', () => {
-                expect(Array.from(none)).toEqual([]);
+            it('should throw TypeError for invalid Option', () => {
+                expect(() => none.cmp({} as Option<number>)).toThrow(TypeError);
             });
         });
+
+        describe('iterator', () => {
+            it('should yield None once', () => {
+                const iterator = none[Symbol.iterator]();
+                expect(iterator.next().value).toBe(None);
+                expect(iterator.next().done).toBe(true);
+            });
+
+            it('should be seen as None alone by spread syntax', () => {
+                const [first, ...rest] = none;
+                expect(first).toBe(None);
+                expect(rest).toEqual([]);
+            });
+        });
+    });
+
+    describe('narrowing', () => {
+        const find = (key: string): Option<number> => key === 'a' ? Some(1) : None;
+
+        it('isSome() should narrow to Some with a readonly value', () => {
+            const option = find('a');
+            if (option.isSome()) {
+                expectTypeOf(option).toEqualTypeOf<Some<number>>();
+                expectTypeOf(option.value).toEqualTypeOf<number>();
+                expect(option.value).toBe(1);
+            } else {
+                expectTypeOf(option).toEqualTypeOf<None>();
+                expect.unreachable();
+            }
+            expect(() => {
+                (Some(1) as { value: number; }).value = 2;
+            }).toThrow(TypeError);
+        });
+
+        it('isNone() should narrow to None', () => {
+            const option = find('b');
+            if (option.isNone()) {
+                expectTypeOf(option).toEqualTypeOf<None>();
+                expect(option).toBe(None);
+            } else {
+                expectTypeOf(option.value).toEqualTypeOf<number>();
+                expect.unreachable();
+            }
+        });
+
+        it('declared Option variables should narrow in both branches', () => {
+            let option: Option<number> = find('a');
+            option = option.and(find('b'));
+            const label = option.isSome() ? `${option.value}` : 'none';
+
+            expectTypeOf(option).toEqualTypeOf<Option<number>>();
+            expect(label).toBe('none');
+        });
+
+        it('interfaces should extend OptionBase', () => {
+            interface Cached extends OptionBase<number> {
+                readonly hits?: number;
+            }
+            const cached: Cached = Some(1);
+
+            expect(cached.unwrapOr(0)).toBe(1);
+        });
+    });
+
+    describe('context', () => {
+        it('context() should map None to an Err of a ContextError without cause', () => {
+            const error = (None as Option<number>).context('Missing value').unwrapErr();
+
+            expect(error).toBeInstanceOf(ContextError);
+            expect(error.message).toBe('Missing value');
+            expect('cause' in error).toBe(false);
+            expect(Some(1).context('Missing value').unwrap()).toBe(1);
+        });
+
+        it('withContext() should only compute the message for None', () => {
+            const fn = vi.fn(() => 'Missing value');
+
+            expect(Some(1).withContext(fn).unwrap()).toBe(1);
+            expect(fn).not.toHaveBeenCalled();
+            expect(None.withContext(fn).unwrapErr().message).toBe('Missing value');
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('match', () => {
+        it('should call the arm of the variant', () => {
+            const some = Some(2) as Option<number>;
+            const value = some.match({ Some: v => v * 2, None: () => 'none' });
+            expectTypeOf(value).toEqualTypeOf<number | string>();
+            expect(value).toBe(4);
+            expect(None.match({ Some: () => 1, None: () => 'none' })).toBe('none');
+        });
+
+        it('should not call the arm of the other variant', () => {
+            const someArm = vi.fn();
+            None.match({ Some: someArm, None: () => undefined });
+            expect(someArm).not.toHaveBeenCalled();
+        });
+
+        it('matchAsync() should await the arms', async () => {
+            expect(await Some(2).matchAsync({ Some: async v => v + 1, None: () => 0 })).toBe(3);
+            expect(await None.matchAsync({ Some: () => 0, None: async () => 'none' })).toBe('none');
+        });
+    });
+
+    describe('structural equality', () => {
+        it('should compare primitives by value', () => {
+            expect(Some(NaN).eq(Some(NaN))).toBe(true);
+            expect(Some(0).eq(Some(-0))).toBe(true);
+            expect(Some<unknown>(1).eq(Some('1'))).toBe(false);
+            expect(Some<unknown>(null).eq(Some(undefined))).toBe(false);
+            expect(Some<unknown>({}).eq(Some(null))).toBe(false);
+        });
+
+        it('should compare arrays and objects by their own enumerable properties', () => {
+            const symbol = Symbol('key');
+
+            expect(Some([1, [2, 3]]).eq(Some([1, [2, 3]]))).toBe(true);
+            expect(Some([1, 2]).eq(Some([1, 2, 3]))).toBe(false);
+            expect(Some<unknown[]>([undefined]).eq(Some(new Array(1)))).toBe(false);
+            expect(Some({ a: 1, [symbol]: 2 }).eq(Some({ a: 1, [symbol]: 2 }))).toBe(true);
+            expect(Some({ a: 1, [symbol]: 2 }).eq(Some({ a: 1, [symbol]: 3 }))).toBe(false);
+            expect(Some<object>({ a: undefined }).eq(Some({ b: undefined }))).toBe(false);
+            expect(Some<object>({ a: 1 }).eq(Some({ a: 1, b: 2 }))).toBe(false);
+        });
+
+        it('should only compare objects with the same prototype', () => {
+            class Point {
+                constructor(readonly x: number) { }
+            }
+
+            expect(Some(new Point(1)).eq(Some(new Point(1)))).toBe(true);
+            expect(Some<object>(new Point(1)).eq(Some({ x: 1 }))).toBe(false);
+            expect(Some<object>([]).eq(Some({}))).toBe(false);
+        });
+
+        it('should compare dates, regular expressions and errors', () => {
+            const cause = new Error('root');
+
+            expect(Some(new Date(1)).eq(Some(new Date(1)))).toBe(true);
+            expect(Some(new Date(1)).eq(Some(new Date(2)))).toBe(false);
+            expect(Some(/a/g).eq(Some(/a/g))).toBe(true);
+            expect(Some(/a/g).eq(Some(/a/i))).toBe(false);
+            expect(Some(/a/).eq(Some(/b/))).toBe(false);
+            expect(Some(new Error('a', { cause })).eq(Some(new Error('a', { cause: new Error('root') })))).toBe(true);
+            expect(Some(new Error('a')).eq(Some(new Error('b')))).toBe(false);
+            expect(Some(Object.assign(new Error('a'), { code: 1 })).eq(Some(Object.assign(new Error('a'), { code: 2 })))).toBe(false);
+        });
+
+        it('should compare typed arrays and data views by their bytes', () => {
+            expect(Some(new Uint8Array([1, 2])).eq(Some(new Uint8Array([1, 2])))).toBe(true);
+            expect(Some(new Uint8Array([1, 2])).eq(Some(new Uint8Array([1, 3])))).toBe(false);
+            expect(Some(new Uint8Array([1, 2])).eq(Some(new Uint8Array([1])))).toBe(false);
+            expect(Some(new DataView(new ArrayBuffer(2))).eq(Some(new DataView(new ArrayBuffer(2))))).toBe(true);
+        });
+
+        it('should compare maps by value and sets by identity', () => {
+            const key = { id: 1 };
+
+            expect(Some(new Map([[key, [1]]])).eq(Some(new Map([[key, [1]]])))).toBe(true);
+            expect(Some(new Map([[key, [1]]])).eq(Some(new Map([[key, [2]]])))).toBe(false);
+            expect(Some(new Map([[key, 1]])).eq(Some(new Map([[{ id: 1 }, 1]])))).toBe(false);
+            expect(Some(new Map([[1, 1]])).eq(Some(new Map([[1, 1], [2, 2]])))).toBe(false);
+            expect(Some(new Set([key, 1])).eq(Some(new Set([1, key])))).toBe(true);
+            expect(Some(new Set([key])).eq(Some(new Set([{ id: 1 }])))).toBe(false);
+            expect(Some(new Set([1])).eq(Some(new Set([1, 2])))).toBe(false);
+        });
+
+        it('should compare nested variants by variant and contents', () => {
+            expect(Some({ user: Some({ name: 'a' }) }).eq(Some({ user: Some({ name: 'a' }) }))).toBe(true);
+            expect(Some<unknown>(Some(1)).eq(Some(Ok(1)))).toBe(false);
+            expect(Some<unknown>(Some(1)).eq(Some({ value: 1 }))).toBe(false);
+            expect(Some<unknown>({}).eq(Some(None))).toBe(false);
+        });
+
+        it('should compare functions by identity', () => {
+            const fn = (): void => { };
+
+            expect(Some(fn).eq(Some(fn))).toBe(true);
+            expect(Some(fn).eq(Some((): void => { }))).toBe(false);
+        });
+
+        it('should handle cycles', () => {
+            interface Node { value: number; next?: Node; }
+            const a: Node = { value: 1 };
+            a.next = a;
+            const b: Node = { value: 1 };
+            b.next = { value: 1, next: b };
+            const c: Node = { value: 1 };
+            c.next = { value: 2, next: c };
+
+            expect(Some(a).eq(Some(b))).toBe(true);
+            expect(Some(a).eq(Some(c))).toBe(false);
+            expect(Some([a, a]).eq(Some([b, b]))).toBe(true);
+        });
+    });
+
+    describe('Option.compare', () => {
+        it('should sort None first, then Some by value', () => {
+            const sorted = [Some(3), None, Some(1), Some(2), None].sort(Option.compare);
+
+            expect(sorted.map(String)).toEqual(['None', 'None', 'Some(1)', 'Some(2)', 'Some(3)']);
+        });
+
+        it('should return the number of the Ordering', () => {
+            expect(Option.compare(Some(1), Some(2))).toBe(-1);
+            expect(Option.compare(Some(1), Some(1))).toBe(0);
+            expect(Option.compare(Some(1), None)).toBe(1);
+        });
     });
 
     describe('Immutability', () => {
@@ -0,0 +1,248 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { ContextError, Equal, Err, Greater, Less, None, Ok, Option, OptionAsync, ResultAsync, Some, tryAsyncOption, type AsyncOption, type Result } from '../../../src/mod.ts';
+
+function someAsync<T>(value: T): OptionAsync<T> {
+    return OptionAsync(Promise.resolve(Some(value)));
+}
+
+function noneAsync<T = number>(): OptionAsync<T> {
+    return OptionAsync<T>(Promise.resolve(None));
+}
+
+describe('OptionAsync', () => {
+    describe('construction and protocols', () => {
+        it('should have [object OptionAsync] as toStringTag', () => {
+            expect(Object.prototype.toString.call(someAsync(1))).toBe('[object OptionAsync]');
+            expect(someAsync(1).toString()).toBe('OptionAsync');
+        });
+
+        it('should be frozen', () => {
+            expect(Object.isFrozen(someAsync(1))).toBe(true);
+        });
+
+        it('should be awaitable to the underlying Option', async () => {
+            const some = Some(1);
+            expect(await OptionAsync(some)).toBe(some);
+            expect(await OptionAsync(Promise.resolve(None))).toBe(None);
+        });
+
+        it('then() should support rejection handlers', async () => {
+            const failing = OptionAsync<number>(Promise.reject(new Error('rejected')));
+            expect(await failing.then(() => 'fulfilled', e => (e as Error).message)).toBe('rejected');
+        });
+
+        it('should be unwrapped by yield* in Option.genAsync', async () => {
+            const sum = await Option.genAsync(async function* () {
+                const a = yield* someAsync(1);
+                return a + (yield* someAsync(2));
+            });
+            const after = vi.fn();
+            const none = await Option.genAsync(async function* () {
+                const a = yield* noneAsync();
+                after();
+                return a;
+            });
+
+            expectTypeOf(sum).toEqualTypeOf<Option<number>>();
+            expect(sum.unwrap()).toBe(3);
+            expect(none).toBe(None);
+            expect(after).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('querying the variant', () => {
+        it('isSome() and isNone()', async () => {
+            expect(await someAsync(1).isSome()).toBe(true);
+            expect(await someAsync(1).isNone()).toBe(false);
+            expect(await noneAsync().isSome()).toBe(false);
+            expect(await noneAsync().isNone()).toBe(true);
+        });
+
+        it('isSomeAnd() and isNoneOr() should accept sync and async predicates', async () => {
+            expect(await someAsync(2).isSomeAnd(async v => v > 1)).toBe(true);
+            expect(await noneAsync().isSomeAnd(() => true)).toBe(false);
+            expect(await someAsync(2).isNoneOr(v => v > 5)).toBe(false);
+            expect(await noneAsync().isNoneOr(async () => false)).toBe(true);
+        });
+    });
+
+    describe('extracting contained value', () => {
+        it('expect() and unwrap()', async () => {
+            expect(await someAsync(1).expect('msg')).toBe(1);
+            expect(await someAsync(1).unwrap()).toBe(1);
+            await expect(noneAsync().expect('msg')).rejects.toThrow('msg');
+            await expect(noneAsync().unwrap()).rejects.toThrow(TypeError);
+        });
+
+        it('unwrapOr() and unwrapOrElse()', async () => {
+            expect(await someAsync(1).unwrapOr(0)).toBe(1);
+            expect(await noneAsync().unwrapOr(0)).toBe(0);
+            expect(await noneAsync().unwrapOrElse(async () => 10)).toBe(10);
+        });
+    });
+
+    describe('transforming to ResultAsync', () => {
+        it('okOr() should return a ResultAsync', async () => {
+            const ok = someAsync(1).okOr('missing');
+            expectTypeOf(ok).toEqualTypeOf<ResultAsync<number, string>>();
+            expect(await ok.unwrap()).toBe(1);
+            expect(await noneAsync().okOr('missing').unwrapErr()).toBe('missing');
+        });
+
+        it('okOrElse() should accept sync and async functions', async () => {
+            const fn = vi.fn(() => 'missing');
+            expect(await someAsync(1).okOrElse(fn).unwrap()).toBe(1);
+            expect(fn).not.toHaveBeenCalled();
+            expect(await noneAsync().okOrElse(async () => 'missing').unwrapErr()).toBe('missing');
+        });
+
+        it('transpose()', async () => {
+            const some = OptionAsync<Result<number, string>>(Some(Ok(5))).transpose();
+            expect((await some.unwrap()).unwrap()).toBe(5);
+            const err = OptionAsync<Result<number, string>>(Some(Err('e'))).transpose();
+            expect(await err.unwrapErr()).toBe('e');
+        });
+    });
+
+    describe('transforming contained values', () => {
+        it('filter() should accept sync and async predicates', async () => {
+            expect(await someAsync(4).filter(async v => v % 2 === 0).unwrap()).toBe(4);
+            expect(await someAsync(3).filter(v => v % 2 === 0)).toBe(None);
+            expect(await noneAsync().filter(() => true)).toBe(None);
+        });
+
+        it('flatten()', async () => {
+            expect(await OptionAsync<Option<number>>(Some(Some(5))).flatten().unwrap()).toBe(5);
+        });
+
+        it('map() should accept sync and async functions', async () => {
+            const mapped = someAsync(2).map(v => v * 2).map(async v => `${v}`);
+            expectTypeOf(mapped).toEqualTypeOf<OptionAsync<string>>();
+            expect(await mapped.unwrap()).toBe('4');
+            expect(await noneAsync().map(v => v * 2)).toBe(None);
+        });
+
+        it('mapOr() and mapOrElse()', async () => {
+            expect(await someAsync(2).mapOr(0, async v => v * 2)).toBe(4);
+            expect(await noneAsync().mapOr(0, v => v * 2)).toBe(0);
+            expect(await someAsync(2).mapOrElse(() => 0, v => v * 2)).toBe(4);
+            expect(await noneAsync().mapOrElse(async () => -1, v => v * 2)).toBe(-1);
+        });
+
+        it('zip() and zipWith() should accept sync and async Options', async () => {
+            expect(await someAsync(1).zip(Promise.resolve(Some('a'))).unwrap()).toEqual([1, 'a']);
+            expect(await someAsync(1).zip(None)).toBe(None);
+            expect(await someAsync(2).zipWith(someAsync(3), async (a, b) => a * b).unwrap()).toBe(6);
+            expect(await noneAsync().zipWith(Some(3), (a, b) => a * b)).toBe(None);
+        });
+
+        it('unzip()', async () => {
+            const [a, b] = OptionAsync(Some<[number, string]>([1, 'a'])).unzip();
+            expect(await a.unwrap()).toBe(1);
+            expect(await b.unwrap()).toBe('a');
+        });
+
+        it('reduce()', async () => {
+            expect(await someAsync(2).reduce(Some(3), async (a, b) => a + b).unwrap()).toBe(5);
+            expect(await someAsync(2).reduce(None, (a, b: number) => a + b).unwrap()).toBe(2);
+            expect(await noneAsync().reduce(Some(3), (a, b) => a + b).unwrap()).toBe(3);
+        });
+    });
+
+    describe('context', () => {
+        it('context() and withContext() should map None to a ContextError', async () => {
+            expect(await noneAsync().context('Missing').unwrapErr()).toHaveProperty('message', 'Missing');
+            expect(await noneAsync().withContext(() => 'Missing').unwrapErr()).toBeInstanceOf(ContextError);
+            expect(await someAsync(1).context('Missing').unwrap()).toBe(1);
+            expect(await someAsync(1).withContext(() => 'Missing').unwrap()).toBe(1);
+        });
+    });
+
+    describe('match', () => {
+        it('should resolve to the awaited arm value', async () => {
+            expect(await someAsync(1).match({ Some: async v => v + 1, None: () => 0 })).toBe(2);
+            expect(await noneAsync().match({ Some: () => 0, None: () => 'none' })).toBe('none');
+        });
+    });
+
+    describe('boolean operators', () => {
+        it('and() and or()', async () => {
+            expect(await someAsync(1).and(Promise.resolve(Some('next'))).unwrap()).toBe('next');
+            expect(await noneAsync().and(Some('next'))).toBe(None);
+            expect(await noneAsync().or(Promise.resolve(Some(5))).unwrap()).toBe(5);
+            expect(await someAsync(1).or(Some(5)).unwrap()).toBe(1);
+        });
+
+        it('and() and or() should handle the rejection of an operand they do not use', async () => {
+            // Vitest fails the run on unhandled rejections, so dropping either operand unhandled fails this test
+            expect(await noneAsync().and(Promise.reject(new Error('unused')))).toBe(None);
+            expect(await someAsync(1).or(Promise.reject(new Error('unused'))).unwrap()).toBe(1);
+            await new Promise(resolve => setTimeout(resolve, 1));
+
+            await expect(someAsync(1).and(Promise.reject(new Error('used')))).rejects.toThrow('used');
+            await expect(noneAsync().or(Promise.reject(new Error('used')))).rejects.toThrow('used');
+        });
+
+        it('andThen() and orElse() should chain lookups without intermediate awaits', async () => {
+            const memory = new Map<string, number>();
+            const remote = new Map([['a', 1]]);
+            const lookup = async (key: string): AsyncOption<number> => remote.has(key) ? Some(remote.get(key) as number) : None;
+
+            const found = OptionAsync(memory.has('a') ? Some(memory.get('a') as number) : None)
+                .orElse(() => lookup('a'))
+                .andThen(v => Some(v + 1))
+                .andThen(async v => Some(v * 10));
+            expect(await found.unwrap()).toBe(20);
+            expect(await OptionAsync<number>(None).orElse(() => lookup('b')).isNone()).toBe(true);
+        });
+
+        it('xor()', async () => {
+            expect(await someAsync(1).xor(None).unwrap()).toBe(1);
+            expect(await someAsync(1).xor(Promise.resolve(Some(2)))).toBe(None);
+        });
+    });
+
+    describe('side effects and equality', () => {
+        it('inspect() should only run on Some and await async callbacks', async () => {
+            const order: string[] = [];
+            await someAsync(1)
+                .inspect(async () => {
+                    await Promise.resolve();
+                    order.push('inspect');
+                })
+                .map(() => order.push('map'));
+            await noneAsync().inspect(() => {
+                order.push('none');
+            });
+            expect(order).toEqual(['inspect', 'map']);
+        });
+
+        it('eq() should compare with sync and async Options', async () => {
+            expect(await someAsync(5).eq(Some(5))).toBe(true);
+            expect(await someAsync(5).eq(Promise.resolve(Some(6)))).toBe(false);
+            expect(await noneAsync().eq(noneAsync())).toBe(true);
+            expect(await OptionAsync(Some([1, 2])).eq(Some([1, 2]))).toBe(true);
+            expect(await OptionAsync(Some([1, 2])).eq(Some([1, 2]), (a, b) => a === b)).toBe(false);
+        });
+
+        it('cmp() should order with sync and async Options', async () => {
+            expect(await someAsync(5).cmp(Some(6))).toBe(Less);
+            expect(await someAsync(5).cmp(Promise.resolve(None))).toBe(Greater);
+            expect(await noneAsync().cmp(noneAsync(), () => Less)).toBe(Equal);
+        });
+    });
+
+    describe('interop', () => {
+        it('should wrap tryAsyncOption and andThenAsync outputs', async () => {
+            expect(await OptionAsync(tryAsyncOption(async () => 1)).unwrap()).toBe(1);
+            expect(await OptionAsync(Some(1).andThenAsync(async v => Some(v + 1))).unwrap()).toBe(2);
+        });
+
+        it('ResultAsync.ok() and err() should return OptionAsync', async () => {
+            const ok = ResultAsync<number, string>(Ok(1)).ok();
+            expectTypeOf(ok).toEqualTypeOf<OptionAsync<number>>();
+            expect(await ok.map(v => v + 1).unwrap()).toBe(2);
+            expect(await ResultAsync<number, string>(Err('e')).err().unwrap()).toBe('e');
+        });
+    });
+});
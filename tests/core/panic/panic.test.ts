@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { catchUnwind, catchUnwindAsync, Err, Invalid, None, Ok, Panic, panic, ResultAsync, setPanicHook, Some, takePanicHook, Valid, type Result } from '../../../src/mod.ts';
+
+afterEach(() => {
+    takePanicHook();
+});
+
+describe('Panic', () => {
+    it('should be a TypeError named Panic', () => {
+        const error = new Panic('boom');
+
+        expect(error).toBeInstanceOf(TypeError);
+        expect(error.name).toBe('Panic');
+        expect(String(error)).toBe('Panic: boom');
+    });
+
+    it('should be thrown by extractors called on the wrong variant', () => {
+        const cases: (() => unknown)[] = [
+            () => None.unwrap(),
+            () => None.expect('missing'),
+            () => Ok(1).unwrapErr(),
+            () => Ok(1).expectErr('not an error'),
+            () => (Ok(1) as unknown as Result<never, string>).intoErr(),
+            () => Ok(1).asErr(),
+            () => Err('e').unwrap(),
+            () => Err('e').expect('failed'),
+            () => (Err('e') as unknown as Result<number, never>).intoOk(),
+            () => Err('e').asOk(),
+            () => Valid(1).unwrapErrors(),
+            () => Invalid('e').unwrap(),
+            () => Invalid('e').expect('invalid'),
+        ];
+
+        for (const fn of cases) {
+            expect(fn).toThrow(Panic);
+        }
+    });
+
+    it('should carry the Err payload as cause', () => {
+        const error = new Error('disk full');
+        const result = catchUnwind(() => Err(error).unwrap());
+
+        expect(result.unwrapErr().message).toBe('Result::unwrap() called on an `Err` value');
+        expect(result.unwrapErr().cause).toBe(error);
+        expect(catchUnwind(() => Err('e').expect('failed')).unwrapErr().cause).toBe('e');
+        expect('cause' in catchUnwind(() => None.unwrap()).unwrapErr()).toBe(false);
+    });
+});
+
+describe('panic', () => {
+    it('should throw a Panic with the message and options', () => {
+        const cause = new Error('cause');
+
+        expect(() => panic('boom')).toThrow(new Panic('boom'));
+        expect(catchUnwind(() => panic('boom', { cause })).unwrapErr().cause).toBe(cause);
+    });
+});
+
+describe('panic hook', () => {
+    it('should be called with every panic before it is thrown', () => {
+        const hook = vi.fn();
+        setPanicHook(hook);
+
+        const result = catchUnwind(() => Some(1).and(None).unwrap());
+
+        expect(hook).toHaveBeenCalledTimes(1);
+        expect(hook).toHaveBeenCalledWith(result.unwrapErr());
+    });
+
+    it('should be replaced by setPanicHook', () => {
+        const first = vi.fn();
+        const second = vi.fn();
+        setPanicHook(first);
+        setPanicHook(second);
+
+        catchUnwind(() => panic('boom'));
+
+        expect(first).not.toHaveBeenCalled();
+        expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not replace the panic when it throws', () => {
+        setPanicHook(() => {
+            throw new Error('hook failed');
+        });
+
+        expect(() => panic('boom')).toThrow(Panic);
+    });
+
+    it('takePanicHook() should unregister and return the hook', () => {
+        const hook = vi.fn();
+
+        expect(takePanicHook()).toBe(None);
+
+        setPanicHook(hook);
+        expect(takePanicHook().unwrap()).toBe(hook);
+        expect(takePanicHook()).toBe(None);
+
+        catchUnwind(() => panic('boom'));
+        expect(hook).not.toHaveBeenCalled();
+    });
+});
+
+describe('catchUnwind', () => {
+    it('should return Ok with the value when the function does not panic', () => {
+        const result = catchUnwind(() => 42);
+
+        expectTypeOf(result).toEqualTypeOf<Result<number, Panic>>();
+        expect(result.unwrap()).toBe(42);
+    });
+
+    it('should return Err with the Panic', () => {
+        const result = catchUnwind(() => None.expect('missing port'));
+
+        expect(result.unwrapErr()).toBeInstanceOf(Panic);
+        expect(result.unwrapErr().message).toBe('missing port');
+    });
+
+    it('should rethrow other exceptions', () => {
+        const error = new TypeError('real type error');
+
+        expect(() => catchUnwind(() => {
+            throw error;
+        })).toThrow(error);
+    });
+});
+
+describe('catchUnwindAsync', () => {
+    it('should resolve to Ok with the awaited value', async () => {
+        const result = await catchUnwindAsync(async () => 42);
+
+        expectTypeOf(result).toEqualTypeOf<Result<number, Panic>>();
+        expect(result.unwrap()).toBe(42);
+        expect((await catchUnwindAsync(() => 'sync')).unwrap()).toBe('sync');
+    });
+
+    it('should capture panics thrown synchronously or asynchronously', async () => {
+        expect((await catchUnwindAsync(() => panic('sync'))).unwrapErr().message).toBe('sync');
+        expect((await catchUnwindAsync(() => ResultAsync(Err('e')).unwrap())).unwrapErr().cause).toBe('e');
+    });
+
+    it('should reject with other exceptions', async () => {
+        const error = new Error('network');
+
+        await expect(catchUnwindAsync(() => Promise.reject(error))).rejects.toBe(error);
+    });
+});
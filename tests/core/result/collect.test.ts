@@ -0,0 +1,209 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { Err, Ok, Result } from '../../../src/mod.ts';
+
+class ParseError {
+    readonly kind = 'parse';
+}
+
+class NetworkError {
+    readonly kind = 'network';
+}
+
+function delay<T>(ms: number, value: T): Promise<T> {
+    return new Promise(resolve => setTimeout(() => resolve(value), ms));
+}
+
+describe('Result.all', () => {
+    it('should collect an array of Ok values', () => {
+        const results: Result<number, string>[] = [Ok(1), Ok(2), Ok(3)];
+        const all = Result.all(results);
+
+        expectTypeOf(all).toEqualTypeOf<Result<number[], string>>();
+        expect(all.unwrap()).toEqual([1, 2, 3]);
+    });
+
+    it('should keep precise tuple types', () => {
+        const all = Result.all([Ok<number, ParseError>(1), Ok<string, NetworkError>('a')]);
+
+        expectTypeOf(all).toEqualTypeOf<Result<[number, string], ParseError | NetworkError>>();
+        expect(all.unwrap()).toEqual([1, 'a']);
+    });
+
+    it('should collect object records', () => {
+        const all = Result.all({ id: Ok<number, ParseError>(1), name: Ok<string, NetworkError>('a') });
+
+        expectTypeOf(all).toEqualTypeOf<Result<{ id: number; name: string; }, ParseError | NetworkError>>();
+        expect(all.unwrap()).toEqual({ id: 1, name: 'a' });
+    });
+
+    it('should return the first Err', () => {
+        const first = new ParseError();
+        const all = Result.all([Ok(1), Err(first), Err(new NetworkError())]);
+
+        expect(all.unwrapErr()).toBe(first);
+        expect(Result.all({ a: Ok(1), b: Err('b'), c: Err('c') }).unwrapErr()).toBe('b');
+    });
+
+    it('should return Ok with an empty collection', () => {
+        expect(Result.all([]).unwrap()).toEqual([]);
+        expect(Result.all({}).unwrap()).toEqual({});
+    });
+
+    it('should throw TypeError for non-Result elements', () => {
+        expect(() => Result.all([Ok(1), 2 as unknown as Result<number, never>])).toThrow(TypeError);
+    });
+});
+
+describe('Result.allAsync', () => {
+    it('should accept Results, promises and task functions', async () => {
+        const all = await Result.allAsync([
+            Ok<number, ParseError>(1),
+            Promise.resolve(Ok<string, NetworkError>('a')),
+            () => Ok<boolean, never>(true),
+            async () => Ok<null, never>(null),
+        ]);
+
+        expectTypeOf(all).toEqualTypeOf<Result<[number, string, boolean, null], ParseError | NetworkError>>();
+        expect(all.unwrap()).toEqual([1, 'a', true, null]);
+    });
+
+    it('should keep the collection order, not the completion order', async () => {
+        const all = await Result.allAsync({
+            slow: delay(20, Ok(1)),
+            fast: delay(1, Ok(2)),
+        });
+
+        expect(all.unwrap()).toEqual({ slow: 1, fast: 2 });
+        expect(Object.keys(all.unwrap())).toEqual(['slow', 'fast']);
+    });
+
+    it('should resolve with the first Err to settle', async () => {
+        const all = await Result.allAsync([
+            delay(50, Ok(1)),
+            delay(20, Err('slow')),
+            delay(1, Err('fast')),
+        ]);
+
+        expect(all.unwrapErr()).toBe('fast');
+    });
+
+    it('should limit the number of pending tasks', async () => {
+        let pending = 0;
+        let maxPending = 0;
+        const task = (value: number) => async () => {
+            pending += 1;
+            maxPending = Math.max(maxPending, pending);
+            await delay(2, undefined);
+            pending -= 1;
+            return Ok(value);
+        };
+
+        const all = await Result.allAsync([1, 2, 3, 4, 5].map(task), { concurrency: 2 });
+
+        expect(all.unwrap()).toEqual([1, 2, 3, 4, 5]);
+        expect(maxPending).toBe(2);
+    });
+
+    it('should not start further tasks after an Err', async () => {
+        const third = vi.fn(() => Ok(3));
+        const all = await Result.allAsync([() => Ok(1), () => Err('stop'), third], { concurrency: 1 });
+
+        expect(all.unwrapErr()).toBe('stop');
+        expect(third).not.toHaveBeenCalled();
+    });
+
+    it('should resolve Ok with an empty collection', async () => {
+        expect((await Result.allAsync([])).unwrap()).toEqual([]);
+    });
+
+    it('should reject when a task rejects or throws', async () => {
+        await expect(Result.allAsync([Promise.reject(new Error('rejected'))])).rejects.toThrow('rejected');
+        await expect(Result.allAsync([() => {
+            throw new Error('thrown');
+        }])).rejects.toThrow('thrown');
+    });
+
+    it('should ignore rejections after settling', async () => {
+        const all = await Result.allAsync([Err('first'), delay(5, undefined).then(() => Promise.reject(new Error('late')))]);
+
+        expect(all.unwrapErr()).toBe('first');
+        await delay(10, undefined);
+    });
+
+    it('should reject with TypeError for non-Result values', async () => {
+        await expect(Result.allAsync([Promise.resolve(1 as unknown as Result<number, never>)])).rejects.toThrow(TypeError);
+    });
+
+    it('should reject with RangeError for an invalid concurrency', async () => {
+        await expect(Result.allAsync([], { concurrency: 0 })).rejects.toThrow(RangeError);
+        await expect(Result.allAsync([], { concurrency: 1.5 })).rejects.toThrow(RangeError);
+    });
+});
+
+describe('Result.any', () => {
+    it('should return the first Ok', () => {
+        const any = Result.any([Err<number, ParseError>(new ParseError()), Ok<string, NetworkError>('a'), Ok<number, never>(2)]);
+
+        expectTypeOf(any).toEqualTypeOf<Result<number | string, [ParseError, NetworkError, never]>>();
+        expect(any.unwrap()).toBe('a');
+    });
+
+    it('should return all errors when there is no Ok', () => {
+        expect(Result.any([Err('a'), Err('b')]).unwrapErr()).toEqual(['a', 'b']);
+        expect(Result.any([]).unwrapErr()).toEqual([]);
+    });
+
+    it('should throw TypeError for non-Result elements', () => {
+        expect(() => Result.any([Err('a'), null as unknown as Result<number, never>])).toThrow(TypeError);
+    });
+});
+
+describe('Result.anyAsync', () => {
+    it('should resolve with the first Ok to settle', async () => {
+        const any = await Result.anyAsync([delay(20, Ok('slow')), delay(1, Ok('fast')), Err('e')]);
+
+        expect(any.unwrap()).toBe('fast');
+    });
+
+    it('should collect all errors in the original order', async () => {
+        const fail = (error: string): Result<number, string> => Err(error);
+        const any = await Result.anyAsync([delay(10, fail('a')), () => fail('b')]);
+
+        expectTypeOf(any).toEqualTypeOf<Result<number, [string, string]>>();
+        expect(any.unwrapErr()).toEqual(['a', 'b']);
+    });
+
+    it('should not start further tasks after an Ok', async () => {
+        const second = vi.fn(() => Ok(2));
+        const any = await Result.anyAsync([() => Ok(1), second], { concurrency: 1 });
+
+        expect(any.unwrap()).toBe(1);
+        expect(second).not.toHaveBeenCalled();
+    });
+
+    it('should reject with RangeError for an invalid concurrency', async () => {
+        await expect(Result.anyAsync([], { concurrency: -1 })).rejects.toThrow(RangeError);
+    });
+});
+
+describe('Result.partition', () => {
+    it('should split success and error values', () => {
+        const [oks, errs] = Result.partition([Ok(1), Err('a'), Ok(2), Err('b')]);
+
+        expect(oks).toEqual([1, 2]);
+        expect(errs).toEqual(['a', 'b']);
+    });
+
+    it('should accept any iterable', () => {
+        function* results(): Generator<Result<number, string>> {
+            yield Ok(1);
+            yield Err('a');
+        }
+
+        expect(Result.partition(results())).toEqual([[1], ['a']]);
+    });
+
+    it('should throw TypeError for non-Result elements', () => {
+        expect(() => Result.partition([{} as Result<number, string>])).toThrow(TypeError);
+    });
+});
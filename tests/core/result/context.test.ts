@@ -0,0 +1,137 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { ContextError, downcastError, Err, errorChain, formatErrorChain, None, Ok, tryResult, type IOResult, type Option, type Result } from '../../../src/mod.ts';
+
+class HttpError extends Error {
+    override readonly name = 'HttpError';
+
+    constructor(readonly status: number) {
+        super(`HTTP ${status}`);
+    }
+}
+
+function fetchUser(status: number): Result<string, HttpError> {
+    return status === 200 ? Ok('alice') : Err(new HttpError(status));
+}
+
+function loadProfile(status: number): IOResult<string> {
+    return fetchUser(status)
+        .context('Failed to fetch user')
+        .map(name => `profile of ${name}`)
+        .withContext(() => 'Failed to load profile');
+}
+
+describe('ContextError', () => {
+    it('should be an Error with the context message and the cause', () => {
+        const cause = new Error('boom');
+        const error = new ContextError('Failed to start', { cause });
+
+        expect(error).toBeInstanceOf(Error);
+        expect(error.name).toBe('ContextError');
+        expect(error.message).toBe('Failed to start');
+        expect(error.cause).toBe(cause);
+        expect(String(error)).toBe('ContextError: Failed to start');
+    });
+
+    it('should have no cause when created without one', () => {
+        expect('cause' in new ContextError('Missing')).toBe(false);
+    });
+});
+
+describe('context', () => {
+    it('should compose with IOResult', () => {
+        expectTypeOf(fetchUser(200).context('x')).toEqualTypeOf<Result<string, ContextError>>();
+        expect(loadProfile(200).unwrap()).toBe('profile of alice');
+
+        const error = loadProfile(404).unwrapErr();
+        expect(error).toBeInstanceOf(ContextError);
+        expect(error.message).toBe('Failed to load profile');
+        expect((error.cause as Error).message).toBe('Failed to fetch user');
+        expect(((error.cause as Error).cause as HttpError).status).toBe(404);
+    });
+
+    it('should wrap errors thrown in tryResult', () => {
+        const result = tryResult(() => JSON.parse('{')).context('Invalid config');
+
+        expect(result.unwrapErr().message).toBe('Invalid config');
+        expect(result.unwrapErr().cause).toBeInstanceOf(SyntaxError);
+    });
+});
+
+describe('errorChain', () => {
+    it('should yield the error and each cause, outermost first', () => {
+        const inner = new HttpError(500);
+        const middle = new ContextError('Failed to fetch user', { cause: inner });
+        const outer = new ContextError('Failed to load profile', { cause: middle });
+
+        expect([...errorChain(outer)]).toEqual([outer, middle, inner]);
+    });
+
+    it('should stop at a non-Error cause', () => {
+        const error = new ContextError('Failed', { cause: { code: 42, cause: 'hidden' } });
+
+        expect([...errorChain(error)]).toEqual([error, { code: 42, cause: 'hidden' }]);
+    });
+
+    it('should include an undefined cause', () => {
+        const error = new ContextError('Failed', { cause: undefined });
+
+        expect([...errorChain(error)]).toEqual([error, undefined]);
+    });
+
+    it('should yield a non-Error value alone', () => {
+        expect([...errorChain('oops')]).toEqual(['oops']);
+    });
+
+    it('should terminate on cyclic chains', () => {
+        const a = new Error('a');
+        const b = new Error('b', { cause: a });
+        Object.defineProperty(a, 'cause', { value: b });
+
+        expect([...errorChain(a)]).toEqual([a, b]);
+    });
+});
+
+describe('formatErrorChain', () => {
+    it('should print the message alone without causes', () => {
+        expect(formatErrorChain(new Error('boom'))).toBe('boom');
+        expect(formatErrorChain('plain string')).toBe('plain string');
+    });
+
+    it('should print a numbered list of causes', () => {
+        expect(formatErrorChain(loadProfile(503).unwrapErr())).toBe([
+            'Failed to load profile',
+            '',
+            'Caused by:',
+            '    0: Failed to fetch user',
+            '    1: HTTP 503',
+        ].join('\n'));
+    });
+
+    it('should describe causes that are not errors', () => {
+        const error = Err<number, string>('not found').context('Lookup failed').unwrapErr();
+
+        expect(formatErrorChain(error)).toBe('Lookup failed\n\nCaused by:\n    0: not found');
+        expect(formatErrorChain(new ContextError('Failed', { cause: { code: 1 } }))).toBe('Failed\n\nCaused by:\n    0: [object Object]');
+        expect(formatErrorChain(new ContextError('Failed', { cause: null }))).toBe('Failed\n\nCaused by:\n    0: null');
+    });
+
+    it('should fall back to the name of errors without a message', () => {
+        expect(formatErrorChain(new ContextError('Failed', { cause: new TypeError() }))).toBe('Failed\n\nCaused by:\n    0: TypeError');
+    });
+});
+
+describe('downcastError', () => {
+    it('should find the first error of the class in the chain', () => {
+        const error = loadProfile(404).unwrapErr();
+        const httpError = downcastError(error, HttpError);
+
+        expectTypeOf(httpError).toEqualTypeOf<Option<HttpError>>();
+        expect(httpError.map(e => e.status).unwrap()).toBe(404);
+        expect(downcastError(error, ContextError).unwrap()).toBe(error);
+    });
+
+    it('should return None if no error in the chain matches', () => {
+        expect(downcastError(loadProfile(404).unwrapErr(), SyntaxError)).toBe(None);
+        expect(downcastError('oops', Error)).toBe(None);
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { Err, Ok, Result, type AsyncResult } from '../../../src/mod.ts';
+
+class ParseError extends Error {
+    readonly kind = 'parse';
+}
+
+class NegativeError extends Error {
+    readonly kind = 'negative';
+}
+
+function parse(s: string): Result<number, ParseError> {
+    const n = Number(s);
+    return Number.isNaN(n) ? Err(new ParseError(s)) : Ok(n);
+}
+
+function positive(n: number): Result<number, NegativeError> {
+    return n > 0 ? Ok(n) : Err(new NegativeError(`${n}`));
+}
+
+async function positiveAsync(n: number): AsyncResult<number, NegativeError> {
+    return positive(n);
+}
+
+describe('Result.gen', () => {
+    it('should be frozen', () => {
+        expect(Object.isFrozen(Result)).toBe(true);
+    });
+
+    it('should return Ok with the returned value when every step is Ok', () => {
+        const result = Result.gen(function* () {
+            const a = yield* parse('2');
+            const b = yield* positive(a);
+            return a * b;
+        });
+
+        expect(result.isOk()).toBe(true);
+        expect(result.unwrap()).toBe(4);
+    });
+
+    it('should return Ok when no step short-circuits', () => {
+        const result = Result.gen(function* () {
+            return yield* Ok('done');
+        });
+
+        expectTypeOf(result).toEqualTypeOf<Result<string, never>>();
+        expect(result.unwrap()).toBe('done');
+    });
+
+    it('should short-circuit with the first Err', () => {
+        const after = vi.fn();
+        const result = Result.gen(function* () {
+            const a = yield* parse('x');
+            after();
+            return yield* positive(a);
+        });
+
+        expect(result.isErr()).toBe(true);
+        expect(result.unwrapErr()).toBeInstanceOf(ParseError);
+        expect(after).not.toHaveBeenCalled();
+    });
+
+    it('should return the original Err instance', () => {
+        const err = Err<number, string>('boom');
+        const result = Result.gen(function* () {
+            return yield* err;
+        });
+
+        expect(result).toBe(err);
+    });
+
+    it('should infer the error type as the union of yielded error types', () => {
+        const result = Result.gen(function* () {
+            const a = yield* parse('-1');
+            return yield* positive(a);
+        });
+
+        expectTypeOf(result).toEqualTypeOf<Result<number, ParseError | NegativeError>>();
+        expect(result.unwrapErr()).toBeInstanceOf(NegativeError);
+    });
+
+    it('should run finally blocks when short-circuiting', () => {
+        const cleanup = vi.fn();
+        const result = Result.gen(function* () {
+            try {
+                return yield* parse('x');
+            } finally {
+                cleanup();
+            }
+        });
+
+        expect(result.isErr()).toBe(true);
+        expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should propagate exceptions thrown in the body', () => {
+        expect(() => Result.gen(function* () {
+            yield* Ok(1);
+            throw new Error('thrown');
+        })).toThrow('thrown');
+    });
+});
+
+describe('Result.genAsync', () => {
+    it('should unwrap both sync and async Results', async () => {
+        const result = await Result.genAsync(async function* () {
+            const a = yield* parse('3');
+            const b = yield* await positiveAsync(a);
+            return a + b;
+        });
+
+        expectTypeOf(result).toEqualTypeOf<Result<number, ParseError | NegativeError>>();
+        expect(result.unwrap()).toBe(6);
+    });
+
+    it('should short-circuit with the first Err', async () => {
+        const after = vi.fn();
+        const result = await Result.genAsync(async function* () {
+            const a = yield* await positiveAsync(0);
+            after();
+            return yield* parse(`${a}`);
+        });
+
+        expect(result.unwrapErr()).toBeInstanceOf(NegativeError);
+        expect(after).not.toHaveBeenCalled();
+    });
+
+    it('should run finally blocks when short-circuiting', async () => {
+        const cleanup = vi.fn();
+        const result = await Result.genAsync(async function* () {
+            try {
+                return yield* await Promise.resolve(Err('boom'));
+            } finally {
+                cleanup();
+            }
+        });
+
+        expect(result.unwrapErr()).toBe('boom');
+        expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject when the body throws', async () => {
+        await expect(Result.genAsync(async function* () {
+            yield* Ok(1);
+            throw new Error('thrown');
+        })).rejects.toThrow('thrown');
+    });
+});
@@ -1,15 +1,20 @@
-import { describe, expect, it, vi } from 'vitest';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
 import {
+    ContextError,
+    Equal,
     Err,
+    Greater,
+    Less,
     None,
     Ok,
+    Result,
     Some,
     tryAsyncOption,
     tryAsyncResult,
     tryOption,
     tryResult,
     type Option,
-    type Result,
+    type ResultBase,
 } from '../../../src/mod.ts';
 
 describe('Result', () => {
@@ -286,6 +291,31 @@ describe('Result', () => {
                 expect(() => ok.eq(null as unknown as Result<number, Error>)).toThrow(TypeError);
                 expect(() => ok.eq({} as unknown as Result<number, Error>)).toThrow(TypeError);
             });
+
+            it('should compare the values structurally or with a custom function', () => {
+                const a = Ok<{ id: number; at: Date; }, string>({ id: 1, at: new Date(1) });
+
+                expect(a.eq(Ok({ id: 1, at: new Date(1) }))).toBe(true);
+                expect(a.eq(Ok({ id: 1, at: new Date(2) }))).toBe(false);
+                expect(a.eq(Ok({ id: 1, at: new Date(2) }), (x, y) => x.id === y.id)).toBe(true);
+            });
+        });
+
+        describe('ordering', () => {
+            it('should order the values and be less than Err', () => {
+                expect(ok.cmp(Ok(1))).toBe(Equal);
+                expect(ok.cmp(Ok(0))).toBe(Greater);
+                expect(ok.cmp(Ok(2))).toBe(Less);
+                expect(ok.cmp(Err(new Error()))).toBe(Less);
+            });
+
+            it('should order the values with a custom function', () => {
+                expect(ok.cmp(Ok(2), (a, b) => Ok(b).cmp(Ok(a)))).toBe(Greater);
+            });
+
+            it('should throw TypeError for invalid Result', () => {
+                expect(() => ok.cmp(null as unknown as Result<number, Error>)).toThrow(TypeError);
+            });
         });
 
         describe('type casting', () => {
@@ -311,30 +341,14 @@ describe('Result', () => {
         });
 
         describe('iterator', () => {
-            it('should yield the contained value once', () => {
-                const values: number[] = [];
-                for (const v of ok) {
-                    values.push(v);
-                }
-                expect(values).toEqual([1]);
+            it('should return the contained value without yielding', () => {
+                expect(ok[Symbol.iterator]().next()).toEqual({ done: true, value: 1 });
+                expect(Ok()[Symbol.iterator]().next()).toEqual({ done: true, value: undefined });
             });
 
-            it('should work with spread operator', () => {
-                expect([...ok]).toEqual([1]);
-                expect([...Ok('hello')]).toEqual(['hello']);
-            });
-
-            it('should work with Array.from', () => {
-                expect(Array.from(ok)).toEqual([1]);
-            });
-
-            it('should be usable with destructuring', () => {
-                const [first] = ok;
-                expect(first).toBe(1);
-            });
-
-            it('should work with Ok()', () => {
-                expect([...Ok()]).toEqual([undefined]);
+            it('should be seen as empty by spread syntax', () => {
+                expect([...ok]).toEqual([]);
+                expect(Array.from(Ok('hello'))).toEqual([]);
             });
         });
     });
@@ -598,6 +612,34 @@ describe('Result', () => {
             it('should not equal Ok', () => {
                 expect(err.eq(Ok(1))).toBe(false);
             });
+
+            it('should compare the errors structurally or with a custom function', () => {
+                expect(err.eq(Err(new Error('lose')))).toBe(true);
+                expect(err.eq(Err(new TypeError('lose')))).toBe(false);
+                expect(err.eq(Err(new Error('lose', { cause: 1 })))).toBe(false);
+                expect(err.eq(Err(new Error('other')), undefined, (a, b) => a.name === b.name)).toBe(true);
+            });
+        });
+
+        describe('ordering', () => {
+            it('should order the errors and be greater than Ok', () => {
+                expect(Err('a').cmp(Err('a'))).toBe(Equal);
+                expect(Err('a').cmp(Err('b'))).toBe(Less);
+                expect(err.cmp(Ok(1))).toBe(Greater);
+            });
+
+            it('should order the errors with a custom function', () => {
+                const compare = vi.fn(() => Equal);
+                const byMessage = (a: Error, b: Error) => Ok(a.message).cmp(Ok(b.message));
+
+                expect(err.cmp(Err(new Error('win')), compare, byMessage)).toBe(Less);
+                expect(compare).not.toHaveBeenCalled();
+                expect(() => err.cmp(Err(new Error('win')))).toThrow(TypeError);
+            });
+
+            it('should throw TypeError for invalid Result', () => {
+                expect(() => err.cmp({} as Result<number, Error>)).toThrow(TypeError);
+            });
         });
 
         describe('type casting', () => {
@@ -623,21 +665,135 @@ describe('Result', () => {
         });
 
         describe('iterator', () => {
-            it('should yield nothing', () => {
-                const values: number[] = [];
-                for (const v of err) {
-                    values.push(v);
-                }
-                expect(values).toEqual([]);
+            it('should yield the Err itself once', () => {
+                const iterator = err[Symbol.iterator]();
+                expect(iterator.next().value).toBe(err);
+                expect(iterator.next().done).toBe(true);
             });
 
-            it('should work with spread operator', () => {
-                expect([...err]).toEqual([]);
+            it('should be seen as the Err alone by spread syntax', () => {
+                const [first, ...rest] = err;
+                expect(first).toBe(err);
+                expect(rest).toEqual([]);
             });
+        });
+    });
 
-            it('should work with Array.from', () => {
-                expect(Array.from(err)).toEqual([]);
-            });
+    describe('narrowing', () => {
+        const parse = (s: string): Result<number, string> => {
+            const n = Number(s);
+            return Number.isNaN(n) ? Err(`not a number: ${s}`) : Ok(n);
+        };
+
+        it('isOk() should narrow to Ok with a readonly value', () => {
+            const result = parse('42');
+            if (result.isOk()) {
+                expectTypeOf(result).toEqualTypeOf<Ok<number, string>>();
+                expectTypeOf(result.value).toEqualTypeOf<number>();
+                expect(result.value).toBe(42);
+            } else {
+                expectTypeOf(result).toEqualTypeOf<Err<number, string>>();
+                expect.unreachable();
+            }
+        });
+
+        it('isErr() should narrow to Err with a readonly error', () => {
+            const result = parse('x');
+            if (result.isErr()) {
+                expectTypeOf(result.error).toEqualTypeOf<string>();
+                expect(result.error).toBe('not a number: x');
+            } else {
+                expectTypeOf(result.value).toEqualTypeOf<number>();
+                expect.unreachable();
+            }
+        });
+
+        it('declared Result variables should narrow in both branches', () => {
+            let result: Result<number, string> = parse('1');
+            result = result.and(parse('x'));
+            const message = result.isOk() ? `${result.value}` : result.error;
+
+            expectTypeOf(result).toEqualTypeOf<Result<number, string>>();
+            expect(message).toBe('not a number: x');
+        });
+
+        it('interfaces should extend ResultBase', () => {
+            interface Response extends ResultBase<number, string> {
+                readonly status?: number;
+            }
+            const response: Response = Ok(200);
+
+            expect(response.unwrapOr(0)).toBe(200);
+        });
+
+        it('value and error should not be writable', () => {
+            const ok = Ok(1);
+            const err = Err('e');
+            expect(ok.isOk() && ok.value).toBe(1);
+            expect(err.isErr() && err.error).toBe('e');
+            expect(() => {
+                (ok as { value: number; }).value = 2;
+            }).toThrow(TypeError);
+            expect(() => {
+                (err as { error: string; }).error = 'f';
+            }).toThrow(TypeError);
+        });
+    });
+
+    describe('context', () => {
+        it('context() should wrap the Err value with the original error as cause', () => {
+            const result = Err<number, string>('not found').context('Failed to load');
+            const error = result.unwrapErr();
+
+            expect(error).toBeInstanceOf(ContextError);
+            expect(error.message).toBe('Failed to load');
+            expect(error.cause).toBe('not found');
+        });
+
+        it('context() should leave Ok untouched', () => {
+            const ok = Ok<number, string>(1);
+            expect(ok.context('Failed to load')).toBe(ok);
+        });
+
+        it('withContext() should only compute the message for Err', () => {
+            const fn = vi.fn((e: string) => `Failed: ${e}`);
+
+            expect(Ok<number, string>(1).withContext(fn).unwrap()).toBe(1);
+            expect(fn).not.toHaveBeenCalled();
+
+            const error = Err<number, string>('timeout').withContext(fn).unwrapErr();
+            expect(fn).toHaveBeenCalledWith('timeout');
+            expect(error.message).toBe('Failed: timeout');
+            expect(error.cause).toBe('timeout');
+        });
+    });
+
+    describe('match', () => {
+        const ok: Result<number, Error> = Ok(2);
+        const err: Result<number, Error> = Err(new Error('lose'));
+        const matcher = {
+            Ok: (v: number) => v * 2,
+            Err: (e: Error) => e.message,
+        };
+
+        it('should call the arm of the variant', () => {
+            const value = ok.match(matcher);
+            expectTypeOf(value).toEqualTypeOf<number | string>();
+            expect(value).toBe(4);
+            expect(err.match(matcher)).toBe('lose');
+        });
+
+        it('should only call one arm', () => {
+            const okArm = vi.fn();
+            const errArm = vi.fn();
+            ok.match({ Ok: okArm, Err: errArm });
+            expect(okArm).toHaveBeenCalledWith(2);
+            expect(errArm).not.toHaveBeenCalled();
+        });
+
+        it('matchAsync() should await the arms', async () => {
+            expect(await ok.matchAsync({ Ok: async v => v + 1, Err: () => 0 })).toBe(3);
+            expect(await err.matchAsync({ Ok: () => 0, Err: async e => e.message })).toBe('lose');
         });
     });
 });
@@ -1142,6 +1298,20 @@ describe('tryAsyncOption', () => {
 });
 
 describe('Awaited<T> type behavior', () => {
+    describe('Result.compare', () => {
+        it('should sort Ok by value, then Err by error', () => {
+            const sorted = [Err('b'), Ok(2), Err('a'), Ok(1)].sort(Result.compare);
+
+            expect(sorted.map(String)).toEqual(['Ok(1)', 'Ok(2)', 'Err(a)', 'Err(b)']);
+        });
+
+        it('should order nested Options and Results', () => {
+            const sorted = [Ok(Some(2)), Ok(None), Err(Ok(1)), Ok(Some(1))].sort(Result.compare);
+
+            expect(sorted.map(String)).toEqual(['Ok(None)', 'Ok(Some(1))', 'Ok(Some(2))', 'Err(Ok(1))']);
+        });
+    });
+
     describe('andThenAsync works with async functions', () => {
         it('Ok.andThenAsync should work with async fn returning Result', async () => {
             const ok: Result<number, string> = Ok(10);
@@ -0,0 +1,310 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { ContextError, defineError, Equal, Err, Greater, Less, None, Ok, Panic, Result, ResultAsync, Some, tryAsyncResult, type AsyncResult, type Option } from '../../../src/mod.ts';
+
+function okAsync<T>(value: T): ResultAsync<T, string> {
+    return ResultAsync(Promise.resolve(Ok(value)));
+}
+
+function errAsync<T = number>(error: string): ResultAsync<T, string> {
+    return ResultAsync(Promise.resolve(Err(error)));
+}
+
+describe('ResultAsync', () => {
+    describe('construction and protocols', () => {
+        it('should have [object ResultAsync] as toStringTag', () => {
+            expect(Object.prototype.toString.call(okAsync(1))).toBe('[object ResultAsync]');
+            expect(okAsync(1).toString()).toBe('ResultAsync');
+        });
+
+        it('should be frozen', () => {
+            expect(Object.isFrozen(okAsync(1))).toBe(true);
+        });
+
+        it('should be awaitable to the underlying Result', async () => {
+            const ok = Ok(1);
+            expect(await ResultAsync(ok)).toBe(ok);
+            expect(await ResultAsync(Promise.resolve(ok))).toBe(ok);
+        });
+
+        it('should accept any thenable including another ResultAsync', async () => {
+            const nested = ResultAsync(okAsync(5));
+            expect((await nested).unwrap()).toBe(5);
+        });
+
+        it('then() should support rejection handlers', async () => {
+            const failing = ResultAsync<number, string>(Promise.reject(new Error('rejected')));
+            const reason = await failing.then(() => 'fulfilled', e => (e as Error).message);
+            expect(reason).toBe('rejected');
+        });
+
+        it('should propagate rejections through the chain', async () => {
+            const failing = ResultAsync<number, string>(Promise.reject(new Error('rejected')));
+            await expect(failing.map(v => v + 1).unwrap()).rejects.toThrow('rejected');
+        });
+
+        it('should be unwrapped by yield* in Result.genAsync', async () => {
+            const sum = await Result.genAsync(async function* () {
+                const a = yield* okAsync(1);
+                return a + (yield* okAsync(2));
+            });
+            const after = vi.fn();
+            const failed = await Result.genAsync(async function* () {
+                const a = yield* errAsync('error');
+                after();
+                return a;
+            });
+
+            expectTypeOf(sum).toEqualTypeOf<Result<number, string>>();
+            expect(sum.unwrap()).toBe(3);
+            expect(failed.unwrapErr()).toBe('error');
+            expect(after).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('querying the variant', () => {
+        it('isOk() and isErr()', async () => {
+            expect(await okAsync(1).isOk()).toBe(true);
+            expect(await okAsync(1).isErr()).toBe(false);
+            expect(await errAsync('e').isOk()).toBe(false);
+            expect(await errAsync('e').isErr()).toBe(true);
+        });
+
+        it('isOkAnd() and isErrAnd() should accept sync and async predicates', async () => {
+            expect(await okAsync(2).isOkAnd(v => v > 1)).toBe(true);
+            expect(await okAsync(2).isOkAnd(async v => v > 5)).toBe(false);
+            expect(await errAsync('e').isErrAnd(async e => e === 'e')).toBe(true);
+            expect(await okAsync(2).isErrAnd(() => true)).toBe(false);
+        });
+    });
+
+    describe('extracting contained value', () => {
+        it('expect() and unwrap()', async () => {
+            expect(await okAsync(1).expect('msg')).toBe(1);
+            expect(await okAsync(1).unwrap()).toBe(1);
+            await expect(errAsync('e').expect('msg')).rejects.toThrow('msg: e');
+            await expect(errAsync('e').unwrap()).rejects.toThrow(TypeError);
+        });
+
+        it('unwrapOr() and unwrapOrElse()', async () => {
+            expect(await okAsync(1).unwrapOr(0)).toBe(1);
+            expect(await errAsync('e').unwrapOr(0)).toBe(0);
+            expect(await errAsync('error').unwrapOrElse(async e => e.length)).toBe(5);
+        });
+
+        it('expectErr() and unwrapErr()', async () => {
+            expect(await errAsync('e').expectErr('msg')).toBe('e');
+            expect(await errAsync('e').unwrapErr()).toBe('e');
+            await expect(okAsync(1).expectErr('msg')).rejects.toThrow('msg: 1');
+            await expect(okAsync(1).unwrapErr()).rejects.toThrow(TypeError);
+        });
+
+        it('intoOk() and intoErr()', async () => {
+            expect(await ResultAsync<string, never>(Ok('ok')).intoOk()).toBe('ok');
+            expect(await ResultAsync<never, string>(Err('err')).intoErr()).toBe('err');
+        });
+    });
+
+    describe('transforming contained values', () => {
+        it('ok() and err() should resolve to Options', async () => {
+            expect((await okAsync(1).ok()).unwrap()).toBe(1);
+            expect(await okAsync(1).err()).toBe(None);
+            expect((await errAsync('e').err()).unwrap()).toBe('e');
+        });
+
+        it('transpose()', async () => {
+            const x = await ResultAsync<Option<number>, string>(Ok(Some(5))).transpose();
+            expect(x.unwrap().unwrap()).toBe(5);
+        });
+
+        it('map() should accept sync and async functions', async () => {
+            const mapped = okAsync(2).map(v => v * 2).map(async v => `${v}`);
+            expectTypeOf(mapped).toEqualTypeOf<ResultAsync<string, string>>();
+            expect(await mapped.unwrap()).toBe('4');
+        });
+
+        it('map() should not call fn on Err', async () => {
+            const fn = vi.fn();
+            expect(await errAsync('e').map(fn).unwrapErr()).toBe('e');
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        it('mapErr() should accept sync and async functions', async () => {
+            expect(await errAsync('e').mapErr(async e => e.toUpperCase()).unwrapErr()).toBe('E');
+            expect(await okAsync(1).mapErr(e => e.length).unwrap()).toBe(1);
+        });
+
+        it('mapOr() and mapOrElse()', async () => {
+            expect(await okAsync(2).mapOr(0, async v => v * 2)).toBe(4);
+            expect(await errAsync('e').mapOr(0, v => v * 2)).toBe(0);
+            expect(await okAsync(2).mapOrElse(() => 0, v => v * 2)).toBe(4);
+            expect(await errAsync('error').mapOrElse(async e => e.length, v => v * 2)).toBe(5);
+        });
+
+        it('flatten()', async () => {
+            expect(await ResultAsync<Result<number, string>, string>(Ok(Ok(5))).flatten().unwrap()).toBe(5);
+        });
+    });
+
+    describe('context', () => {
+        it('context() and withContext() should wrap the Err value', async () => {
+            const error = await errAsync('timeout').context('Failed to fetch').unwrapErr();
+            expect(error).toBeInstanceOf(ContextError);
+            expect(error.cause).toBe('timeout');
+            expect(await errAsync('timeout').withContext(e => `Failed: ${e}`).unwrapErr()).toHaveProperty('message', 'Failed: timeout');
+            expect(await okAsync(1).context('Failed').unwrap()).toBe(1);
+            expect(await okAsync(1).withContext(() => 'Failed').unwrap()).toBe(1);
+        });
+    });
+
+    describe('tagged errors', () => {
+        class NotFoundError extends defineError('NotFound', (p: { id: number; }) => `#${p.id} not found`) {}
+        class TimeoutError extends defineError('Timeout') {}
+
+        const failWith = (error: NotFoundError | TimeoutError) => ResultAsync<number, NotFoundError | TimeoutError>(Err(error));
+
+        it('catchTag() should handle one tag with sync or async handlers', async () => {
+            const result = failWith(new NotFoundError({ id: 1 })).catchTag('NotFound', async e => Ok(e.id));
+
+            expectTypeOf(result).toEqualTypeOf<ResultAsync<number, TimeoutError>>();
+            expect(await result.unwrap()).toBe(1);
+            expect(await failWith(new TimeoutError()).catchTag('NotFound', () => Ok(0)).unwrapErr()).toBeInstanceOf(TimeoutError);
+            expect(await okAsync(2).catchTag('NotFound' as never, () => Ok(0)).unwrap()).toBe(2);
+        });
+
+        it('mapErrTag() should map one tag with sync or async functions', async () => {
+            const result = failWith(new TimeoutError()).mapErrTag('Timeout', async () => 504);
+
+            expectTypeOf(result).toEqualTypeOf<ResultAsync<number, NotFoundError | number>>();
+            expect(await result.unwrapErr()).toBe(504);
+            expect(await failWith(new NotFoundError({ id: 1 })).mapErrTag('Timeout', () => 504).unwrapErr()).toBeInstanceOf(NotFoundError);
+        });
+    });
+
+    describe('match', () => {
+        it('should resolve to the awaited arm value', async () => {
+            expect(await okAsync(1).match({ Ok: async v => v + 1, Err: () => 0 })).toBe(2);
+            expect(await errAsync('e').match({ Ok: () => 0, Err: e => e.length })).toBe(1);
+        });
+    });
+
+    describe('boolean operators', () => {
+        it('and() and or() should accept sync and async Results', async () => {
+            expect(await okAsync(1).and(Ok('next')).unwrap()).toBe('next');
+            expect(await errAsync('e').and(Promise.resolve(Ok('next'))).unwrapErr()).toBe('e');
+            expect(await errAsync('e').or(Promise.resolve(Ok(5))).unwrap()).toBe(5);
+            expect(await okAsync(1).or(Ok(5)).unwrap()).toBe(1);
+        });
+
+        it('and() and or() should handle the rejection of an operand they do not use', async () => {
+            // Vitest fails the run on unhandled rejections, so dropping either operand unhandled fails this test
+            expect(await errAsync('e').and(Promise.reject(new Error('unused'))).unwrapErr()).toBe('e');
+            expect(await okAsync(1).or(Promise.reject(new Error('unused'))).unwrap()).toBe(1);
+            await new Promise(resolve => setTimeout(resolve, 1));
+
+            await expect(okAsync(1).and(Promise.reject(new Error('used')))).rejects.toThrow('used');
+            await expect(errAsync('e').or(Promise.reject(new Error('used')))).rejects.toThrow('used');
+        });
+
+        it('andThen() should chain sync and async steps without intermediate awaits', async () => {
+            const result = okAsync(2)
+                .andThen(v => Ok(v + 1))
+                .andThen(async v => Ok(v * 2))
+                .andThen(v => okAsync(v * 10));
+            expect(await result.unwrap()).toBe(60);
+        });
+
+        it('andThen() should short-circuit on Err', async () => {
+            const fn = vi.fn();
+            expect(await okAsync(2).andThen(() => Err('failed')).andThen(fn).unwrapErr()).toBe('failed');
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        it('orElse() should recover from Err', async () => {
+            expect(await errAsync('error').orElse(async e => Ok(e.length)).unwrap()).toBe(5);
+            expect(await okAsync(1).orElse(() => Ok(0)).unwrap()).toBe(1);
+        });
+    });
+
+    describe('side effects', () => {
+        it('inspect() should await async callbacks before continuing', async () => {
+            const order: string[] = [];
+            await okAsync(1)
+                .inspect(async () => {
+                    await Promise.resolve();
+                    order.push('inspect');
+                })
+                .map(() => order.push('map'));
+            expect(order).toEqual(['inspect', 'map']);
+        });
+
+        it('inspect() and inspectErr() should only run on their variant', async () => {
+            const onOk = vi.fn();
+            const onErr = vi.fn();
+            await okAsync(1).inspect(onOk).inspectErr(onErr);
+            await errAsync('e').inspect(onOk).inspectErr(onErr);
+            expect(onOk).toHaveBeenCalledExactlyOnceWith(1);
+            expect(onErr).toHaveBeenCalledExactlyOnceWith('e');
+        });
+    });
+
+    describe('equality and type casting', () => {
+        it('eq() should compare with sync and async Results', async () => {
+            expect(await okAsync(5).eq(Ok(5))).toBe(true);
+            expect(await okAsync(5).eq(Promise.resolve(Ok(6)))).toBe(false);
+            expect(await errAsync('e').eq(errAsync('e'))).toBe(true);
+            expect(await errAsync('e').eq(Err('E'), undefined, (a, b) => a.toLowerCase() === b.toLowerCase())).toBe(true);
+        });
+
+        it('cmp() should order with sync and async Results', async () => {
+            expect(await okAsync(5).cmp(Ok(6))).toBe(Less);
+            expect(await okAsync(5).cmp(Promise.resolve(Ok(5)))).toBe(Equal);
+            expect(await errAsync('e').cmp(Ok(1), undefined, () => Less)).toBe(Greater);
+        });
+
+        it('asOk() and asErr() should cast the matching variant', async () => {
+            expect(await okAsync(1).asOk<Error>().unwrap()).toBe(1);
+            expect(await errAsync('e').asErr<string>().unwrapErr()).toBe('e');
+        });
+
+        it('asOk() and asErr() should reject on the other variant, like Result', async () => {
+            await expect(errAsync('e').asOk<Error>()).rejects.toThrow(Panic);
+            await expect(errAsync('e').asOk<Error>()).rejects.toThrow('Result::asOk() called on an `Err` value');
+            await expect(okAsync(1).asErr<string>()).rejects.toThrow('Result::asErr() called on an `Ok` value');
+        });
+    });
+
+    describe('try extensions', () => {
+        it('andTry() should convert thrown exceptions to Err', async () => {
+            expect(await ResultAsync<string, unknown>(Ok('{"a":1}')).andTry(JSON.parse).unwrap()).toEqual({ a: 1 });
+            const failed = ResultAsync<string, unknown>(Ok('invalid')).andTry(JSON.parse);
+            expect(await failed.unwrapErr()).toBeInstanceOf(SyntaxError);
+        });
+
+        it('orTry() should convert rejections to Err', async () => {
+            expect(await errAsync('e').orTry(async () => 1).unwrap()).toBe(1);
+            const failed = errAsync('e').orTry<Error>(() => Promise.reject(new Error('fallback')));
+            expect((await failed.unwrapErr()).message).toBe('fallback');
+        });
+    });
+
+    describe('interop', () => {
+        it('should wrap tryAsyncResult, andThenAsync and andTryAsync outputs', async () => {
+            const fromTry = ResultAsync(tryAsyncResult(async () => 1));
+            const fromAndThen = ResultAsync(Ok(1).andThenAsync(async v => Ok(v + 1)));
+            const fromAndTry = ResultAsync(Ok(1).andTryAsync(async v => v + 2));
+            expect(await fromTry.unwrap()).toBe(1);
+            expect(await fromAndThen.unwrap()).toBe(2);
+            expect(await fromAndTry.unwrap()).toBe(3);
+        });
+
+        it('should be usable where an AsyncLikeResult is expected', async () => {
+            const result = await Ok<number, string>(1).andThenAsync(v => okAsync(v + 1));
+            expect(result.unwrap()).toBe(2);
+
+            async function load(): AsyncResult<number, string> {
+                return okAsync(3);
+            }
+            expect((await load()).unwrap()).toBe(3);
+        });
+    });
+});
@@ -0,0 +1,184 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { defineError, Err, formatErrorChain, isTaggedError, Ok, type ErrorTag, type Result, type TaggedError } from '../../../src/mod.ts';
+
+class NotFoundError extends defineError('NotFound', (p: { id: string; }) => `User ${p.id} not found`) {}
+class TimeoutError extends defineError('Timeout', 'Request timed out') {}
+
+class LegacyError extends Error {
+    readonly _tag = 'Legacy';
+}
+
+function findUser(id: string): Result<string, NotFoundError | TimeoutError> {
+    if (id === 'timeout') {
+        return Err(new TimeoutError());
+    }
+    return id === 'alice' ? Ok('Alice') : Err(new NotFoundError({ id }));
+}
+
+describe('defineError', () => {
+    it('should create errors with a tag, a name and the payload fields', () => {
+        const error = new NotFoundError({ id: '42' });
+
+        expect(error).toBeInstanceOf(Error);
+        expect(error).toBeInstanceOf(NotFoundError);
+        expect(error._tag).toBe('NotFound');
+        expect(error.name).toBe('NotFound');
+        expect(error.message).toBe('User 42 not found');
+        expect(error.id).toBe('42');
+        expect(String(error)).toBe('NotFound: User 42 not found');
+        expect(NotFoundError.tag).toBe('NotFound');
+        expectTypeOf(error.id).toEqualTypeOf<string>();
+        expectTypeOf(error._tag).toEqualTypeOf<'NotFound'>();
+    });
+
+    it('should use a static message or an empty one', () => {
+        const Unauthorized = defineError('Unauthorized');
+
+        expect(new TimeoutError().message).toBe('Request timed out');
+        expect(new Unauthorized().message).toBe('');
+        expect(String(new Unauthorized())).toBe('Unauthorized');
+        expectTypeOf(new Unauthorized()).toEqualTypeOf<TaggedError<'Unauthorized'>>();
+    });
+
+    it('should accept ErrorOptions', () => {
+        const cause = new Error('socket hang up');
+        const error = new TimeoutError(undefined, { cause });
+
+        expect(error.cause).toBe(cause);
+        expect(formatErrorChain(error)).toBe('Request timed out\n\nCaused by:\n    0: socket hang up');
+    });
+
+    it('should not let the payload override the fields of the error', () => {
+        // @ts-expect-error the payload cannot have the reserved fields
+        defineError('Reserved', (p: { message: string; }) => p.message);
+
+        const Tagged = defineError('Tagged', (p: { id: number; }) => `id ${p.id}`);
+        const payload = { id: 1, _tag: 'Other', name: 'Other', message: 'other', stack: 'other' };
+        const error = new Tagged(payload as { id: number; });
+
+        expect(error._tag).toBe('Tagged');
+        expect(error.name).toBe('Tagged');
+        expect(error.message).toBe('id 1');
+        expect(error.stack).not.toBe('other');
+        expect(error.id).toBe(1);
+    });
+
+    it('instanceof should check the class of the errors of this copy of the library', () => {
+        const SameTag = defineError('NotFound', (p: { id: string; }) => p.id);
+        const plain = { _tag: 'NotFound' };
+
+        const Base = Object.getPrototypeOf(NotFoundError) as typeof NotFoundError;
+
+        expect(new NotFoundError({ id: '1' })).toBeInstanceOf(Base);
+        expect(new Base({ id: '1' }) instanceof NotFoundError).toBe(false);
+        expect(new SameTag({ id: '1' }) instanceof NotFoundError).toBe(false);
+        expect(new NotFoundError({ id: '1' }) instanceof SameTag).toBe(false);
+        expect(plain instanceof NotFoundError).toBe(false);
+        expect(new TimeoutError() instanceof NotFoundError).toBe(false);
+        expect(new Error('NotFound') instanceof NotFoundError).toBe(false);
+        expect((null as unknown) instanceof NotFoundError).toBe(false);
+    });
+
+    it('instanceof should check the brand and tag of the errors of another copy or realm', () => {
+        const foreign = Object.assign(Object.create(Error.prototype) as Error, {
+            _tag: 'NotFound',
+            [Symbol.for('happy-rusty.TaggedError')]: 'NotFound',
+        });
+
+        expect(foreign instanceof NotFoundError).toBe(true);
+        expect(foreign instanceof TimeoutError).toBe(false);
+        expect(Object.assign(new Error(), { _tag: 'NotFound' }) instanceof NotFoundError).toBe(false);
+    });
+});
+
+describe('isTaggedError', () => {
+    it('should check for any tag or a given tag', () => {
+        const error: unknown = new NotFoundError({ id: '1' });
+
+        expect(isTaggedError(error)).toBe(true);
+        expect(isTaggedError(error, 'NotFound')).toBe(true);
+        expect(isTaggedError(error, 'Timeout')).toBe(false);
+        if (isTaggedError(error, 'NotFound')) {
+            expectTypeOf(error._tag).toEqualTypeOf<'NotFound'>();
+        }
+    });
+
+    it('should require the brand, unlike catchTag', () => {
+        const error = new LegacyError();
+
+        expect(isTaggedError(error, 'Legacy')).toBe(false);
+        expect(isTaggedError({ _tag: 'NotFound' })).toBe(false);
+        expect(error instanceof defineError('Legacy')).toBe(false);
+        expect(Err<number, LegacyError>(error).catchTag('Legacy', () => Ok(0)).isOk()).toBe(true);
+    });
+
+    it('should reject values that are not tagged errors', () => {
+        expect(isTaggedError(new Error())).toBe(false);
+        expect(isTaggedError({ _tag: 1 })).toBe(false);
+        expect(isTaggedError(null)).toBe(false);
+        expect(isTaggedError('NotFound')).toBe(false);
+    });
+});
+
+describe('ErrorTag', () => {
+    it('should extract the tags of an error union', () => {
+        expectTypeOf<ErrorTag<NotFoundError | TimeoutError | LegacyError | Error>>().toEqualTypeOf<'NotFound' | 'Timeout' | 'Legacy'>();
+        expectTypeOf<ErrorTag<string>>().toBeNever();
+    });
+});
+
+describe('catchTag', () => {
+    it('should handle the errors with the tag and remove it from the error type', () => {
+        const result = findUser('bob').catchTag('NotFound', e => Ok(`guest ${e.id}`));
+
+        expectTypeOf(result).toEqualTypeOf<Result<string, TimeoutError>>();
+        expect(result.unwrap()).toBe('guest bob');
+    });
+
+    it('should add the error type returned by the handler', () => {
+        const result = findUser('bob').catchTag('NotFound', e => Err(`missing ${e.id}`));
+
+        expectTypeOf(result).toEqualTypeOf<Result<string, TimeoutError | string>>();
+        expect(result.unwrapErr()).toBe('missing bob');
+    });
+
+    it('should leave other tags and Ok untouched', () => {
+        const fn = vi.fn(() => Ok('guest'));
+        const timeout = findUser('timeout');
+        const alice = findUser('alice');
+
+        expect(timeout.catchTag('NotFound', fn)).toBe(timeout);
+        expect(alice.catchTag('NotFound', fn)).toBe(alice);
+        expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should handle hand-written tagged errors', () => {
+        const result = Err<number, LegacyError | TimeoutError>(new LegacyError()).catchTag('Legacy', () => Ok(0));
+
+        expectTypeOf(result).toEqualTypeOf<Result<number, TimeoutError>>();
+        expect(result.unwrap()).toBe(0);
+    });
+
+    it('should ignore errors that are not objects', () => {
+        const result = Err<number, string | LegacyError>('Legacy');
+
+        expect(result.catchTag('Legacy', () => Ok(0))).toBe(result);
+    });
+});
+
+describe('mapErrTag', () => {
+    it('should map the errors with the tag', () => {
+        const result = findUser('timeout').mapErrTag('Timeout', e => e.message.length);
+
+        expectTypeOf(result).toEqualTypeOf<Result<string, NotFoundError | number>>();
+        expect(result.unwrapErr()).toBe(17);
+    });
+
+    it('should leave other tags and Ok untouched', () => {
+        const notFound = findUser('bob');
+        const alice = findUser('alice');
+
+        expect(notFound.mapErrTag('Timeout', () => 0)).toBe(notFound);
+        expect(alice.mapErrTag('Timeout', () => 0)).toBe(alice);
+    });
+});
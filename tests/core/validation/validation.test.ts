@@ -0,0 +1,202 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { Err, Invalid, isValidation, None, Ok, Panic, Valid, Validation } from '../../../src/mod.ts';
+
+function nonEmpty(field: string, value: string): Validation<string, string> {
+    return value ? Valid(value) : Invalid(`${field} is empty`);
+}
+
+function positive(field: string, value: number): Validation<number, string> {
+    return value > 0 ? Valid(value) : Invalid(`${field} must be positive`);
+}
+
+describe('Validation', () => {
+    describe('construction and protocols', () => {
+        it('should have [object Validation] as toStringTag', () => {
+            expect(Object.prototype.toString.call(Valid(1))).toBe('[object Validation]');
+            expect(Object.prototype.toString.call(Invalid('a'))).toBe('[object Validation]');
+        });
+
+        it('toString() should show the value or the errors', () => {
+            expect(Valid(5).toString()).toBe('Valid(5)');
+            expect(Invalid('a', 'b').toString()).toBe('Invalid(a, b)');
+        });
+
+        it('should be frozen, including the errors', () => {
+            const invalid = Invalid('a');
+            expect(Object.isFrozen(Valid(1))).toBe(true);
+            expect(Object.isFrozen(invalid)).toBe(true);
+            expect(Object.isFrozen(invalid.errors())).toBe(true);
+        });
+
+        it('isValidation() should detect validations', () => {
+            expect(isValidation(Valid(1))).toBe(true);
+            expect(isValidation(Invalid('a'))).toBe(true);
+            expect(isValidation(Ok(1))).toBe(false);
+            expect(isValidation(null)).toBe(false);
+        });
+    });
+
+    describe('querying and extracting', () => {
+        it('isValid(), isInvalid() and isValidAnd()', () => {
+            expect(Valid(2).isValid()).toBe(true);
+            expect(Valid(2).isInvalid()).toBe(false);
+            expect(Valid(2).isValidAnd(x => x > 1)).toBe(true);
+            expect(Invalid('a').isValid()).toBe(false);
+            expect(Invalid('a').isInvalid()).toBe(true);
+            expect(Invalid<number, string>('a').isValidAnd(() => true)).toBe(false);
+        });
+
+        it('expect() and unwrap()', () => {
+            expect(Valid(5).expect('msg')).toBe(5);
+            expect(Valid(5).unwrap()).toBe(5);
+            expect(() => Invalid('a', 'b').expect('invalid input')).toThrow(new Panic('invalid input: a, b'));
+            expect(() => Invalid('a').unwrap()).toThrow(TypeError);
+            expect(() => Invalid('a').unwrap()).toThrow(expect.objectContaining({ cause: ['a'] }));
+        });
+
+        it('unwrapOr() and unwrapOrElse()', () => {
+            expect(Valid(5).unwrapOr(0)).toBe(5);
+            expect(Valid(5).unwrapOrElse(() => 0)).toBe(5);
+            expect(Invalid<number, string>('a').unwrapOr(0)).toBe(0);
+            expect(Invalid<number, string>('a', 'b').unwrapOrElse(errors => errors.length)).toBe(2);
+        });
+
+        it('errors() and unwrapErrors()', () => {
+            expect(Valid(5).errors()).toEqual([]);
+            expect(Invalid('a', 'b').errors()).toEqual(['a', 'b']);
+            expect(Invalid('a').unwrapErrors()).toEqual(['a']);
+            expect(() => Valid(5).unwrapErrors()).toThrow(TypeError);
+        });
+    });
+
+    describe('transforming', () => {
+        it('map() should only transform a valid value', () => {
+            expect(Valid(2).map(x => x * 2).unwrap()).toBe(4);
+            const invalid = Invalid<number, string>('a');
+            expect(invalid.map(x => x * 2)).toBe(invalid);
+        });
+
+        it('mapErr() should transform each error', () => {
+            const valid = Valid<number, string>(1);
+            expect(valid.mapErr(e => e.length)).toBe(valid);
+            expect(Invalid('a', 'bb').mapErr(e => e.length).errors()).toEqual([1, 2]);
+        });
+
+        it('andThen() should short-circuit', () => {
+            expect(Valid<number, string>(2).andThen(x => positive('x', x - 1)).unwrap()).toBe(1);
+            expect(Valid<number, string>(1).andThen(x => positive('x', x - 1)).errors()).toEqual(['x must be positive']);
+
+            const invalid = Invalid<number, string>('a');
+            expect(invalid.andThen(x => positive('x', x))).toBe(invalid);
+            expect(() => Valid(1).andThen(() => Ok(1) as unknown as Validation<number, never>)).toThrow(TypeError);
+        });
+    });
+
+    describe('combining', () => {
+        it('zip() should accumulate the errors of both sides', () => {
+            const zipped = Valid<number, string>(1).zip(Valid('a'));
+            expectTypeOf(zipped).toEqualTypeOf<Validation<[number, string], string>>();
+            expect(zipped.unwrap()).toEqual([1, 'a']);
+
+            expect(Valid<number, string>(1).zip(Invalid('b')).errors()).toEqual(['b']);
+            expect(Invalid('a').zip(Valid(1)).errors()).toEqual(['a']);
+            expect(Invalid('a').zip(Invalid('b', 'c')).errors()).toEqual(['a', 'b', 'c']);
+        });
+
+        it('zipWith() should combine fields into an object', () => {
+            const user = nonEmpty('name', 'Tom').zipWith(positive('age', 3), (name, age) => ({ name, age }));
+            expect(user.unwrap()).toEqual({ name: 'Tom', age: 3 });
+
+            const invalid = nonEmpty('name', '').zipWith(positive('age', -1), (name, age) => ({ name, age }));
+            expect(invalid.errors()).toEqual(['name is empty', 'age must be positive']);
+        });
+
+        it('zip() and zipWith() should throw TypeError for non-Validation arguments', () => {
+            expect(() => Valid(1).zip(Ok(1) as unknown as Validation<number, never>)).toThrow(TypeError);
+            expect(() => Invalid('a').zip({} as Validation<number, string>)).toThrow(TypeError);
+        });
+    });
+
+    describe('match', () => {
+        it('should call the arm of the variant', () => {
+            const matcher = {
+                Valid: (v: number) => v,
+                Invalid: (errors: readonly string[]) => errors.join(';'),
+            };
+
+            expect(Valid<number, string>(1).match(matcher)).toBe(1);
+            expect(Invalid<number, string>('a', 'b').match(matcher)).toBe('a;b');
+        });
+
+        it('matchAsync() should await the arms', async () => {
+            expect(await Valid(1).matchAsync({ Valid: async v => v + 1, Invalid: () => 0 })).toBe(2);
+            expect(await Invalid('a').matchAsync({ Valid: () => 0, Invalid: async errors => errors.length })).toBe(1);
+        });
+    });
+
+    describe('converting', () => {
+        it('toResult() should put every error into the Err', () => {
+            expect(Valid(5).toResult().unwrap()).toBe(5);
+            expect(Invalid('a', 'b').toResult().unwrapErr()).toEqual(['a', 'b']);
+        });
+
+        it('ok() should discard the errors', () => {
+            expect(Valid(5).ok().unwrap()).toBe(5);
+            expect(Invalid('a').ok()).toBe(None);
+        });
+    });
+});
+
+describe('Validation.all', () => {
+    it('should combine record fields with precise types', () => {
+        const user = Validation.all({
+            name: nonEmpty('name', 'Tom'),
+            age: positive('age', 3),
+        });
+
+        expectTypeOf(user).toEqualTypeOf<Validation<{ name: string; age: number; }, string>>();
+        expect(user.unwrap()).toEqual({ name: 'Tom', age: 3 });
+    });
+
+    it('should keep tuple types', () => {
+        const tuple = Validation.all([Valid<number, 'a'>(1), Valid<string, 'b'>('x')]);
+
+        expectTypeOf(tuple).toEqualTypeOf<Validation<[number, string], 'a' | 'b'>>();
+        expect(tuple.unwrap()).toEqual([1, 'x']);
+    });
+
+    it('should accumulate the errors of every element in order', () => {
+        const user = Validation.all({
+            name: nonEmpty('name', ''),
+            email: nonEmpty('email', 'a@b.c'),
+            age: Invalid('age is missing', 'age is required'),
+        });
+
+        expect(user.errors()).toEqual(['name is empty', 'age is missing', 'age is required']);
+    });
+
+    it('should return Valid for an empty collection', () => {
+        expect(Validation.all([]).unwrap()).toEqual([]);
+    });
+
+    it('should throw TypeError for non-Validation elements', () => {
+        expect(() => Validation.all([Ok(1) as unknown as Validation<number, never>])).toThrow(TypeError);
+    });
+});
+
+describe('Validation.fromResult', () => {
+    it('should convert Ok and Err', () => {
+        expect(Validation.fromResult(Ok(1)).unwrap()).toBe(1);
+        expect(Validation.fromResult(Err('bad')).errors()).toEqual(['bad']);
+    });
+
+    it('should round-trip through toResult()', () => {
+        const fromOk = Validation.fromResult(Ok<number, string>(1)).toResult();
+        expectTypeOf(fromOk).toEqualTypeOf<ReturnType<Validation<number, string>['toResult']>>();
+        expect(fromOk.unwrap()).toBe(1);
+    });
+
+    it('should throw TypeError for non-Result arguments', () => {
+        expect(() => Validation.fromResult(Valid(1) as never)).toThrow(TypeError);
+    });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+    Break,
+    CloneablePort,
+    Continue,
+    Err,
+    fromCloneable,
+    isOption,
+    isResult,
+    None,
+    Ok,
+    Some,
+    toCloneable,
+    type MessagePortLike,
+    type Option,
+    type Result,
+} from '../../../src/mod.ts';
+
+describe('toCloneable', () => {
+    it('should replace nested instances by their tagged shapes', () => {
+        const encoded = toCloneable({
+            user: Some({ name: 'Alice', nickname: None }),
+            results: [Ok(1), Err(Some('e'))],
+            flow: Break(Continue(2)),
+        });
+
+        expect(encoded).toEqual({
+            user: { $kind: 'Some', value: { name: 'Alice', nickname: { $kind: 'None' } } },
+            results: [{ $kind: 'Ok', value: 1 }, { $kind: 'Err', error: { $kind: 'Some', value: 'e' } }],
+            flow: { $kind: 'Break', value: { $kind: 'Continue', value: 2 } },
+        });
+        expect(() => structuredClone(encoded)).not.toThrow();
+    });
+
+    it('should walk Maps and Sets and keep other objects', () => {
+        const date = new Date(0);
+        const encoded = toCloneable(new Map<unknown, unknown>([[Some(1), new Set([Ok(date)])]])) as Map<unknown, Set<{ value: unknown; }>>;
+        const [[key, set]] = encoded;
+
+        expect(key).toEqual({ $kind: 'Some', value: 1 });
+        expect([...set][0].value).toBe(date);
+        expect(toCloneable('text')).toBe('text');
+        expect(toCloneable(null)).toBe(null);
+    });
+
+    it('should not modify the input', () => {
+        const input = { list: [Ok(1)] };
+
+        toCloneable(input);
+
+        expect(isResult(input.list[0])).toBe(true);
+    });
+
+    it('should preserve shared references and cycles', () => {
+        const shared = Ok(1);
+        const node: { self?: unknown; a: unknown; b: unknown; } = { a: shared, b: shared };
+        node.self = node;
+
+        const encoded = toCloneable(node) as typeof node;
+
+        expect(encoded.a).toBe(encoded.b);
+        expect(encoded.self).toBe(encoded);
+    });
+});
+
+describe('fromCloneable', () => {
+    it('should round-trip through structuredClone', () => {
+        const data = {
+            user: Some({ name: 'Alice', nickname: None }),
+            results: [Ok(1), Err('e'), Ok(undefined)],
+            flow: Break(Continue(2)),
+            lookup: new Map([['a', Some(1)]]),
+            tags: new Set([None]),
+        };
+
+        const decoded = fromCloneable<typeof data>(structuredClone(toCloneable(data)));
+
+        expect(decoded.user.unwrap().name).toBe('Alice');
+        expect(decoded.user.unwrap().nickname).toBe(None);
+        expect(decoded.results[0].unwrap()).toBe(1);
+        expect(decoded.results[1].unwrapErr()).toBe('e');
+        expect(decoded.results[2].isOk()).toBe(true);
+        expect(decoded.flow.breakValue().unwrap().continueValue().unwrap()).toBe(2);
+        expect(decoded.lookup.get('a')?.unwrap()).toBe(1);
+        expect(decoded.tags.has(None)).toBe(true);
+    });
+
+    it('should leave other values untouched', () => {
+        const values = [
+            { $kind: 'Maybe', value: 1 },
+            { $kind: 'Ok', value: 1, extra: true },
+            { $kind: 'Err', value: 1 },
+            { value: 1 },
+            new Date(0),
+            'Ok',
+            null,
+        ];
+
+        expect(fromCloneable(values)).toEqual(values);
+    });
+
+    it('should preserve shared references and cycles', () => {
+        const shared = { $kind: 'Some', value: 1 };
+        const list: unknown[] = [shared, shared];
+        list.push(list);
+
+        const decoded = fromCloneable<unknown[]>(list);
+
+        expect(decoded[0]).toBe(decoded[1]);
+        expect(decoded[2]).toBe(decoded);
+    });
+
+    it('should resolve a cycle through a tagged shape', () => {
+        const inner: Record<string, unknown> = {};
+        const tagged = { $kind: 'Ok', value: inner };
+        inner['parent'] = tagged;
+
+        const decoded = fromCloneable<Result<{ parent: unknown; }, never>>(tagged);
+
+        expect(isResult(decoded)).toBe(true);
+        expect(isResult(decoded.unwrap().parent)).toBe(true);
+    });
+});
+
+describe('CloneablePort', () => {
+    it('should send and receive instances over a MessageChannel', async () => {
+        const channel = new MessageChannel();
+        const sender = CloneablePort<Result<Option<number>, string>>(channel.port1);
+        const receiver = CloneablePort<Result<Option<number>, string>>(channel.port2);
+
+        const received = new Promise<Result<Option<number>, string>>(resolve => {
+            receiver.onMessage(resolve);
+        });
+        channel.port2.start();
+        sender.postMessage(Ok(Some(42)));
+
+        const result = await received;
+        expect(result.unwrap()).toSatisfy(o => isOption(o) && o.unwrap() === 42);
+
+        channel.port1.close();
+        channel.port2.close();
+    });
+
+    it('should forward the transfer list', () => {
+        const port: MessagePortLike = {
+            postMessage: vi.fn(),
+            addEventListener: vi.fn(),
+            removeEventListener: vi.fn(),
+        };
+        const buffer = new ArrayBuffer(8);
+        const wrapped = CloneablePort<Option<ArrayBuffer>>(port);
+
+        wrapped.postMessage(Some(buffer), [buffer]);
+        wrapped.postMessage(None);
+
+        expect(port.postMessage).toHaveBeenNthCalledWith(1, { $kind: 'Some', value: buffer }, [buffer]);
+        expect(port.postMessage).toHaveBeenNthCalledWith(2, { $kind: 'None' });
+        expect(wrapped.port).toBe(port);
+    });
+
+    it('onMessage() should return an unsubscribe function', () => {
+        const listeners = new Set<(event: { readonly data: unknown; }) => void>();
+        const port: MessagePortLike = {
+            postMessage: vi.fn(),
+            addEventListener: (_type, listener) => listeners.add(listener),
+            removeEventListener: (_type, listener) => listeners.delete(listener),
+        };
+        const listener = vi.fn();
+
+        const unsubscribe = CloneablePort<Option<number>>(port).onMessage(listener);
+        for (const fn of listeners) fn({ data: { $kind: 'None' } });
+        unsubscribe();
+
+        expect(listener.mock.calls[0][0]).toBe(None);
+        expect(listeners.size).toBe(0);
+    });
+
+    it('should be frozen and have a string tag', () => {
+        const channel = new MessageChannel();
+        const port = CloneablePort(channel.port1);
+
+        expect(Object.isFrozen(port)).toBe(true);
+        expect(Object.prototype.toString.call(port)).toBe('[object CloneablePort]');
+        expect(port.toString()).toBe('CloneablePort');
+
+        channel.port1.close();
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { byKey, Equal, Greater, Less, reverse, thenBy, toCompareFn, type Comparator } from '../../../src/mod.ts';
+
+interface User {
+    readonly name: string;
+    readonly age: number;
+}
+
+const alice: User = { name: 'Alice', age: 30 };
+const bob: User = { name: 'Bob', age: 25 };
+const carol: User = { name: 'Carol', age: 30 };
+
+describe('byKey', () => {
+    it('should compare the keys with the default ordering', () => {
+        const byAge = byKey((user: User) => user.age);
+
+        expect(byAge(alice, bob)).toBe(Greater);
+        expect(byAge(alice, carol)).toBe(Equal);
+        expect(byAge(bob, carol)).toBe(Less);
+    });
+
+    it('should compare the keys with a custom comparator', () => {
+        const byNameLength = byKey((user: User) => user.name, byKey(name => name.length));
+
+        expect(byNameLength(bob, alice)).toBe(Less);
+        expect(byNameLength(alice, carol)).toBe(Equal);
+    });
+});
+
+describe('reverse', () => {
+    it('should reverse the default ordering', () => {
+        const descending = reverse<number>();
+
+        expect(descending(1, 2)).toBe(Greater);
+        expect(descending(2, 1)).toBe(Less);
+        expect(descending(1, 1)).toBe(Equal);
+    });
+
+    it('should reverse a comparator', () => {
+        const oldestFirst = reverse(byKey((user: User) => user.age));
+
+        expect(oldestFirst(alice, bob)).toBe(Less);
+    });
+});
+
+describe('thenBy', () => {
+    it('should break ties with the next comparators', () => {
+        const compare = thenBy(byKey((user: User) => user.age), byKey(user => user.name, reverse()));
+
+        expect(compare(alice, carol)).toBe(Greater);
+        expect(compare(bob, alice)).toBe(Less);
+        expect(compare(alice, alice)).toBe(Equal);
+    });
+
+    it('should not call the next comparators once the order is decided', () => {
+        const calls: string[] = [];
+        const tracked = (name: string, ordering: typeof Equal): Comparator<number> => () => {
+            calls.push(name);
+            return ordering;
+        };
+
+        expect(thenBy(tracked('first', Equal), tracked('second', Less), tracked('third', Greater))(1, 2)).toBe(Less);
+        expect(calls).toEqual(['first', 'second']);
+        expect(thenBy(tracked('only', Greater))(1, 2)).toBe(Greater);
+    });
+});
+
+describe('toCompareFn', () => {
+    it('should sort with the default ordering', () => {
+        expect(['b', 'c', 'a'].sort(toCompareFn())).toEqual(['a', 'b', 'c']);
+        expect(toCompareFn()(1, 2)).toBe(-1);
+    });
+
+    it('should sort with a comparator', () => {
+        const users = [alice, bob, carol];
+
+        expect(users.sort(toCompareFn(thenBy(reverse(byKey(user => user.age)), byKey(user => user.name))))).toEqual([alice, carol, bob]);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { byKey, clamp, maxBy, maxByKey, minBy, minByKey, None, Panic, reverse } from '../../../src/mod.ts';
+
+describe('minBy / maxBy', () => {
+    it('should return None for no values', () => {
+        expect(minBy([])).toBe(None);
+        expect(maxBy(new Set())).toBe(None);
+    });
+
+    it('should use the default ordering', () => {
+        expect(minBy([3, 1, 2]).unwrap()).toBe(1);
+        expect(maxBy([3, 1, 2]).unwrap()).toBe(3);
+        expect(maxBy(['b', 'c', 'a']).unwrap()).toBe('c');
+    });
+
+    it('should use a comparator', () => {
+        expect(minBy([3, 1, 2], reverse()).unwrap()).toBe(3);
+        expect(maxBy(['aaa', 'b', 'cc'], byKey(word => word.length)).unwrap()).toBe('aaa');
+    });
+
+    it('should return the first minimum and the last maximum', () => {
+        const words = ['ab', 'cd', 'e', 'f'];
+        const byLength = byKey((word: string) => word.length);
+
+        expect(minBy(words, byLength).unwrap()).toBe('e');
+        expect(maxBy(words, byLength).unwrap()).toBe('cd');
+    });
+
+    it('should accept any iterable', () => {
+        function* numbers() {
+            yield 2;
+            yield 5;
+        }
+
+        expect(maxBy(numbers()).unwrap()).toBe(5);
+    });
+});
+
+describe('minByKey / maxByKey', () => {
+    const users = [
+        { name: 'Alice', age: 30 },
+        { name: 'Bob', age: 25 },
+        { name: 'Carol', age: 30 },
+        { name: 'Dave', age: 25 },
+    ];
+
+    it('should return the first minimum and the last maximum by key', () => {
+        expect(minByKey(users, user => user.age).unwrap()).toBe(users[1]);
+        expect(maxByKey(users, user => user.age).unwrap()).toBe(users[2]);
+    });
+
+    it('should compare the keys with a comparator', () => {
+        expect(minByKey(users, user => user.name, reverse()).unwrap()).toBe(users[3]);
+        expect(maxByKey(users, user => user.name, byKey(name => name.length)).unwrap()).toBe(users[2]);
+    });
+
+    it('should compute each key once', () => {
+        let calls = 0;
+
+        minByKey(users, user => {
+            calls += 1;
+            return user.age;
+        });
+        expect(calls).toBe(users.length);
+        expect(maxByKey([], () => 0)).toBe(None);
+    });
+});
+
+describe('clamp', () => {
+    it('should restrict the value to the interval', () => {
+        expect(clamp(-1, 0, 10)).toBe(0);
+        expect(clamp(5, 0, 10)).toBe(5);
+        expect(clamp(15, 0, 10)).toBe(10);
+        expect(clamp('m', 'a', 'f')).toBe('f');
+        expect(clamp(3, 3, 3)).toBe(3);
+    });
+
+    it('should use a comparator', () => {
+        expect(clamp(15, 10, 0, reverse())).toBe(10);
+        expect(clamp('abcd', 'a', 'abc', byKey(word => word.length))).toBe('abc');
+    });
+
+    it('should panic if min is greater than max', () => {
+        expect(() => clamp(5, 10, 0)).toThrow(Panic);
+        expect(() => clamp(5, 10, 0)).toThrow('clamp() called with `min` greater than `max`');
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { debug, Equal, Err, Greater, isOrdering, Less, None, Ok, Some, type Option, type Result } from '../../../src/mod.ts';
+
+describe('Ordering', () => {
+    it('should have [object Ordering] as toStringTag', () => {
+        expect(Object.prototype.toString.call(Less)).toBe('[object Ordering]');
+    });
+
+    it('should print the name of the variant', () => {
+        expect(Less.toString()).toBe('Less');
+        expect(`${Equal}`).toBe('Equal');
+        expect(String(Greater)).toBe('Greater');
+    });
+
+    it('should convert to the number expected by sort', () => {
+        expect(Less.valueOf()).toBe(-1);
+        expect(Equal.valueOf()).toBe(0);
+        expect(Greater.valueOf()).toBe(1);
+        expect(+Greater).toBe(1);
+    });
+
+    it('should be frozen', () => {
+        expect(Object.isFrozen(Less)).toBe(true);
+        expect(Object.isFrozen(Equal)).toBe(true);
+        expect(Object.isFrozen(Greater)).toBe(true);
+    });
+
+    it('should be printed by inspect and debug', () => {
+        const inspect = (Less as unknown as Record<symbol, (depth: number, options: object) => string>)[Symbol.for('nodejs.util.inspect.custom')];
+
+        expect(inspect.call(Less, 2, {})).toBe('Less');
+        expect(debug([Equal])).toBe('[Equal]');
+    });
+
+    it('should query the variant', () => {
+        expect([Less.isEq(), Equal.isEq(), Greater.isEq()]).toEqual([false, true, false]);
+        expect([Less.isNe(), Equal.isNe(), Greater.isNe()]).toEqual([true, false, true]);
+        expect([Less.isLt(), Equal.isLt(), Greater.isLt()]).toEqual([true, false, false]);
+        expect([Less.isGt(), Equal.isGt(), Greater.isGt()]).toEqual([false, false, true]);
+        expect([Less.isLe(), Equal.isLe(), Greater.isLe()]).toEqual([true, true, false]);
+        expect([Less.isGe(), Equal.isGe(), Greater.isGe()]).toEqual([false, true, true]);
+    });
+
+    it('should reverse', () => {
+        expect(Less.reverse()).toBe(Greater);
+        expect(Equal.reverse()).toBe(Equal);
+        expect(Greater.reverse()).toBe(Less);
+    });
+
+    it('should chain orderings', () => {
+        expect(Equal.chain(Less)).toBe(Less);
+        expect(Greater.chain(Less)).toBe(Greater);
+        expect(Less.chain(Greater)).toBe(Less);
+    });
+
+    it('should chain lazily with thenWith', () => {
+        let calls = 0;
+        const next = () => {
+            calls += 1;
+            return Greater;
+        };
+
+        expect(Less.thenWith(next)).toBe(Less);
+        expect(calls).toBe(0);
+        expect(Equal.thenWith(next)).toBe(Greater);
+        expect(calls).toBe(1);
+    });
+
+    it('should not be a thenable', async () => {
+        expect(await Promise.resolve(Equal)).toBe(Equal);
+    });
+
+    it('should be detected by isOrdering', () => {
+        expect(isOrdering(Some(1).cmp(None))).toBe(true);
+        expect(isOrdering(Equal)).toBe(true);
+        expect(isOrdering(-1)).toBe(false);
+        expect(isOrdering(null)).toBe(false);
+        expect(isOrdering({})).toBe(false);
+    });
+});
+
+describe('default ordering', () => {
+    it('should order numbers, bigints, strings and booleans', () => {
+        expect(Some(1).cmp(Some(2))).toBe(Less);
+        expect(Some<number | bigint>(2n).cmp(Some(1))).toBe(Greater);
+        expect(Some<number | bigint>(1n).cmp(Some(1))).toBe(Equal);
+        expect(Some(-0).cmp(Some(0))).toBe(Equal);
+        expect(Some('a').cmp(Some('b'))).toBe(Less);
+        expect(Some(true).cmp(Some(false))).toBe(Greater);
+    });
+
+    it('should order dates by time', () => {
+        expect(Some(new Date(1)).cmp(Some(new Date(2)))).toBe(Less);
+        expect(Some(new Date(2)).cmp(Some(new Date(2)))).toBe(Equal);
+    });
+
+    it('should order arrays lexicographically', () => {
+        expect(Some([1, 2]).cmp(Some([1, 3]))).toBe(Less);
+        expect(Some([1, 2]).cmp(Some([1]))).toBe(Greater);
+        expect(Some([1, 2]).cmp(Some([1, 2]))).toBe(Equal);
+        expect(Some([[1], [2]]).cmp(Some([[1], [1, 0]]))).toBe(Greater);
+    });
+
+    it('should order nested Options and Results', () => {
+        expect(Some<Option<number>>(None).cmp(Some(Some(1)))).toBe(Less);
+        expect(Some<Result<number, number>>(Ok(1)).cmp(Some(Err(0)))).toBe(Less);
+    });
+
+    it('should panic for values that cannot be ordered', () => {
+        expect(() => Some(NaN).cmp(Some(1))).toThrow(/Cannot compare NaN with 1/);
+        expect(() => Some(NaN).cmp(Some(NaN))).toThrow(TypeError);
+        expect(() => Some<unknown>(1).cmp(Some('1'))).toThrow(/Cannot compare 1 with "1"/);
+        expect(() => Some<unknown>(1).cmp(Some(true))).toThrow(TypeError);
+        expect(() => Some({}).cmp(Some({}))).toThrow(TypeError);
+        expect(() => Some<unknown>(Some(1)).cmp(Some(Ok(1)))).toThrow(TypeError);
+        expect(() => Some<unknown>(null).cmp(Some(null))).toThrow(TypeError);
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { BinaryHeap, byKey, None, reverse } from '../../../src/mod.ts';
+
+describe('BinaryHeap', () => {
+    it('should have [object BinaryHeap] as toStringTag', () => {
+        expect(Object.prototype.toString.call(BinaryHeap())).toBe('[object BinaryHeap]');
+        expect(BinaryHeap([3, 1]).toString()).toBe('BinaryHeap(2)');
+    });
+
+    it('should be created empty or from an iterable', () => {
+        const heap = BinaryHeap(new Set([2, 7, 1]));
+
+        expect(BinaryHeap().isEmpty).toBe(true);
+        expect(heap.length).toBe(3);
+        expect(heap.isEmpty).toBe(false);
+        expect([...heap].sort()).toEqual([1, 2, 7]);
+    });
+
+    it('pop() should return the values from the greatest', () => {
+        const heap = BinaryHeap([5, 1, 8, 3, 9, 2, 8, 7, 4, 6]);
+        const popped: number[] = [];
+        for (let value = heap.pop(); value.isSome(); value = heap.pop()) {
+            popped.push(value.unwrap());
+        }
+
+        expect(popped).toEqual([9, 8, 8, 7, 6, 5, 4, 3, 2, 1]);
+        expect(heap.pop()).toBe(None);
+    });
+
+    it('push() and peek() should keep the greatest value on top', () => {
+        const heap = BinaryHeap<string>();
+
+        expect(heap.peek()).toBe(None);
+        heap.push('b');
+        heap.push('c');
+        heap.push('a');
+        expect(heap.peek().unwrap()).toBe('c');
+        expect(heap.length).toBe(3);
+    });
+
+    it('should accept a custom comparator', () => {
+        const min = BinaryHeap([3, 1, 2], reverse<number>());
+        const jobs = BinaryHeap([{ name: 'a', priority: 1 }, { name: 'b', priority: 5 }], byKey(job => job.priority));
+
+        expect(min.pop().unwrap()).toBe(1);
+        expect(jobs.pop().unwrap()).toEqual({ name: 'b', priority: 5 });
+    });
+
+    it('peekMut() should update the greatest value and restore the order', () => {
+        const heap = BinaryHeap([1, 5, 2, 4]);
+
+        expect(heap.peekMut(n => n - 4).unwrap()).toBe(1);
+        expect(heap.intoSortedVec()).toEqual([1, 1, 2, 4]);
+
+        let called = false;
+        expect(heap.peekMut(n => {
+            called = true;
+            return n;
+        })).toBe(None);
+        expect(called).toBe(false);
+    });
+
+    it('intoSortedVec() should empty the heap in ascending order', () => {
+        const heap = BinaryHeap([3, 1, 2]);
+
+        expect(heap.intoSortedVec()).toEqual([1, 2, 3]);
+        expect(heap.isEmpty).toBe(true);
+        expect(BinaryHeap([3, 1, 2], reverse<number>()).intoSortedVec()).toEqual([3, 2, 1]);
+    });
+
+    it('drain() should empty the heap immediately', () => {
+        const heap = BinaryHeap([3, 1, 2]);
+        const drained = heap.drain();
+
+        expect(heap.isEmpty).toBe(true);
+        heap.push(10);
+        expect(drained.collect().sort()).toEqual([1, 2, 3]);
+        expect([...heap]).toEqual([10]);
+    });
+
+    it('clear() should remove all values', () => {
+        const heap = BinaryHeap([1, 2]);
+        heap.clear();
+
+        expect(heap.length).toBe(0);
+        expect(heap.peek()).toBe(None);
+    });
+});
@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { BTreeMap, None, reverse } from '../../../src/mod.ts';
+
+describe('BTreeMap', () => {
+    it('should have [object BTreeMap] as toStringTag', () => {
+        expect(Object.prototype.toString.call(BTreeMap())).toBe('[object BTreeMap]');
+        expect(BTreeMap([[1, 'a']]).toString()).toBe('BTreeMap(1)');
+    });
+
+    it('should keep the keys sorted', () => {
+        const map = BTreeMap([[3, 'c'], [1, 'a'], [2, 'b'], [1, 'z']]);
+
+        expect(map.length).toBe(3);
+        expect(map.isEmpty).toBe(false);
+        expect(BTreeMap().isEmpty).toBe(true);
+        expect([...map]).toEqual([[1, 'z'], [2, 'b'], [3, 'c']]);
+        expect(map.keys().collect()).toEqual([1, 2, 3]);
+        expect(map.values().collect()).toEqual(['z', 'b', 'c']);
+    });
+
+    it('should compare keys with compareValues by default', () => {
+        const map = BTreeMap([[new Date(2000), 'b'], [new Date(1000), 'a']]);
+
+        expect(map.get(new Date(1000)).unwrap()).toBe('a');
+        expect(map.values().collect()).toEqual(['a', 'b']);
+        expect(BTreeMap([[[1, 2], 'x'], [[1], 'y']]).values().collect()).toEqual(['y', 'x']);
+    });
+
+    it('should accept a custom comparator', () => {
+        const map = BTreeMap([[1, 'a'], [3, 'c'], [2, 'b']], reverse<number>());
+
+        expect(map.keys().collect()).toEqual([3, 2, 1]);
+        expect(map.firstKeyValue().unwrap()).toEqual([3, 'c']);
+    });
+
+    it('get(), insert() and remove() should return Options', () => {
+        const map = BTreeMap<string, number>();
+
+        expect(map.insert('b', 1)).toBe(None);
+        expect(map.insert('b', 2).unwrap()).toBe(1);
+        expect(map.insert('a', 0)).toBe(None);
+        expect(map.get('b').unwrap()).toBe(2);
+        expect(map.get('c')).toBe(None);
+        expect(map.containsKey('a')).toBe(true);
+        expect(map.containsKey('c')).toBe(false);
+        expect(map.remove('a').unwrap()).toBe(0);
+        expect(map.remove('a')).toBe(None);
+        expect([...map]).toEqual([['b', 2]]);
+    });
+
+    it('entry() should insert or modify in place', () => {
+        const histogram = BTreeMap<number, number>();
+        for (const bucket of [2, 1, 2]) {
+            histogram.entry(bucket).andModify(n => n + 1).orInsert(1);
+        }
+
+        expect([...histogram]).toEqual([[1, 1], [2, 2]]);
+        expect(histogram.entry(0).orInsertWith(() => 5)).toBe(5);
+        expect(histogram.firstKeyValue().unwrap()).toEqual([0, 5]);
+    });
+
+    it('should access and pop the first and last entries', () => {
+        const map = BTreeMap([[2, 'b'], [1, 'a'], [3, 'c']]);
+
+        expect(map.firstKeyValue().unwrap()).toEqual([1, 'a']);
+        expect(map.lastKeyValue().unwrap()).toEqual([3, 'c']);
+        expect(map.popFirst().unwrap()).toEqual([1, 'a']);
+        expect(map.popLast().unwrap()).toEqual([3, 'c']);
+        expect(map.popLast().unwrap()).toEqual([2, 'b']);
+        expect(map.popFirst()).toBe(None);
+        expect(map.popLast()).toBe(None);
+        expect(map.firstKeyValue()).toBe(None);
+        expect(map.lastKeyValue()).toBe(None);
+    });
+
+    it('range() should yield the entries within the bounds', () => {
+        const map = BTreeMap([[1, 'a'], [2, 'b'], [3, 'c'], [4, 'd']]);
+
+        expect(map.range({ start: 2, end: 4 }).collect()).toEqual([[2, 'b'], [3, 'c']]);
+        expect(map.range({ start: 2, end: 4, inclusive: true }).collect()).toEqual([[2, 'b'], [3, 'c'], [4, 'd']]);
+        expect(map.range({ start: 3 }).collect()).toEqual([[3, 'c'], [4, 'd']]);
+        expect(map.range({ end: 2 }).collect()).toEqual([[1, 'a']]);
+        expect(map.range({ end: 2, inclusive: true }).collect()).toEqual([[1, 'a'], [2, 'b']]);
+        expect(map.range({}).collect()).toHaveLength(4);
+        expect(map.range({ start: 1.5, end: 2.5 }).collect()).toEqual([[2, 'b']]);
+        expect(map.range({ start: 2, end: 2 }).collect()).toEqual([]);
+        expect(map.range({ start: 5 }).collect()).toEqual([]);
+    });
+
+    it('range() should panic if start is greater than end', () => {
+        expect(() => BTreeMap([[1, 'a']]).range({ start: 2, end: 1 })).toThrow('BTreeMap.range() called with `start` greater than `end`');
+    });
+
+    it('should iterate live over the entries', () => {
+        const map = BTreeMap([[1, 'a'], [2, 'b'], [3, 'c']]);
+        const seen: number[] = [];
+        for (const [key] of map) {
+            seen.push(key);
+            if (key < 10) {
+                map.insert(key + 10, 'x');
+            }
+            map.remove(3);
+        }
+
+        expect(seen).toEqual([1, 2, 11, 12]);
+        expect(map.length).toBe(4);
+    });
+
+    it('keys() and values() should be live iterators', () => {
+        const map = BTreeMap([[1, 'a'], [3, 'c']]);
+        const keys = map.keys();
+        const values = map.values();
+
+        expect(keys.next().unwrap()).toBe(1);
+        expect(values.next().unwrap()).toBe('a');
+        map.insert(2, 'b');
+        map.insert(3, 'C');
+
+        expect([...keys]).toEqual([2, 3]);
+        expect([...values]).toEqual(['b', 'C']);
+    });
+
+    it('range() should resume after the last key visited', () => {
+        const map = BTreeMap([[1, 'a'], [2, 'b'], [3, 'c'], [4, 'd']]);
+        const range = map.range({ start: 2, end: 4 });
+
+        expect(range.next().unwrap()).toEqual([2, 'b']);
+        map.remove(2);
+        map.clear();
+        map.insert(3, 'C');
+        map.insert(4, 'D');
+
+        expect([...range]).toEqual([[3, 'C']]);
+    });
+
+    it('should stay sorted through many insertions and removals', () => {
+        const map = BTreeMap<number, number>();
+        const model = new Map<number, number>();
+        const sorted = (): number[] => [...model.keys()].sort((a, b) => a - b);
+
+        // Deterministic pseudo-random keys, to split, borrow from and merge leaves and branches
+        let seed = 1;
+        const random = (n: number): number => {
+            seed = seed * 48271 % 2147483647;
+            return seed % n;
+        };
+
+        for (let round = 0; round < 4; round++) {
+            for (let i = 0; i < 3000; i++) {
+                const key = random(1000);
+                expect(map.insert(key, i).isSome()).toBe(model.has(key));
+                model.set(key, i);
+            }
+            for (let i = 0; i < 3000; i++) {
+                const key = random(1000);
+                expect(map.remove(key).isSome()).toBe(model.delete(key));
+            }
+
+            expect(map.length).toBe(model.size);
+            expect([...map.keys()]).toEqual(sorted());
+            expect([...map.values()]).toEqual(sorted().map(key => model.get(key)));
+            expect([...map.range({ start: 250, end: 750 }).map(([key]) => key)]).toEqual(sorted().filter(key => key >= 250 && key < 750));
+            for (let key = 0; key < 1000; key += 7) {
+                expect(map.containsKey(key)).toBe(model.has(key));
+                expect(map.get(key).unwrapOr(-1)).toBe(model.get(key) ?? -1);
+            }
+        }
+
+        for (const key of sorted().slice(0, model.size >>> 1)) {
+            map.remove(key);
+            model.delete(key);
+        }
+        while (!map.isEmpty) {
+            expect(map.popLast().unwrap()[0]).toBe(sorted().at(-1));
+            model.delete(sorted().at(-1) as number);
+        }
+
+        expect([...map]).toEqual([]);
+    });
+
+    it('clear() should remove all entries', () => {
+        const map = BTreeMap([[1, 'a']]);
+        map.clear();
+
+        expect(map.isEmpty).toBe(true);
+        expect(map.insert(2, 'b')).toBe(None);
+        expect([...map]).toEqual([[2, 'b']]);
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { HashMap, None } from '../../../src/mod.ts';
+
+describe('HashMap', () => {
+    it('should have [object HashMap] as toStringTag', () => {
+        expect(Object.prototype.toString.call(HashMap())).toBe('[object HashMap]');
+        expect(HashMap([['a', 1]]).toString()).toBe('HashMap(1)');
+    });
+
+    it('should be created empty or from entries', () => {
+        const map = HashMap([['a', 1], ['b', 2], ['a', 3]]);
+
+        expect(HashMap().isEmpty).toBe(true);
+        expect(map.length).toBe(2);
+        expect(map.isEmpty).toBe(false);
+        expect([...map]).toEqual([['a', 3], ['b', 2]]);
+    });
+
+    it('get() should return an Option', () => {
+        const map = HashMap<string, number | undefined>([['a', 1], ['u', undefined]]);
+
+        expect(map.get('a').unwrap()).toBe(1);
+        expect(map.get('u').unwrap()).toBe(undefined);
+        expect(map.get('b')).toBe(None);
+        expect(map.containsKey('u')).toBe(true);
+        expect(map.containsKey('b')).toBe(false);
+    });
+
+    it('insert() and remove() should return the previous value', () => {
+        const map = HashMap<string, number>();
+
+        expect(map.insert('a', 1)).toBe(None);
+        expect(map.insert('a', 2).unwrap()).toBe(1);
+        expect(map.remove('a').unwrap()).toBe(2);
+        expect(map.remove('a')).toBe(None);
+        expect(map.isEmpty).toBe(true);
+    });
+
+    it('entry() should insert or modify in place', () => {
+        const counts = HashMap<string, number>();
+        for (const word of ['a', 'b', 'a']) {
+            counts.entry(word).andModify(n => n + 1).orInsert(1);
+        }
+
+        expect([...counts]).toEqual([['a', 2], ['b', 1]]);
+        expect(Object.prototype.toString.call(counts.entry('a'))).toBe('[object Entry]');
+        expect(counts.entry('c').key).toBe('c');
+    });
+
+    it('orInsertWith() should only call fn if the key is missing', () => {
+        const map = HashMap([['a', 1]]);
+        let calls = 0;
+        const create = (): number => {
+            calls += 1;
+            return 2;
+        };
+
+        expect(map.entry('a').orInsertWith(create)).toBe(1);
+        expect(map.entry('b').orInsertWith(create)).toBe(2);
+        expect(calls).toBe(1);
+        expect(map.get('b').unwrap()).toBe(2);
+    });
+
+    it('keys() and values() should return Iters', () => {
+        const map = HashMap([['a', 1], ['b', 2]]);
+
+        expect(map.keys().collect()).toEqual(['a', 'b']);
+        expect(map.values().map(n => n * 10).collect()).toEqual([10, 20]);
+    });
+
+    it('clear() should remove all entries', () => {
+        const map = HashMap([['a', 1]]);
+        map.clear();
+
+        expect(map.length).toBe(0);
+        expect(map.get('a')).toBe(None);
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { None, VecDeque } from '../../../src/mod.ts';
+
+describe('VecDeque', () => {
+    it('should have [object VecDeque] as toStringTag', () => {
+        expect(Object.prototype.toString.call(VecDeque())).toBe('[object VecDeque]');
+        expect(VecDeque([1, 2]).toString()).toBe('VecDeque(2)');
+    });
+
+    it('should be created empty or from an iterable', () => {
+        const empty = VecDeque<number>();
+        const deque = VecDeque(new Set(['a', 'b']));
+
+        expect(empty.length).toBe(0);
+        expect(empty.isEmpty).toBe(true);
+        expect(deque.length).toBe(2);
+        expect(deque.isEmpty).toBe(false);
+        expect([...deque]).toEqual(['a', 'b']);
+    });
+
+    it('should push and pop at both ends', () => {
+        const deque = VecDeque<number>();
+        deque.pushBack(2);
+        deque.pushFront(1);
+        deque.pushBack(3);
+
+        expect([...deque]).toEqual([1, 2, 3]);
+        expect(deque.popFront().unwrap()).toBe(1);
+        expect(deque.popBack().unwrap()).toBe(3);
+        expect(deque.popBack().unwrap()).toBe(2);
+        expect(deque.popFront()).toBe(None);
+        expect(deque.popBack()).toBe(None);
+    });
+
+    it('should distinguish a stored undefined from an empty queue', () => {
+        const deque = VecDeque<undefined>([undefined]);
+
+        expect(deque.front().unwrap()).toBe(undefined);
+        expect(deque.popFront().unwrap()).toBe(undefined);
+        expect(deque.front()).toBe(None);
+    });
+
+    it('should grow while keeping the order across the wraparound', () => {
+        const deque = VecDeque<number>();
+        for (let i = 0; i < 6; i += 1) {
+            deque.pushBack(i);
+        }
+        for (let i = 0; i < 4; i += 1) {
+            deque.popFront();
+        }
+        for (let i = 6; i < 20; i += 1) {
+            deque.pushBack(i);
+        }
+        for (let i = 3; i >= 0; i -= 1) {
+            deque.pushFront(i);
+        }
+
+        expect([...deque]).toEqual(Array.from({ length: 20 }, (_, i) => i));
+
+        const front = VecDeque<number>();
+        for (let i = 0; i < 10; i += 1) {
+            front.pushFront(i);
+        }
+        expect([...front]).toEqual([9, 8, 7, 6, 5, 4, 3, 2, 1, 0]);
+    });
+
+    it('front(), back() and get() should not remove values', () => {
+        const deque = VecDeque(['a', 'b', 'c']);
+
+        expect(deque.front().unwrap()).toBe('a');
+        expect(deque.back().unwrap()).toBe('c');
+        expect(deque.get(1).unwrap()).toBe('b');
+        expect(deque.get(3)).toBe(None);
+        expect(deque.get(-1)).toBe(None);
+        expect(deque.get(0.5)).toBe(None);
+        expect(deque.length).toBe(3);
+        expect(VecDeque().back()).toBe(None);
+    });
+
+    it('clear() should remove all values', () => {
+        const deque = VecDeque(Array.from({ length: 20 }, (_, i) => i));
+        deque.clear();
+
+        expect(deque.isEmpty).toBe(true);
+        expect([...deque]).toEqual([]);
+
+        deque.pushBack(1);
+        expect([...deque]).toEqual([1]);
+    });
+});
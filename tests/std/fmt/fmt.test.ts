@@ -0,0 +1,200 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+    Break,
+    Continue,
+    debug,
+    devtoolsFormatter,
+    Err,
+    format,
+    installDevtoolsFormatter,
+    Invalid,
+    Mutex,
+    None,
+    Ok,
+    Panic,
+    Some,
+    Valid,
+} from '../../../src/mod.ts';
+
+type Inspect = (depth: number, options: object, inspect?: (value: unknown, options: { depth?: number | null; }) => string) => string;
+
+const inspectCustom = Symbol.for('nodejs.util.inspect.custom');
+
+function inspectHook(value: unknown): Inspect {
+    return (value as Record<symbol, Inspect>)[inspectCustom].bind(value);
+}
+
+describe('debug', () => {
+    it('should format primitives', () => {
+        expect(debug('a"b')).toBe('"a\\"b"');
+        expect(debug(1.5)).toBe('1.5');
+        expect(debug(-0)).toBe('-0');
+        expect(debug(10n)).toBe('10n');
+        expect(debug(true)).toBe('true');
+        expect(debug(undefined)).toBe('undefined');
+        expect(debug(null)).toBe('null');
+        expect(debug(Symbol('s'))).toBe('Symbol(s)');
+        expect(debug(function named() { /* empty */ })).toBe('[Function named]');
+        expect(debug(Object.defineProperty(() => 1, 'name', { value: '' }))).toBe('[Function (anonymous)]');
+    });
+
+    it('should format every variant with its contained value', () => {
+        expect(debug(Some({ a: 1 }))).toBe('Some({ a: 1 })');
+        expect(debug(None)).toBe('None');
+        expect(debug(Ok([1, 'x']))).toBe('Ok([1, "x"])');
+        expect(debug(Err(Some(None)))).toBe('Err(Some(None))');
+        expect(debug(Valid(1))).toBe('Valid(1)');
+        expect(debug(Invalid('a', 'b'))).toBe('Invalid("a", "b")');
+        expect(debug(Break({ done: true }))).toBe('Break({ done: true })');
+        expect(debug(Continue())).toBe('Continue(undefined)');
+    });
+
+    it('should format built-in objects', () => {
+        expect(debug(new Map([['a', Ok(1)]]))).toBe('Map(1) { "a" => Ok(1) }');
+        expect(debug(new Set([None]))).toBe('Set(1) { None }');
+        expect(debug(new Map())).toBe('Map(0) {}');
+        expect(debug([])).toBe('[]');
+        expect(debug({})).toBe('{}');
+        expect(debug(new Date(0))).toBe('1970-01-01T00:00:00.000Z');
+        expect(debug(new Date(NaN))).toBe('Invalid Date');
+        expect(debug(/a+/g)).toBe('/a+/g');
+        expect(debug(new RangeError('too big'))).toBe('RangeError: too big');
+    });
+
+    it('should format object keys and class instances', () => {
+        class Point {
+            constructor(readonly x: number, readonly y: number) {}
+        }
+        const symbol = Symbol('id');
+
+        expect(debug({ 'a-b': 1, _ok: 2, [symbol]: 3 })).toBe('{ "a-b": 1, _ok: 2, [Symbol(id)]: 3 }');
+        expect(debug(new Point(1, 2))).toBe('Point { x: 1, y: 2 }');
+        expect(debug(Object.create(null) as object)).toBe('{}');
+        expect(debug(Mutex(1))).toMatch(/^Mutex \{ /);
+    });
+
+    it('should replace cycles by [Circular] but print shared references', () => {
+        const shared = { a: 1 };
+        const node: Record<string, unknown> = { shared, again: shared };
+        node['self'] = Some(node);
+
+        expect(debug(node)).toBe('{ shared: { a: 1 }, again: { a: 1 }, self: Some([Circular]) }');
+    });
+
+    it('should abbreviate values below the depth limit', () => {
+        const nested = { list: [new Map([[1, new Set([Ok(1)])]])] };
+
+        expect(debug(nested, { depth: 0 })).toBe('{ list: [Array] }');
+        expect(debug(nested, { depth: 1 })).toBe('{ list: [[Map]] }');
+        expect(debug(nested, { depth: 2 })).toBe('{ list: [Map(1) { 1 => [Set] }] }');
+        expect(debug(nested, { depth: 3 })).toBe('{ list: [Map(1) { 1 => Set(1) { [Ok] } }] }');
+        expect(debug([None, new Date(0)], { depth: 0 })).toBe('[None, 1970-01-01T00:00:00.000Z]');
+        expect(debug([{}, Mutex(1)], { depth: 0 })).toBe('[[Object], [Mutex]]');
+        expect(debug([[[[[[1]]]]]])).toBe('[[[[[[Array]]]]]]');
+    });
+
+    it('should print one entry per line with pretty', () => {
+        expect(debug(Ok({ a: [1, 2], b: {} }), { pretty: true })).toBe([
+            'Ok({',
+            '    a: [',
+            '        1,',
+            '        2,',
+            '    ],',
+            '    b: {},',
+            '})',
+        ].join('\n'));
+        expect(debug(new Set([1]), { pretty: true })).toBe('Set(1) {\n    1,\n}');
+    });
+});
+
+describe('format', () => {
+    it('should interpolate values for display and debugging', () => {
+        expect(format('{} failed: {:?}', 'save', Err({ code: 409 }))).toBe('save failed: Err({ code: 409 })');
+        expect(format('{} {:?} {}', 1, 'a', Some('b'))).toBe('1 "a" Some("b")');
+        expect(format('{:#?}', [1])).toBe('[\n    1,\n]');
+        expect(format('{{}} {{{}}} }}', 'x')).toBe('{} {x} }');
+        expect(format('no placeholders')).toBe('no placeholders');
+    });
+
+    it('should panic when the arguments do not match the placeholders', () => {
+        expect(() => format('{} {}', 1)).toThrow(new Panic('format: missing argument for placeholder 1 in "{} {}"'));
+        expect(() => format('{}', 1, 2)).toThrow(new Panic('format: 1 argument(s) not used by "{}"'));
+    });
+});
+
+describe('util.inspect.custom', () => {
+    const inspect = (value: unknown, options: { depth?: number | null; }): string => `<${debug(value)} @${options.depth}>`;
+
+    it('should inspect the contained values with the remaining depth', () => {
+        expect(inspectHook(Ok({ a: 1 }))(1, { depth: 2 }, inspect)).toBe('Ok(<{ a: 1 } @1>)');
+        expect(inspectHook(Err('e'))(2, { depth: null }, inspect)).toBe('Err(<"e" @null>)');
+        expect(inspectHook(Some(1))(2, {}, inspect)).toBe('Some(<1 @undefined>)');
+        expect(inspectHook(Invalid('a', 'b'))(2, { depth: 2 }, inspect)).toBe('Invalid(<"a" @2>, <"b" @2>)');
+        expect(inspectHook(Valid(1))(2, { depth: 2 }, inspect)).toBe('Valid(<1 @2>)');
+        expect(inspectHook(Break(1))(2, { depth: 2 }, inspect)).toBe('Break(<1 @2>)');
+        expect(inspectHook(Continue(1))(2, { depth: 2 }, inspect)).toBe('Continue(<1 @2>)');
+        expect(inspectHook(None)(2, {}, inspect)).toBe('None');
+    });
+
+    it('should align multi-line values', () => {
+        const multiline = (): string => '{\n  a: 1\n}';
+
+        expect(inspectHook(Some({ a: 1 }))(2, {}, multiline)).toBe('Some({\n       a: 1\n     })');
+    });
+
+    it('should abbreviate below the depth limit', () => {
+        const stylize = (text: string, style: string): string => `${style}:${text}`;
+
+        expect(inspectHook(Ok(1))(-1, { stylize }, inspect)).toBe('special:[Ok]');
+        expect(inspectHook(Ok(1))(-1, {}, inspect)).toBe('[Ok]');
+    });
+
+    it('should fall back to toString without an inspect function', () => {
+        expect(inspectHook(Ok(1))(2, {})).toBe('Ok(1)');
+        expect(inspectHook(Invalid('a', 'b'))(2, {})).toBe('Invalid(a, b)');
+    });
+});
+
+describe('devtoolsFormatter', () => {
+    const target = globalThis as { devtoolsFormatters?: unknown[]; };
+
+    afterEach(() => {
+        delete target.devtoolsFormatters;
+    });
+
+    it('should render variants with expandable contents', () => {
+        const payload = { a: 1 };
+
+        expect(devtoolsFormatter.header(Ok(payload))).toEqual(['span', {}, 'Ok(', ['object', { object: payload }], ')']);
+        expect(devtoolsFormatter.header(Invalid('a', 'b'))).toEqual(['span', {}, 'Invalid(', ['object', { object: 'a' }], ', ', ['object', { object: 'b' }], ')']);
+        expect(devtoolsFormatter.header(None)).toEqual(['span', {}, 'None']);
+        expect(devtoolsFormatter.hasBody(Ok(1))).toBe(false);
+        expect(devtoolsFormatter.body(Ok(1))).toBe(null);
+    });
+
+    it('should leave other values to the default formatting', () => {
+        expect(devtoolsFormatter.header({ a: 1 })).toBe(null);
+        expect(devtoolsFormatter.header(1)).toBe(null);
+    });
+
+    it('installDevtoolsFormatter() should register the formatter once', () => {
+        const other = {};
+        target.devtoolsFormatters = [other];
+
+        const uninstall = installDevtoolsFormatter();
+        installDevtoolsFormatter();
+        expect(target.devtoolsFormatters).toEqual([other, devtoolsFormatter]);
+
+        uninstall();
+        uninstall();
+        expect(target.devtoolsFormatters).toEqual([other]);
+    });
+
+    it('installDevtoolsFormatter() should create the list', () => {
+        const uninstall = installDevtoolsFormatter();
+        expect(target.devtoolsFormatters).toEqual([devtoolsFormatter]);
+
+        delete target.devtoolsFormatters;
+        expect(() => uninstall()).not.toThrow();
+    });
+});
@@ -0,0 +1,313 @@
+import { describe, expect, it } from 'vitest';
+import { AsyncIter, Break, Channel, Continue, Err, None, Ok, Some, type Option, type Result } from '../../../src/mod.ts';
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function* delayed<T>(entries: [value: T, ms: number][]): AsyncGenerator<T> {
+    for (const [value, ms] of entries) {
+        await sleep(ms);
+        yield value;
+    }
+}
+
+/**
+ * An async generator over `values` recording whether its `finally` block ran.
+ */
+function tracked<T>(values: T[]): { readonly source: AsyncGenerator<T>; readonly closed: () => boolean; } {
+    let closed = false;
+    async function* gen(): AsyncGenerator<T> {
+        try {
+            yield* values;
+        } finally {
+            closed = true;
+        }
+    }
+    return { source: gen(), closed: () => closed };
+}
+
+describe('AsyncIter', () => {
+    it('should have [object AsyncIter] as toStringTag', () => {
+        expect(Object.prototype.toString.call(AsyncIter([]))).toBe('[object AsyncIter]');
+    });
+
+    it('should iterate over async and sync iterables', async () => {
+        expect(await AsyncIter(delayed([[1, 0], [2, 0]])).collect()).toEqual([1, 2]);
+        expect(await AsyncIter([1, Promise.resolve(2)]).collect()).toEqual([1, 2]);
+        expect(await AsyncIter(AsyncIter(new Set([1]))).collect()).toEqual([1]);
+    });
+
+    it('should be async iterable and share its state', async () => {
+        const iter = AsyncIter([1, 2, 3]);
+
+        expect((await iter.next()).unwrap()).toBe(1);
+        for await (const value of iter) {
+            expect(value).toBe(2);
+            break;
+        }
+
+        expect(await iter.collect()).toEqual([]);
+    });
+
+    it('next() should return Some until exhausted', async () => {
+        const iter = AsyncIter([1]);
+
+        expect((await iter.next()).unwrap()).toBe(1);
+        expect(await iter.next()).toBe(None);
+    });
+
+    it('should consume a channel receiver until it is closed', async () => {
+        const ch = Channel<number>(4);
+        const doubled = AsyncIter(ch.receiver).map(n => n * 2).collect();
+
+        await ch.send(1);
+        await ch.send(2);
+        ch.close();
+
+        expect(await doubled).toEqual([2, 4]);
+    });
+
+    describe('collecting', () => {
+        it('collectResult() should stop at the first Err', async () => {
+            const iter = AsyncIter<Result<number, string>>([Ok(1), Err('a'), Ok(2)]);
+
+            expect((await iter.collectResult()).unwrapErr()).toBe('a');
+            expect(await iter.collect()).toEqual([]);
+            expect((await AsyncIter([Ok(1), Ok(2)]).collectResult()).unwrap()).toEqual([1, 2]);
+            await expect(AsyncIter(['x'] as unknown as Result<number, string>[]).collectResult()).rejects.toThrow(TypeError);
+        });
+
+        it('collectOption() should stop at the first None', async () => {
+            expect(await AsyncIter<Option<number>>([Some(1), None]).collectOption()).toBe(None);
+            expect((await AsyncIter([Some(1), Some(2)]).collectOption()).unwrap()).toEqual([1, 2]);
+            await expect(AsyncIter([1] as unknown as Option<number>[]).collectOption()).rejects.toThrow(TypeError);
+        });
+
+        it('should reject when the source rejects', async () => {
+            async function* failing(): AsyncGenerator<number> {
+                yield 1;
+                throw new Error('boom');
+            }
+
+            await expect(AsyncIter(failing()).collect()).rejects.toThrow('boom');
+        });
+
+        it('tryFold() should stop at the first Break', async () => {
+            const iter = AsyncIter([10, 20, 30, 40]);
+            const flow = await iter.tryFold(0, async (total, n) => total + n > 50 ? Break(total) : Continue(total + n));
+
+            expect(flow.breakValue().unwrap()).toBe(30);
+            expect(await iter.collect()).toEqual([]);
+            expect((await AsyncIter([1, 2]).tryFold(0, (total, n) => Continue(total + n))).continueValue().unwrap()).toBe(3);
+        });
+    });
+
+    describe('adapters', () => {
+        it('map() should transform each value lazily', async () => {
+            const seen: number[] = [];
+            const iter = AsyncIter([1, 2]).map(async n => {
+                seen.push(n);
+                return String(n);
+            });
+
+            expect(seen).toEqual([]);
+            expect(await iter.collect()).toEqual(['1', '2']);
+            expect(seen).toEqual([1, 2]);
+        });
+
+        it('filter() should keep the matching values', async () => {
+            expect(await AsyncIter([1, 2, 3, 4]).filter(async n => n % 2 === 0).collect()).toEqual([2, 4]);
+        });
+
+        it('filterMap() should keep the contents of the Somes', async () => {
+            const iter = AsyncIter(['1', 'x', '3']).filterMap(s => Promise.resolve(Number.isNaN(Number(s)) ? None : Some(Number(s))));
+
+            expect(await iter.collect()).toEqual([1, 3]);
+            await expect(AsyncIter([1]).filterMap(() => 1 as unknown as Option<number>).collect()).rejects.toThrow(TypeError);
+        });
+
+        it('buffered() should run at most n calls at a time and keep the order', async () => {
+            let running = 0;
+            let maxRunning = 0;
+            const iter = AsyncIter([30, 10, 20, 0]).buffered(2, async ms => {
+                running += 1;
+                maxRunning = Math.max(maxRunning, running);
+                await sleep(ms);
+                running -= 1;
+                return ms;
+            });
+
+            expect(await iter.collect()).toEqual([30, 10, 20, 0]);
+            expect(maxRunning).toBe(2);
+        });
+
+        it('bufferUnordered() should yield the results in completion order', async () => {
+            const iter = AsyncIter([40, 10, 20]).bufferUnordered(Infinity, async ms => {
+                await sleep(ms);
+                return ms;
+            });
+
+            expect(await iter.collect()).toEqual([10, 20, 40]);
+        });
+
+        it('bufferUnordered() should yield results while the source is idle', async () => {
+            const ch = Channel<number>(4);
+            const iter = AsyncIter(ch.receiver).bufferUnordered(2, n => n * 10);
+
+            await ch.send(1);
+            expect((await iter.next()).unwrap()).toBe(10);
+
+            ch.close();
+            expect(await iter.next()).toBe(None);
+        });
+
+        it('buffered() should reject when a call rejects', async () => {
+            const iter = AsyncIter([1, 2, 3]).buffered(3, async n => {
+                if (n === 2) {
+                    throw new Error('boom');
+                }
+                return n;
+            });
+
+            expect((await iter.next()).unwrap()).toBe(1);
+            await expect(iter.next()).rejects.toThrow('boom');
+        });
+
+        it('buffered() should validate the limit', () => {
+            expect(() => AsyncIter([]).buffered(0, n => n)).toThrow(RangeError);
+            expect(() => AsyncIter([]).bufferUnordered(1.5, n => n)).toThrow(RangeError);
+        });
+
+        it('chunksTimeout() should yield full chunks', async () => {
+            expect(await AsyncIter([1, 2, 3, 4, 5]).chunksTimeout(2, 1000).collect()).toEqual([[1, 2], [3, 4], [5]]);
+            expect(await AsyncIter([]).chunksTimeout(2, 1000).collect()).toEqual([]);
+        });
+
+        it('chunksTimeout() should yield partial chunks after the timeout', async () => {
+            const iter = AsyncIter(delayed([[1, 0], [2, 5], [3, 80], [4, 5]])).chunksTimeout(10, 40);
+
+            expect(await iter.collect()).toEqual([[1, 2], [3, 4]]);
+        });
+
+        it('chunksTimeout() should validate its arguments', () => {
+            expect(() => AsyncIter([]).chunksTimeout(0, 10)).toThrow('AsyncIter.chunksTimeout() expects a positive integer size, got 0');
+            expect(() => AsyncIter([]).chunksTimeout(1, -1)).toThrow(RangeError);
+            expect(() => AsyncIter([]).chunksTimeout(1, Infinity)).toThrow(RangeError);
+        });
+
+        it('merge() should interleave the values in arrival order', async () => {
+            const slow = delayed([['a', 30], ['b', 90]]);
+            const fast = delayed([['x', 0], ['y', 60]]);
+
+            expect(await AsyncIter(slow).merge(fast, AsyncIter([]).map(String)).collect()).toEqual(['x', 'a', 'y', 'b']);
+        });
+
+        it('merge() should reject when a source rejects', async () => {
+            const failing: AsyncIterable<number> = {
+                [Symbol.asyncIterator]: () => ({
+                    next: () => Promise.reject(new Error('boom')),
+                }),
+            };
+
+            await expect(AsyncIter(delayed([[1, 50]])).merge(failing).collect()).rejects.toThrow('boom');
+        });
+    });
+
+    describe('closing', () => {
+        it('breaking out of a for await...of loop should close the source', async () => {
+            const { source, closed } = tracked([1, 2, 3]);
+            const iter = AsyncIter(source);
+
+            for await (const value of iter) {
+                expect(value).toBe(1);
+                break;
+            }
+
+            expect(closed()).toBe(true);
+            expect(await iter.next()).toBe(None);
+            expect(await iter.map(n => n).collect()).toEqual([]);
+        });
+
+        it('short-circuiting consumers should close the source', async () => {
+            const closes = [
+                (iter: AsyncIter<number>) => iter.tryFold(0, (_, n) => Break(n)),
+                (iter: AsyncIter<number>) => iter.map(n => n === 2 ? Err(n) : Ok(n)).collectResult(),
+                (iter: AsyncIter<number>) => iter.map(n => n === 2 ? None : Some(n)).collectOption(),
+            ];
+
+            for (const consume of closes) {
+                const { source, closed } = tracked([1, 2, 3]);
+                await consume(AsyncIter(source));
+                expect(closed()).toBe(true);
+            }
+        });
+
+        it('a throwing callback or a value failing the checks of a consumer should close the source', async () => {
+            const fails = [
+                (iter: AsyncIter<number>) => iter.tryFold(0, () => {
+                    throw new Error('callback failed');
+                }),
+                (iter: AsyncIter<number>) => iter.tryFold(0, () => Promise.reject(new Error('callback failed'))),
+                (iter: AsyncIter<number>) => (iter as unknown as AsyncIter<Result<number, never>>).collectResult(),
+                (iter: AsyncIter<number>) => (iter as unknown as AsyncIter<Option<number>>).collectOption(),
+            ];
+
+            for (const consume of fails) {
+                const { source, closed } = tracked([1, 2, 3]);
+                await expect(consume(AsyncIter(source))).rejects.toThrow();
+                expect(closed()).toBe(true);
+            }
+        });
+
+        it('closing an adapter should close its source', async () => {
+            const adapters = [
+                (iter: AsyncIter<number>) => iter.map(n => n).filter(() => true).filterMap(Some),
+                (iter: AsyncIter<number>) => iter.buffered(2, n => n),
+                (iter: AsyncIter<number>) => iter.bufferUnordered(2, n => n),
+                (iter: AsyncIter<number>) => iter.chunksTimeout(1, 10),
+            ];
+
+            for (const adapt of adapters) {
+                const { source, closed } = tracked([1, 2, 3]);
+                for await (const value of adapt(AsyncIter(source))) {
+                    expect(value).toEqual(expect.anything());
+                    break;
+                }
+                await sleep(1);
+                expect(closed()).toBe(true);
+            }
+        });
+
+        it('merge() should close every source not exhausted', async () => {
+            const first = tracked([1, 2]);
+            const second = tracked([3]);
+            const ch = Channel<number>(4);
+
+            for await (const value of AsyncIter(first.source).merge(second.source, ch.receiver)) {
+                expect(value).toBe(1);
+                break;
+            }
+            await sleep(1);
+
+            expect(first.closed()).toBe(true);
+            expect(second.closed()).toBe(true);
+            // The pending receive of the merge is cancelled instead of taking the next value
+            ch.trySend(4);
+            expect((await ch.receive()).unwrap()).toBe(4);
+        });
+
+        it('chunksTimeout() should not take a value once closed', async () => {
+            const ch = Channel<number>(4);
+            ch.trySend(1);
+
+            for await (const chunk of AsyncIter(ch.receiver).chunksTimeout(2, 1)) {
+                expect(chunk).toEqual([1]);
+                break;
+            }
+
+            ch.trySend(2);
+            expect((await ch.receive()).unwrap()).toBe(2);
+        });
+    });
+});
@@ -0,0 +1,363 @@
+import { describe, expect, it } from 'vitest';
+import { Break, Continue, Err, Iter, None, Ok, Some, type Option, type Result } from '../../../src/mod.ts';
+
+function* naturals(): Generator<number> {
+    for (let n = 0; ; n += 1) {
+        yield n;
+    }
+}
+
+/**
+ * A generator over `values` recording whether its `finally` block ran.
+ */
+function tracked<T>(values: T[]): { readonly source: Generator<T>; readonly closed: () => boolean; } {
+    let closed = false;
+    function* gen(): Generator<T> {
+        try {
+            yield* values;
+        } finally {
+            closed = true;
+        }
+    }
+    return { source: gen(), closed: () => closed };
+}
+
+describe('Iter', () => {
+    it('should have [object Iter] as toStringTag', () => {
+        expect(Object.prototype.toString.call(Iter([]))).toBe('[object Iter]');
+    });
+
+    it('should be iterable and share its state', () => {
+        const iter = Iter([1, 2, 3, 4]);
+
+        expect(iter.next().unwrap()).toBe(1);
+        expect([...iter]).toEqual([2, 3, 4]);
+        expect([...iter]).toEqual([]);
+    });
+
+    it('should accept any iterable', () => {
+        expect(Iter(new Set([1, 2])).collect()).toEqual([1, 2]);
+        expect(Iter(new Map([['a', 1]])).collect()).toEqual([['a', 1]]);
+        expect(Iter('hi').collect()).toEqual(['h', 'i']);
+        expect(Iter(Iter([1])).collect()).toEqual([1]);
+    });
+
+    describe('pulling values', () => {
+        it('next() should return Some until exhausted', () => {
+            const iter = Iter([1]);
+
+            expect(iter.next().unwrap()).toBe(1);
+            expect(iter.next()).toBe(None);
+        });
+
+        it('nth() should consume the values up to the index', () => {
+            expect(Iter(['a', 'b', 'c', 'd']).nth(1).unwrap()).toBe('b');
+            expect(Iter(['a', 'b']).nth(5)).toBe(None);
+            expect(() => Iter(['a']).nth(-1)).toThrow(RangeError);
+            expect(() => Iter(['a']).nth(1.5)).toThrow('Iter.nth() expects a non-negative integer, got 1.5');
+        });
+
+        it('last() should return the last value', () => {
+            expect(Iter([1, 2, 3]).last().unwrap()).toBe(3);
+            expect(Iter([]).last()).toBe(None);
+        });
+
+        it('find() should return the first match', () => {
+            expect(Iter([1, 2, 3, 4]).find(n => n % 2 === 0).unwrap()).toBe(2);
+            expect(Iter([1, 3]).find(n => n % 2 === 0)).toBe(None);
+        });
+
+        it('position() should return the index of the first match', () => {
+            expect(Iter([1, 3, 4]).position(n => n % 2 === 0).unwrap()).toBe(2);
+            expect(Iter([1, 3]).position(n => n % 2 === 0)).toBe(None);
+        });
+    });
+
+    describe('short-circuiting folds', () => {
+        it('tryFold() should stop at the first Break', () => {
+            const iter = Iter([10, 20, 30, 40]);
+            const flow = iter.tryFold(0, (total, n) => total + n > 50 ? Break(total) : Continue(total + n));
+
+            expect(flow.breakValue().unwrap()).toBe(30);
+            expect(iter.collect()).toEqual([]);
+        });
+
+        it('tryFold() should return the final accumulator', () => {
+            expect(Iter([1, 2, 3]).tryFold(0, (total, n) => Continue(total + n)).continueValue().unwrap()).toBe(6);
+        });
+
+        it('tryForEach() should stop at the first Break', () => {
+            const seen: number[] = [];
+            const flow = Iter([1, 2, 3]).tryForEach(n => {
+                seen.push(n);
+                return n === 2 ? Break('two') : Continue();
+            });
+
+            expect(flow.breakValue().unwrap()).toBe('two');
+            expect(seen).toEqual([1, 2]);
+            expect(Iter([1]).tryForEach(() => Continue()).isContinue()).toBe(true);
+        });
+    });
+
+    describe('collecting', () => {
+        it('collect() should return the remaining values', () => {
+            expect(Iter([1, 2]).map(n => n * 2).collect()).toEqual([2, 4]);
+        });
+
+        it('collectResult() should stop at the first Err', () => {
+            const iter = Iter<Result<number, string>>([Ok(1), Err('a'), Ok(2), Err('b')]);
+
+            expect(iter.collectResult().unwrapErr()).toBe('a');
+            expect(iter.collect()).toEqual([]);
+            expect(Iter([Ok(1), Ok(2)]).collectResult().unwrap()).toEqual([1, 2]);
+            expect(Iter<Result<number, string>>([]).collectResult().unwrap()).toEqual([]);
+            expect(() => Iter([1] as unknown as Result<number, string>[]).collectResult()).toThrow(TypeError);
+        });
+
+        it('collectOption() should stop at the first None', () => {
+            const iter = Iter<Option<number>>([Some(1), None, Some(2)]);
+
+            expect(iter.collectOption()).toBe(None);
+            expect(iter.collect()).toEqual([]);
+            expect(Iter([Some(1), Some(2)]).collectOption().unwrap()).toEqual([1, 2]);
+            expect(() => Iter([null] as unknown as Option<number>[]).collectOption()).toThrow(TypeError);
+        });
+    });
+
+    describe('adapters', () => {
+        it('should be lazy', () => {
+            const seen: number[] = [];
+            const iter = Iter([1, 2, 3]).map(n => {
+                seen.push(n);
+                return n * 2;
+            });
+
+            expect(seen).toEqual([]);
+            expect(iter.next().unwrap()).toBe(2);
+            expect(seen).toEqual([1]);
+        });
+
+        it('should work on infinite iterators', () => {
+            expect(Iter(naturals()).filter(n => n % 3 === 0).map(n => n * 2).take(3).collect()).toEqual([0, 6, 12]);
+        });
+
+        it('filter() should keep the matching values', () => {
+            expect(Iter([1, 2, 3, 4]).filter(n => n % 2 === 0).collect()).toEqual([2, 4]);
+        });
+
+        it('filterMap() should keep the contents of the Somes', () => {
+            const parse = (s: string): Option<number> => Number.isNaN(Number(s)) ? None : Some(Number(s));
+
+            expect(Iter(['1', 'x', '3', 'y']).filterMap(parse).collect()).toEqual([1, 3]);
+            expect(() => Iter([1]).filterMap(() => 1 as unknown as Option<number>).next()).toThrow(TypeError);
+        });
+
+        it('zip() should stop when either iterator is exhausted', () => {
+            expect(Iter(['a', 'b']).zip([1, 2, 3]).collect()).toEqual([['a', 1], ['b', 2]]);
+            expect(Iter(['a', 'b', 'c']).zip(naturals()).collect()).toEqual([['a', 0], ['b', 1], ['c', 2]]);
+
+            const longer = Iter([1, 2, 3]);
+            expect(longer.zip(['a']).collect()).toEqual([[1, 'a']]);
+            expect(longer.collect()).toEqual([]);
+        });
+
+        it('chain() should append the other iterable lazily', () => {
+            let created = false;
+            const other: Iterable<number> = {
+                [Symbol.iterator]() {
+                    created = true;
+                    return [3][Symbol.iterator]();
+                },
+            };
+            const iter = Iter([1, 2]).chain(other);
+
+            expect(iter.next().unwrap()).toBe(1);
+            expect(created).toBe(false);
+            expect(iter.collect()).toEqual([2, 3]);
+            expect(iter.next()).toBe(None);
+        });
+
+        it('take() should yield at most n values', () => {
+            expect(Iter([1, 2, 3]).take(2).collect()).toEqual([1, 2]);
+            expect(Iter([1]).take(2).collect()).toEqual([1]);
+            expect(Iter([1]).take(0).collect()).toEqual([]);
+            expect(() => Iter([]).take(-1)).toThrow(RangeError);
+        });
+
+        it('skip() should skip the first n values', () => {
+            expect(Iter([1, 2, 3]).skip(1).collect()).toEqual([2, 3]);
+            expect(Iter([1, 2]).skip(3).collect()).toEqual([]);
+            expect(Iter(naturals()).skip(5).next().unwrap()).toBe(5);
+            expect(() => Iter([]).skip(Infinity)).toThrow(RangeError);
+        });
+
+        it('stepBy() should yield every step-th value', () => {
+            expect(Iter([0, 1, 2, 3, 4]).stepBy(2).collect()).toEqual([0, 2, 4]);
+            expect(Iter([0, 1, 2, 3]).stepBy(3).collect()).toEqual([0, 3]);
+            expect(Iter([0, 1]).stepBy(1).collect()).toEqual([0, 1]);
+            expect(Iter([0, 1]).stepBy(5).collect()).toEqual([0]);
+            expect(() => Iter([]).stepBy(0)).toThrow('Iter.stepBy() expects a positive integer, got 0');
+        });
+
+        it('chunks() should group the values', () => {
+            expect(Iter([1, 2, 3, 4, 5]).chunks(2).collect()).toEqual([[1, 2], [3, 4], [5]]);
+            expect(Iter([1, 2]).chunks(2).collect()).toEqual([[1, 2]]);
+            expect(Iter([]).chunks(2).collect()).toEqual([]);
+            expect(Iter(naturals()).chunks(3).take(2).collect()).toEqual([[0, 1, 2], [3, 4, 5]]);
+            expect(() => Iter([]).chunks(0)).toThrow(RangeError);
+        });
+    });
+
+    describe('peekable', () => {
+        it('peek() should not consume the value', () => {
+            const iter = Iter([1, 2]).peekable();
+
+            expect(iter.peek().unwrap()).toBe(1);
+            expect(iter.peek().unwrap()).toBe(1);
+            expect(iter.next().unwrap()).toBe(1);
+            expect(iter.peek().unwrap()).toBe(2);
+            expect(iter.collect()).toEqual([2]);
+            expect(iter.peek()).toBe(None);
+            expect(iter.next()).toBe(None);
+        });
+
+        it('nextIf() should consume the value only if it matches', () => {
+            const iter = Iter(['-v', '-q', 'file.txt']).peekable();
+            const flags: string[] = [];
+
+            for (let flag = iter.nextIf(arg => arg.startsWith('-')); flag.isSome(); flag = iter.nextIf(arg => arg.startsWith('-'))) {
+                flags.push(flag.value);
+            }
+
+            expect(flags).toEqual(['-v', '-q']);
+            expect(iter.collect()).toEqual(['file.txt']);
+            expect(iter.nextIf(() => true)).toBe(None);
+        });
+
+        it('should support every Iter method', () => {
+            const iter = Iter([1, 2, 3, 4]).peekable();
+
+            expect(iter.peek().unwrap()).toBe(1);
+            expect(Object.prototype.toString.call(iter)).toBe('[object Iter]');
+            expect(iter.map(n => n * 10).take(2).collect()).toEqual([10, 20]);
+            expect([...iter]).toEqual([]);
+            expect(iter.peek()).toBe(None);
+        });
+    });
+
+    describe('closing', () => {
+        it('breaking out of a for...of loop should close the source', () => {
+            const { source, closed } = tracked([1, 2, 3]);
+            const iter = Iter(source);
+
+            for (const value of iter) {
+                if (value === 2) {
+                    break;
+                }
+            }
+
+            expect(closed()).toBe(true);
+            expect(iter.next()).toBe(None);
+        });
+
+        it('short-circuiting consumers should close the source', () => {
+            const closes = [
+                (iter: Iter<number>) => iter.find(n => n === 2),
+                (iter: Iter<number>) => iter.nth(1),
+                (iter: Iter<number>) => iter.position(n => n === 2),
+                (iter: Iter<number>) => iter.tryFold(0, (_, n) => Break(n)),
+                (iter: Iter<number>) => iter.tryForEach(n => Break(n)),
+                (iter: Iter<number>) => iter.map(n => n === 2 ? Err(n) : Ok(n)).collectResult(),
+                (iter: Iter<number>) => iter.map(n => n === 2 ? None : Some(n)).collectOption(),
+            ];
+
+            for (const consume of closes) {
+                const { source, closed } = tracked([1, 2, 3]);
+                consume(Iter(source));
+                expect(closed()).toBe(true);
+            }
+        });
+
+        it('a throwing callback should close the source and rethrow', () => {
+            const fail = (): never => {
+                throw new Error('callback failed');
+            };
+            const throws = [
+                (iter: Iter<number>) => iter.find(fail),
+                (iter: Iter<number>) => iter.position(fail),
+                (iter: Iter<number>) => iter.tryFold(0, fail),
+                (iter: Iter<number>) => iter.tryForEach(fail),
+                (iter: Iter<number>) => iter.map(fail).collect(),
+                (iter: Iter<number>) => iter.filter(fail).collect(),
+                (iter: Iter<number>) => iter.filterMap(fail).collect(),
+                (iter: Iter<number>) => iter.skip(1).map(fail).take(1).collect(),
+            ];
+
+            for (const consume of throws) {
+                const { source, closed } = tracked([1, 2, 3]);
+                expect(() => consume(Iter(source))).toThrow('callback failed');
+                expect(closed()).toBe(true);
+            }
+        });
+
+        it('a value failing the checks of collectResult(), collectOption() or filterMap() should close the source', () => {
+            const checks = [
+                (iter: Iter<number>) => (iter as unknown as Iter<Result<number, never>>).collectResult(),
+                (iter: Iter<number>) => (iter as unknown as Iter<Option<number>>).collectOption(),
+                (iter: Iter<number>) => iter.filterMap(n => n as unknown as Option<number>).collect(),
+            ];
+
+            for (const consume of checks) {
+                const { source, closed } = tracked([1, 2, 3]);
+                expect(() => consume(Iter(source))).toThrow(TypeError);
+                expect(closed()).toBe(true);
+            }
+        });
+
+        it('take() should close the source after the last value', () => {
+            const { source, closed } = tracked([1, 2, 3]);
+            const taken = Iter(source).filter(n => n > 0).take(2);
+
+            expect(taken.collect()).toEqual([1, 2]);
+            expect(closed()).toBe(true);
+        });
+
+        it('closing an adapter should close its sources', () => {
+            const first = tracked([1, 2]);
+            const second = tracked([3, 4]);
+            const third = tracked(['a', 'b']);
+            const iter = Iter(first.source).chain(second.source).zip(third.source).skip(0).stepBy(1).chunks(1).peekable();
+
+            for (const chunk of iter) {
+                expect(chunk).toEqual([[1, 'a']]);
+                break;
+            }
+
+            expect([first.closed(), second.closed(), third.closed()]).toEqual([true, false, true]);
+            expect(iter.peek()).toBe(None);
+        });
+
+        it('closing a chain should close the other iterable once reached', () => {
+            const second = tracked([3, 4]);
+
+            expect(Iter([1]).chain(second.source).find(n => n === 3).unwrap()).toBe(3);
+            expect(second.closed()).toBe(true);
+        });
+
+        it('zip() should close the other iterable when the source is exhausted', () => {
+            const other = tracked([1, 2, 3]);
+
+            expect(Iter(['a']).zip(other.source).collect()).toEqual([['a', 1]]);
+            expect(other.closed()).toBe(true);
+        });
+
+        it('closing should be idempotent and work without a return() method', () => {
+            const iter = Iter([1, 2, 3]);
+
+            expect(iter.find(n => n === 1).unwrap()).toBe(1);
+            expect(iter.find(() => true)).toBe(None);
+            expect(iter.take(0).collect()).toEqual([]);
+            expect(iter.next()).toBe(None);
+        });
+    });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import {
+    Break,
+    Continue,
+    controlFlowFromJSON,
+    Err,
+    isOption,
+    None,
+    Ok,
+    optionFromJSON,
+    ParseError,
+    resultFromJSON,
+    reviver,
+    Some,
+    type ControlFlow,
+    type Option,
+    type Result,
+} from '../../../src/mod.ts';
+
+describe('toJSON', () => {
+    it('should serialize each variant to its tagged shape', () => {
+        expect(JSON.stringify(Ok(1))).toBe('{"$kind":"Ok","value":1}');
+        expect(JSON.stringify(Err('e'))).toBe('{"$kind":"Err","error":"e"}');
+        expect(JSON.stringify(Some('a'))).toBe('{"$kind":"Some","value":"a"}');
+        expect(JSON.stringify(None)).toBe('{"$kind":"None"}');
+        expect(JSON.stringify(Break(1))).toBe('{"$kind":"Break","value":1}');
+        expect(JSON.stringify(Continue())).toBe('{"$kind":"Continue"}');
+    });
+
+    it('should serialize nested values', () => {
+        expect(JSON.stringify({ list: [Ok(Some(1)), Err(None)] })).toBe(
+            '{"list":[{"$kind":"Ok","value":{"$kind":"Some","value":1}},{"$kind":"Err","error":{"$kind":"None"}}]}',
+        );
+    });
+});
+
+describe('reviver', () => {
+    it('should round-trip every variant at any depth', () => {
+        const data = {
+            user: Some({ name: 'Alice', nickname: None }),
+            results: [Ok(1), Err('e'), Ok(null)],
+            flow: Break(Continue(2)),
+        };
+
+        const revived = JSON.parse(JSON.stringify(data), reviver);
+
+        expect(revived.user.unwrap().name).toBe('Alice');
+        expect(revived.user.unwrap().nickname).toBe(None);
+        expect(revived.results[0].unwrap()).toBe(1);
+        expect(revived.results[1].unwrapErr()).toBe('e');
+        expect(revived.results[2].isOk()).toBe(true);
+        expect(revived.results[2].unwrap()).toBeNull();
+        expect(revived.flow.breakValue().unwrap().continueValue().unwrap()).toBe(2);
+    });
+
+    it('should leave other values untouched', () => {
+        const values = [
+            { $kind: 'Maybe', value: 1 },
+            { $kind: 'Ok', value: 1, extra: true },
+            { $kind: 'Ok', error: 1 },
+            { $kind: 'Err', value: 1 },
+            { $kind: 'Some', error: 1 },
+            { $kind: 'None', value: 1 },
+            { $kind: 'Break', error: 1 },
+            { $kind: 'Continue', value: 1, error: 2 },
+            { value: 1 },
+            [1, 2],
+            'Ok',
+            null,
+        ];
+
+        expect(JSON.parse(JSON.stringify(values), reviver)).toEqual(values);
+    });
+});
+
+describe('resultFromJSON', () => {
+    it('should parse a serialized Result', () => {
+        const result = resultFromJSON<number, string>(JSON.stringify(Err('boom')));
+
+        expectTypeOf(result).toEqualTypeOf<Result<Result<number, string>, ParseError>>();
+        expect(result.unwrap().unwrapErr()).toBe('boom');
+        expect(resultFromJSON(JSON.stringify(Ok(Some(1)))).unwrap().unwrap()).toSatisfy(o => isOption(o) && o.unwrap() === 1);
+    });
+
+    it('should return a ParseError for invalid JSON', () => {
+        const error = resultFromJSON('{"$kind":').unwrapErr();
+
+        expect(error).toBeInstanceOf(ParseError);
+        expect(error.name).toBe('ParseError');
+        expect(error.message).toBe('Invalid JSON');
+        expect(error.cause).toBeInstanceOf(SyntaxError);
+    });
+
+    it('should return a ParseError for other values', () => {
+        expect(resultFromJSON('{"$kind":"Some","value":1}').unwrapErr().message).toBe('Expected a serialized Result');
+        expect(resultFromJSON('{"$kind":"Ok","value":1,"extra":2}').unwrapErr()).toBeInstanceOf(ParseError);
+        expect(resultFromJSON('null').isErr()).toBe(true);
+    });
+
+    it('should round-trip a variant whose payload is undefined', () => {
+        const ok = resultFromJSON<undefined, never>(JSON.stringify(Ok())).unwrap();
+        const err = resultFromJSON<never, undefined>(JSON.stringify(Err(undefined))).unwrap();
+
+        expect(ok.isOk()).toBe(true);
+        expect(ok.unwrap()).toBeUndefined();
+        expect(err.isErr()).toBe(true);
+        expect(err.unwrapErr()).toBeUndefined();
+        expect(resultFromJSON(JSON.stringify(Ok(null))).unwrap().unwrap()).toBeNull();
+    });
+});
+
+describe('optionFromJSON', () => {
+    it('should parse a serialized Option', () => {
+        const option = optionFromJSON<number>('{"$kind":"Some","value":1}');
+
+        expectTypeOf(option).toEqualTypeOf<Result<Option<number>, ParseError>>();
+        expect(option.unwrap().unwrap()).toBe(1);
+        expect(optionFromJSON('{"$kind":"None"}').unwrap()).toBe(None);
+    });
+
+    it('should return a ParseError for invalid input', () => {
+        expect(optionFromJSON('').unwrapErr().message).toBe('Invalid JSON');
+        expect(optionFromJSON('{"$kind":"Ok"}').unwrapErr().message).toBe('Expected a serialized Option');
+    });
+});
+
+describe('controlFlowFromJSON', () => {
+    it('should parse a serialized ControlFlow', () => {
+        const flow = controlFlowFromJSON<string, number>('{"$kind":"Continue","value":3}');
+
+        expectTypeOf(flow).toEqualTypeOf<Result<ControlFlow<string, number>, ParseError>>();
+        expect(flow.unwrap().continueValue().unwrap()).toBe(3);
+    });
+
+    it('should round-trip a variant whose payload is undefined', () => {
+        const brk = controlFlowFromJSON<undefined, never>(JSON.stringify(Break())).unwrap();
+        const cont = controlFlowFromJSON<never, undefined>(JSON.stringify(Continue())).unwrap();
+
+        expect(brk.isBreak()).toBe(true);
+        expect(brk.breakValue().unwrap()).toBeUndefined();
+        expect(cont.isContinue()).toBe(true);
+        expect(cont.continueValue().unwrap()).toBeUndefined();
+    });
+
+    it('should return a ParseError for invalid input', () => {
+        expect(controlFlowFromJSON('[').unwrapErr().message).toBe('Invalid JSON');
+        expect(controlFlowFromJSON('1').unwrapErr().message).toBe('Expected a serialized ControlFlow');
+    });
+});
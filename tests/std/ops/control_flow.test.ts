@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, expectTypeOf, it } from 'vitest';
 import { Break, Continue, isControlFlow } from '../../../src/mod.ts';
 
 describe('ControlFlow', () => {
@@ -160,6 +160,26 @@ describe('ControlFlow', () => {
         });
     });
 
+    describe('match', () => {
+        it('should call the arm of the variant', () => {
+            const matcher = {
+                Break: (v: string) => `stopped: ${v}`,
+                Continue: (v: number) => v + 1,
+            };
+            const flow = Break<string, number>('done');
+            const value = flow.match(matcher);
+
+            expectTypeOf(value).toEqualTypeOf<string | number>();
+            expect(value).toBe('stopped: done');
+            expect(Continue<string, number>(1).match(matcher)).toBe(2);
+        });
+
+        it('matchAsync() should await the arms', async () => {
+            expect(await Break(1).matchAsync({ Break: async v => v * 10, Continue: () => 0 })).toBe(10);
+            expect(await Continue(1).matchAsync({ Break: () => 0, Continue: async v => v + 1 })).toBe(2);
+        });
+    });
+
     describe('isControlFlow', () => {
         it('should return true for Break', () => {
             expect(isControlFlow(Break(42))).toBe(true);
@@ -0,0 +1,60 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { Break, Continue, Err, Invalid, match, matchAsync, None, Ok, Some, Valid, type Option, type Result } from '../../../src/mod.ts';
+
+describe('match', () => {
+    it('should match a Result', () => {
+        const result: Result<number, string> = Ok(2);
+        const value = match(result, {
+            Ok: v => v * 2,
+            Err: e => e.length > 0,
+        });
+
+        expectTypeOf(value).toEqualTypeOf<number | boolean>();
+        expect(value).toBe(4);
+        expect(match(Err('e'), { Ok: () => 0, Err: e => e })).toBe('e');
+    });
+
+    it('should match an Option', () => {
+        const option: Option<string> = Some('a');
+
+        expect(match(option, { Some: v => v.toUpperCase(), None: () => null })).toBe('A');
+        expect(match(None, { Some: () => 1, None: () => 0 })).toBe(0);
+    });
+
+    it('should match a Validation', () => {
+        expect(match(Valid(1), { Valid: v => v, Invalid: () => -1 })).toBe(1);
+        expect(match(Invalid('a', 'b'), { Valid: () => 0, Invalid: errors => errors.length })).toBe(2);
+    });
+
+    it('should match a ControlFlow', () => {
+        expect(match(Break('stop'), { Break: v => v, Continue: () => 'go' })).toBe('stop');
+        expect(match(Continue(1), { Break: () => 0, Continue: v => v + 1 })).toBe(2);
+    });
+
+    it('should throw TypeError for unsupported values', () => {
+        expect(() => match({} as Result<number, string>, { Ok: () => 0, Err: () => 1 })).toThrow(TypeError);
+    });
+});
+
+describe('matchAsync', () => {
+    it('should await the value and the arms', async () => {
+        const fetched = Promise.resolve(Ok<number, string>(1));
+        const value = await matchAsync(fetched, {
+            Ok: async v => v + 1,
+            Err: e => e,
+        });
+
+        expectTypeOf(value).toEqualTypeOf<number | string>();
+        expect(value).toBe(2);
+    });
+
+    it('should accept sync values of every supported type', async () => {
+        expect(await matchAsync(None, { Some: () => 1, None: async () => 0 })).toBe(0);
+        expect(await matchAsync(Promise.resolve(Invalid('a')), { Valid: () => 0, Invalid: errors => errors[0] })).toBe('a');
+        expect(await matchAsync(Continue(3), { Break: () => 0, Continue: v => v })).toBe(3);
+    });
+
+    it('should reject with TypeError for unsupported values', async () => {
+        await expect(matchAsync(Promise.resolve(null as unknown as Option<number>), { Some: () => 0, None: () => 1 })).rejects.toThrow(TypeError);
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { AbortError, Barrier } from '../../../src/mod.ts';
+
+describe('Barrier', () => {
+    describe('initial state', () => {
+        it('should report parties from construction', () => {
+            expect(Barrier(3).parties).toBe(3);
+        });
+
+        it('should have correct Symbol.toStringTag and toString()', () => {
+            const barrier = Barrier(3);
+
+            expect(Object.prototype.toString.call(barrier)).toBe('[object Barrier]');
+            expect(barrier.toString()).toBe('Barrier(0/3)');
+            expect(Object.isFrozen(barrier)).toBe(true);
+        });
+    });
+
+    describe('constructor validation', () => {
+        it('should throw RangeError for zero or negative parties', () => {
+            expect(() => Barrier(0)).toThrow(RangeError);
+            expect(() => Barrier(-1)).toThrow('Barrier parties must be a positive integer, got -1');
+        });
+
+        it('should throw RangeError for non-integer parties', () => {
+            expect(() => Barrier(1.5)).toThrow(RangeError);
+        });
+    });
+
+    describe('wait', () => {
+        it('should hold tasks back until all parties have arrived', async () => {
+            const barrier = Barrier(3);
+            const released: number[] = [];
+
+            const first = barrier.wait().then(() => released.push(1));
+            const second = barrier.wait().then(() => released.push(2));
+            await Promise.resolve();
+            expect(released).toEqual([]);
+            expect(barrier.toString()).toBe('Barrier(2/3)');
+
+            await barrier.wait();
+            await Promise.all([first, second]);
+            expect(released).toEqual([1, 2]);
+        });
+
+        it('should make the last task to arrive the only leader', async () => {
+            const barrier = Barrier(3);
+
+            const results = await Promise.all([barrier.wait(), barrier.wait(), barrier.wait()]);
+
+            expect(results.map(result => result.isLeader())).toEqual([false, false, true]);
+            expect(results.map(result => result.toString())).toEqual([
+                'BarrierWaitResult(<follower>)',
+                'BarrierWaitResult(<follower>)',
+                'BarrierWaitResult(<leader>)',
+            ]);
+            expect(Object.prototype.toString.call(results[0])).toBe('[object BarrierWaitResult]');
+        });
+
+        it('should resolve immediately as the leader with one party', async () => {
+            const barrier = Barrier(1);
+
+            expect((await barrier.wait()).isLeader()).toBe(true);
+            expect((await barrier.wait()).isLeader()).toBe(true);
+        });
+
+        it('should be reusable across generations', async () => {
+            const barrier = Barrier(2);
+            const log: string[] = [];
+            const worker = async (name: string): Promise<void> => {
+                for (let step = 0; step < 3; step++) {
+                    log.push(`${name}${step}`);
+                    await barrier.wait();
+                }
+            };
+
+            await Promise.all([worker('a'), worker('b')]);
+
+            // No worker starts a step before the other one has finished the previous step
+            expect(log).toEqual(['a0', 'b0', 'a1', 'b1', 'a2', 'b2']);
+            expect(barrier.toString()).toBe('Barrier(0/2)');
+        });
+    });
+
+    describe('abort', () => {
+        it('should reject immediately with an already aborted signal', async () => {
+            const barrier = Barrier(2);
+
+            await expect(barrier.wait({ signal: AbortSignal.abort() })).rejects.toThrow(AbortError);
+            expect(barrier.toString()).toBe('Barrier(0/2)');
+        });
+
+        it('should no longer count an aborted task as arrived', async () => {
+            const barrier = Barrier(2);
+            const controller = new AbortController();
+            const aborted = barrier.wait({ signal: controller.signal });
+
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+            expect(barrier.toString()).toBe('Barrier(0/2)');
+
+            const results = await Promise.all([barrier.wait(), barrier.wait()]);
+            expect(results.map(result => result.isLeader())).toEqual([false, true]);
+        });
+
+        it('should not affect a task after its generation is complete', async () => {
+            const barrier = Barrier(2);
+            const controller = new AbortController();
+            const waiting = barrier.wait({ signal: controller.signal });
+
+            await barrier.wait();
+            controller.abort();
+
+            expect((await waiting).isLeader()).toBe(false);
+        });
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { Channel } from '../../../src/mod.ts';
+import { AbortError, Channel, None } from '../../../src/mod.ts';
 
 describe('Channel', () => {
     describe('initial state', () => {
@@ -423,6 +423,20 @@ describe('Channel', () => {
             expect(results).toEqual([1, 2]);
             expect(ch.length).toBe(1); // Still has 3
         });
+
+        it('should cancel a pending receive when closed, leaving the values in the channel', async () => {
+            const ch = Channel<number>(10);
+            const iterator = ch.receiver[Symbol.asyncIterator]();
+
+            const pending = iterator.next();
+            expect(await iterator.return?.()).toEqual({ done: true, value: undefined });
+            expect(await pending).toEqual({ done: true, value: undefined });
+
+            ch.trySend(1);
+            expect(await iterator.next()).toEqual({ done: true, value: undefined });
+            expect(ch.isClosed).toBe(false);
+            expect((await ch.receive()).unwrap()).toBe(1);
+        });
     });
 
     describe('sender view', () => {
@@ -1114,4 +1128,107 @@ describe('Channel', () => {
         });
     });
 
+    describe('abort', () => {
+        it('should reject immediately with an already aborted signal', async () => {
+            const ch = Channel<number>(1);
+            const signal = AbortSignal.abort();
+
+            await expect(ch.send(1, { signal })).rejects.toThrow(AbortError);
+            await expect(ch.sendTimeout(1, 10, { signal })).rejects.toThrow(AbortError);
+            await expect(ch.receive({ signal })).rejects.toThrow(AbortError);
+            await expect(ch.receiveTimeout(10, { signal })).rejects.toThrow(AbortError);
+            expect(ch.length).toBe(0);
+        });
+
+        it('an aborted send should never be received', async () => {
+            const ch = Channel<number>(0);
+            const controller = new AbortController();
+            const aborted = ch.sender.send(1, { signal: controller.signal });
+
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+
+            expect(ch.tryReceive()).toBe(None);
+            const sent = ch.send(2);
+            expect((await ch.receive()).unwrap()).toBe(2);
+            expect(await sent).toBe(true);
+        });
+
+        it('an aborted receive should not take a value', async () => {
+            const ch = Channel<number>(4);
+            const controller = new AbortController();
+            const aborted = ch.receiver.receive({ signal: controller.signal });
+            const other = ch.receive();
+
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+
+            await ch.send(1);
+            expect((await other).unwrap()).toBe(1);
+            expect(ch.isEmpty).toBe(true);
+        });
+
+        it('should deliver the value when the abort races a wake-up', async () => {
+            const ch = Channel<number>(0);
+            const controller = new AbortController();
+            const receiving = ch.receive({ signal: controller.signal });
+
+            expect(ch.trySend(1)).toBe(true);
+            controller.abort();
+
+            expect((await receiving).unwrap()).toBe(1);
+        });
+
+        it('should cancel the timeout variants', async () => {
+            const ch = Channel<number>(0);
+            const controller = new AbortController();
+            const sending = ch.sendTimeout(1, 1000, { signal: controller.signal });
+            const receiving = Channel<number>().receiveTimeout(1000, { signal: controller.signal });
+
+            controller.abort();
+            await expect(sending).rejects.toThrow(AbortError);
+            await expect(receiving).rejects.toThrow(AbortError);
+            expect(ch.tryReceive()).toBe(None);
+        });
+
+        it('should still time out with a signal that does not abort', async () => {
+            const { signal } = new AbortController();
+
+            expect(await Channel<number>(0).sendTimeout(1, 5, { signal })).toBe(false);
+            expect(await Channel<number>().receiveTimeout(5, { signal })).toBe(None);
+        });
+    });
+
+    describe('Symbol.asyncDispose', () => {
+        it('should close the channel when an await using declaration goes out of scope', async () => {
+            const ch = Channel<number>(4);
+            {
+                await using tx = ch.sender;
+                await tx.send(1);
+                expect(ch.isClosed).toBe(false);
+            }
+            expect(ch.isClosed).toBe(true);
+            expect((await ch.receive()).unwrap()).toBe(1);
+            expect(await ch.receive()).toBe(None);
+        });
+
+        it('should end the consumers of a channel disposed by its producer', async () => {
+            const ch = Channel<number>(0);
+            const produce = async (): Promise<void> => {
+                await using channel = ch;
+                await channel.send(1);
+                await channel.send(2);
+            };
+            const consumed: number[] = [];
+            const consume = (async () => {
+                for await (const value of ch.receiver) {
+                    consumed.push(value);
+                }
+            })();
+
+            await produce();
+            await consume;
+            expect(consumed).toEqual([1, 2]);
+        });
+    });
 });
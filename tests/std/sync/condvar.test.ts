@@ -0,0 +1,253 @@
+import { describe, expect, it } from 'vitest';
+import { AbortError, Condvar, Mutex } from '../../../src/mod.ts';
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('Condvar', () => {
+    describe('initial state', () => {
+        it('should have correct Symbol.toStringTag and toString()', () => {
+            const condvar = Condvar();
+
+            expect(Object.prototype.toString.call(condvar)).toBe('[object Condvar]');
+            expect(condvar.toString()).toBe('Condvar(<waiting:0>)');
+            expect(Object.isFrozen(condvar)).toBe(true);
+        });
+    });
+
+    describe('wait', () => {
+        it('should release the lock while waiting and reacquire it before resolving', async () => {
+            const mutex = Mutex({ ready: false });
+            const condvar = Condvar();
+            const guard = await mutex.lock();
+
+            const waiting = condvar.wait(guard);
+            expect(mutex.isLocked()).toBe(false);
+            expect(condvar.toString()).toBe('Condvar(<waiting:1>)');
+            expect(guard.toString()).toBe('MutexGuard(<released>)');
+
+            await mutex.set({ ready: true });
+            condvar.notifyOne();
+
+            const relocked = await waiting;
+            expect(mutex.isLocked()).toBe(true);
+            expect(relocked.value).toEqual({ ready: true });
+            relocked.unlock();
+            expect(mutex.isLocked()).toBe(false);
+        });
+
+        it('should not miss a notification sent as soon as the lock is free', async () => {
+            const mutex = Mutex(0);
+            const condvar = Condvar();
+            const notifier = mutex.lock().then((guard) => {
+                guard.value = 1;
+                guard.unlock();
+                condvar.notifyOne();
+            });
+
+            const guard = await mutex.lock();
+            const relocked = await condvar.waitWhile(guard, n => n === 0);
+            await notifier;
+
+            expect(relocked.value).toBe(1);
+            relocked.unlock();
+        });
+
+        it('should reject with a released guard', async () => {
+            const mutex = Mutex(0);
+            const guard = await mutex.lock();
+            guard.unlock();
+
+            await expect(Condvar().wait(guard)).rejects.toThrow('Condvar cannot wait with a released MutexGuard');
+            expect(mutex.isLocked()).toBe(false);
+        });
+    });
+
+    describe('waitWhile', () => {
+        it('should resolve without waiting if the predicate is false', async () => {
+            const mutex = Mutex(1);
+            const guard = await mutex.lock();
+
+            expect(await Condvar().waitWhile(guard, n => n === 0)).toBe(guard);
+            guard.unlock();
+        });
+
+        it('should keep waiting until the predicate is false', async () => {
+            const mutex = Mutex(0);
+            const condvar = Condvar();
+            const waiting = mutex.lock().then(guard => condvar.waitWhile(guard, n => n < 2));
+
+            for (let i = 0; i < 2; i++) {
+                await sleep(1);
+                await mutex.set(i + 1);
+                condvar.notifyAll();
+            }
+
+            const guard = await waiting;
+            expect(guard.value).toBe(2);
+            guard.unlock();
+        });
+    });
+
+    describe('waitTimeout', () => {
+        it('should report a timeout and still reacquire the lock', async () => {
+            const mutex = Mutex(0);
+            const condvar = Condvar();
+            const guard = await mutex.lock();
+
+            const [relocked, result] = await condvar.waitTimeout(guard, 5);
+
+            expect(result.timedOut()).toBe(true);
+            expect(result.toString()).toBe('WaitTimeoutResult(<timed-out>)');
+            expect(Object.prototype.toString.call(result)).toBe('[object WaitTimeoutResult]');
+            expect(mutex.isLocked()).toBe(true);
+            expect(condvar.toString()).toBe('Condvar(<waiting:0>)');
+            relocked.unlock();
+        });
+
+        it('should report a notification before the timeout', async () => {
+            const mutex = Mutex(0);
+            const condvar = Condvar();
+            const guard = await mutex.lock();
+
+            const waiting = condvar.waitTimeout(guard, 1000);
+            condvar.notifyOne();
+            const [relocked, result] = await waiting;
+
+            expect(result.timedOut()).toBe(false);
+            expect(result.toString()).toBe('WaitTimeoutResult(<notified>)');
+            relocked.unlock();
+        });
+    });
+
+    describe('notifyOne and notifyAll', () => {
+        it('notifyOne() should wake the longest waiting task only', async () => {
+            const mutex = Mutex<string[]>([]);
+            const condvar = Condvar();
+            const woken: string[] = [];
+            const waiter = async (name: string): Promise<void> => {
+                const guard = await condvar.wait(await mutex.lock());
+                woken.push(name);
+                guard.unlock();
+            };
+
+            const first = waiter('first');
+            const second = waiter('second');
+            await sleep(1);
+            expect(condvar.toString()).toBe('Condvar(<waiting:2>)');
+
+            condvar.notifyOne();
+            await first;
+            expect(woken).toEqual(['first']);
+
+            condvar.notifyOne();
+            await second;
+            expect(woken).toEqual(['first', 'second']);
+        });
+
+        it('notifyOne() should do nothing without waiting tasks', () => {
+            const condvar = Condvar();
+
+            condvar.notifyOne();
+            condvar.notifyAll();
+            expect(condvar.toString()).toBe('Condvar(<waiting:0>)');
+        });
+
+        it('notifyAll() should wake every task, which reacquire the lock one at a time', async () => {
+            const mutex = Mutex(0);
+            const condvar = Condvar();
+            const waiter = async (): Promise<void> => {
+                const guard = await condvar.wait(await mutex.lock());
+                const before = guard.value;
+                await sleep(1);
+                guard.value = before + 1;
+                guard.unlock();
+            };
+
+            const waiters = [waiter(), waiter(), waiter()];
+            await sleep(1);
+            condvar.notifyAll();
+            await Promise.all(waiters);
+
+            expect(await mutex.get()).toBe(3);
+        });
+    });
+
+    describe('abort', () => {
+        it('should reject immediately with an already aborted signal, releasing the guard', async () => {
+            const mutex = Mutex(0);
+            const guard = await mutex.lock();
+
+            await expect(Condvar().wait(guard, { signal: AbortSignal.abort() })).rejects.toThrow(AbortError);
+            expect(mutex.isLocked()).toBe(false);
+            expect(() => guard.value).toThrow('MutexGuard has been released');
+        });
+
+        it('should stop waiting without holding the lock', async () => {
+            const mutex = Mutex(0);
+            const condvar = Condvar();
+            const controller = new AbortController();
+            const waiting = condvar.waitWhile(await mutex.lock(), n => n === 0, { signal: controller.signal });
+
+            controller.abort();
+
+            await expect(waiting).rejects.toThrow(AbortError);
+            expect(mutex.isLocked()).toBe(false);
+            expect(condvar.toString()).toBe('Condvar(<waiting:0>)');
+        });
+
+        it('should stop reacquiring the lock without holding it', async () => {
+            const mutex = Mutex(0);
+            const condvar = Condvar();
+            const controller = new AbortController();
+            const waiting = condvar.waitTimeout(await mutex.lock(), 1000, { signal: controller.signal });
+
+            const holder = await mutex.lock();
+            condvar.notifyOne();
+            await sleep(1);
+            controller.abort();
+
+            await expect(waiting).rejects.toThrow(AbortError);
+            holder.unlock();
+            expect(mutex.isLocked()).toBe(false);
+        });
+
+        it('should pass the notification on when aborted while reacquiring the lock', async () => {
+            const mutex = Mutex(0);
+            const condvar = Condvar();
+            const controller = new AbortController();
+            const aborted = condvar.wait(await mutex.lock(), { signal: controller.signal });
+            const other = condvar.wait(await mutex.lock());
+
+            const holder = await mutex.lock();
+            condvar.notifyOne();
+            await sleep(1);
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+            expect(condvar.toString()).toBe('Condvar(<waiting:0>)');
+
+            holder.unlock();
+            (await other).unlock();
+            expect(mutex.isLocked()).toBe(false);
+        });
+
+        it('should not pass a notification on when aborted after its timeout', async () => {
+            const mutex = Mutex(0);
+            const condvar = Condvar();
+            const controller = new AbortController();
+            const aborted = condvar.waitTimeout(await mutex.lock(), 1, { signal: controller.signal });
+            const other = condvar.wait(await mutex.lock());
+
+            const holder = await mutex.lock();
+            await sleep(10);
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+            expect(condvar.toString()).toBe('Condvar(<waiting:1>)');
+
+            holder.unlock();
+            condvar.notifyOne();
+            (await other).unlock();
+        });
+    });
+});
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+describe('dispose symbols', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.resetModules();
+    });
+
+    it('should be the well-known symbols of the runtime', async () => {
+        const { Mutex } = await import('../../../src/mod.ts');
+        const guard = await Mutex(0).lock();
+
+        expect(typeof guard[Symbol.dispose]).toBe('function');
+    });
+
+    it('should polyfill Symbol.dispose and Symbol.asyncDispose on runtimes that lack them', async () => {
+        // A `Symbol` without the disposal symbols, as on older runtimes
+        const NativeSymbol = Symbol;
+        const LegacySymbol = Object.assign((description?: string) => NativeSymbol(description), {
+            for: Symbol.for,
+            iterator: Symbol.iterator,
+            asyncIterator: Symbol.asyncIterator,
+            hasInstance: Symbol.hasInstance,
+            toPrimitive: Symbol.toPrimitive,
+            toStringTag: Symbol.toStringTag,
+        });
+        vi.stubGlobal('Symbol', LegacySymbol);
+        vi.resetModules();
+
+        const { Channel, Semaphore } = await import('../../../src/mod.ts');
+        const permit = Semaphore(1).tryAcquire().unwrap();
+        const ch = Channel<number>();
+
+        expect(Reflect.get(LegacySymbol, 'dispose')).toBe(Symbol.for('nodejs.dispose'));
+        expect(Reflect.get(LegacySymbol, 'asyncDispose')).toBe(Symbol.for('nodejs.asyncDispose'));
+        expect(typeof Reflect.get(permit, Symbol.for('nodejs.dispose'))).toBe('function');
+        expect(typeof Reflect.get(ch, Symbol.for('nodejs.asyncDispose'))).toBe('function');
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from 'vitest';
-import { Mutex } from '../../../src/mod.ts';
+import { AbortError, Mutex, None } from '../../../src/mod.ts';
 
 describe('Mutex', () => {
     describe('initial state', () => {
@@ -624,4 +624,153 @@ describe('Mutex', () => {
             }
         });
     });
+
+    describe('abort', () => {
+        it('should reject immediately with an already aborted signal', async () => {
+            const mutex = Mutex(0);
+
+            await expect(mutex.lock({ signal: AbortSignal.abort('gone') })).rejects.toMatchObject({ name: 'AbortError', cause: 'gone' });
+            expect(mutex.isLocked()).toBe(false);
+        });
+
+        it('should remove the waiter from the queue on abort', async () => {
+            const mutex = Mutex(0);
+            const guard = await mutex.lock();
+            const controller = new AbortController();
+            const aborted = mutex.lock({ signal: controller.signal });
+            const next = mutex.lock();
+
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+
+            guard.unlock();
+            const nextGuard = await next;
+            nextGuard.unlock();
+            expect(mutex.isLocked()).toBe(false);
+        });
+
+        it('should not leak the lock when the abort races a wake-up', async () => {
+            const mutex = Mutex(0);
+            const guard = await mutex.lock();
+            const controller = new AbortController();
+            const waiting = mutex.lock({ signal: controller.signal });
+
+            guard.unlock();
+            controller.abort();
+
+            const woken = await waiting;
+            expect(mutex.isLocked()).toBe(true);
+            woken.unlock();
+            expect(mutex.isLocked()).toBe(false);
+        });
+
+        it('withLock(), get(), set() and replace() should not call fn or change the value when aborted', async () => {
+            const mutex = Mutex(1);
+            const fn = vi.fn();
+            const signal = AbortSignal.abort();
+
+            await expect(mutex.withLock(fn, { signal })).rejects.toThrow(AbortError);
+            await expect(mutex.get({ signal })).rejects.toThrow(AbortError);
+            await expect(mutex.set(2, { signal })).rejects.toThrow(AbortError);
+            await expect(mutex.replace(3, { signal })).rejects.toThrow(AbortError);
+            expect(fn).not.toHaveBeenCalled();
+            expect(await mutex.get({ signal: new AbortController().signal })).toBe(1);
+        });
+    });
+
+    describe('lockTimeout', () => {
+        it('should return Some immediately if unlocked', async () => {
+            const mutex = Mutex(42);
+            const guard = (await mutex.lockTimeout(10)).unwrap();
+
+            expect(guard.value).toBe(42);
+            expect(mutex.isLocked()).toBe(true);
+            guard.unlock();
+        });
+
+        it('should return Some if the lock is released in time', async () => {
+            const mutex = Mutex(42);
+            const guard = await mutex.lock();
+            const waiting = mutex.lockTimeout(1000);
+
+            setTimeout(() => guard.unlock(), 5);
+
+            const acquired = (await waiting).unwrap();
+            expect(mutex.isLocked()).toBe(true);
+            acquired.unlock();
+        });
+
+        it('should return None on timeout and never hand the lock to the timed-out waiter', async () => {
+            const mutex = Mutex(42);
+            const guard = await mutex.lock();
+
+            expect(await mutex.lockTimeout(5)).toBe(None);
+
+            guard.unlock();
+            expect(mutex.isLocked()).toBe(false);
+            expect(mutex.tryLock().isSome()).toBe(true);
+        });
+
+        it('should pass the lock to the next waiter after a timeout', async () => {
+            const mutex = Mutex(42);
+            const guard = await mutex.lock();
+            const timedOut = mutex.lockTimeout(5);
+            const next = mutex.lock();
+
+            expect(await timedOut).toBe(None);
+            guard.unlock();
+            (await next).unlock();
+            expect(mutex.isLocked()).toBe(false);
+        });
+
+        it('should reject when the signal aborts before the timeout', async () => {
+            const mutex = Mutex(42);
+            const guard = await mutex.lock();
+            const controller = new AbortController();
+            const waiting = mutex.lockTimeout(1000, { signal: controller.signal });
+
+            controller.abort();
+            await expect(waiting).rejects.toThrow(AbortError);
+            await expect(mutex.lockTimeout(1000, { signal: controller.signal })).rejects.toThrow(AbortError);
+            guard.unlock();
+            expect(mutex.isLocked()).toBe(false);
+        });
+    });
+
+    describe('Symbol.dispose', () => {
+        it('should unlock when a using declaration goes out of scope', async () => {
+            const mutex = Mutex(0);
+            {
+                using guard = await mutex.lock();
+                guard.value = 1;
+                expect(mutex.isLocked()).toBe(true);
+            }
+            expect(mutex.isLocked()).toBe(false);
+            expect(await mutex.get()).toBe(1);
+        });
+
+        it('should unlock when the scope throws', async () => {
+            const mutex = Mutex(0);
+            const update = async (): Promise<void> => {
+                using guard = await mutex.lock();
+                guard.value = 1;
+                throw new Error('boom');
+            };
+
+            await expect(update()).rejects.toThrow('boom');
+            expect(mutex.isLocked()).toBe(false);
+        });
+
+        it('should be a no-op after unlock()', async () => {
+            const mutex = Mutex(0);
+            const guard = await mutex.lock();
+            guard.unlock();
+            const other = await mutex.lock();
+
+            guard[Symbol.dispose]();
+            expect(mutex.isLocked()).toBe(true);
+            other[Symbol.dispose]();
+            expect(mutex.isLocked()).toBe(false);
+        });
+    });
 });
@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from 'vitest';
-import { Err, Ok, OnceAsync } from '../../../src/mod.ts';
+import { AbortError, Err, Ok, OnceAsync, type Result } from '../../../src/mod.ts';
 
 describe('OnceAsync', () => {
     describe('initial state', () => {
@@ -544,4 +544,69 @@ describe('OnceAsync', () => {
             expect(tryInitResult.unwrap()).toBe(1); // Returns existing value
         });
     });
+
+    describe('wait abort', () => {
+        it('should reject immediately with an already aborted signal', async () => {
+            const once = OnceAsync<number>();
+            once.set(1);
+
+            await expect(once.wait({ signal: AbortSignal.abort() })).rejects.toThrow(AbortError);
+        });
+
+        it('should remove the waiter on abort', async () => {
+            const once = OnceAsync<number>();
+            const controller = new AbortController();
+            const aborted = once.wait({ signal: controller.signal });
+            const other = once.wait();
+
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+
+            once.set(1);
+            expect(await other).toBe(1);
+        });
+
+        it('should resolve when initialized before the abort', async () => {
+            const once = OnceAsync<number>();
+            const controller = new AbortController();
+            const waiting = once.wait({ signal: controller.signal });
+
+            once.set(1);
+            controller.abort();
+
+            expect(await waiting).toBe(1);
+        });
+
+        it('should stop waiting for an initialization in progress without cancelling it', async () => {
+            const once = OnceAsync<number>();
+            let resolveInit!: (value: number) => void;
+            const init = once.getOrInit(() => new Promise<number>(resolve => {
+                resolveInit = resolve;
+            }));
+            const controller = new AbortController();
+            const aborted = once.wait({ signal: controller.signal });
+
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+
+            resolveInit(1);
+            expect(await init).toBe(1);
+            expect(once.get().unwrap()).toBe(1);
+        });
+
+        it('should settle like an initialization in progress', async () => {
+            const once = OnceAsync<number>();
+            const signal = new AbortController().signal;
+
+            const pending = once.getOrInit(async () => 1);
+            expect(await once.wait({ signal })).toBe(1);
+            await pending;
+
+            const failing = once.take();
+            expect(failing.unwrap()).toBe(1);
+            const result = once.getOrTryInit(async () => Err('boom'));
+            await expect(once.wait({ signal }).catch((err: Result<number, string>) => err.unwrapErr())).resolves.toBe('boom');
+            expect((await result).unwrapErr()).toBe('boom');
+        });
+    });
 });
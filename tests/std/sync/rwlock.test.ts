@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { RwLock } from '../../../src/mod.ts';
+import { AbortError, None, RwLock } from '../../../src/mod.ts';
 
 describe('RwLock', () => {
     describe('initial state', () => {
@@ -834,4 +834,184 @@ describe('RwLock', () => {
             readGuard.unlock();
         });
     });
+
+    describe('abort', () => {
+        it('should reject immediately with an already aborted signal', async () => {
+            const rwlock = RwLock(1);
+            const signal = AbortSignal.abort();
+
+            await expect(rwlock.read({ signal })).rejects.toThrow(AbortError);
+            await expect(rwlock.write({ signal })).rejects.toThrow(AbortError);
+            await expect(rwlock.withRead(v => v, { signal })).rejects.toThrow(AbortError);
+            await expect(rwlock.withWrite(v => v, { signal })).rejects.toThrow(AbortError);
+            await expect(rwlock.get({ signal })).rejects.toThrow(AbortError);
+            await expect(rwlock.set(2, { signal })).rejects.toThrow(AbortError);
+            await expect(rwlock.replace(2, { signal })).rejects.toThrow(AbortError);
+            expect(rwlock.toString()).toBe('RwLock(<unlocked>)');
+        });
+
+        it('should remove an aborted reader from the queue', async () => {
+            const rwlock = RwLock(1);
+            const writeGuard = await rwlock.write();
+            const controller = new AbortController();
+            const aborted = rwlock.read({ signal: controller.signal });
+
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+
+            writeGuard.unlock();
+            expect(rwlock.readerCount()).toBe(0);
+        });
+
+        it('should let the blocked readers in when the last pending writer aborts', async () => {
+            const rwlock = RwLock(1);
+            const readGuard = await rwlock.read();
+            const controller = new AbortController();
+            const writer = rwlock.write({ signal: controller.signal });
+            const reader = rwlock.read();
+
+            controller.abort();
+            await expect(writer).rejects.toThrow(AbortError);
+
+            const second = await reader;
+            expect(rwlock.readerCount()).toBe(2);
+            second.unlock();
+            readGuard.unlock();
+            expect(rwlock.toString()).toBe('RwLock(<unlocked>)');
+        });
+
+        it('should keep the readers blocked while another writer is pending', async () => {
+            const rwlock = RwLock(1);
+            const writeGuard = await rwlock.write();
+            const controller = new AbortController();
+            const aborted = rwlock.write({ signal: controller.signal });
+            const writer = rwlock.write();
+            const reader = rwlock.read();
+
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+            expect(rwlock.readerCount()).toBe(0);
+
+            writeGuard.unlock();
+            (await writer).unlock();
+            (await reader).unlock();
+            expect(rwlock.toString()).toBe('RwLock(<unlocked>)');
+        });
+
+        it('should not leak the write lock when the abort races a wake-up', async () => {
+            const rwlock = RwLock(1);
+            const readGuard = await rwlock.read();
+            const controller = new AbortController();
+            const writer = rwlock.write({ signal: controller.signal });
+
+            readGuard.unlock();
+            controller.abort();
+
+            const guard = await writer;
+            expect(rwlock.isWriteLocked()).toBe(true);
+            guard.unlock();
+            expect(rwlock.isWriteLocked()).toBe(false);
+        });
+    });
+
+    describe('readTimeout and writeTimeout', () => {
+        it('should return Some immediately if the lock is available', async () => {
+            const rwlock = RwLock(1);
+            const reader = (await rwlock.readTimeout(10)).unwrap();
+
+            expect(reader.value).toBe(1);
+            reader.unlock();
+
+            const writer = (await rwlock.writeTimeout(10)).unwrap();
+            writer.value = 2;
+            writer.unlock();
+            expect(await rwlock.get()).toBe(2);
+        });
+
+        it('should return Some if the lock is released in time', async () => {
+            const rwlock = RwLock(1);
+            const writeGuard = await rwlock.write();
+            const reader = rwlock.readTimeout(1000);
+
+            setTimeout(() => writeGuard.unlock(), 5);
+            const readGuard = (await reader).unwrap();
+
+            const writer = rwlock.writeTimeout(1000);
+            setTimeout(() => readGuard.unlock(), 5);
+            (await writer).unwrap().unlock();
+            expect(rwlock.toString()).toBe('RwLock(<unlocked>)');
+        });
+
+        it('readTimeout() should return None on timeout and never hand the lock afterwards', async () => {
+            const rwlock = RwLock(1);
+            const writeGuard = await rwlock.write();
+
+            expect(await rwlock.readTimeout(5)).toBe(None);
+
+            writeGuard.unlock();
+            expect(rwlock.readerCount()).toBe(0);
+        });
+
+        it('writeTimeout() should stop blocking the readers on timeout', async () => {
+            const rwlock = RwLock(1);
+            const readGuard = await rwlock.read();
+            const writer = rwlock.writeTimeout(5);
+            const reader = rwlock.read();
+
+            expect(await writer).toBe(None);
+            const second = await reader;
+            expect(rwlock.readerCount()).toBe(2);
+
+            second.unlock();
+            readGuard.unlock();
+            expect(rwlock.isWriteLocked()).toBe(false);
+        });
+
+        it('should reject when the signal aborts before the timeout', async () => {
+            const rwlock = RwLock(1);
+            const writeGuard = await rwlock.write();
+            const controller = new AbortController();
+            const reader = rwlock.readTimeout(1000, { signal: controller.signal });
+            const writer = rwlock.writeTimeout(1000, { signal: controller.signal });
+
+            controller.abort();
+            await expect(reader).rejects.toThrow(AbortError);
+            await expect(writer).rejects.toThrow(AbortError);
+            await expect(rwlock.readTimeout(1000, { signal: controller.signal })).rejects.toThrow(AbortError);
+            await expect(rwlock.writeTimeout(1000, { signal: controller.signal })).rejects.toThrow(AbortError);
+
+            writeGuard.unlock();
+            expect(rwlock.toString()).toBe('RwLock(<unlocked>)');
+        });
+    });
+
+    describe('Symbol.dispose', () => {
+        it('should release the guards when using declarations go out of scope', async () => {
+            const rwlock = RwLock(0);
+            {
+                using first = await rwlock.read();
+                using second = await rwlock.read();
+                expect(first.value + second.value).toBe(0);
+                expect(rwlock.readerCount()).toBe(2);
+            }
+            expect(rwlock.readerCount()).toBe(0);
+            {
+                using guard = await rwlock.write();
+                guard.value = 1;
+            }
+            expect(rwlock.isWriteLocked()).toBe(false);
+            expect(await rwlock.get()).toBe(1);
+        });
+
+        it('disposing a downgraded write guard should keep the read lock', async () => {
+            const rwlock = RwLock(0);
+            const writeGuard = await rwlock.write();
+            const readGuard = writeGuard.downgrade();
+
+            writeGuard[Symbol.dispose]();
+            expect(rwlock.readerCount()).toBe(1);
+            readGuard[Symbol.dispose]();
+            expect(rwlock.readerCount()).toBe(0);
+        });
+    });
 });
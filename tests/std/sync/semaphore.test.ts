@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { Semaphore } from '../../../src/mod.ts';
+import { AbortError, None, Semaphore } from '../../../src/mod.ts';
 
 describe('Semaphore', () => {
     describe('initial state', () => {
@@ -302,4 +302,109 @@ describe('Semaphore', () => {
             expect(completed.slice(0, 2)).toEqual(expect.arrayContaining([0, 1]));
         });
     });
+
+    describe('abort', () => {
+        it('should reject immediately with an already aborted signal', async () => {
+            const sem = Semaphore(1);
+
+            await expect(sem.acquire({ signal: AbortSignal.abort() })).rejects.toThrow(AbortError);
+            await expect(sem.withPermit(() => 1, { signal: AbortSignal.abort() })).rejects.toThrow(AbortError);
+            expect(sem.availablePermits()).toBe(1);
+        });
+
+        it('should remove the waiter so that the permit goes to the next one', async () => {
+            const sem = Semaphore(1);
+            const permit = await sem.acquire();
+            const controller = new AbortController();
+            const aborted = sem.acquire({ signal: controller.signal });
+            const next = sem.acquire();
+
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+
+            permit.release();
+            (await next).release();
+            expect(sem.availablePermits()).toBe(1);
+        });
+
+        it('should not leak a permit when the abort races a wake-up', async () => {
+            const sem = Semaphore(1);
+            const permit = await sem.acquire();
+            const controller = new AbortController();
+            const waiting = sem.withPermit(() => 'done', { signal: controller.signal });
+
+            permit.release();
+            controller.abort();
+
+            expect(await waiting).toBe('done');
+            expect(sem.availablePermits()).toBe(1);
+        });
+    });
+
+    describe('acquireTimeout', () => {
+        it('should return Some immediately if a permit is available', async () => {
+            const sem = Semaphore(1);
+            const permit = (await sem.acquireTimeout(10)).unwrap();
+
+            expect(sem.availablePermits()).toBe(0);
+            permit.release();
+            expect(sem.availablePermits()).toBe(1);
+        });
+
+        it('should return Some if a permit is released in time', async () => {
+            const sem = Semaphore(1);
+            const permit = await sem.acquire();
+            const waiting = sem.acquireTimeout(1000);
+
+            setTimeout(() => permit.release(), 5);
+
+            (await waiting).unwrap().release();
+            expect(sem.availablePermits()).toBe(1);
+        });
+
+        it('should return None on timeout without consuming a permit', async () => {
+            const sem = Semaphore(1);
+            const permit = await sem.acquire();
+
+            expect(await sem.acquireTimeout(5)).toBe(None);
+
+            permit.release();
+            expect(sem.availablePermits()).toBe(1);
+        });
+
+        it('should reject when the signal aborts before the timeout', async () => {
+            const sem = Semaphore(0);
+            const controller = new AbortController();
+            const waiting = sem.acquireTimeout(1000, { signal: controller.signal });
+
+            controller.abort();
+            await expect(waiting).rejects.toThrow(AbortError);
+            await expect(sem.acquireTimeout(1000, { signal: controller.signal })).rejects.toThrow(AbortError);
+        });
+    });
+
+    describe('Symbol.dispose', () => {
+        it('should release the permit when a using declaration goes out of scope', async () => {
+            const sem = Semaphore(1);
+            const work = async (): Promise<number> => {
+                using _permit = await sem.acquire();
+                expect(sem.availablePermits()).toBe(0);
+                return 1;
+            };
+
+            expect(await work()).toBe(1);
+            expect(sem.availablePermits()).toBe(1);
+        });
+
+        it('should be idempotent with release()', async () => {
+            const sem = Semaphore(2);
+            const permit = await sem.acquire();
+
+            permit[Symbol.dispose]();
+            permit.release();
+            permit[Symbol.dispose]();
+            expect(sem.availablePermits()).toBe(2);
+            expect(permit.toString()).toBe('SemaphorePermit(<released>)');
+        });
+    });
 });
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { AbortError, WaitGroup } from '../../../src/mod.ts';
+
+describe('WaitGroup', () => {
+    describe('initial state', () => {
+        it('should start with no pending task by default', () => {
+            expect(WaitGroup().count()).toBe(0);
+        });
+
+        it('should start with the given count', () => {
+            expect(WaitGroup(3).count()).toBe(3);
+        });
+
+        it('should have correct Symbol.toStringTag and toString()', () => {
+            const group = WaitGroup(2);
+
+            expect(Object.prototype.toString.call(group)).toBe('[object WaitGroup]');
+            expect(group.toString()).toBe('WaitGroup(2)');
+            expect(Object.isFrozen(group)).toBe(true);
+        });
+    });
+
+    describe('validation', () => {
+        it('should throw RangeError for a negative or non-integer count', () => {
+            expect(() => WaitGroup(-1)).toThrow('WaitGroup count must be a non-negative integer, got -1');
+            expect(() => WaitGroup(0.5)).toThrow(RangeError);
+        });
+
+        it('should throw RangeError for a negative or non-integer add()', () => {
+            const group = WaitGroup();
+
+            expect(() => group.add(-1)).toThrow('WaitGroup.add() argument must be a non-negative integer, got -1');
+            expect(() => group.add(Number.NaN)).toThrow(RangeError);
+            expect(group.count()).toBe(0);
+        });
+
+        it('should panic when done() is called with no pending task', () => {
+            expect(() => WaitGroup().done()).toThrow('WaitGroup.done() called with no pending task');
+        });
+    });
+
+    describe('add and done', () => {
+        it('should add one task by default', () => {
+            const group = WaitGroup();
+
+            group.add();
+            group.add(2);
+            expect(group.count()).toBe(3);
+
+            group.done();
+            expect(group.count()).toBe(2);
+        });
+    });
+
+    describe('wait', () => {
+        it('should resolve immediately with no pending task', async () => {
+            await expect(WaitGroup().wait()).resolves.toBeUndefined();
+        });
+
+        it('should resolve every waiting task once all tasks are done', async () => {
+            const group = WaitGroup();
+            const finished: number[] = [];
+            const released: string[] = [];
+
+            for (const id of [1, 2, 3]) {
+                group.add();
+                setTimeout(() => {
+                    finished.push(id);
+                    group.done();
+                }, id);
+            }
+
+            const waiters = [
+                group.wait().then(() => released.push('a')),
+                group.wait().then(() => released.push('b')),
+            ];
+            await Promise.resolve();
+            expect(released).toEqual([]);
+
+            await Promise.all(waiters);
+            expect(finished).toEqual([1, 2, 3]);
+            expect(released).toEqual(['a', 'b']);
+        });
+
+        it('should work as a countdown latch', async () => {
+            const latch = WaitGroup(2);
+            let opened = false;
+            const waiting = latch.wait().then(() => {
+                opened = true;
+            });
+
+            latch.done();
+            await Promise.resolve();
+            expect(opened).toBe(false);
+
+            latch.done();
+            await waiting;
+            expect(opened).toBe(true);
+        });
+
+        it('should be reusable once the counter is zero', async () => {
+            const group = WaitGroup(1);
+            group.done();
+            await group.wait();
+
+            group.add();
+            let released = false;
+            const waiting = group.wait().then(() => {
+                released = true;
+            });
+            await Promise.resolve();
+            expect(released).toBe(false);
+
+            group.done();
+            await waiting;
+            expect(released).toBe(true);
+        });
+    });
+
+    describe('abort', () => {
+        it('should reject immediately with an already aborted signal', async () => {
+            await expect(WaitGroup().wait({ signal: AbortSignal.abort() })).rejects.toThrow(AbortError);
+        });
+
+        it('should stop waiting without affecting the other waiting tasks', async () => {
+            const group = WaitGroup(1);
+            const controller = new AbortController();
+            const aborted = group.wait({ signal: controller.signal });
+            const waiting = group.wait();
+
+            controller.abort();
+            await expect(aborted).rejects.toThrow(AbortError);
+            expect(group.count()).toBe(1);
+
+            group.done();
+            await expect(waiting).resolves.toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,21 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { matchers, variantEquality } from '../../src/testing/mod.ts';
+
+describe('happy-rusty/testing/jest', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should register the matchers and the equality tester on the global expect', async () => {
+        const jestExpect = {
+            extend: vi.fn(),
+            addEqualityTesters: vi.fn(),
+        };
+        vi.stubGlobal('expect', jestExpect);
+
+        await import('../../src/testing/jest.ts');
+
+        expect(jestExpect.extend).toHaveBeenCalledWith(matchers);
+        expect(jestExpect.addEqualityTesters).toHaveBeenCalledWith([variantEquality]);
+    });
+});
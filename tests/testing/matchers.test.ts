@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { Break, Continue, Err, None, Ok, Some, Valid } from '../../src/mod.ts';
+import { matchers, variantEquality, type MatcherContext } from '../../src/testing/mod.ts';
+import '../../src/testing/vitest.ts';
+
+class NotFound extends Error {
+    override readonly name = 'NotFound';
+}
+
+function context(isNot = false): MatcherContext {
+    return {
+        isNot,
+        equals: (a, b, customTesters) => {
+            // Defer to Vitest's `equals` through an asymmetric matcher
+            return expect.objectContaining({ value: b }).asymmetricMatch({ value: a }, customTesters);
+        },
+        utils: {
+            matcherHint: (name, _received, _expected, options) => `expect(received)${options?.isNot ? '.not' : ''}.${name}()`,
+            EXPECTED_COLOR: text => text,
+            RECEIVED_COLOR: text => text,
+        },
+    };
+}
+
+describe('toBeOk / toBeErr', () => {
+    it('should check the variant', () => {
+        expect(Ok(1)).toBeOk();
+        expect(Err('e')).toBeErr();
+        expect(Err('e')).not.toBeOk();
+        expect(Ok(1)).not.toBeErr();
+        expect(Some(1)).not.toBeOk();
+        expect(null).not.toBeErr();
+    });
+
+    it('should describe the received value', () => {
+        expect(matchers.toBeOk.call(context(), Err({ code: 1 })).message()).toBe([
+            'expect(received).toBeOk()',
+            '',
+            'Expected: Ok',
+            'Received: Err({ code: 1 })',
+        ].join('\n'));
+        expect(matchers.toBeErr.call(context(true), Err('e')).message()).toBe([
+            'expect(received).not.toBeErr()',
+            '',
+            'Expected: not Err',
+            'Received: Err("e")',
+        ].join('\n'));
+        expect(() => expect(42).toBeOk()).toThrow(/Received: .*42/);
+    });
+});
+
+describe('toBeOkWith', () => {
+    it('should compare the contained value recursively', () => {
+        expect(Ok({ a: [1] })).toBeOkWith({ a: [1] });
+        expect(Ok({ a: [1] })).not.toBeOkWith({ a: [2] });
+        expect(Ok(Some(1))).toBeOkWith(Some(1));
+        expect(Ok(Some(1))).not.toBeOkWith(None);
+        expect(Ok({ name: 'Alice', age: 30 })).toBeOkWith(expect.objectContaining({ name: 'Alice' }));
+        expect(Err(1)).not.toBeOkWith(1);
+    });
+
+    it('should report the contained values for the diff', () => {
+        const result = matchers.toBeOkWith.call(context(), Ok({ a: 1 }), { a: 2 });
+
+        expect(result.pass).toBe(false);
+        expect(result.actual).toEqual({ a: 1 });
+        expect(result.expected).toEqual({ a: 2 });
+        expect(result.message()).toContain('Expected: Ok({ a: 2 })\nReceived: Ok({ a: 1 })');
+
+        const wrongVariant = matchers.toBeOkWith.call(context(), Err('e'), 1);
+        expect('actual' in wrongVariant).toBe(false);
+    });
+
+    it('should describe asymmetric matchers', () => {
+        const custom = { asymmetricMatch: () => true, toString: () => 'Custom' };
+
+        expect(matchers.toBeOkWith.call(context(), Ok(1), expect.any(String)).message()).toContain('Expected: Ok(Any<String>)');
+        expect(matchers.toBeOkWith.call(context(), Ok(1), custom).message()).toContain('Expected: Ok(Custom)');
+    });
+});
+
+describe('toBeErrMatching', () => {
+    it('should match the message with a string or a RegExp', () => {
+        expect(Err(new Error('invalid digit found'))).toBeErrMatching('digit');
+        expect(Err(new Error('invalid digit found'))).toBeErrMatching(/^invalid/);
+        expect(Err('timeout after 5s')).toBeErrMatching('timeout');
+        expect(Err('timeout after 5s')).toBeErrMatching(/\d+s$/);
+        expect(Err(new Error('boom'))).not.toBeErrMatching('bang');
+        expect(Err({ message: 'boom' })).not.toBeErrMatching('boom');
+    });
+
+    it('should match the class of the error', () => {
+        expect(Err(new NotFound('missing'))).toBeErrMatching(NotFound);
+        expect(Err(new NotFound('missing'))).toBeErrMatching(Error);
+        expect(Err(new Error('missing'))).not.toBeErrMatching(NotFound);
+    });
+
+    it('should match the properties of the error', () => {
+        expect(Err({ _tag: 'NotFound', id: 42, extra: true })).toBeErrMatching({ _tag: 'NotFound', id: 42 });
+        expect(Err(new NotFound('missing'))).toBeErrMatching({ message: 'missing', name: 'NotFound' });
+        expect(Err({ cause: Some(1) })).toBeErrMatching({ cause: Some(1) });
+        expect(Err({ id: 1 })).not.toBeErrMatching({ id: 2 });
+        expect(Err('text')).not.toBeErrMatching({ length: 4 });
+        expect(Err(null)).not.toBeErrMatching({});
+    });
+
+    it('should fail for other values', () => {
+        expect(Ok(new Error('boom'))).not.toBeErrMatching('boom');
+        expect('boom').not.toBeErrMatching('boom');
+    });
+
+    it('should describe the expectation', () => {
+        expect(matchers.toBeErrMatching.call(context(), Ok(1), NotFound).message()).toContain('Expected: Err matching NotFound');
+        expect(matchers.toBeErrMatching.call(context(), Ok(1), class { value = 1; }).message()).toContain('Expected: Err matching (anonymous class)');
+        expect(matchers.toBeErrMatching.call(context(), Ok(1), /a/).message()).toContain('Expected: Err matching /a/');
+
+        const result = matchers.toBeErrMatching.call(context(), Err({ id: 1 }), { id: 2 });
+        expect(result.actual).toEqual({ id: 1 });
+        expect(result.expected).toEqual({ id: 2 });
+    });
+});
+
+describe('toBeSome / toBeNone', () => {
+    it('should check the variant and optionally the contained value', () => {
+        expect(Some(1)).toBeSome();
+        expect(Some(undefined)).toBeSome();
+        expect(Some(undefined)).toBeSome(undefined);
+        expect(Some(1)).not.toBeSome(undefined);
+        expect(Some({ a: 1 })).toBeSome({ a: 1 });
+        expect(None).not.toBeSome();
+        expect(None).toBeNone();
+        expect(Some(1)).not.toBeNone();
+        expect(Ok(1)).not.toBeSome();
+    });
+
+    it('should describe the expectation', () => {
+        expect(matchers.toBeSome.call(context(), None, 1).message()).toContain('Expected: Some(1)\nReceived: None');
+        expect(matchers.toBeNone.call(context(), Some([1])).message()).toContain('Expected: None\nReceived: Some([1])');
+    });
+});
+
+describe('toBeBreak', () => {
+    it('should check the variant and optionally the contained value', () => {
+        expect(Break('done')).toBeBreak();
+        expect(Break('done')).toBeBreak('done');
+        expect(Break('done')).not.toBeBreak('other');
+        expect(Continue()).not.toBeBreak();
+    });
+});
+
+describe('asymmetric matchers', () => {
+    it('should be usable inside toEqual', () => {
+        expect({ user: Some({ name: 'Alice' }), saved: Ok(1) }).toEqual({
+            user: expect.toBeSome({ name: 'Alice' }),
+            saved: expect.toBeOk(),
+        });
+        expect([Err(new NotFound('missing')), None]).toEqual([expect.toBeErrMatching(NotFound), expect.toBeNone()]);
+        expect({ flow: Break(1) }).not.toEqual({ flow: expect.toBeOkWith(1) });
+    });
+});
+
+describe('variantEquality', () => {
+    it('should make toEqual compare variants by value', () => {
+        expect(Some({ a: 1 })).toEqual(Some({ a: 1 }));
+        expect({ list: [Ok(1), Err('e')] }).toEqual({ list: [Ok(1), Err('e')] });
+        expect(Some(1)).not.toEqual(Some(2));
+        expect(Ok(1)).not.toEqual(Err(1));
+        expect(Valid(1)).not.toEqual(Some(1));
+        expect(None).not.toEqual({});
+        expect({}).not.toEqual(None);
+    });
+
+    it('should leave other values to the next tester', () => {
+        const equals = (): boolean => true;
+
+        expect(variantEquality.call({ equals }, 1, 1, [])).toBeUndefined();
+        expect(variantEquality.call({ equals }, Some(1), 1, [])).toBe(false);
+        expect(variantEquality.call({ equals }, Some(1), Some(2), [])).toBe(true);
+    });
+});
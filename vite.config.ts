@@ -7,17 +7,26 @@ export default defineConfig({
         sourcemap: true,
         outDir: 'dist',
         lib: {
-            entry: 'src/mod.ts',
-            fileName: format => `main.${format === 'esm' ? 'mjs' : 'cjs'}`,
+            // Built together so that the entries share the symbols identifying `Result`, `Option`, ...
+            entry: {
+                main: 'src/mod.ts',
+                testing: 'src/testing/mod.ts',
+                vitest: 'src/testing/vitest.ts',
+                jest: 'src/testing/jest.ts',
+            },
+            fileName: (format, entryName) => `${entryName}.${format === 'esm' ? 'mjs' : 'cjs'}`,
         },
         rollupOptions: {
+            external: ['vitest'],
             output: [
                 {
                     format: 'cjs',
+                    chunkFileNames: 'chunks/[name]-[hash].cjs',
                     topLevelVar: false,
                 },
                 {
                     format: 'esm',
+                    chunkFileNames: 'chunks/[name]-[hash].mjs',
                     topLevelVar: false,
                 },
             ],